@@ -2,6 +2,9 @@
 -- SERVICES DOOMSDAY - DATABASE SCHEMA
 -- ============================================================================
 --
+-- MIGRATION 0001: Initial schema. Later changes go in new numbered files in
+-- this directory - never edit an applied migration (checksums are verified).
+--
 -- TABLES:
 --   watchers             → Repository monitors with LLM analysis context
 --   zombie_candidates    → Code entities tracked for zombie detection
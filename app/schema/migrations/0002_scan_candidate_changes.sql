@@ -0,0 +1,31 @@
+-- ============================================================================
+-- MIGRATION 0002: Per-scan candidate diff
+-- ============================================================================
+--
+-- scan_candidate_changes → One row per candidate signature a scan added,
+--                          updated (file moved / metadata changed) or removed.
+--                          Written by W1 Creation (all 'added') and W1 Rescan.
+--
+-- Comparing two scans replays the changes recorded between them, so no full
+-- candidate snapshot is stored per scan.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS scan_candidate_changes (
+    change_id SERIAL PRIMARY KEY,
+    scan_id INTEGER NOT NULL REFERENCES scan_history(scan_id) ON DELETE CASCADE,
+    watcher_id VARCHAR(255) NOT NULL REFERENCES watchers(watcher_id) ON DELETE CASCADE,
+
+    change_type VARCHAR(10) NOT NULL CHECK (change_type IN ('added', 'updated', 'removed')),
+    entity_type VARCHAR(50) NOT NULL,
+    entity_signature VARCHAR(500) NOT NULL,
+    entity_name VARCHAR(500),
+    file_path TEXT,
+    previous_file_path TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_changes_scan ON scan_candidate_changes(scan_id);
+CREATE INDEX IF NOT EXISTS idx_scan_changes_watcher_sig
+    ON scan_candidate_changes(watcher_id, entity_type, entity_signature, scan_id);
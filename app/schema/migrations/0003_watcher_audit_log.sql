@@ -0,0 +1,25 @@
+-- ============================================================================
+-- MIGRATION 0003: Watcher audit log
+-- ============================================================================
+--
+-- watcher_audit_log → Who changed a watcher's settings and what changed.
+--                     decision_log is per candidate, so watcher-level edits
+--                     (PATCH /api/watchers/[id]) are recorded here.
+--
+-- changes holds { field: { from, to } }; secrets are stored as fingerprints.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS watcher_audit_log (
+    audit_id SERIAL PRIMARY KEY,
+    watcher_id VARCHAR(255) NOT NULL REFERENCES watchers(watcher_id) ON DELETE CASCADE,
+
+    action VARCHAR(50) NOT NULL,
+    actor_id VARCHAR(255) NOT NULL,
+    actor_email VARCHAR(255),
+
+    changes JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_watcher_audit_watcher ON watcher_audit_log(watcher_id, created_at DESC);
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- MIGRATION 0004: Watcher exclusion rules
+-- ============================================================================
+--
+-- watcher_exclusion_rules → Per-watcher allowlist of entities that must never
+--                           be killed (health checks, webhook receivers,
+--                           break-glass endpoints, disaster-recovery crons).
+--
+-- rule_type decides which candidate field the pattern is matched against:
+--   path_glob        → route_path        (e.g. /api/health/**)
+--   signature_regex  → entity_signature  (e.g. ^cron:.*backup)
+--   entity_type      → entity_type       (exact, e.g. websocket)
+--   file_glob        → file_path         (e.g. src/admin/**)
+--
+-- W1 and rescans re-apply the rules after storing candidates, and the web app
+-- re-applies them whenever a rule changes. Matching candidates get
+-- is_protected = TRUE and the first matching rule in protected_by_rule_id.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS watcher_exclusion_rules (
+    rule_id SERIAL PRIMARY KEY,
+    watcher_id VARCHAR(255) NOT NULL REFERENCES watchers(watcher_id) ON DELETE CASCADE,
+
+    rule_type VARCHAR(30) NOT NULL
+        CHECK (rule_type IN ('path_glob', 'signature_regex', 'entity_type', 'file_glob')),
+    pattern TEXT NOT NULL,
+    reason TEXT,
+
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_exclusion_rule UNIQUE (watcher_id, rule_type, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exclusion_rules_watcher ON watcher_exclusion_rules(watcher_id);
+
+ALTER TABLE zombie_candidates
+    ADD COLUMN IF NOT EXISTS is_protected BOOLEAN DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS protected_by_rule_id INTEGER
+        REFERENCES watcher_exclusion_rules(rule_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_candidates_protected ON zombie_candidates(watcher_id) WHERE is_protected;
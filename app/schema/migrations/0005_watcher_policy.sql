@@ -0,0 +1,23 @@
+-- ============================================================================
+-- MIGRATION 0005: Repository policy file (.doomsday.yml)
+-- ============================================================================
+--
+-- W1 and rescans read an optional .doomsday.yml (or .doomsday.yaml) from the
+-- repository root and store it verbatim on the watcher; the web app parses
+-- and validates it on read (lib/policy.ts).
+--
+-- The file's exclusions are synced into watcher_exclusion_rules with
+-- source = 'policy' on every scan. They can only be changed in the file;
+-- rules added in the dashboard keep source = 'manual'.
+--
+-- ============================================================================
+
+ALTER TABLE watchers
+    ADD COLUMN IF NOT EXISTS policy_source TEXT,
+    ADD COLUMN IF NOT EXISTS policy_path VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS policy_commit VARCHAR(40),
+    ADD COLUMN IF NOT EXISTS policy_loaded_at TIMESTAMPTZ;
+
+ALTER TABLE watcher_exclusion_rules
+    ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'manual'
+        CHECK (source IN ('manual', 'policy'));
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- MIGRATION 0006: One-time email action tokens
+-- ============================================================================
+--
+-- Email action links now open a confirmation page; only the POST from that
+-- page carries out the action. The first successful POST stamps the token's
+-- email_threads row so the same link cannot act twice. Later attempts are
+-- refused and recorded in decision_log as action_type = 'action_link_replay'.
+--
+-- ============================================================================
+
+ALTER TABLE email_threads
+    ADD COLUMN IF NOT EXISTS token_used_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS token_used_action VARCHAR(20);
@@ -0,0 +1,19 @@
+-- ============================================================================
+-- MIGRATION 0007: Candidate list indexes
+-- ============================================================================
+--
+-- GET /api/watchers/[id]/candidates pages through a watcher's candidates with
+-- a keyset on (sort value, candidate_id). One index per sort keeps each page
+-- an index range scan, even for watchers with thousands of candidates. The
+-- expressions must match SORT_KEYS in that route.
+--
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_candidates_list_score
+    ON zombie_candidates(watcher_id, (COALESCE(final_zombie_score, zombie_score, 0)), candidate_id);
+
+CREATE INDEX IF NOT EXISTS idx_candidates_list_last_traffic
+    ON zombie_candidates(watcher_id, (COALESCE(last_traffic_at, 'epoch'::timestamptz)), candidate_id);
+
+CREATE INDEX IF NOT EXISTS idx_candidates_list_discovered
+    ON zombie_candidates(watcher_id, discovered_at, candidate_id);
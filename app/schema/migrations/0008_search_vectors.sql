@@ -0,0 +1,40 @@
+-- ============================================================================
+-- MIGRATION 0008: Full-text search vectors
+-- ============================================================================
+--
+-- Generated tsvector columns behind GET /api/search, the dashboard's
+-- cross-watcher search. Everything uses the 'simple' configuration (no
+-- stemming) and punctuation is turned into spaces first, so a path such as
+-- /api/v1/upi-payment is indexed as api, v1, upi and payment and any of
+-- those words finds it. The search route normalises queries the same way.
+--
+-- Weights: A = signature / route path / watcher name, B = queue, file path,
+-- repository description, C = LLM purpose.
+--
+-- ============================================================================
+
+ALTER TABLE zombie_candidates
+    ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', regexp_replace(
+            COALESCE(entity_signature, '') || ' ' || COALESCE(route_path, ''),
+            '[^[:alnum:]]+', ' ', 'g')), 'A') ||
+        setweight(to_tsvector('simple', regexp_replace(
+            COALESCE(queue_name, '') || ' ' || COALESCE(file_path, ''),
+            '[^[:alnum:]]+', ' ', 'g')), 'B') ||
+        setweight(to_tsvector('simple', regexp_replace(
+            COALESCE(llm_purpose, ''),
+            '[^[:alnum:]]+', ' ', 'g')), 'C')
+    ) STORED;
+
+ALTER TABLE watchers
+    ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', regexp_replace(
+            COALESCE(watcher_name, '') || ' ' || COALESCE(repo_name, ''),
+            '[^[:alnum:]]+', ' ', 'g')), 'A') ||
+        setweight(to_tsvector('simple', regexp_replace(
+            COALESCE(repo_description, ''),
+            '[^[:alnum:]]+', ' ', 'g')), 'B')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_candidates_search ON zombie_candidates USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_watchers_search ON watchers USING GIN (search_vector);
@@ -0,0 +1,41 @@
+-- ============================================================================
+-- MIGRATION 0009: Candidate score history
+-- ============================================================================
+--
+-- zombie_candidates keeps only the current zombie_score / zombie_verdict and
+-- the last 10 observation_log entries. candidate_score_history gets a row
+-- every time either changes, from:
+--   w1_workflow  → initial score of a newly discovered candidate
+--   w2_workflow  → observation score and verdict (unknown/suspect/zombie/healthy)
+--   w3_workflow  → final score and verdict from the LLM analysis
+--   bulk         → reset_verdict back to 0 / unknown
+--   watch_more   → score lowered by 20 when review is put off (dashboard or email)
+-- Existing candidates start with one 'migration' row holding their current
+-- values. Read by GET /api/candidates/[id]/score-history.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS candidate_score_history (
+    history_id BIGSERIAL PRIMARY KEY,
+    candidate_id INTEGER NOT NULL REFERENCES zombie_candidates(candidate_id) ON DELETE CASCADE,
+    watcher_id VARCHAR(255) NOT NULL REFERENCES watchers(watcher_id) ON DELETE CASCADE,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    zombie_score INTEGER NOT NULL,
+    zombie_verdict VARCHAR(50) NOT NULL,
+    previous_score INTEGER,
+    previous_verdict VARCHAR(50),
+
+    source VARCHAR(50) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_history_candidate_time
+    ON candidate_score_history(candidate_id, recorded_at);
+
+INSERT INTO candidate_score_history (candidate_id, watcher_id, recorded_at, zombie_score, zombie_verdict, source)
+SELECT zc.candidate_id, zc.watcher_id, COALESCE(zc.last_observed_at, zc.updated_at, NOW()),
+       COALESCE(zc.zombie_score, 0), COALESCE(zc.zombie_verdict, 'unknown'), 'migration'
+FROM zombie_candidates zc
+WHERE NOT EXISTS (
+    SELECT 1 FROM candidate_score_history h WHERE h.candidate_id = zc.candidate_id
+);
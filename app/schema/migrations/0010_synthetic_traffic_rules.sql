@@ -0,0 +1,52 @@
+-- ============================================================================
+-- MIGRATION 0010: Synthetic traffic rules
+-- ============================================================================
+--
+-- watcher_synthetic_traffic_rules → Per-watcher rules for requests that are
+--                                   not real usage: liveness / readiness
+--                                   probes, load balancer health checks,
+--                                   uptime monitors.
+--
+-- rule_type decides what the pattern is matched against (lib/synthetic-traffic.ts):
+--   user_agent  → user agent label   (regex, e.g. ^kube-probe/)
+--   ip_range    → client IP label    (CIDR, e.g. 10.0.0.0/8)
+--   label       → label_name         (regex, e.g. job = blackbox)
+--   probe_path  → route / path label (glob, e.g. /healthz)
+-- label_name is '' when the rule reads the default labels for its type.
+--
+-- W2 stores every request in observation_events.raw_request_count and the
+-- ones no rule matched in real_request_count; observation_summaries gets the
+-- real total next to total_request_count, and scoring uses it.
+--
+-- real_request_count was never written before this migration, so existing
+-- events with traffic get NULL (unfiltered) instead of the default 0.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS watcher_synthetic_traffic_rules (
+    rule_id SERIAL PRIMARY KEY,
+    watcher_id VARCHAR(255) NOT NULL REFERENCES watchers(watcher_id) ON DELETE CASCADE,
+
+    rule_type VARCHAR(30) NOT NULL
+        CHECK (rule_type IN ('user_agent', 'ip_range', 'label', 'probe_path')),
+    label_name VARCHAR(100) NOT NULL DEFAULT '',
+    pattern TEXT NOT NULL,
+    reason TEXT,
+
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_synthetic_rule UNIQUE (watcher_id, rule_type, label_name, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_synthetic_rules_watcher ON watcher_synthetic_traffic_rules(watcher_id);
+
+ALTER TABLE observation_events ALTER COLUMN real_request_count DROP DEFAULT;
+
+UPDATE observation_events
+SET real_request_count = NULL
+WHERE real_request_count = 0 AND raw_request_count <> 0;
+
+ALTER TABLE observation_summaries
+    ADD COLUMN IF NOT EXISTS real_request_count INTEGER;
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- MIGRATION 0011: OTLP trace ingestion
+-- ============================================================================
+--
+-- Services that emit OpenTelemetry traces can push them to
+-- POST /api/ingest/otlp/v1/traces instead of being polled. Each watcher gets
+-- its own ingest key; only its SHA-256 hash and a masked fingerprint are
+-- stored, the key itself is shown once when generated (lib/ingest-keys.ts).
+--
+-- Matched spans are written to observation_events with source_type 'otlp' as
+-- they arrive, and the candidate's last_traffic_at moves immediately. W2 then
+-- reads those events back as one more source when it summarizes and scores,
+-- and treats the source as errored once nothing has been received for a
+-- whole observation window.
+--
+-- ============================================================================
+
+ALTER TABLE watchers
+    ADD COLUMN IF NOT EXISTS otlp_key_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS otlp_key_fingerprint VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS otlp_key_created_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS otlp_last_received_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_watchers_otlp_key_hash
+    ON watchers(otlp_key_hash) WHERE otlp_key_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_obs_candidate_source
+    ON observation_events(candidate_id, source_type, observed_at DESC);
@@ -0,0 +1,43 @@
+-- ============================================================================
+-- MIGRATION 0012: Access log imports
+-- ============================================================================
+--
+-- access_log_imports → One row per access log file uploaded to
+--                      POST /api/watchers/[id]/logs/import (nginx / Apache
+--                      combined, AWS ALB or JSON lines, lib/access-logs.ts).
+--
+-- Requests are matched to candidates and written to observation_events with
+-- source_type 'access_log', one row per candidate and hour (observed_at is
+-- the start of the hour); import_id is their observation_batch_id. Candidates
+-- with real traffic in the file get has_traffic, last_traffic_at (the latest
+-- matched request) and traffic_count from the import.
+--
+-- file_sha256 is the hash of the uploaded bytes; uploading the same file
+-- twice for a watcher is refused instead of counting its requests again.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS access_log_imports (
+    import_id VARCHAR(36) PRIMARY KEY,
+    watcher_id VARCHAR(255) NOT NULL REFERENCES watchers(watcher_id) ON DELETE CASCADE,
+
+    file_name VARCHAR(255),
+    file_sha256 VARCHAR(64) NOT NULL,
+    log_format VARCHAR(20) NOT NULL CHECK (log_format IN ('combined', 'alb', 'json')),
+
+    line_count INTEGER NOT NULL DEFAULT 0,
+    parsed_count INTEGER NOT NULL DEFAULT 0,
+    matched_count INTEGER NOT NULL DEFAULT 0,
+    synthetic_count INTEGER NOT NULL DEFAULT 0,
+    event_count INTEGER NOT NULL DEFAULT 0,
+    first_request_at TIMESTAMPTZ,
+    last_request_at TIMESTAMPTZ,
+    unmatched_samples JSONB DEFAULT '[]'::jsonb,
+
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_access_log_import UNIQUE (watcher_id, file_sha256)
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_log_imports_watcher ON access_log_imports(watcher_id, created_at DESC);
@@ -6,20 +6,23 @@
  *   - Authentication guard (redirects to /login if not authenticated)
  *   - Spotlight background effect
  *   - Custom cursor
- *   - Floating dock navigation (Home, Watchers, Logout)
+ *   - Floating dock navigation (Home, Watchers, Search, Logout)
+ *   - Command palette search across watchers (Cmd+K / Ctrl+K)
  */
 "use client";
 
 import { useAuth } from "@/contexts/AuthContext";
 import { useRouter, usePathname } from "next/navigation";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { AnimatePresence } from "framer-motion";
 import { signOut } from "firebase/auth";
 import { auth } from "@/lib/firebase";
 import { Spotlight } from "@/components/ui/spotlight-new";
 import { FloatingDock } from "@/components/ui/floating-dock";
 import { CustomCursor } from "@/components/ui/CustomCursor";
 import { DoomLoader } from "@/components/ui/DoomLoader";
-import { Home, Eye, LogOut } from "lucide-react";
+import { CommandPalette } from "@/components/ui/CommandPalette";
+import { Home, Eye, Search, LogOut } from "lucide-react";
 
 export default function DashboardLayout({
   children,
@@ -29,6 +32,7 @@ export default function DashboardLayout({
   const { user, loading } = useAuth();
   const router = useRouter();
   const pathname = usePathname();
+  const [searchOpen, setSearchOpen] = useState(false);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -36,6 +40,18 @@ export default function DashboardLayout({
     }
   }, [user, loading, router]);
 
+  // Cmd+K / Ctrl+K toggles the command palette
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   const handleLogout = async () => {
     try {
       await signOut(auth);
@@ -57,6 +73,12 @@ export default function DashboardLayout({
       href: "/watchers",
       variant: "watcher" as const,
     },
+    {
+      title: "Search (⌘K)",
+      icon: <Search className="w-full h-full" />,
+      href: "#",
+      onClick: () => setSearchOpen(true),
+    },
     {
       title: "Logout",
       icon: <LogOut className="w-full h-full" />,
@@ -125,6 +147,11 @@ export default function DashboardLayout({
           mobileClassName=""
         />
       </div>
+
+      {/* Command Palette */}
+      <AnimatePresence>
+        {searchOpen && <CommandPalette userId={user.uid} onClose={() => setSearchOpen(false)} />}
+      </AnimatePresence>
     </div>
   );
 }
@@ -5,8 +5,10 @@
  *   - Entity metadata (type, signature, file path, method)
  *   - Observation stats (total observations, traffic, errors)
  *   - Zombie score with risk assessment
- *   - Recent observation events timeline
- *   - Actions: Schedule, Pause/Resume, Kill Zombie (PR creation)
+ *   - Recent observation events, real vs raw (with synthetic) traffic
+ *   - Source probe: runs each source's observation query on demand
+ *   - Decision timeline (scans, verdict changes, decisions, pause/resume)
+ *   - Actions: Schedule, Pause/Resume, Watch More, Kill Zombie (PR creation)
  */
 "use client";
 
@@ -34,6 +36,7 @@ import {
     Calendar,
     FileCode,
     GitBranch,
+    GitCommit,
     ExternalLink,
     PlayCircle,
     PauseCircle,
@@ -42,10 +45,16 @@ import {
     Zap,
     Skull,
     Loader2,
+    Shield,
+    Eye,
 } from "lucide-react";
 import { TrafficChart } from "@/components/ui/TrafficChart";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { KillSuccessDialog } from "@/components/ui/KillSuccessDialog";
+import { CandidateTimeline } from "@/components/watchers/CandidateTimeline";
+import { ScoreExplanation } from "@/components/watchers/ScoreExplanation";
+import { SourceProbe } from "@/components/watchers/SourceProbe";
+import { ExtensionChoice, ExtensionPicker, extensionBody } from "@/components/watchers/ExtensionPicker";
 
 // Types
 interface CandidateDetails {
@@ -71,6 +80,7 @@ interface CandidateDetails {
   analysisPeriodHours: number | null;
   nextObservationAt: string | null;
   observationEndAt: string | null;
+  extendedObservationDays: number;
   firstObservedAt: string | null;
   lastObservedAt: string | null;
   observationCount: number;
@@ -78,10 +88,12 @@ interface CandidateDetails {
   lastTrafficAt: string | null;
   trafficCount: number;
   zombieScore: number;
+  isProtected: boolean;
+  protectedBy: { ruleType: string; pattern: string; reason: string | null } | null;
   discoveredAt: string;
   updatedAt: string;
   applicationUrl: string | null;
-  observabilityUrls: Record<string, string> | null;
+  observabilityUrls: { type: string; url: string; userId?: string | null; tokenFingerprint: string | null }[] | null;
   repoUrl: string;
   repoName: string;
 }
@@ -102,11 +114,17 @@ interface ObservationEvent {
   httpStatus: number | null;
   responseTimeMs: number | null;
   trafficDetected: boolean;
-  requestCount: number | null;
+  requestCount: number | null; // Real requests
+  rawRequestCount: number | null; // Including synthetic traffic
   errorType: string | null;
   errorMessage: string | null;
 }
 
+interface ScoreHistory {
+  points: Array<{ recordedAt: string; score: number; verdict: string; source: string }>;
+  verdictChanges: Array<{ recordedAt: string; verdict: string; score: number; source: string }>;
+}
+
 export default function CandidateDetailPage() {
   const { user, loading: authLoading, githubToken: authGithubToken } = useAuth();
   const params = useParams();
@@ -120,6 +138,7 @@ export default function CandidateDetailPage() {
   const [candidate, setCandidate] = useState<CandidateDetails | null>(null);
   const [stats, setStats] = useState<ObservationStats | null>(null);
   const [events, setEvents] = useState<ObservationEvent[]>([]);
+  const [scoreHistory, setScoreHistory] = useState<ScoreHistory | null>(null);
   const [showAllEvents, setShowAllEvents] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
@@ -130,6 +149,9 @@ export default function CandidateDetailPage() {
   const [showKillConfirm, setShowKillConfirm] = useState(false);
   const [killSuccessOpen, setKillSuccessOpen] = useState(false);
   const [killExecutionId, setKillExecutionId] = useState("");
+  const [showExtendForm, setShowExtendForm] = useState(false);
+  const [extension, setExtension] = useState<ExtensionChoice>({ extension: "2d", until: "" });
+  const [extendError, setExtendError] = useState<string | null>(null);
   const hasAnimated = useRef(false);
 
   const fetchCandidate = useCallback(async (isRefresh = false) => {
@@ -138,7 +160,10 @@ export default function CandidateDetailPage() {
     try {
       if (!isRefresh) setLoading(true);
       if (isRefresh) setRefreshing(true);
-      const response = await fetch(`/api/candidates/${candidateId}?userId=${user.uid}`);
+      const [response, historyResponse] = await Promise.all([
+        fetch(`/api/candidates/${candidateId}?userId=${user.uid}`),
+        fetch(`/api/candidates/${candidateId}/score-history?userId=${user.uid}`),
+      ]);
       const data = await response.json();
 
       if (!response.ok) {
@@ -148,6 +173,8 @@ export default function CandidateDetailPage() {
       setCandidate(data.candidate);
       setStats(data.observationStats);
       setEvents(data.recentEvents || []);
+      // The chart still shows traffic without the score overlay
+      setScoreHistory(historyResponse.ok ? await historyResponse.json() : null);
       hasAnimated.current = true;
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
@@ -236,6 +263,32 @@ export default function CandidateDetailPage() {
     }
   };
 
+  const handleExtend = async () => {
+    if (!candidate || !user?.uid) return;
+
+    setActionLoading(true);
+    setExtendError(null);
+    try {
+      const response = await fetch(`/api/candidates/${candidateId}/extend`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: user.uid, ...extensionBody(extension) }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to extend observation");
+      }
+
+      setShowExtendForm(false);
+      await fetchCandidate();
+    } catch (err) {
+      setExtendError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const handleKillZombie = async (token?: string) => {
     if (!candidate || !user?.uid) return;
 
@@ -460,8 +513,31 @@ export default function CandidateDetailPage() {
                   Opted out
                 </div>
               )}
+              {(candidate.status === "pending_review" || candidate.status === "active") && candidate.scanFrequencyMinutes && (
+                <button
+                  onClick={() => setShowExtendForm(true)}
+                  disabled={actionLoading}
+                  className="px-4 py-2 text-sm font-medium text-amber-400 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                  title="Extend the observation period"
+                >
+                  <Eye className="w-4 h-4" />
+                  Watch More
+                </button>
+              )}
               {/* Kill Zombie Button - for pending_review, confirmed_zombie, or high-risk active */}
-              {(candidate.status === "pending_review" || 
+              {candidate.isProtected && (
+                <div
+                  className="px-3 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/5 border border-emerald-500/20 rounded-lg flex items-center gap-2"
+                  title={candidate.protectedBy
+                    ? `${candidate.protectedBy.pattern}${candidate.protectedBy.reason ? ` - ${candidate.protectedBy.reason}` : ""}`
+                    : undefined}
+                >
+                  <Shield className="w-4 h-4" />
+                  Protected
+                </div>
+              )}
+              {!candidate.isProtected &&
+                (candidate.status === "pending_review" || 
                 candidate.status === "confirmed_zombie" ||
                 (candidate.status === "active" && candidate.zombieScore >= 70)) && (
                 <button
@@ -545,6 +621,51 @@ export default function CandidateDetailPage() {
           </motion.div>
         )}
 
+        {/* Watch More Form */}
+        {showExtendForm && (candidate.status === "pending_review" || candidate.status === "active") && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-6 bg-zinc-900/50 border border-amber-500/30 rounded-xl p-5"
+          >
+            <h3 className="text-white font-semibold mb-1 flex items-center gap-2">
+              <Eye className="w-5 h-5 text-amber-400" />
+              Watch More
+            </h3>
+            <p className="text-sm text-zinc-500 mb-4">
+              {candidate.status === "active" && candidate.observationEndAt
+                ? `Extends the current observation, which ends ${formatDate(candidate.observationEndAt)}.`
+                : "Resumes observation from now instead of deciding on this candidate."}
+              {" "}Scanned every {candidate.scanFrequencyMinutes} min.
+            </p>
+            <ExtensionPicker value={extension} onChange={setExtension} disabled={actionLoading} />
+            {extendError && <p className="text-xs text-red-400 mt-3">{extendError}</p>}
+            <div className="flex items-center gap-3 mt-4">
+              <button
+                onClick={handleExtend}
+                disabled={actionLoading || (extension.extension === "until" && !extension.until)}
+                className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white font-medium rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {actionLoading ? (
+                  <span className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                ) : (
+                  <Eye className="w-4 h-4" />
+                )}
+                Extend Observation
+              </button>
+              <button
+                onClick={() => {
+                  setShowExtendForm(false);
+                  setExtendError(null);
+                }}
+                className="px-4 py-2 text-zinc-400 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </motion.div>
+        )}
+
         {/* Schedule Form for Pending Candidates */}
         {showScheduleForm && candidate.status === "pending" && (
           <motion.div
@@ -770,6 +891,11 @@ export default function CandidateDetailPage() {
                           ? formatRelativeTime(candidate.observationEndAt)
                           : formatFutureTime(candidate.observationEndAt)}
                       </p>
+                      {candidate.extendedObservationDays > 0 && (
+                        <p className="text-xs text-amber-400/80 mt-0.5">
+                          Extended {candidate.extendedObservationDays}d
+                        </p>
+                      )}
                     </div>
                   </div>
                 )}
@@ -797,7 +923,13 @@ export default function CandidateDetailPage() {
               </div>
 
               {/* Traffic Chart */}
-              <TrafficChart events={events} zombieScore={candidate.zombieScore} />
+              <TrafficChart
+                candidateId={candidateId}
+                zombieScore={candidate.zombieScore}
+                scoreHistory={scoreHistory}
+                refreshKey={candidate.updatedAt}
+              />
+              <SourceProbe candidateId={candidateId} />
             </AnimatedCard>
 
             {/* LLM Analysis */}
@@ -821,6 +953,9 @@ export default function CandidateDetailPage() {
                     )}
                   </div>
                   <RiskScore score={candidate.zombieScore / 100} />
+                  <div className="mt-2">
+                    <ScoreExplanation candidateId={candidateId} refreshKey={candidate.updatedAt} />
+                  </div>
                 </div>
 
                 {candidate.llmPurpose && (
@@ -849,6 +984,18 @@ export default function CandidateDetailPage() {
                 </div>
               </div>
             </AnimatedCard>
+
+            {/* Decision Timeline */}
+            <AnimatedCard
+              initialAnimation={!hasAnimated.current}
+              delay={0.5}
+            >
+              <div className="flex items-center gap-2 mb-5">
+                <GitCommit className="w-5 h-5 text-emerald-400" />
+                <h2 className="font-semibold text-white">Decision Timeline</h2>
+              </div>
+              <CandidateTimeline candidateId={candidateId} refreshKey={candidate.updatedAt} />
+            </AnimatedCard>
           </div>
 
           {/* Sidebar - Right Column */}
@@ -912,6 +1059,11 @@ export default function CandidateDetailPage() {
                           <p className="text-[10px] text-zinc-600 mt-1">
                             {formatRelativeTime(event.observedAt)}
                             {event.responseTimeMs && ` · ${event.responseTimeMs}ms`}
+                            {!event.errorType && event.rawRequestCount !== null && event.rawRequestCount > 0 && (
+                              event.rawRequestCount !== event.requestCount
+                                ? ` · ${event.requestCount ?? 0} real / ${event.rawRequestCount} raw`
+                                : ` · ${event.rawRequestCount} req`
+                            )}
                           </p>
                         </div>
                       </div>
@@ -1031,7 +1183,7 @@ export default function CandidateDetailPage() {
             >
               <div className="flex items-center gap-2 mb-4">
                 <Clock className="w-5 h-5 text-zinc-400" />
-                <h2 className="font-semibold text-white">Timeline</h2>
+                <h2 className="font-semibold text-white">Key Dates</h2>
               </div>
 
               <div className="space-y-3">
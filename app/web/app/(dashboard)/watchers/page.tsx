@@ -50,7 +50,7 @@ export interface NewWatcherForm {
 }
 
 export default function WatchersPage() {
-  const { user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading, getIdToken } = useAuth();
   const [watchers, setWatchers] = useState<ZombieWatcher[]>([]);
   const [hasFetched, setHasFetched] = useState(false);
   const [showForm, setShowForm] = useState(false);
@@ -108,8 +108,12 @@ export default function WatchersPage() {
       setInitialTab(tab || "overview");
       setShowDetailModal(true);
       
-      // Clear the URL params without triggering a navigation
-      router.replace("/watchers", { scroll: false });
+      // Clear the URL params without triggering a navigation; candidate
+      // list filters stay for CandidateList to pick up
+      const rest = new URLSearchParams(searchParams.toString());
+      rest.delete("openWatcher");
+      rest.delete("tab");
+      router.replace(rest.size > 0 ? `/watchers?${rest}` : "/watchers", { scroll: false });
     }
   }, [searchParams, router]);
 
@@ -144,7 +148,7 @@ export default function WatchersPage() {
   }, []);
 
   // Start SSE streaming for execution updates
-  const startExecutionStream = useCallback((executionId: string) => {
+  const startExecutionStream = useCallback(async (executionId: string) => {
     if (eventSourceRef.current) {
       eventSourceRef.current.close();
     }
@@ -152,7 +156,10 @@ export default function WatchersPage() {
     let hasReceivedData = false;
     let lastState = "";
 
-    const eventSource = new EventSource(`/api/watchers/stream/${executionId}`);
+    // EventSource can't send headers - pass the ID token as a query param
+    const idToken = await getIdToken();
+    const authQuery = idToken ? `?authToken=${encodeURIComponent(idToken)}` : "";
+    const eventSource = new EventSource(`/api/watchers/stream/${executionId}${authQuery}`);
     eventSourceRef.current = eventSource;
 
     eventSource.onmessage = (event) => {
@@ -228,7 +235,7 @@ export default function WatchersPage() {
       // Otherwise the stream just ended normally mid-execution
       // We could poll for status here, but for now just let it be
     };
-  }, [getStepFromTask, fetchWatchers]);
+  }, [getStepFromTask, fetchWatchers, getIdToken]);
 
   const handleCreateWatcher = async (formData: NewWatcherForm) => {
     if (!user) return;
@@ -289,7 +296,7 @@ export default function WatchersPage() {
       setCurrentStep(1);
 
       // Start SSE streaming for real-time updates
-      startExecutionStream(result.executionId);
+      await startExecutionStream(result.executionId);
 
     } catch (error) {
       console.error("Error creating watcher:", error);
@@ -524,6 +531,8 @@ export default function WatchersPage() {
               setShowDetailModal(false);
               setDetailWatcherId(null);
               setInitialTab("overview"); // Reset to default for next open
+              // Drop the candidate list filters kept in the URL
+              if (searchParams.size > 0) router.replace("/watchers", { scroll: false });
               // Refresh watchers after modal closes to pick up any changes
               fetchWatchers();
             }}
@@ -2,9 +2,11 @@
 
 import { useEffect, useState, useRef, useCallback, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import { Loader2, CheckCircle, XCircle, Skull, Heart, Eye } from "lucide-react";
+import { Loader2, CheckCircle, XCircle, Skull, Heart, Eye, Activity, FileCode } from "lucide-react";
+import { formatDate, formatRelativeTime } from "@/lib/utils";
+import { ExtensionChoice, ExtensionPicker, extensionBody, extensionFromParams } from "@/components/watchers/ExtensionPicker";
 
-type ActionStatus = "loading" | "success" | "error";
+type ActionStatus = "loading" | "confirm" | "submitting" | "success" | "error";
 type ActionType = "kill" | "false_alert" | "watch_more";
 
 interface ActionResult {
@@ -13,91 +15,168 @@ interface ActionResult {
   message: string;
   error?: string;
   details?: string;
+  observationEndAt?: string | null;
 }
 
-const actionConfig: Record<ActionType, { icon: React.ReactNode; title: string; color: string; bg: string }> = {
+interface CandidateEvidence {
+  candidateId: number;
+  entityType: string;
+  entitySignature: string;
+  entityName: string | null;
+  filePath: string;
+  routePath: string | null;
+  repoName: string;
+  watcherName: string;
+  finalZombieScore: number | null;
+  finalVerdict: string | null;
+  finalConfidence: number | null;
+  finalReasoning: string | null;
+  finalRecommendation: string | null;
+  finalAnalysisAt: string | null;
+  observationCount: number;
+  trafficCount: number;
+  lastTrafficAt: string | null;
+  firstObservedAt: string | null;
+  lastObservedAt: string | null;
+  scanFrequencyMinutes: number | null;
+}
+
+interface ActionPreview {
+  action: ActionType;
+  expiresAt: string;
+  candidate: CandidateEvidence;
+}
+
+const actionConfig: Record<ActionType, {
+  icon: React.ReactNode;
+  title: string;
+  prompt: string;
+  confirmLabel: string;
+  color: string;
+  bg: string;
+  button: string;
+}> = {
   kill: {
     icon: <Skull className="w-8 h-8" />,
     title: "Kill Order Confirmed",
+    prompt: "Kill this zombie?",
+    confirmLabel: "Confirm Kill",
     color: "text-red-500",
     bg: "bg-red-500/10 border-red-500/30",
+    button: "bg-red-600 hover:bg-red-500",
   },
   false_alert: {
     icon: <Heart className="w-8 h-8" />,
     title: "Marked as Healthy",
+    prompt: "Mark as a false alert?",
+    confirmLabel: "Mark as Healthy",
     color: "text-green-500",
     bg: "bg-green-500/10 border-green-500/30",
+    button: "bg-green-600 hover:bg-green-500",
   },
   watch_more: {
     icon: <Eye className="w-8 h-8" />,
     title: "Observation Extended",
+    prompt: "Keep watching for longer?",
+    confirmLabel: "Extend Observation",
     color: "text-amber-500",
     bg: "bg-amber-500/10 border-amber-500/30",
+    button: "bg-amber-600 hover:bg-amber-500",
   },
 };
 
+function EvidenceRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-4 text-sm">
+      <span className="text-gray-500 shrink-0">{label}</span>
+      <span className="text-gray-300 text-right">{value}</span>
+    </div>
+  );
+}
+
 function ActionContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const [status, setStatus] = useState<ActionStatus>("loading");
+  const [preview, setPreview] = useState<ActionPreview | null>(null);
   const [result, setResult] = useState<ActionResult | null>(null);
-  const hasProcessed = useRef(false);
+  const hasLoaded = useRef(false);
 
   const token = searchParams.get("token");
   const action = searchParams.get("action") as ActionType;
+  const [extension, setExtension] = useState<ExtensionChoice>(() =>
+    extensionFromParams(searchParams.get("extend"), searchParams.get("until"))
+  );
+
+  const fail = useCallback((actionType: ActionType, data: { error?: string; details?: string }) => {
+    setStatus("error");
+    setResult({
+      success: false,
+      action: actionType,
+      message: data.error || "Action failed",
+      error: data.error,
+      details: data.details,
+    });
+  }, []);
 
-  const processAction = useCallback(async (actionToken: string, actionType: ActionType) => {
+  // Only reads the link: opening it (or a mail scanner prefetching it) never acts
+  const loadPreview = useCallback(async (actionToken: string, actionType: ActionType) => {
     try {
-      const res = await fetch(`/api/actions/w3?token=${actionToken}&action=${actionType}`);
+      const params = new URLSearchParams({ token: actionToken, action: actionType });
+      const res = await fetch(`/api/actions/w3?${params}`);
       const data = await res.json();
-      
+
+      if (res.ok) {
+        setPreview(data);
+        setStatus("confirm");
+      } else {
+        fail(actionType, data);
+      }
+    } catch (err) {
+      fail(actionType, { error: "Network error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  }, [fail]);
+
+  const confirmAction = async () => {
+    if (!token || !action) return;
+    setStatus("submitting");
+    try {
+      const res = await fetch("/api/actions/w3", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, action, ...(action === "watch_more" ? extensionBody(extension) : {}) }),
+      });
+      const data = await res.json();
+
       if (data.success) {
         setStatus("success");
         setResult(data);
       } else {
-        setStatus("error");
-        setResult({
-          success: false,
-          action: actionType,
-          message: data.error || "Action failed",
-          error: data.error,
-          details: data.details,
-        });
+        fail(action, data);
       }
     } catch (err) {
-      setStatus("error");
-      setResult({
-        success: false,
-        action: actionType,
-        message: "Network error",
-        error: err instanceof Error ? err.message : "Unknown error",
-      });
+      fail(action, { error: "Network error", details: err instanceof Error ? err.message : "Unknown error" });
     }
-  }, []);
+  };
 
   useEffect(() => {
     // Prevent double execution with ref
-    if (hasProcessed.current) return;
-    hasProcessed.current = true;
+    if (hasLoaded.current) return;
+    hasLoaded.current = true;
 
     if (!token || !action) {
       // Invalid params - show error after mount
       requestAnimationFrame(() => {
-        setStatus("error");
-        setResult({
-          success: false,
-          action: action || "kill",
-          message: "Invalid action link",
-          error: "Missing token or action parameter",
-        });
+        fail(action || "kill", { error: "Invalid action link", details: "Missing token or action parameter" });
       });
       return;
     }
 
-    processAction(token, action);
-  }, [token, action, processAction]);
+    loadPreview(token, action);
+  }, [token, action, loadPreview, fail]);
 
   const config = actionConfig[action] || actionConfig.kill;
+  const candidate = preview?.candidate;
 
   return (
     <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-4">
@@ -116,12 +195,103 @@ function ActionContent() {
             <div className="text-center">
               <Loader2 className="w-12 h-12 text-gray-400 animate-spin mx-auto mb-4" />
               <h2 className="text-xl font-semibold text-white mb-2">
-                Processing Action
+                Checking Link
               </h2>
               <p className="text-gray-400">Please wait...</p>
             </div>
           )}
 
+          {(status === "confirm" || status === "submitting") && candidate && (
+            <div>
+              <div className="text-center mb-6">
+                <div className={`w-16 h-16 ${config.bg} border rounded-full flex items-center justify-center mx-auto mb-4`}>
+                  <div className={config.color}>{config.icon}</div>
+                </div>
+                <h2 className={`text-2xl font-bold ${config.color}`}>{config.prompt}</h2>
+              </div>
+
+              <div className="bg-black/30 rounded-lg p-4 mb-4">
+                <p className="text-xs text-gray-500 uppercase tracking-wide mb-1">
+                  {candidate.repoName} · {candidate.entityType.replace(/_/g, " ")}
+                </p>
+                <p className="text-sm text-white font-mono break-all">
+                  {candidate.entityName || candidate.entitySignature}
+                </p>
+                <p className="text-xs text-gray-500 font-mono mt-1 flex items-center gap-1.5 break-all">
+                  <FileCode className="w-3 h-3 shrink-0" />
+                  {candidate.filePath}
+                </p>
+              </div>
+
+              <div className="space-y-2 mb-4">
+                {candidate.finalZombieScore !== null && (
+                  <EvidenceRow
+                    label="Zombie score"
+                    value={
+                      <>
+                        {candidate.finalZombieScore}/100
+                        {candidate.finalConfidence !== null && ` (${candidate.finalConfidence}% confidence)`}
+                      </>
+                    }
+                  />
+                )}
+                {candidate.finalVerdict && (
+                  <EvidenceRow label="Verdict" value={candidate.finalVerdict.replace(/_/g, " ")} />
+                )}
+                <EvidenceRow
+                  label="Observations"
+                  value={
+                    <span className="flex items-center gap-1.5">
+                      <Activity className="w-3 h-3" />
+                      {candidate.observationCount} checks, {candidate.trafficCount} requests
+                    </span>
+                  }
+                />
+                <EvidenceRow
+                  label="Last traffic"
+                  value={candidate.lastTrafficAt ? formatRelativeTime(candidate.lastTrafficAt) : "Never observed"}
+                />
+                {candidate.firstObservedAt && (
+                  <EvidenceRow label="Observed since" value={formatDate(candidate.firstObservedAt)} />
+                )}
+              </div>
+
+              {candidate.finalReasoning && (
+                <p className="text-sm text-gray-400 mb-4 line-clamp-6">{candidate.finalReasoning}</p>
+              )}
+
+              {action === "watch_more" && (
+                <div className="mb-4">
+                  <p className="text-xs text-gray-500 uppercase tracking-wide mb-2">Extend observation by</p>
+                  <ExtensionPicker value={extension} onChange={setExtension} disabled={status === "submitting"} />
+                  {candidate.scanFrequencyMinutes && (
+                    <p className="text-xs text-gray-600 mt-2">
+                      Scanned every {candidate.scanFrequencyMinutes} min; the extension must cover at least two scans.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => router.push("/home")}
+                  disabled={status === "submitting"}
+                  className="flex-1 py-3 px-4 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmAction}
+                  disabled={status === "submitting" || (action === "watch_more" && extension.extension === "until" && !extension.until)}
+                  className={`flex-1 py-3 px-4 ${config.button} text-white rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center gap-2`}
+                >
+                  {status === "submitting" && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {config.confirmLabel}
+                </button>
+              </div>
+            </div>
+          )}
+
           {status === "success" && result && (
             <div className="text-center">
               <div className={`w-20 h-20 ${config.bg} border rounded-full flex items-center justify-center mx-auto mb-6`}>
@@ -130,7 +300,10 @@ function ActionContent() {
               <h2 className={`text-2xl font-bold ${config.color} mb-3`}>
                 {config.title}
               </h2>
-              <p className="text-gray-300 mb-6">{result.message}</p>
+              <p className="text-gray-300 mb-6">
+                {result.message}
+                {result.observationEndAt && ` Observing until ${formatDate(result.observationEndAt)}.`}
+              </p>
               <div className="flex items-center justify-center gap-2 text-green-500 mb-6">
                 <CheckCircle className="w-5 h-5" />
                 <span className="text-sm">Action completed successfully</span>
@@ -158,27 +331,21 @@ function ActionContent() {
                   {result.details}
                 </p>
               )}
-              <div className="flex gap-3">
-                <button
-                  onClick={() => window.location.reload()}
-                  className="flex-1 py-3 px-4 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
-                >
-                  Try Again
-                </button>
-                <button
-                  onClick={() => router.push("/home")}
-                  className="flex-1 py-3 px-4 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-colors"
-                >
-                  Dashboard
-                </button>
-              </div>
+              <button
+                onClick={() => router.push("/home")}
+                className="w-full py-3 px-4 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+              >
+                Go to Dashboard
+              </button>
             </div>
           )}
         </div>
 
         {/* Footer */}
         <p className="text-center text-gray-600 text-xs mt-6">
-          This link expires in 7 days from email receipt
+          {preview
+            ? `This link can be used once and expires ${formatDate(preview.expiresAt)}`
+            : "Action links can be used once and expire 7 days after the email is sent"}
         </p>
       </div>
     </div>
@@ -1,63 +1,353 @@
 /**
  * W3 Action Handler API
  *
+ * Email action links open the confirmation page in app/actions/w3, never this
+ * route's side effects directly, so link scanners and mail previews cannot
+ * act on a candidate. Authenticated by the emailed action token, not a
+ * Firebase ID token.
+ *
  * GET /api/actions/w3?token=xxx&action=kill|false_alert|watch_more
- * Handles zombie verdict actions from email magic links.
- * Proxies to Kestra webhook for actual processing.
+ * Read-only. Checks the token and returns the candidate's evidence for the
+ * confirmation screen.
+ *
+ * POST /api/actions/w3
+ * Carries out the action through the W3 response webhook. Each token works
+ * once: the first POST stamps email_threads.token_used_at, later attempts are
+ * refused with 409 and logged to decision_log as 'action_link_replay'. The
+ * stamp is committed before the webhook is called and cleared again only if
+ * Kestra certainly refused the execution (lib/kestra isTriggerRefused), so the
+ * row is never locked across the Kestra call. After a timeout the link stays
+ * used and the POST answers 504 OUTCOME_UNKNOWN.
+ *
+ * Body (POST): {
+ *   token: string,
+ *   action: string,
+ *   feedback?: string,
+ *   extension?: string,   // watch_more only: "2d" | "7d" | "30d" | "<n>h" | "<n>d" (default "2d")
+ *   until?: string        // watch_more only: ISO date, instead of extension
+ * }
  *
- * Response: Redirect to appropriate page or JSON response
+ * Response (GET):  { action, expiresAt, candidate: { ...evidence, scanFrequencyMinutes } }
+ * Response (POST): { success: true, action, message, executionId, observationEndAt? }
+ * Errors: { error, code } with code INVALID_TOKEN | EXPIRED | ALREADY_USED |
+ *         NOT_PENDING | PROTECTED | BELOW_POLICY_SCORE | INVALID_EXTENSION | OUTCOME_UNKNOWN
  */
 import { NextRequest, NextResponse } from "next/server";
+import { PoolClient } from "pg";
+import { pool, queryOne } from "@/lib/db";
+import { KESTRA_FLOWS, KestraError, KestraExecution, isTriggerRefused, triggerWebhook } from "@/lib/kestra";
+import { loadWatcherPolicy } from "@/lib/policy";
+import { ObservationExtension, resolveExtension } from "@/lib/observation-extension";
+
+type ActionType = "kill" | "false_alert" | "watch_more";
+
+interface ActionTokenRow {
+  thread_id: string;
+  user_email: string;
+  token_expires_at: string;
+  token_used_at: string | null;
+  token_used_action: string | null;
+  thread_status: string | null;
+  parsed_action: string | null;
+  response_received_at: string | null;
+  thread_token_valid: boolean;
+  candidate_token_valid: boolean;
+  candidate_id: number;
+  watcher_id: string;
+  entity_type: string;
+  entity_signature: string;
+  entity_name: string | null;
+  file_path: string;
+  route_path: string | null;
+  status: string;
+  scan_frequency_minutes: number | null;
+  is_protected: boolean | null;
+  final_zombie_score: number | null;
+  final_verdict: string | null;
+  final_confidence: number | null;
+  final_reasoning: string | null;
+  final_recommendation: string | null;
+  final_analysis_at: string | null;
+  observation_count: number | null;
+  traffic_count: number | null;
+  last_traffic_at: string | null;
+  first_observed_at: string | null;
+  last_observed_at: string | null;
+  repo_name: string;
+  watcher_name: string;
+  policy_source: string | null;
+  policy_path: string | null;
+  policy_commit: string | null;
+  policy_loaded_at: string | null;
+}
 
-const KESTRA_URL = process.env.KESTRA_URL || "http://100.27.208.37:8080";
-const KESTRA_USER = process.env.KESTRA_USER || "admin@kestra.io";
-const KESTRA_PASSWORD = process.env.KESTRA_PASSWORD || "Admin123";
+interface ActionRequestBody {
+  token?: string;
+  action_token?: string;
+  action?: string;
+  feedback?: string;
+  extension?: string;
+  until?: string;
+}
+
+const ACTIONS: ActionType[] = ["kill", "false_alert", "watch_more"];
+
+const MESSAGES: Record<ActionType, string> = {
+  kill: "Kill order confirmed! A PR will be created to remove the zombie code.",
+  false_alert: "Marked as false alert. The code has been marked as healthy.",
+  watch_more: "Observation extended. You'll receive another verdict.",
+};
+
+// Expiry is compared in SQL so the database clock is the only one that matters
+const TOKEN_QUERY = `
+  SELECT
+    et.thread_id, et.user_email, et.token_expires_at, et.token_used_at, et.token_used_action,
+    et.status AS thread_status, et.parsed_action, et.response_received_at,
+    et.token_expires_at > NOW() AS thread_token_valid,
+    COALESCE(zc.action_token = et.action_token AND zc.action_token_expires_at > NOW(), FALSE)
+      AS candidate_token_valid,
+    zc.candidate_id, zc.watcher_id, zc.entity_type, zc.entity_signature, zc.entity_name,
+    zc.file_path, zc.route_path, zc.status, zc.scan_frequency_minutes, zc.is_protected,
+    zc.final_zombie_score, zc.final_verdict, zc.final_confidence, zc.final_reasoning,
+    zc.final_recommendation, zc.final_analysis_at,
+    zc.observation_count, zc.traffic_count, zc.last_traffic_at,
+    zc.first_observed_at, zc.last_observed_at,
+    w.repo_name, w.watcher_name,
+    w.policy_source, w.policy_path, w.policy_commit, w.policy_loaded_at
+  FROM email_threads et
+  JOIN zombie_candidates zc ON zc.candidate_id = et.candidate_id
+  JOIN watchers w ON w.watcher_id = et.watcher_id
+  WHERE et.action_token = $1
+  ORDER BY et.created_at DESC
+  LIMIT 1`;
+
+function actionError(error: string, code: string, status: number, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error, code, ...extra }, { status });
+}
+
+/**
+ * Why the token cannot be used right now, or null if it can. Used tokens are
+ * reported separately by the callers because a POST must log the replay.
+ */
+function checkToken(row: ActionTokenRow | null, action: ActionType): NextResponse | null {
+  if (!row) {
+    return actionError("This action link is not valid", "INVALID_TOKEN", 404);
+  }
+  if (!row.thread_token_valid || !row.candidate_token_valid) {
+    return actionError("This action link has expired", "EXPIRED", 410);
+  }
+  if (row.status !== "pending_review") {
+    return actionError(
+      `This candidate is no longer awaiting review (status: ${row.status})`,
+      "NOT_PENDING",
+      409
+    );
+  }
+  if (action === "kill") {
+    if (row.is_protected) {
+      return actionError(
+        "This candidate is protected by an exclusion rule and cannot be killed",
+        "PROTECTED",
+        403
+      );
+    }
+    const minFinalScore = loadWatcherPolicy(row)?.policy?.kill.minFinalScore ?? null;
+    if (minFinalScore !== null && (row.final_zombie_score === null || row.final_zombie_score < minFinalScore)) {
+      return actionError(
+        `The repository policy requires a final zombie score of at least ${minFinalScore} before killing`,
+        "BELOW_POLICY_SCORE",
+        403,
+        { minFinalScore }
+      );
+    }
+  }
+  return null;
+}
+
+function alreadyUsed(row: ActionTokenRow) {
+  return actionError("This action link has already been used", "ALREADY_USED", 409, {
+    usedAt: row.token_used_at,
+    usedAction: row.token_used_action,
+  });
+}
+
+async function logReplay(client: PoolClient, row: ActionTokenRow, action: ActionType, req: NextRequest) {
+  await client.query(
+    `INSERT INTO decision_log (
+       candidate_id, watcher_id, action_type, action_source, actor_type, actor_id,
+       decision, reasoning, email_thread_id, metadata
+     ) VALUES ($1, $2, 'action_link_replay', 'email_link', 'human', $3, $4, $5, $6, $7)`,
+    [
+      row.candidate_id,
+      row.watcher_id,
+      row.user_email,
+      action,
+      `Refused reuse of an action link already used for ${row.token_used_action} at ${row.token_used_at}`,
+      row.thread_id,
+      JSON.stringify({
+        attemptedAction: action,
+        usedAction: row.token_used_action,
+        usedAt: row.token_used_at,
+        ip: req.headers.get("x-forwarded-for")?.split(",")[0].trim() || null,
+        userAgent: req.headers.get("user-agent"),
+      }),
+    ]
+  );
+}
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const token = searchParams.get("token");
-    const action = searchParams.get("action");
+    const action = searchParams.get("action") as ActionType | null;
 
-    // Validate inputs
     if (!token) {
-      return NextResponse.json(
-        { error: "Missing action token" },
-        { status: 400 }
-      );
+      return actionError("Missing action token", "INVALID_TOKEN", 400);
     }
-
-    if (!action || !["kill", "false_alert", "watch_more"].includes(action)) {
+    if (!action || !ACTIONS.includes(action)) {
       return NextResponse.json(
         { error: "Invalid action. Must be: kill, false_alert, or watch_more" },
         { status: 400 }
       );
     }
 
-    // Build Kestra webhook URL
-    // Format: /api/v1/executions/webhook/{namespace}/{flowId}/{key}
-    const webhookUrl = `${KESTRA_URL}/api/v1/executions/webhook/doomsday.avengers/w3_handle_response/zombie-action`;
+    const row = await queryOne<ActionTokenRow>(TOKEN_QUERY, [token]);
+    if (row?.token_used_at) return alreadyUsed(row);
+    const tokenError = checkToken(row, action);
+    if (tokenError) return tokenError;
 
-    // Trigger the Kestra workflow via webhook
-    const response = await fetch(webhookUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Basic ${Buffer.from(`${KESTRA_USER}:${KESTRA_PASSWORD}`).toString("base64")}`,
+    return NextResponse.json({
+      action,
+      expiresAt: row!.token_expires_at,
+      candidate: {
+        candidateId: row!.candidate_id,
+        entityType: row!.entity_type,
+        entitySignature: row!.entity_signature,
+        entityName: row!.entity_name,
+        filePath: row!.file_path,
+        routePath: row!.route_path,
+        repoName: row!.repo_name,
+        watcherName: row!.watcher_name,
+        finalZombieScore: row!.final_zombie_score,
+        finalVerdict: row!.final_verdict,
+        finalConfidence: row!.final_confidence,
+        finalReasoning: row!.final_reasoning,
+        finalRecommendation: row!.final_recommendation,
+        finalAnalysisAt: row!.final_analysis_at,
+        observationCount: row!.observation_count || 0,
+        trafficCount: row!.traffic_count || 0,
+        lastTrafficAt: row!.last_traffic_at,
+        firstObservedAt: row!.first_observed_at,
+        lastObservedAt: row!.last_observed_at,
+        scanFrequencyMinutes: row!.scan_frequency_minutes,
       },
-      body: JSON.stringify({
-        action_token: token,
-        action: action,
-        source: "email_link",
-      }),
     });
+  } catch (error) {
+    console.error("[api/actions/w3] GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("[api/actions/w3] Kestra webhook error:", errorText);
+export async function POST(request: NextRequest) {
+  let body: ActionRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
 
-      // Check for specific errors
-      if (response.status === 404) {
+  const token = body.token || body.action_token;
+  const action = body.action as ActionType | undefined;
+  if (!token || !action) {
+    return NextResponse.json({ error: "Missing token or action" }, { status: 400 });
+  }
+  if (!ACTIONS.includes(action)) {
+    return NextResponse.json(
+      { error: "Invalid action. Must be: kill, false_alert, or watch_more" },
+      { status: 400 }
+    );
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // Lock the thread row so two concurrent POSTs cannot both use the token
+    const { rows } = await client.query<ActionTokenRow>(`${TOKEN_QUERY} FOR UPDATE OF et`, [token]);
+    const row = rows[0] || null;
+
+    if (row?.token_used_at) {
+      await logReplay(client, row, action, request);
+      await client.query("COMMIT");
+      console.error(`[api/actions/w3] Replay refused for candidate ${row.candidate_id} (thread ${row.thread_id})`);
+      return alreadyUsed(row);
+    }
+
+    const tokenError = checkToken(row, action);
+    if (tokenError) {
+      await client.query("ROLLBACK");
+      return tokenError;
+    }
+
+    let extension: ObservationExtension | null = null;
+    if (action === "watch_more") {
+      const resolved = resolveExtension({ extension: body.extension, until: body.until }, row!.scan_frequency_minutes);
+      if ("error" in resolved) {
+        await client.query("ROLLBACK");
+        return actionError(resolved.error, "INVALID_EXTENSION", 400);
+      }
+      extension = resolved;
+    }
+
+    await client.query(
+      `UPDATE email_threads SET
+         token_used_at = NOW(),
+         token_used_action = $2,
+         status = 'responded',
+         parsed_action = $2,
+         response_received_at = NOW(),
+         updated_at = NOW()
+       WHERE thread_id = $1`,
+      [row!.thread_id, action]
+    );
+    await client.query("COMMIT");
+
+    // The token is only consumed if Kestra accepts the execution
+    let result: KestraExecution;
+    try {
+      result = await triggerWebhook(KESTRA_FLOWS.handleResponse, {
+        action_token: token,
+        action,
+        feedback: body.feedback || undefined,
+        observation_end_at: extension?.observationEndAt.toISOString(),
+        extension_days: extension?.extensionDays,
+        source: "email_link",
+      });
+    } catch (error) {
+      if (!isTriggerRefused(error)) {
+        // Timed out or failed mid-request: the action may already be running, so the link stays used
+        console.error("[api/actions/w3] Kestra webhook outcome unknown:", error);
+        return actionError(
+          "The action could not be confirmed. It may still be carried out; check the candidate before trying again.",
+          "OUTCOME_UNKNOWN",
+          504
+        );
+      }
+      await client.query(
+        `UPDATE email_threads SET
+           token_used_at = NULL,
+           token_used_action = NULL,
+           status = $2,
+           parsed_action = $3,
+           response_received_at = $4,
+           updated_at = NOW()
+         WHERE thread_id = $1`,
+        [row!.thread_id, row!.thread_status, row!.parsed_action, row!.response_received_at]
+      );
+      if (!(error instanceof KestraError)) throw error;
+      console.error("[api/actions/w3] Kestra webhook error:", error.body || error.message);
+
+      if (error.status === 404) {
         return NextResponse.json(
           {
             error: "Workflow not found",
@@ -70,64 +360,24 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(
         {
           error: "Failed to process action",
-          details: errorText.substring(0, 200),
+          details: (error.body || error.message).substring(0, 200),
         },
         { status: 502 }
       );
     }
 
-    const result = await response.json();
-
-    // Return success response with action-specific message
-    const messages: Record<string, string> = {
-      kill: "Kill order confirmed! A PR will be created to remove the zombie code.",
-      false_alert: "Marked as false alert. The code has been marked as healthy.",
-      watch_more: "Extended observation by 48 hours. You'll receive another verdict.",
-    };
-
     return NextResponse.json({
       success: true,
       action,
-      message: messages[action] || "Action processed successfully",
-      executionId: result.id || null,
+      message: MESSAGES[action],
+      executionId: result?.id || null,
+      observationEndAt: extension?.observationEndAt ?? null,
     });
   } catch (error) {
-    console.error("[api/actions/w3] Error:", error);
-
-    return NextResponse.json(
-      {
-        error: "Internal server error",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    );
-  }
-}
-
-// Also support POST for direct form submissions
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const token = body.token || body.action_token;
-    const action = body.action;
-
-    if (!token || !action) {
-      return NextResponse.json(
-        { error: "Missing token or action" },
-        { status: 400 }
-      );
-    }
-
-    // Reuse GET logic by creating a new URL
-    const url = new URL(request.url);
-    url.searchParams.set("token", token);
-    url.searchParams.set("action", action);
-
-    return GET(new NextRequest(url, { method: "GET" }));
-  } catch {
-    return NextResponse.json(
-      { error: "Invalid request body" },
-      { status: 400 }
-    );
+    await client.query("ROLLBACK").catch(() => {});
+    console.error("[api/actions/w3] POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  } finally {
+    client.release();
   }
 }
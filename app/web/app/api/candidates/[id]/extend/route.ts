@@ -0,0 +1,181 @@
+/**
+ * Candidate Watch More API
+ *
+ * POST /api/candidates/[id]/extend
+ * Extends a candidate's observation ("watch more") from the dashboard.
+ * Candidates awaiting review go back to active observation from now; active
+ * candidates have their current observation end pushed back.
+ *
+ * Body: {
+ *   userId?: string,       // Must match the authenticated user if sent
+ *   extension?: string,    // "2d" | "7d" | "30d" | "<n>h" | "<n>d" (default "2d")
+ *   until?: string,        // ISO date, instead of extension
+ *   feedback?: string
+ * }
+ *
+ * Response: { success: true, observationEndAt, extendedObservationDays }
+ *
+ * Adds the extension to zombie_candidates.extended_observation_days and
+ * records a watch_more decision. Lowering the score of a candidate awaiting
+ * review adds a candidate_score_history row. A pending email action link for the
+ * candidate stops working, as after any other decision.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { resolveExtension } from "@/lib/observation-extension";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface ExtendRequest {
+  userId?: string;
+  extension?: string;
+  until?: string;
+  feedback?: string;
+}
+
+const EXTENDABLE_STATUSES = ["pending_review", "active"];
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const client = await pool.connect();
+
+  try {
+    const { id } = await params;
+    const candidateId = parseInt(id, 10);
+
+    if (isNaN(candidateId)) {
+      return NextResponse.json({ error: "Invalid candidate ID" }, { status: 400 });
+    }
+
+    let body: ExtendRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
+    await client.query("BEGIN");
+
+    const candidateResult = await client.query<{
+      watcher_id: string;
+      status: string;
+      scan_frequency_minutes: number | null;
+      observation_end_at: Date | null;
+      zombie_score: number | null;
+      zombie_verdict: string | null;
+    }>(
+      `SELECT zc.watcher_id, zc.status, zc.scan_frequency_minutes, zc.observation_end_at,
+              zc.zombie_score, zc.zombie_verdict
+       FROM zombie_candidates zc
+       JOIN watchers w ON zc.watcher_id = w.watcher_id
+       WHERE zc.candidate_id = $1 AND w.user_id = $2
+       FOR UPDATE OF zc`,
+      [candidateId, auth.user.uid]
+    );
+
+    if (candidateResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return NextResponse.json({ error: "Candidate not found" }, { status: 404 });
+    }
+
+    const candidate = candidateResult.rows[0];
+
+    if (!EXTENDABLE_STATUSES.includes(candidate.status)) {
+      await client.query("ROLLBACK");
+      return NextResponse.json(
+        { error: `Cannot extend observation for a candidate with status: ${candidate.status}` },
+        { status: 400 }
+      );
+    }
+
+    const ongoing = candidate.status === "active" && candidate.observation_end_at !== null;
+    const resolved = resolveExtension(
+      { extension: body.extension, until: body.until },
+      candidate.scan_frequency_minutes,
+      ongoing ? new Date(candidate.observation_end_at!) : new Date()
+    );
+    if ("error" in resolved) {
+      await client.query("ROLLBACK");
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+
+    const feedback = body.feedback?.trim() || null;
+
+    // Same reset W3's extend_observation applies to an emailed watch-more
+    const updated = await client.query<{ extended_observation_days: number; zombie_score: number | null }>(
+      `UPDATE zombie_candidates
+       SET
+         status = 'active',
+         observation_end_at = $2,
+         next_observation_at = CASE
+           WHEN status = 'active' THEN next_observation_at
+           ELSE NOW() + (scan_frequency_minutes * INTERVAL '1 minute')
+         END,
+         zombie_score = CASE WHEN status = 'pending_review' THEN GREATEST(0, zombie_score - 20) ELSE zombie_score END,
+         final_verdict = NULL,
+         final_zombie_score = NULL,
+         human_action = 'watch_more',
+         human_feedback = $3,
+         human_action_at = NOW(),
+         human_action_source = 'frontend',
+         extended_observation_days = COALESCE(extended_observation_days, 0) + $4,
+         action_token = NULL,
+         action_token_expires_at = NULL,
+         updated_at = NOW()
+       WHERE candidate_id = $1
+       RETURNING extended_observation_days, zombie_score`,
+      [candidateId, resolved.observationEndAt, feedback, resolved.extensionDays]
+    );
+
+    const newScore = updated.rows[0].zombie_score;
+    if (newScore !== null && newScore !== candidate.zombie_score) {
+      await client.query(
+        `INSERT INTO candidate_score_history (
+           candidate_id, watcher_id, zombie_score, zombie_verdict,
+           previous_score, previous_verdict, source
+         ) VALUES ($1, $2, $3, $4, $5, $4, 'watch_more')`,
+        [candidateId, candidate.watcher_id, newScore, candidate.zombie_verdict ?? "unknown", candidate.zombie_score]
+      );
+    }
+
+    await client.query(
+      `INSERT INTO decision_log (
+         candidate_id, watcher_id, action_type, action_source,
+         actor_type, actor_id, decision, reasoning, metadata
+       ) VALUES ($1, $2, 'watch_more', 'frontend', 'user', $3, 'Extended observation', $4, $5)`,
+      [
+        candidateId,
+        candidate.watcher_id,
+        auth.user.uid,
+        feedback,
+        JSON.stringify({
+          extension: resolved.extension,
+          until: body.until ?? null,
+          extensionDays: resolved.extensionDays,
+          observationEndAt: resolved.observationEndAt.toISOString(),
+        }),
+      ]
+    );
+
+    await client.query("COMMIT");
+
+    return NextResponse.json({
+      success: true,
+      observationEndAt: resolved.observationEndAt,
+      extendedObservationDays: updated.rows[0].extended_observation_days,
+    });
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    console.error("[candidate/extend] Error:", error);
+    return NextResponse.json({ error: "Failed to extend observation" }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -5,10 +5,14 @@
  * Triggers W4 (Kill Zombie) workflow to create a PR removing dead code.
  *
  * Body: {
- *   userId: string,         // Firebase user ID for auth
+ *   userId?: string,        // Must match the authenticated user if sent
  *   githubToken?: string    // Optional - uses watcher's stored token if not provided
  * }
  *
+ * Candidates protected by one of the watcher's exclusion rules are refused
+ * with 403 and the matching rule. If the repository's .doomsday.yml sets
+ * kill.min_final_score, candidates scoring below it are refused with 403 too.
+ *
  * Workflow steps:
  *   1. Clone the repository
  *   2. Generate code removal using LLM
@@ -18,12 +22,13 @@
  */
 import { NextRequest, NextResponse } from "next/server";
 import { query } from "@/lib/db";
-
-const KESTRA_URL = process.env.KESTRA_URL || "http://localhost:8080";
-const KESTRA_AUTH = process.env.KESTRA_AUTH || "admin@kestra.io:Admin123";
+import { authenticateRequest } from "@/lib/auth";
+import { decryptSecret } from "@/lib/credential-vault";
+import { loadWatcherPolicy } from "@/lib/policy";
+import { KESTRA_FLOWS, KestraError, KestraExecution, triggerFlow } from "@/lib/kestra";
 
 interface KillRequestBody {
-  userId: string;
+  userId?: string;
   githubToken?: string;
 }
 
@@ -33,10 +38,19 @@ interface CandidateDetails {
   entity_signature: string;
   file_path: string;
   status: string;
+  final_zombie_score: number | null;
+  is_protected: boolean | null;
+  protected_rule_type: string | null;
+  protected_rule_pattern: string | null;
+  protected_rule_reason: string | null;
   repo_url: string;
   repo_name: string;
   github_token_encrypted: string | null;
   user_id: string;
+  policy_source: string | null;
+  policy_path: string | null;
+  policy_commit: string | null;
+  policy_loaded_at: string | null;
 }
 
 export async function POST(
@@ -53,9 +67,9 @@ export async function POST(
 
     const body: KillRequestBody = await request.json();
 
-    if (!body.userId) {
-      return NextResponse.json({ error: "userId is required" }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, body.userId);
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
 
     // Get candidate details with watcher info
     const result = await query<CandidateDetails>(
@@ -65,12 +79,22 @@ export async function POST(
         zc.entity_signature,
         zc.file_path,
         zc.status,
+        zc.final_zombie_score,
+        zc.is_protected,
+        r.rule_type AS protected_rule_type,
+        r.pattern AS protected_rule_pattern,
+        r.reason AS protected_rule_reason,
         w.repo_url,
         w.repo_name,
         w.github_token_encrypted,
-        w.user_id
+        w.user_id,
+        w.policy_source,
+        w.policy_path,
+        w.policy_commit,
+        w.policy_loaded_at
       FROM zombie_candidates zc
       JOIN watchers w ON zc.watcher_id = w.watcher_id
+      LEFT JOIN watcher_exclusion_rules r ON zc.protected_by_rule_id = r.rule_id
       WHERE zc.candidate_id = $1`,
       [candidateId]
     );
@@ -82,10 +106,46 @@ export async function POST(
     const candidate = result[0];
 
     // Verify user owns this watcher
-    if (candidate.user_id !== body.userId) {
+    if (candidate.user_id !== userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
+    if (candidate.is_protected) {
+      const rule = candidate.protected_rule_pattern
+        ? ` by exclusion rule ${candidate.protected_rule_type} "${candidate.protected_rule_pattern}"`
+        : "";
+      return NextResponse.json(
+        {
+          error: `This candidate is protected${rule} and cannot be killed. Remove or change the rule first.`,
+          protectedBy: candidate.protected_rule_pattern
+            ? {
+                ruleType: candidate.protected_rule_type,
+                pattern: candidate.protected_rule_pattern,
+                reason: candidate.protected_rule_reason,
+              }
+            : null,
+        },
+        { status: 403 }
+      );
+    }
+
+    const minFinalScore = loadWatcherPolicy(candidate)?.policy?.kill.minFinalScore ?? null;
+    if (
+      minFinalScore !== null &&
+      (candidate.final_zombie_score === null || candidate.final_zombie_score < minFinalScore)
+    ) {
+      const score = candidate.final_zombie_score === null
+        ? "no final score yet"
+        : `a final score of ${candidate.final_zombie_score}`;
+      return NextResponse.json(
+        {
+          error: `The repository policy requires a final zombie score of at least ${minFinalScore} before killing; this candidate has ${score}.`,
+          minFinalScore,
+        },
+        { status: 403 }
+      );
+    }
+
     // Check candidate status - should be pending_review or confirmed_zombie
     if (!["pending_review", "confirmed_zombie", "active"].includes(candidate.status)) {
       return NextResponse.json(
@@ -94,8 +154,8 @@ export async function POST(
       );
     }
 
-    // Get GitHub token - prefer provided token, fallback to stored
-    const githubToken = body.githubToken || candidate.github_token_encrypted;
+    // Get GitHub token - prefer provided token, fallback to stored (decrypted only for Kestra)
+    const githubToken = body.githubToken || decryptSecret(candidate.github_token_encrypted);
 
     if (!githubToken) {
       return NextResponse.json(
@@ -131,37 +191,21 @@ export async function POST(
       github_token: githubToken,
     };
 
-    // Build FormData for Kestra API
-    const formData = new FormData();
-    for (const [key, value] of Object.entries(kestraPayload)) {
-      if (value !== null && value !== undefined) {
-        formData.append(key, String(value));
-      }
-    }
-
     // Trigger W4 workflow
-    const kestraResponse = await fetch(
-      `${KESTRA_URL}/api/v1/executions/trigger/doomsday.assemble/w4_kill_zombie`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Basic ${Buffer.from(KESTRA_AUTH).toString("base64")}`,
-        },
-        body: formData,
-      }
-    );
-
-    if (!kestraResponse.ok) {
-      const errorText = await kestraResponse.text();
-      console.error("[api/candidates/kill] Kestra error:", errorText);
+    let execution: KestraExecution;
+    try {
+      execution = await triggerFlow(KESTRA_FLOWS.killZombie, kestraPayload, {
+        labels: { watcher_id: candidate.watcher_id, candidate_id: String(candidateId) },
+      });
+    } catch (error) {
+      if (!(error instanceof KestraError)) throw error;
+      console.error("[api/candidates/kill] Kestra error:", error.body || error.message);
       return NextResponse.json(
-        { error: "Failed to trigger kill workflow", details: errorText },
-        { status: kestraResponse.status }
+        { error: "Failed to trigger kill workflow", details: error.body || error.message },
+        { status: error.status ?? 502 }
       );
     }
 
-    const execution = await kestraResponse.json();
-
     // Update candidate status to show it's being processed
     await query(
       `UPDATE zombie_candidates
@@ -181,7 +225,7 @@ export async function POST(
         candidate_id, watcher_id, action_type, action_source, 
         actor_type, actor_id, decision, kestra_execution_id, created_at
       ) VALUES ($1, $2, 'kill', 'frontend', 'user', $3, 'kill', $4, NOW())`,
-      [candidateId, candidate.watcher_id, body.userId, execution.id]
+      [candidateId, candidate.watcher_id, userId, execution.id]
     );
 
     return NextResponse.json({
@@ -0,0 +1,102 @@
+/**
+ * Candidate Source Probe API
+ *
+ * POST /api/candidates/[id]/probe
+ * Runs, right now, the query each of the watcher's observability sources
+ * would get from W2 for this candidate (PromQL, LogQL or Datadog, built by
+ * lib/source-probe), so an empty traffic chart can be checked against the
+ * sources themselves. Nothing is stored.
+ * The candidate's watcher must belong to the authenticated user.
+ *
+ * Sources are queried over the candidate's scan window, as one W2
+ * observation is; lookback "7d" widens that to the last 7 days.
+ *
+ * Body: { userId?: string, lookback?: "window" | "7d" }   // default "window"
+ *
+ * Response: {
+ *   candidateId: number,
+ *   lookback: "window" | "7d",
+ *   results: [{
+ *     index, type, url,
+ *     expression: string | null,      // One query per line (Loki runs two with synthetic rules)
+ *     responseTimeMs, seriesCount,
+ *     sample: [...],                  // Up to 3 series, last points only
+ *     errorType: string | null,       // auth_error, timeout, bad_data, ...
+ *     errorMessage: string | null
+ *   }]
+ * }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { unsealObservabilitySources } from "@/lib/credential-vault";
+import { PROBE_LOOKBACKS, ProbeCandidate, ProbeLookback, probeSource } from "@/lib/source-probe";
+import { SyntheticTrafficRule } from "@/lib/synthetic-traffic";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface CandidateRow extends ProbeCandidate {
+  watcher_id: string;
+  observability_urls: unknown;
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const candidateId = parseInt(id, 10);
+    if (isNaN(candidateId)) {
+      return NextResponse.json({ error: "Invalid candidate ID" }, { status: 400 });
+    }
+
+    let body: { userId?: string; lookback?: string } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // The body is optional
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
+    const lookback = (body.lookback ?? "window") as ProbeLookback;
+    if (!Object.prototype.hasOwnProperty.call(PROBE_LOOKBACKS, lookback)) {
+      return NextResponse.json(
+        { error: `Invalid lookback. Must be one of: ${Object.keys(PROBE_LOOKBACKS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const candidate = await queryOne<CandidateRow>(
+      `SELECT zc.watcher_id, zc.route_path, zc.framework, zc.scan_frequency_minutes, w.observability_urls
+       FROM zombie_candidates zc
+       JOIN watchers w ON zc.watcher_id = w.watcher_id
+       WHERE zc.candidate_id = $1 AND w.user_id = $2`,
+      [candidateId, auth.user.uid]
+    );
+    if (!candidate) {
+      return NextResponse.json({ error: "Candidate not found" }, { status: 404 });
+    }
+
+    const rules = await query<Pick<SyntheticTrafficRule, "rule_type" | "label_name" | "pattern">>(
+      `SELECT rule_type, label_name, pattern
+       FROM watcher_synthetic_traffic_rules
+       WHERE watcher_id = $1
+       ORDER BY rule_id`,
+      [candidate.watcher_id]
+    );
+
+    const sources = unsealObservabilitySources(candidate.observability_urls);
+    const results = await Promise.all(
+      sources.map(async (source, index) => ({ index, ...(await probeSource(source, candidate, rules, lookback)) }))
+    );
+
+    return NextResponse.json({ candidateId, lookback, results });
+  } catch (error) {
+    console.error("[candidates/probe] POST error:", error);
+    return NextResponse.json({ error: "Failed to probe sources" }, { status: 500 });
+  }
+}
@@ -1,17 +1,23 @@
 /**
  * Single Candidate API
  *
- * GET /api/candidates/[id]?userId=xxx
+ * GET /api/candidates/[id]
  * Returns detailed candidate information with observation history.
+ * The candidate's watcher must belong to the authenticated user.
  *
  * Response: {
  *   candidate: { id, watcherId, entityType, status, zombieScore, ... },
  *   observationStats: { totalObservations, withTraffic, withErrors, avgResponseTime },
  *   recentEvents: [{ eventId, observedAt, sourceType, trafficDetected, ... }]
  * }
+ *
+ * An event's requestCount leaves out synthetic traffic (probes, uptime
+ * monitors); rawRequestCount includes it.
  */
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { redactObservabilitySources } from "@/lib/credential-vault";
 
 export const dynamic = "force-dynamic";
 
@@ -20,6 +26,11 @@ interface RouteParams {
 }
 
 export async function GET(req: NextRequest, { params }: RouteParams) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authenticateRequest(req, searchParams.get("userId"));
+  if (auth.error) return auth.error;
+  const userId = auth.user.uid;
+
   const client = await pool.connect();
 
   try {
@@ -30,13 +41,6 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Invalid candidate ID" }, { status: 400 });
     }
 
-    const { searchParams } = new URL(req.url);
-    const userId = searchParams.get("userId");
-
-    if (!userId) {
-      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
-    }
-
     // Fetch candidate with watcher info
     const candidateResult = await client.query(
       `SELECT 
@@ -45,9 +49,13 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         w.application_url,
         w.observability_urls,
         w.repo_url,
-        w.repo_name
+        w.repo_name,
+        r.rule_type AS protected_rule_type,
+        r.pattern AS protected_rule_pattern,
+        r.reason AS protected_rule_reason
        FROM zombie_candidates zc
        JOIN watchers w ON zc.watcher_id = w.watcher_id
+       LEFT JOIN watcher_exclusion_rules r ON zc.protected_by_rule_id = r.rule_id
        WHERE zc.candidate_id = $1 AND w.user_id = $2`,
       [candidateId, userId]
     );
@@ -66,6 +74,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         COALESCE(health_check_latency_ms, avg_latency_ms) as response_time_ms,
         traffic_detected,
         COALESCE(real_request_count, raw_request_count, 0) as request_count,
+        COALESCE(raw_request_count, 0) as raw_request_count,
         error_type,
         error_message
        FROM observation_events
@@ -117,6 +126,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         analysisPeriodHours: candidate.analysis_period_hours,
         nextObservationAt: candidate.next_observation_at,
         observationEndAt: candidate.observation_end_at,
+        extendedObservationDays: candidate.extended_observation_days || 0,
         firstObservedAt: candidate.first_observed_at,
         lastObservedAt: candidate.last_observed_at,
         observationCount: candidate.observation_count,
@@ -124,10 +134,18 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         lastTrafficAt: candidate.last_traffic_at,
         trafficCount: candidate.traffic_count,
         zombieScore: candidate.zombie_score,
+        isProtected: Boolean(candidate.is_protected),
+        protectedBy: candidate.protected_rule_pattern
+          ? {
+              ruleType: candidate.protected_rule_type,
+              pattern: candidate.protected_rule_pattern,
+              reason: candidate.protected_rule_reason,
+            }
+          : null,
         discoveredAt: candidate.discovered_at,
         updatedAt: candidate.updated_at,
         applicationUrl: candidate.application_url,
-        observabilityUrls: candidate.observability_urls,
+        observabilityUrls: redactObservabilitySources(candidate.observability_urls),
         repoUrl: candidate.repo_url,
         repoName: candidate.repo_name,
       },
@@ -147,6 +165,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         responseTimeMs: e.response_time_ms,
         trafficDetected: e.traffic_detected,
         requestCount: e.request_count,
+        rawRequestCount: e.raw_request_count,
         errorType: e.error_type,
         errorMessage: e.error_message,
       })),
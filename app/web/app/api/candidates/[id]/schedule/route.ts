@@ -5,15 +5,26 @@
  * Schedule or update observation settings for a single candidate.
  *
  * Body: {
- *   userId: string,
+ *   userId?: string,               // Must match the authenticated user if sent
  *   scanFrequencyMinutes: number,  // Min: 5, Max: 1440 (24 hours)
  *   analysisPeriodMinutes: number, // Min: 10, Max: 525600 (365 days)
  *   action?: "schedule" | "pause" | "resume" | "opt_out",
- *   pauseReason?: string
+ *   pauseReason?: string,
+ *   allowShortWindow?: boolean     // Schedule even if a cron job would run too few times
  * }
+ *
+ * Cron candidates need an analysis period covering MIN_EXPECTED_RUNS runs of
+ * their schedule (lib/cron). Shorter periods are rejected with 400 and
+ * { error, observationWindow }, unless allowShortWindow is set, in which case
+ * the response carries the check as observationWindow with a warning.
+ *
+ * Pause, resume and opt-out are recorded in decision_log for the candidate timeline.
  */
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { MIN_EXPECTED_RUNS, checkObservationWindow } from "@/lib/cron";
+import { updateWatcherStatus } from "@/lib/watcher-status";
 import { PoolClient } from "pg";
 
 export const dynamic = "force-dynamic";
@@ -23,11 +34,12 @@ interface RouteParams {
 }
 
 interface ScheduleRequest {
-  userId: string;
+  userId?: string;
   scanFrequencyMinutes: number;
   analysisPeriodMinutes: number;
   action?: "schedule" | "reschedule" | "pause" | "resume" | "opt_out";
   pauseReason?: string;  // Optional reason when pausing
+  allowShortWindow?: boolean;
 }
 
 // Validation constants
@@ -49,19 +61,18 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
 
     const body: ScheduleRequest = await req.json();
 
-    if (!body.userId) {
-      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
-    }
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
 
     const action = body.action || "schedule";
 
     // Validate candidate exists and belongs to user
     const candidateResult = await client.query(
-      `SELECT zc.candidate_id, zc.status, zc.watcher_id, w.user_id
+      `SELECT zc.candidate_id, zc.status, zc.watcher_id, zc.schedule, w.user_id
        FROM zombie_candidates zc
        JOIN watchers w ON zc.watcher_id = w.watcher_id
        WHERE zc.candidate_id = $1 AND w.user_id = $2`,
-      [candidateId, body.userId]
+      [candidateId, auth.user.uid]
     );
 
     if (candidateResult.rows.length === 0) {
@@ -70,6 +81,61 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
 
     const candidate = candidateResult.rows[0];
 
+    // Schedule inputs are validated before BEGIN, so a 400 never leaves a transaction open
+    let observationWindow: ReturnType<typeof checkObservationWindow> = null;
+    if (action === "schedule" || action === "reschedule") {
+      if (body.scanFrequencyMinutes === undefined || body.analysisPeriodMinutes === undefined) {
+        return NextResponse.json(
+          { error: "Missing scanFrequencyMinutes or analysisPeriodMinutes" },
+          { status: 400 }
+        );
+      }
+
+      if (
+        body.scanFrequencyMinutes < MIN_SCAN_FREQUENCY_MINUTES ||
+        body.scanFrequencyMinutes > MAX_SCAN_FREQUENCY_MINUTES
+      ) {
+        return NextResponse.json(
+          { error: `Scan frequency must be between ${MIN_SCAN_FREQUENCY_MINUTES} minute and ${MAX_SCAN_FREQUENCY_MINUTES} minutes (24 hours)` },
+          { status: 400 }
+        );
+      }
+
+      if (
+        body.analysisPeriodMinutes < MIN_ANALYSIS_PERIOD_MINUTES ||
+        body.analysisPeriodMinutes > MAX_ANALYSIS_PERIOD_MINUTES
+      ) {
+        return NextResponse.json(
+          { error: `Analysis period must be between ${MIN_ANALYSIS_PERIOD_MINUTES} minutes and ${MAX_ANALYSIS_PERIOD_MINUTES} minutes (365 days)` },
+          { status: 400 }
+        );
+      }
+
+      // Analysis period must be greater than scan frequency
+      if (body.analysisPeriodMinutes <= body.scanFrequencyMinutes) {
+        return NextResponse.json(
+          { error: "Analysis period must be greater than scan frequency" },
+          { status: 400 }
+        );
+      }
+
+      // A cron job must be expected to run often enough for silence to mean something
+      observationWindow = checkObservationWindow(candidate.schedule, body.analysisPeriodMinutes);
+      if (observationWindow && !observationWindow.sufficient && !body.allowShortWindow) {
+        return NextResponse.json(
+          {
+            error: `Schedule "${observationWindow.schedule}" is expected to run ${observationWindow.expectedRuns} times in this analysis period; at least ${MIN_EXPECTED_RUNS} are needed. ${
+              observationWindow.suggestionSufficient
+                ? `Try ${Math.round(observationWindow.suggestedPeriodMinutes / 60)} hours.`
+                : "It runs too rarely for any accepted analysis period (max 365 days); set allowShortWindow to schedule it anyway."
+            }`,
+            observationWindow,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     await client.query("BEGIN");
 
     if (action === "pause") {
@@ -84,6 +150,8 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         [candidateId, body.pauseReason || null]
       );
 
+      await logLifecycleDecision(client, candidateId, candidate.watcher_id, "pause", auth.user.uid, body.pauseReason || null);
+
       await client.query("COMMIT");
 
       return NextResponse.json({
@@ -106,6 +174,8 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         [candidateId, body.pauseReason || 'user_opt_out']
       );
 
+      await logLifecycleDecision(client, candidateId, candidate.watcher_id, "opt_out", auth.user.uid, body.pauseReason || null);
+
       await client.query("COMMIT");
 
       return NextResponse.json({
@@ -132,6 +202,8 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         [candidateId]
       );
 
+      await logLifecycleDecision(client, candidateId, candidate.watcher_id, "resume", auth.user.uid, null);
+
       await client.query("COMMIT");
 
       return NextResponse.json({
@@ -142,43 +214,8 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       });
     }
 
-    // Schedule or Reschedule action - validate inputs
+    // Schedule or Reschedule action
     if (action === "schedule" || action === "reschedule") {
-      if (body.scanFrequencyMinutes === undefined || body.analysisPeriodMinutes === undefined) {
-        return NextResponse.json(
-          { error: "Missing scanFrequencyMinutes or analysisPeriodMinutes" },
-          { status: 400 }
-        );
-      }
-
-      if (
-        body.scanFrequencyMinutes < MIN_SCAN_FREQUENCY_MINUTES ||
-        body.scanFrequencyMinutes > MAX_SCAN_FREQUENCY_MINUTES
-      ) {
-        return NextResponse.json(
-          { error: `Scan frequency must be between ${MIN_SCAN_FREQUENCY_MINUTES} minute and ${MAX_SCAN_FREQUENCY_MINUTES} minutes (24 hours)` },
-          { status: 400 }
-        );
-      }
-
-      if (
-        body.analysisPeriodMinutes < MIN_ANALYSIS_PERIOD_MINUTES ||
-        body.analysisPeriodMinutes > MAX_ANALYSIS_PERIOD_MINUTES
-      ) {
-        return NextResponse.json(
-          { error: `Analysis period must be between ${MIN_ANALYSIS_PERIOD_MINUTES} minutes and ${MAX_ANALYSIS_PERIOD_MINUTES} minutes (365 days)` },
-          { status: 400 }
-        );
-      }
-
-      // Analysis period must be greater than scan frequency
-      if (body.analysisPeriodMinutes <= body.scanFrequencyMinutes) {
-        return NextResponse.json(
-          { error: "Analysis period must be greater than scan frequency" },
-          { status: 400 }
-        );
-      }
-
       const now = new Date();
       const nextObservationAt = new Date(now.getTime() + body.scanFrequencyMinutes * 60 * 1000);
       const observationEndAt = new Date(now.getTime() + body.analysisPeriodMinutes * 60 * 1000);
@@ -215,10 +252,14 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
           nextObservationAt,
           observationEndAt,
         },
+        ...(observationWindow && !observationWindow.sufficient && {
+          warning: `Fewer than ${MIN_EXPECTED_RUNS} runs of "${observationWindow.schedule}" are expected in this analysis period`,
+          observationWindow,
+        }),
       });
     }
 
-    // Unknown action
+    await client.query("ROLLBACK");
     return NextResponse.json({ error: "Invalid action" }, { status: 400 });
   } catch (error) {
     await client.query("ROLLBACK");
@@ -230,36 +271,21 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
 }
 
 /**
- * Update watcher status based on candidate statuses:
- * - pending_schedule: No candidates scheduled
- * - partially_scheduled: Some candidates scheduled
- * - active: All candidates scheduled
+ * Record a pause / resume / opt-out in decision_log
  */
-async function updateWatcherStatus(client: PoolClient, watcherId: string) {
-  const statusResult = await client.query(
-    `SELECT 
-       COUNT(*) as total,
-       COUNT(*) FILTER (WHERE status = 'active') as active,
-       COUNT(*) FILTER (WHERE status = 'pending') as pending
-     FROM zombie_candidates
-     WHERE watcher_id = $1`,
-    [watcherId]
-  );
-
-  const { total, active, pending } = statusResult.rows[0];
-  const totalCount = parseInt(total);
-  const activeCount = parseInt(active);
-  const pendingCount = parseInt(pending);
-
-  let newStatus = "pending_schedule";
-  if (activeCount > 0 && pendingCount === 0) {
-    newStatus = "active";
-  } else if (activeCount > 0 && pendingCount > 0) {
-    newStatus = "partially_scheduled";
-  }
-
+async function logLifecycleDecision(
+  client: PoolClient,
+  candidateId: number,
+  watcherId: string,
+  action: "pause" | "resume" | "opt_out",
+  userId: string,
+  reason: string | null
+) {
   await client.query(
-    `UPDATE watchers SET status = $1, updated_at = NOW() WHERE watcher_id = $2`,
-    [newStatus, watcherId]
+    `INSERT INTO decision_log (
+       candidate_id, watcher_id, action_type, action_source,
+       actor_type, actor_id, decision, reasoning
+     ) VALUES ($1, $2, $3, 'frontend', 'user', $4, $3, $5)`,
+    [candidateId, watcherId, action, userId, reason]
   );
 }
@@ -0,0 +1,90 @@
+/**
+ * Candidate Score Explanation API
+ *
+ * GET /api/candidates/[id]/score-explanation
+ * Explains a candidate's zombie score: the probability that it is dead, as
+ * estimated from its observation history by lib/zombie-probability, broken
+ * down into the prior, the quiet window, the historical request rate or the
+ * cron cadence, and the resulting likelihoods.
+ * The candidate's watcher must belong to the authenticated user.
+ *
+ * Response: {
+ *   candidateId: number,
+ *   storedScore: number,            // zombie_score as last written by W2
+ *   probabilityDead: number,        // 0-1
+ *   score: number,                  // 0-100
+ *   model: "poisson_gamma" | "cron_cadence",
+ *   components: { prior, quietWindow, historicalRate, cronCadence,
+ *                 expectedRequestsIfAlive, likelihoodIfAlive, bayesFactor }
+ * }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { SCORE_EVIDENCE_SQL, explainZombieScore } from "@/lib/zombie-probability";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface EvidenceRow {
+  traffic_seen: boolean;
+  historical_requests: number;
+  historical_coverage: number;
+  quiet_observations: number;
+  quiet_coverage: number;
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const candidateId = parseInt(id, 10);
+    if (isNaN(candidateId)) {
+      return NextResponse.json({ error: "Invalid candidate ID" }, { status: 400 });
+    }
+
+    const candidate = await queryOne<{
+      schedule: string | null;
+      scan_frequency_minutes: number | null;
+      zombie_score: number | null;
+    }>(
+      `SELECT zc.schedule, zc.scan_frequency_minutes, zc.zombie_score
+       FROM zombie_candidates zc
+       JOIN watchers w ON zc.watcher_id = w.watcher_id
+       WHERE zc.candidate_id = $1 AND w.user_id = $2`,
+      [candidateId, auth.user.uid]
+    );
+
+    if (!candidate) {
+      return NextResponse.json({ error: "Candidate not found" }, { status: 404 });
+    }
+
+    const evidence = await queryOne<EvidenceRow>(SCORE_EVIDENCE_SQL, [candidateId]);
+
+    const explanation = explainZombieScore({
+      schedule: candidate.schedule,
+      windowMinutes: candidate.scan_frequency_minutes ?? 60,
+      trafficSeen: evidence?.traffic_seen ?? false,
+      historicalRequests: evidence?.historical_requests ?? 0,
+      historicalCoverage: evidence?.historical_coverage ?? 0,
+      quietObservations: evidence?.quiet_observations ?? 0,
+      quietCoverage: evidence?.quiet_coverage ?? 0,
+    });
+
+    return NextResponse.json({
+      candidateId,
+      storedScore: candidate.zombie_score ?? 0,
+      ...explanation,
+    });
+  } catch (error) {
+    console.error("[candidate/score-explanation] Error:", error);
+    return NextResponse.json({ error: "Failed to explain score" }, { status: 500 });
+  }
+}
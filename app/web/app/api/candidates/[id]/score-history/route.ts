@@ -0,0 +1,109 @@
+/**
+ * Candidate Score History API
+ *
+ * GET /api/candidates/[id]/score-history
+ * Zombie score and verdict over time, from candidate_score_history
+ * (migration 0009). W2 writes a row whenever the observation score or verdict
+ * changes, W3 when it sets the final verdict, and bulk reset_verdict when it
+ * clears them. The candidate's watcher must belong to the authenticated user.
+ *
+ * Query params:
+ *   - days: how far back to look (default 30, max 365). The last change
+ *     before the window is included so the series starts at the right value.
+ *
+ * Response: {
+ *   candidateId: number,
+ *   points: [{ recordedAt, score, verdict, previousScore, previousVerdict, source }],
+ *   verdictChanges: [{ recordedAt, verdict, score, source }]  // Into suspect or zombie
+ * }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface HistoryRow {
+  recorded_at: string;
+  zombie_score: number;
+  zombie_verdict: string;
+  previous_score: number | null;
+  previous_verdict: string | null;
+  source: string;
+}
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+// Verdicts marked on the chart when a candidate reaches them
+const MARKED_VERDICTS = ["suspect", "zombie"];
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const candidateId = parseInt(id, 10);
+    if (isNaN(candidateId)) {
+      return NextResponse.json({ error: "Invalid candidate ID" }, { status: 400 });
+    }
+
+    const daysParam = searchParams.get("days");
+    const days = daysParam ? parseInt(daysParam, 10) : DEFAULT_DAYS;
+    if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json({ error: `days must be between 1 and ${MAX_DAYS}` }, { status: 400 });
+    }
+
+    const candidate = await queryOne<{ candidate_id: number }>(
+      `SELECT zc.candidate_id
+       FROM zombie_candidates zc
+       JOIN watchers w ON zc.watcher_id = w.watcher_id
+       WHERE zc.candidate_id = $1 AND w.user_id = $2`,
+      [candidateId, auth.user.uid]
+    );
+
+    if (!candidate) {
+      return NextResponse.json({ error: "Candidate not found" }, { status: 404 });
+    }
+
+    const rows = await query<HistoryRow>(
+      `SELECT recorded_at, zombie_score, zombie_verdict, previous_score, previous_verdict, source
+       FROM (
+         (SELECT * FROM candidate_score_history
+          WHERE candidate_id = $1 AND recorded_at < NOW() - ($2 * INTERVAL '1 day')
+          ORDER BY recorded_at DESC, history_id DESC
+          LIMIT 1)
+         UNION ALL
+         (SELECT * FROM candidate_score_history
+          WHERE candidate_id = $1 AND recorded_at >= NOW() - ($2 * INTERVAL '1 day'))
+       ) h
+       ORDER BY recorded_at, history_id`,
+      [candidateId, days]
+    );
+
+    const points = rows.map((row) => ({
+      recordedAt: row.recorded_at,
+      score: row.zombie_score,
+      verdict: row.zombie_verdict,
+      previousScore: row.previous_score,
+      previousVerdict: row.previous_verdict,
+      source: row.source,
+    }));
+
+    const verdictChanges = points
+      .filter((p) => MARKED_VERDICTS.includes(p.verdict) && p.previousVerdict !== p.verdict)
+      .map((p) => ({ recordedAt: p.recordedAt, verdict: p.verdict, score: p.score, source: p.source }));
+
+    return NextResponse.json({ candidateId, points, verdictChanges });
+  } catch (error) {
+    console.error("[candidate/score-history] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch score history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Candidate Timeline API
+ *
+ * GET /api/candidates/[id]/timeline
+ * Returns one chronological feed of everything that happened to a candidate.
+ * The candidate's watcher must belong to the authenticated user.
+ *
+ * Sources:
+ *   - decision_log: LLM verdicts (W3), human kill / false_alert / watch_more
+ *     and PR events (W4); pause / resume / opt_out are reported as "lifecycle"
+ *   - scan_candidate_changes + scan_history: scans that added, moved or removed it
+ *   - observation_summaries: batches where the observation verdict changed
+ *
+ * Query params:
+ *   - limit: number of events (default 50, max 100)
+ *   - offset: pagination offset (default 0)
+ *   - order: "desc" (newest first, default) or "asc"
+ *
+ * Response: {
+ *   events: [{ id, occurredAt, category, type, source, actorType, actorId, details }],
+ *   total: number,
+ *   hasMore: boolean
+ * }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface TimelineRow {
+  id: string;
+  occurred_at: string;
+  category: "decision" | "lifecycle" | "scan" | "observation";
+  type: string;
+  source: string | null;
+  actor_type: string | null;
+  actor_id: string | null;
+  details: Record<string, unknown>;
+  total: string;
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const candidateId = parseInt(id, 10);
+    if (isNaN(candidateId)) {
+      return NextResponse.json({ error: "Invalid candidate ID" }, { status: 400 });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1), 100);
+    const offset = Math.max(parseInt(searchParams.get("offset") || "0") || 0, 0);
+    const order = searchParams.get("order") === "asc" ? "ASC" : "DESC";
+
+    const candidate = await queryOne<{ watcher_id: string; entity_type: string; entity_signature: string }>(
+      `SELECT zc.watcher_id, zc.entity_type, zc.entity_signature
+       FROM zombie_candidates zc
+       JOIN watchers w ON zc.watcher_id = w.watcher_id
+       WHERE zc.candidate_id = $1 AND w.user_id = $2`,
+      [candidateId, auth.user.uid]
+    );
+
+    if (!candidate) {
+      return NextResponse.json({ error: "Candidate not found" }, { status: 404 });
+    }
+
+    const rows = await query<TimelineRow>(
+      `WITH candidate_changes AS (
+         SELECT c.change_id, c.change_type, c.file_path, c.previous_file_path, sh.*
+         FROM scan_candidate_changes c
+         JOIN scan_history sh ON sh.scan_id = c.scan_id
+         WHERE c.watcher_id = $2 AND c.entity_type = $3 AND c.entity_signature = $4
+       ),
+       verdicts AS (
+         SELECT summary_id, observed_at, observation_verdict, traffic_detected,
+                total_request_count, total_error_count,
+                LAG(observation_verdict) OVER (ORDER BY observed_at, summary_id) AS previous_verdict
+         FROM observation_summaries
+         WHERE candidate_id = $1 AND observation_verdict IS NOT NULL
+       ),
+       events AS (
+         SELECT 'decision:' || log_id AS id, created_at AS occurred_at,
+                CASE WHEN action_type IN ('pause', 'resume', 'opt_out') THEN 'lifecycle' ELSE 'decision' END AS category,
+                action_type AS type, action_source AS source, actor_type, actor_id,
+                jsonb_build_object(
+                  'decision', decision,
+                  'confidence', confidence,
+                  'reasoning', reasoning,
+                  'kestraExecutionId', kestra_execution_id,
+                  'metadata', metadata
+                ) AS details
+         FROM decision_log
+         WHERE candidate_id = $1
+
+         UNION ALL
+
+         SELECT 'scan:' || change_id, COALESCE(completed_at, created_at), 'scan',
+                change_type, trigger_source,
+                CASE WHEN triggered_by IS NULL THEN 'system' ELSE 'user' END, triggered_by,
+                jsonb_build_object(
+                  'scanId', scan_id,
+                  'scanType', scan_type,
+                  'scanNumber', scan_number,
+                  'commitHash', commit_hash,
+                  'commitMessage', commit_message,
+                  'commitAuthor', commit_author,
+                  'filePath', file_path,
+                  'previousFilePath', previous_file_path
+                )
+         FROM candidate_changes
+
+         UNION ALL
+
+         -- Candidates discovered before per-scan diffs were recorded
+         SELECT 'discovered:' || candidate_id, discovered_at, 'scan', 'added', 'w1_watcher', 'system', NULL,
+                jsonb_build_object('filePath', file_path, 'commitHash', first_seen_commit)
+         FROM zombie_candidates
+         WHERE candidate_id = $1
+           AND NOT EXISTS (SELECT 1 FROM candidate_changes WHERE change_type = 'added')
+
+         UNION ALL
+
+         SELECT 'observation:' || summary_id, observed_at, 'observation',
+                observation_verdict, 'w2_observation', 'system', 'w2_observation_loop',
+                jsonb_build_object(
+                  'previousVerdict', previous_verdict,
+                  'trafficDetected', traffic_detected,
+                  'requestCount', total_request_count,
+                  'errorCount', total_error_count
+                )
+         FROM verdicts
+         WHERE observation_verdict IS DISTINCT FROM previous_verdict
+       )
+       SELECT *, COUNT(*) OVER () AS total
+       FROM events
+       ORDER BY occurred_at ${order}, id ${order}
+       LIMIT $5 OFFSET $6`,
+      [candidateId, candidate.watcher_id, candidate.entity_type, candidate.entity_signature, limit, offset]
+    );
+
+    const total = rows.length > 0 ? parseInt(rows[0].total) : 0;
+
+    return NextResponse.json({
+      events: rows.map((row) => ({
+        id: row.id,
+        occurredAt: row.occurred_at,
+        category: row.category,
+        type: row.type,
+        source: row.source,
+        actorType: row.actor_type,
+        actorId: row.actor_id,
+        details: row.details,
+      })),
+      total,
+      hasMore: offset + rows.length < total,
+    });
+  } catch (error) {
+    console.error("[candidate/timeline] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch candidate timeline" }, { status: 500 });
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Candidate Traffic API
+ *
+ * GET /api/candidates/[id]/traffic
+ * Traffic for the candidate's chart, bucketed in SQL over every observation
+ * in the range rather than the latest events only. observation_events give
+ * per-source counts and latency; observation_summaries give the polls, so a
+ * bucket where every poll failed can be told apart from one with no traffic.
+ * The candidate's watcher must belong to the authenticated user.
+ *
+ * Query params:
+ *   - range: "24h" | "7d" | "30d" (default) | "custom"
+ *   - from, to: ISO timestamps, required for range=custom
+ *   - bucket: bucket size like "15m", "1h", "1d" (default: 1h for 24h,
+ *     6h for 7d, 1d for 30d, about 100 buckets for custom). At least 5m,
+ *     at most MAX_BUCKETS buckets. Buckets are aligned to UTC.
+ *
+ * requests counts everything the sources reported; realRequests leaves out
+ * what the watcher's synthetic traffic rules matched (probes, uptime
+ * monitors). Events stored before the rules existed count as real.
+ *
+ * Latency is the per-poll value from the sources (p50 / p95 when the source
+ * reports them, else the average or the health check time); each source
+ * reports the median and 95th percentile of those per bucket, and the bucket
+ * totals take the slowest source.
+ *
+ * Response: {
+ *   range, from, to, bucketSeconds,
+ *   sourceTypes: string[],
+ *   buckets: [{
+ *     start,
+ *     status: "ok" | "partial" | "failed" | "unobserved",
+ *     requests: number | null,         // null when failed or unobserved
+ *     realRequests: number | null,
+ *     errors, p50LatencyMs, p95LatencyMs, polls, failedPolls,
+ *     sources: { [sourceType]: { requests, realRequests, errors, p50LatencyMs, p95LatencyMs, polls, failedPolls } }
+ *   }]
+ * }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface SourceBucketRow {
+  bucket: string;
+  source_type: string;
+  polls: number;
+  failed_polls: number;
+  requests: number;
+  real_requests: number;
+  errors: number;
+  p50: number | null;
+  p95: number | null;
+}
+
+interface PollBucketRow {
+  bucket: string;
+  polls: number;
+  failed_polls: number;
+  partial_polls: number;
+}
+
+interface SourceTraffic {
+  requests: number;
+  realRequests: number;
+  errors: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  polls: number;
+  failedPolls: number;
+}
+
+type TrafficRange = "24h" | "7d" | "30d" | "custom";
+
+const RANGE_DEFAULTS: Record<Exclude<TrafficRange, "custom">, { hours: number; bucket: string }> = {
+  "24h": { hours: 24, bucket: "1h" },
+  "7d": { hours: 24 * 7, bucket: "6h" },
+  "30d": { hours: 24 * 30, bucket: "1d" },
+};
+
+const UNIT_SECONDS: Record<string, number> = { m: 60, h: 3600, d: 86400 };
+const MIN_BUCKET_SECONDS = 300;
+const MAX_BUCKETS = 720;
+const CUSTOM_TARGET_BUCKETS = 100;
+// Bucket sizes a custom range snaps to
+const NICE_BUCKETS = ["5m", "15m", "30m", "1h", "3h", "6h", "12h", "1d", "7d"];
+
+function parseBucket(bucket: string): number | null {
+  const match = bucket.match(/^(\d+)([mhd])$/);
+  return match ? parseInt(match[1], 10) * UNIT_SECONDS[match[2]] : null;
+}
+
+function roundLatency(value: number | null): number | null {
+  return value === null ? null : Math.round(value);
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const candidateId = parseInt(id, 10);
+    if (isNaN(candidateId)) {
+      return NextResponse.json({ error: "Invalid candidate ID" }, { status: 400 });
+    }
+
+    const range = (searchParams.get("range") || "30d") as TrafficRange;
+    let from: Date;
+    let to: Date;
+    let defaultBucket: string;
+
+    if (range === "custom") {
+      from = new Date(searchParams.get("from") || "");
+      to = new Date(searchParams.get("to") || "");
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return NextResponse.json(
+          { error: "range=custom requires from and to ISO timestamps, with from before to" },
+          { status: 400 }
+        );
+      }
+      const spanSeconds = (to.getTime() - from.getTime()) / 1000;
+      defaultBucket =
+        NICE_BUCKETS.find((b) => spanSeconds / parseBucket(b)! <= CUSTOM_TARGET_BUCKETS) ??
+        NICE_BUCKETS[NICE_BUCKETS.length - 1];
+    } else if (RANGE_DEFAULTS[range]) {
+      to = new Date();
+      from = new Date(to.getTime() - RANGE_DEFAULTS[range].hours * 3600 * 1000);
+      defaultBucket = RANGE_DEFAULTS[range].bucket;
+    } else {
+      return NextResponse.json({ error: "range must be 24h, 7d, 30d or custom" }, { status: 400 });
+    }
+
+    const bucketSeconds = parseBucket(searchParams.get("bucket") || defaultBucket);
+    if (bucketSeconds === null || bucketSeconds < MIN_BUCKET_SECONDS) {
+      return NextResponse.json(
+        { error: "bucket must look like 15m, 1h or 1d and be at least 5m" },
+        { status: 400 }
+      );
+    }
+
+    const firstBucket = Math.floor(from.getTime() / 1000 / bucketSeconds);
+    const lastBucket = Math.floor((to.getTime() - 1) / 1000 / bucketSeconds);
+    if (lastBucket - firstBucket + 1 > MAX_BUCKETS) {
+      return NextResponse.json(
+        { error: `Too many buckets; use a larger bucket (max ${MAX_BUCKETS} per range)` },
+        { status: 400 }
+      );
+    }
+
+    const candidate = await queryOne<{ candidate_id: number }>(
+      `SELECT zc.candidate_id
+       FROM zombie_candidates zc
+       JOIN watchers w ON zc.watcher_id = w.watcher_id
+       WHERE zc.candidate_id = $1 AND w.user_id = $2`,
+      [candidateId, auth.user.uid]
+    );
+
+    if (!candidate) {
+      return NextResponse.json({ error: "Candidate not found" }, { status: 404 });
+    }
+
+    const [sourceRows, pollRows] = await Promise.all([
+      query<SourceBucketRow>(
+        `SELECT
+           floor(extract(epoch FROM observed_at) / $4)::bigint::text AS bucket,
+           source_type,
+           COUNT(*)::int AS polls,
+           COUNT(*) FILTER (WHERE error_type IS NOT NULL)::int AS failed_polls,
+           COALESCE(SUM(raw_request_count) FILTER (WHERE error_type IS NULL), 0)::int AS requests,
+           COALESCE(
+             SUM(COALESCE(real_request_count, raw_request_count)) FILTER (WHERE error_type IS NULL), 0
+           )::int AS real_requests,
+           COALESCE(SUM(error_count), 0)::int AS errors,
+           percentile_cont(0.5) WITHIN GROUP (
+             ORDER BY COALESCE(p50_latency_ms, avg_latency_ms, health_check_latency_ms)
+           ) AS p50,
+           percentile_cont(0.95) WITHIN GROUP (
+             ORDER BY COALESCE(p95_latency_ms, avg_latency_ms, health_check_latency_ms)
+           ) AS p95
+         FROM observation_events
+         WHERE candidate_id = $1 AND observed_at >= $2 AND observed_at < $3
+         GROUP BY 1, 2`,
+        [candidateId, from, to, bucketSeconds]
+      ),
+      query<PollBucketRow>(
+        `SELECT
+           floor(extract(epoch FROM observed_at) / $4)::bigint::text AS bucket,
+           COUNT(*)::int AS polls,
+           COUNT(*) FILTER (WHERE observation_verdict = 'error')::int AS failed_polls,
+           COUNT(*) FILTER (
+             WHERE observation_verdict <> 'error' AND sources_with_errors > 0
+           )::int AS partial_polls
+         FROM observation_summaries
+         WHERE candidate_id = $1 AND observed_at >= $2 AND observed_at < $3
+         GROUP BY 1`,
+        [candidateId, from, to, bucketSeconds]
+      ),
+    ]);
+
+    const sourcesByBucket = new Map<string, SourceBucketRow[]>();
+    for (const row of sourceRows) {
+      const rows = sourcesByBucket.get(row.bucket) ?? [];
+      rows.push(row);
+      sourcesByBucket.set(row.bucket, rows);
+    }
+    const pollsByBucket = new Map(pollRows.map((row) => [row.bucket, row]));
+
+    const buckets = [];
+    for (let b = firstBucket; b <= lastBucket; b++) {
+      const key = String(b);
+      const rows = sourcesByBucket.get(key) ?? [];
+      const poll = pollsByBucket.get(key);
+
+      const sources: Record<string, SourceTraffic> = {};
+      for (const row of rows) {
+        sources[row.source_type] = {
+          requests: row.requests,
+          realRequests: row.real_requests,
+          errors: row.errors,
+          p50LatencyMs: roundLatency(row.p50),
+          p95LatencyMs: roundLatency(row.p95),
+          polls: row.polls,
+          failedPolls: row.failed_polls,
+        };
+      }
+
+      // Summaries count polls; events stand in for batches written without one
+      const polls = poll?.polls ?? Math.max(0, ...rows.map((r) => r.polls));
+      const failedPolls = poll
+        ? poll.failed_polls
+        : rows.length > 0 && rows.every((r) => r.failed_polls === r.polls) ? polls : 0;
+      const partial = poll ? poll.partial_polls > 0 : rows.some((r) => r.failed_polls > 0);
+
+      let status: "ok" | "partial" | "failed" | "unobserved";
+      if (polls === 0) status = "unobserved";
+      else if (failedPolls === polls) status = "failed";
+      else if (failedPolls > 0 || partial) status = "partial";
+      else status = "ok";
+
+      const latencies50 = rows.map((r) => r.p50).filter((v): v is number => v !== null);
+      const latencies95 = rows.map((r) => r.p95).filter((v): v is number => v !== null);
+
+      const gap = status === "failed" || status === "unobserved";
+
+      buckets.push({
+        start: new Date(b * bucketSeconds * 1000).toISOString(),
+        status,
+        requests: gap ? null : rows.reduce((sum, r) => sum + r.requests, 0),
+        realRequests: gap ? null : rows.reduce((sum, r) => sum + r.real_requests, 0),
+        errors: rows.reduce((sum, r) => sum + r.errors, 0),
+        // Across sources: the slowest source's percentile
+        p50LatencyMs: latencies50.length ? roundLatency(Math.max(...latencies50)) : null,
+        p95LatencyMs: latencies95.length ? roundLatency(Math.max(...latencies95)) : null,
+        polls,
+        failedPolls,
+        sources,
+      });
+    }
+
+    return NextResponse.json({
+      range,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      bucketSeconds,
+      sourceTypes: [...new Set(sourceRows.map((r) => r.source_type))].sort(),
+      buckets,
+    });
+  } catch (error) {
+    console.error("[candidate/traffic] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch traffic" }, { status: 500 });
+  }
+}
@@ -0,0 +1,528 @@
+/**
+ * Bulk Candidate Actions API
+ *
+ * POST /api/candidates/bulk
+ * Applies one action to many candidates. Each candidate is processed in its
+ * own transaction, so one failure never rolls back the others, and every
+ * candidate gets its own result. Kills commit the status change first and
+ * trigger W4 afterwards, so no row stays locked while Kestra answers; a
+ * candidate with a kill in progress is skipped.
+ *
+ * Body: {
+ *   userId?: string,                 // Must match the authenticated user if sent
+ *   action: "pause" | "resume" | "opt_out" | "reset_verdict" | "kill",
+ *   candidateIds?: number[],         // Either candidateIds or filter
+ *   filter?: {
+ *     watcherId: string,
+ *     status?: string[],
+ *     minScore?: number,             // On final_zombie_score, else zombie_score
+ *     maxScore?: number
+ *   },
+ *   dryRun?: boolean,                // Preview only - nothing is changed
+ *   pauseReason?: string,            // pause / opt_out
+ *   githubToken?: string             // kill - defaults to each watcher's stored token
+ * }
+ *
+ * Response: {
+ *   action, dryRun,
+ *   results: [{ candidateId, entitySignature, from, to, outcome, message?, executionId? }],
+ *   summary: { changed, skipped, failed, unknown }
+ * }
+ * outcome is "will_change" | "skipped" on a dry run, "changed" | "skipped" | "failed" otherwise,
+ * or "unknown" for a kill whose trigger timed out: W4 may be running, so the
+ * candidate stays confirmed_zombie and later kills skip it.
+ *
+ * At most MAX_BATCH_SIZE candidates per request; a larger filter is refused.
+ * Actions are logged to decision_log with action_source 'bulk'.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { PoolClient } from "pg";
+import { pool, query } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { decryptSecret } from "@/lib/credential-vault";
+import { KESTRA_FLOWS, KestraError, KestraExecution, isTriggerRefused, triggerFlow } from "@/lib/kestra";
+import { loadWatcherPolicy } from "@/lib/policy";
+import { updateWatcherStatus } from "@/lib/watcher-status";
+
+export const dynamic = "force-dynamic";
+
+type BulkAction = "pause" | "resume" | "opt_out" | "reset_verdict" | "kill";
+
+interface BulkActionRequest {
+  userId?: string;
+  action?: BulkAction;
+  candidateIds?: number[];
+  filter?: {
+    watcherId?: string;
+    status?: string[];
+    minScore?: number;
+    maxScore?: number;
+  };
+  dryRun?: boolean;
+  pauseReason?: string;
+  githubToken?: string;
+}
+
+interface BulkCandidateRow {
+  candidate_id: number;
+  watcher_id: string;
+  entity_signature: string;
+  file_path: string;
+  status: string;
+  is_protected: boolean | null;
+  zombie_score: number | null;
+  zombie_verdict: string | null;
+  final_zombie_score: number | null;
+  kill_execution_id: string | null;
+  human_action: string | null;
+  repo_url: string;
+  repo_name: string;
+  github_token_encrypted: string | null;
+  policy_source: string | null;
+  policy_path: string | null;
+  policy_commit: string | null;
+  policy_loaded_at: string | null;
+}
+
+interface BulkResult {
+  candidateId: number;
+  entitySignature: string | null;
+  from: string | null;
+  to: string | null;
+  outcome: "will_change" | "changed" | "skipped" | "failed" | "unknown";
+  message?: string;
+  executionId?: string;
+}
+
+const BULK_ACTIONS: BulkAction[] = ["pause", "resume", "opt_out", "reset_verdict", "kill"];
+const MAX_BATCH_SIZE = 100;
+
+// Statuses each action applies to, and the status it leaves behind
+const TRANSITIONS: Record<BulkAction, { from: string[]; to: string }> = {
+  pause: { from: ["active"], to: "paused" },
+  resume: { from: ["paused"], to: "active" },
+  opt_out: { from: ["pending", "active", "paused", "pending_review", "healthy"], to: "inactive" },
+  reset_verdict: { from: ["pending_review", "healthy", "confirmed_zombie"], to: "pending" },
+  kill: { from: ["pending_review", "confirmed_zombie", "active"], to: "confirmed_zombie" },
+};
+
+const CANDIDATE_COLUMNS = `
+  zc.candidate_id, zc.watcher_id, zc.entity_signature, zc.file_path, zc.status,
+  zc.is_protected, zc.zombie_score, zc.zombie_verdict, zc.final_zombie_score, zc.kill_execution_id, zc.human_action,
+  w.repo_url, w.repo_name, w.github_token_encrypted,
+  w.policy_source, w.policy_path, w.policy_commit, w.policy_loaded_at`;
+
+/**
+ * Why the action does not apply to this candidate, or null if it does
+ */
+function skipReason(action: BulkAction, row: BulkCandidateRow): string | null {
+  if (!TRANSITIONS[action].from.includes(row.status)) {
+    return `Not applicable to status ${row.status}`;
+  }
+  if ((action === "reset_verdict" || action === "kill") && row.kill_execution_id) {
+    return "A kill is already in progress";
+  }
+  if (action === "kill") {
+    // W4 (or a kill whose trigger timed out) sets this until it finishes or reverts to pending_review
+    if (row.status === "confirmed_zombie" && row.human_action === "kill") return "A kill is already in progress";
+    if (row.is_protected) return "Protected by an exclusion rule";
+    const minFinalScore = loadWatcherPolicy(row)?.policy?.kill.minFinalScore ?? null;
+    if (minFinalScore !== null && (row.final_zombie_score === null || row.final_zombie_score < minFinalScore)) {
+      return `Repository policy requires a final score of at least ${minFinalScore}`;
+    }
+  }
+  return null;
+}
+
+function parseRepo(row: BulkCandidateRow): { owner: string; name: string } | null {
+  if (row.repo_name.includes("/")) {
+    const [owner, name] = row.repo_name.split("/");
+    return { owner, name };
+  }
+  const urlMatch = row.repo_url.match(/github\.com[/:]([^/]+)\/([^/.]+)/);
+  return urlMatch ? { owner: urlMatch[1], name: urlMatch[2] } : null;
+}
+
+async function logBulkDecision(
+  client: PoolClient,
+  row: BulkCandidateRow,
+  actionType: string,
+  userId: string,
+  reason: string | null,
+  executionId: string | null = null
+) {
+  await client.query(
+    `INSERT INTO decision_log (
+       candidate_id, watcher_id, action_type, action_source,
+       actor_type, actor_id, decision, reasoning, kestra_execution_id
+     ) VALUES ($1, $2, $3, 'bulk', 'user', $4, $3, $5, $6)`,
+    [row.candidate_id, row.watcher_id, actionType, userId, reason, executionId]
+  );
+}
+
+/**
+ * W4 inputs for a kill, checked before anything is changed
+ */
+function killInputs(row: BulkCandidateRow, body: BulkActionRequest) {
+  const githubToken = body.githubToken || decryptSecret(row.github_token_encrypted);
+  if (!githubToken) {
+    throw new BulkSkip("GitHub token required - the watcher has no stored token");
+  }
+  const repo = parseRepo(row);
+  if (!repo) {
+    throw new BulkSkip("Could not parse repo owner/name");
+  }
+  return {
+    candidate_id: row.candidate_id,
+    entity_signature: row.entity_signature,
+    file_path: row.file_path,
+    repo_url: row.repo_url,
+    repo_owner: repo.owner,
+    repo_name: repo.name,
+    github_token: githubToken,
+  };
+}
+
+/**
+ * Apply the action to one locked candidate inside the caller's transaction.
+ * A kill only moves the status here; W4 is triggered by triggerKill after COMMIT.
+ */
+async function applyAction(
+  client: PoolClient,
+  action: BulkAction,
+  row: BulkCandidateRow,
+  body: BulkActionRequest,
+  userId: string
+): Promise<void> {
+  switch (action) {
+    case "pause":
+      await client.query(
+        `UPDATE zombie_candidates
+         SET status = 'paused', pause_reason = $2, paused_at = NOW(), updated_at = NOW()
+         WHERE candidate_id = $1`,
+        [row.candidate_id, body.pauseReason || null]
+      );
+      await logBulkDecision(client, row, "pause", userId, body.pauseReason || null);
+      return;
+
+    case "resume":
+      await client.query(
+        `UPDATE zombie_candidates
+         SET status = 'active', pause_reason = NULL, paused_at = NULL,
+             next_observation_at = NOW() + (scan_frequency_minutes * INTERVAL '1 minute'),
+             updated_at = NOW()
+         WHERE candidate_id = $1`,
+        [row.candidate_id]
+      );
+      await logBulkDecision(client, row, "resume", userId, null);
+      return;
+
+    case "opt_out":
+      await client.query(
+        `UPDATE zombie_candidates
+         SET status = 'inactive', pause_reason = $2, paused_at = NOW(), updated_at = NOW()
+         WHERE candidate_id = $1`,
+        [row.candidate_id, body.pauseReason || "user_opt_out"]
+      );
+      await logBulkDecision(client, row, "opt_out", userId, body.pauseReason || null);
+      return;
+
+    case "reset_verdict":
+      // Back to pending: the candidate needs a new schedule to be observed again
+      await client.query(
+        `UPDATE zombie_candidates
+         SET status = 'pending',
+             zombie_score = 0,
+             zombie_verdict = 'unknown',
+             final_zombie_score = NULL,
+             final_verdict = NULL,
+             final_confidence = NULL,
+             final_reasoning = NULL,
+             final_recommendation = NULL,
+             final_blast_radius = NULL,
+             final_analysis_at = NULL,
+             human_action = NULL,
+             human_feedback = NULL,
+             human_action_at = NULL,
+             human_action_source = NULL,
+             action_token = NULL,
+             action_token_expires_at = NULL,
+             next_observation_at = NULL,
+             observation_end_at = NULL,
+             updated_at = NOW()
+         WHERE candidate_id = $1`,
+        [row.candidate_id]
+      );
+      await client.query(
+        `INSERT INTO candidate_score_history (
+           candidate_id, watcher_id, zombie_score, zombie_verdict,
+           previous_score, previous_verdict, source
+         ) VALUES ($1, $2, 0, 'unknown', $3, $4, 'bulk')`,
+        [row.candidate_id, row.watcher_id, row.zombie_score, row.zombie_verdict]
+      );
+      await logBulkDecision(client, row, "reset_verdict", userId, `Reset from ${row.status}`);
+      await updateWatcherStatus(client, row.watcher_id);
+      return;
+
+    case "kill":
+      await client.query(
+        `UPDATE zombie_candidates SET status = 'confirmed_zombie', updated_at = NOW() WHERE candidate_id = $1`,
+        [row.candidate_id]
+      );
+      return;
+  }
+}
+
+/**
+ * Start W4 for a candidate whose status change is committed, then record the
+ * execution. If Kestra certainly refused it, the candidate gets its previous
+ * status back and the error is rethrown. If the outcome is unknown (timeout,
+ * 5xx) W4 may already be running: the candidate keeps confirmed_zombie with
+ * human_action 'kill' so it is not killed twice, and null is returned.
+ */
+async function triggerKill(
+  client: PoolClient,
+  row: BulkCandidateRow,
+  inputs: ReturnType<typeof killInputs>,
+  userId: string
+): Promise<string | null> {
+  let execution: KestraExecution;
+  try {
+    execution = await triggerFlow(KESTRA_FLOWS.killZombie, inputs, {
+      labels: { watcher_id: row.watcher_id, candidate_id: String(row.candidate_id) },
+    });
+  } catch (error) {
+    if (isTriggerRefused(error)) {
+      await client.query(
+        `UPDATE zombie_candidates SET status = $2, updated_at = NOW()
+         WHERE candidate_id = $1 AND kill_execution_id IS NULL`,
+        [row.candidate_id, row.status]
+      );
+      throw error;
+    }
+    console.error(`[candidates/bulk] Kill trigger outcome unknown for candidate ${row.candidate_id}:`, error);
+    await client.query(
+      `UPDATE zombie_candidates SET human_action = 'kill', human_action_at = NOW(), updated_at = NOW()
+       WHERE candidate_id = $1`,
+      [row.candidate_id]
+    );
+    await logBulkDecision(client, row, "kill", userId, "Kill workflow trigger timed out; outcome unknown");
+    return null;
+  }
+
+  await client.query(
+    `UPDATE zombie_candidates
+     SET human_action = 'kill', human_action_at = NOW(), kill_execution_id = $2, updated_at = NOW()
+     WHERE candidate_id = $1`,
+    [row.candidate_id, execution.id]
+  );
+  await logBulkDecision(client, row, "kill", userId, null, execution.id);
+  return execution.id;
+}
+
+// Raised inside applyAction when a candidate turns out not to be actionable
+class BulkSkip extends Error {}
+
+async function resolveCandidateIds(body: BulkActionRequest, userId: string): Promise<number[] | NextResponse> {
+  if (body.candidateIds !== undefined) {
+    if (!Array.isArray(body.candidateIds) || body.candidateIds.length === 0 ||
+      !body.candidateIds.every((id) => Number.isInteger(id))) {
+      return NextResponse.json({ error: "candidateIds must be a non-empty list of IDs" }, { status: 400 });
+    }
+    const ids = [...new Set(body.candidateIds)];
+    if (ids.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} candidates can be changed at once` },
+        { status: 400 }
+      );
+    }
+    return ids;
+  }
+
+  const filter = body.filter;
+  if (!filter?.watcherId) {
+    return NextResponse.json({ error: "Either candidateIds or filter.watcherId is required" }, { status: 400 });
+  }
+
+  const rows = await query<{ candidate_id: number }>(
+    `SELECT zc.candidate_id
+     FROM zombie_candidates zc
+     JOIN watchers w ON zc.watcher_id = w.watcher_id
+     WHERE w.watcher_id = $1 AND w.user_id = $2
+       AND ($3::text[] IS NULL OR zc.status = ANY($3))
+       AND ($4::int IS NULL OR COALESCE(zc.final_zombie_score, zc.zombie_score) >= $4)
+       AND ($5::int IS NULL OR COALESCE(zc.final_zombie_score, zc.zombie_score) <= $5)
+     ORDER BY zc.candidate_id
+     LIMIT $6`,
+    [
+      filter.watcherId,
+      userId,
+      filter.status?.length ? filter.status : null,
+      filter.minScore ?? null,
+      filter.maxScore ?? null,
+      MAX_BATCH_SIZE + 1,
+    ]
+  );
+
+  if (rows.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `Filter matches more than ${MAX_BATCH_SIZE} candidates. Narrow it down and try again.` },
+      { status: 400 }
+    );
+  }
+  return rows.map((row) => row.candidate_id);
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    let body: BulkActionRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
+
+    const action = body.action;
+    if (!action || !BULK_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${BULK_ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const candidateIds = await resolveCandidateIds(body, userId);
+    if (candidateIds instanceof NextResponse) return candidateIds;
+
+    const results: BulkResult[] = [];
+
+    if (body.dryRun) {
+      const rows = await query<BulkCandidateRow>(
+        `SELECT ${CANDIDATE_COLUMNS}
+         FROM zombie_candidates zc
+         JOIN watchers w ON zc.watcher_id = w.watcher_id
+         WHERE zc.candidate_id = ANY($1) AND w.user_id = $2`,
+        [candidateIds, userId]
+      );
+      const byId = new Map(rows.map((row) => [row.candidate_id, row]));
+
+      for (const candidateId of candidateIds) {
+        const row = byId.get(candidateId);
+        if (!row) {
+          results.push({ candidateId, entitySignature: null, from: null, to: null, outcome: "skipped", message: "Candidate not found" });
+          continue;
+        }
+        const reason = skipReason(action, row);
+        results.push({
+          candidateId,
+          entitySignature: row.entity_signature,
+          from: row.status,
+          to: reason ? row.status : TRANSITIONS[action].to,
+          outcome: reason ? "skipped" : "will_change",
+          ...(reason && { message: reason }),
+        });
+      }
+    } else {
+      for (const candidateId of candidateIds) {
+        results.push(await processCandidate(candidateId, action, body, userId));
+      }
+    }
+
+    return NextResponse.json({
+      action,
+      dryRun: Boolean(body.dryRun),
+      results,
+      summary: {
+        changed: results.filter((r) => r.outcome === "changed" || r.outcome === "will_change").length,
+        skipped: results.filter((r) => r.outcome === "skipped").length,
+        failed: results.filter((r) => r.outcome === "failed").length,
+        unknown: results.filter((r) => r.outcome === "unknown").length,
+      },
+    });
+  } catch (error) {
+    console.error("[candidates/bulk] Error:", error);
+    return NextResponse.json({ error: "Failed to run bulk action" }, { status: 500 });
+  }
+}
+
+/**
+ * Run the action for one candidate in its own transaction
+ */
+async function processCandidate(
+  candidateId: number,
+  action: BulkAction,
+  body: BulkActionRequest,
+  userId: string
+): Promise<BulkResult> {
+  const client = await pool.connect();
+  let row: BulkCandidateRow | undefined;
+
+  try {
+    await client.query("BEGIN");
+
+    const { rows } = await client.query<BulkCandidateRow>(
+      `SELECT ${CANDIDATE_COLUMNS}
+       FROM zombie_candidates zc
+       JOIN watchers w ON zc.watcher_id = w.watcher_id
+       WHERE zc.candidate_id = $1 AND w.user_id = $2
+       FOR UPDATE OF zc`,
+      [candidateId, userId]
+    );
+    row = rows[0];
+
+    if (!row) {
+      await client.query("ROLLBACK");
+      return { candidateId, entitySignature: null, from: null, to: null, outcome: "skipped", message: "Candidate not found" };
+    }
+
+    const reason = skipReason(action, row);
+    if (reason) {
+      await client.query("ROLLBACK");
+      return { candidateId, entitySignature: row.entity_signature, from: row.status, to: row.status, outcome: "skipped", message: reason };
+    }
+
+    const inputs = action === "kill" ? killInputs(row, body) : null;
+    await applyAction(client, action, row, body, userId);
+    await client.query("COMMIT");
+
+    // Outside the transaction, so the candidate row is not locked while Kestra answers
+    const executionId = inputs ? await triggerKill(client, row, inputs, userId) : null;
+    if (inputs && !executionId) {
+      return {
+        candidateId,
+        entitySignature: row.entity_signature,
+        from: row.status,
+        to: TRANSITIONS[action].to,
+        outcome: "unknown",
+        message: "Kestra did not confirm the kill workflow; it may still run. Check before retrying.",
+      };
+    }
+
+    return {
+      candidateId,
+      entitySignature: row.entity_signature,
+      from: row.status,
+      to: TRANSITIONS[action].to,
+      outcome: "changed",
+      ...(executionId && { executionId }),
+    };
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    const base = { candidateId, entitySignature: row?.entity_signature ?? null, from: row?.status ?? null, to: row?.status ?? null };
+
+    if (error instanceof BulkSkip) {
+      return { ...base, outcome: "skipped", message: error.message };
+    }
+    if (error instanceof KestraError) {
+      console.error(`[candidates/bulk] Kestra error for candidate ${candidateId}:`, error.body || error.message);
+      return { ...base, outcome: "failed", message: "Failed to trigger kill workflow" };
+    }
+    console.error(`[candidates/bulk] ${action} failed for candidate ${candidateId}:`, error);
+    return { ...base, outcome: "failed", message: "Unexpected error" };
+  } finally {
+    client.release();
+  }
+}
@@ -6,7 +6,7 @@
  *
  * Body: {
  *   candidateIds: number[],  // Max: 50 candidates per request
- *   userId: string
+ *   userId?: string          // Must match the authenticated user if sent
  * }
  *
  * Returns: {
@@ -15,12 +15,13 @@
  */
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 
 interface HealthCheckRequest {
   candidateIds: number[];
-  userId: string;
+  userId?: string;
 }
 
 interface CandidateHealth {
@@ -115,9 +116,8 @@ export async function POST(req: NextRequest) {
   try {
     const body: HealthCheckRequest = await req.json();
 
-    if (!body.userId) {
-      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
-    }
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
 
     if (!body.candidateIds || !Array.isArray(body.candidateIds) || body.candidateIds.length === 0) {
       return NextResponse.json({ error: "Missing or empty candidateIds array" }, { status: 400 });
@@ -144,7 +144,7 @@ export async function POST(req: NextRequest) {
        FROM zombie_candidates zc
        JOIN watchers w ON zc.watcher_id = w.watcher_id
        WHERE zc.candidate_id = ANY($1) AND w.user_id = $2`,
-      [body.candidateIds, body.userId]
+      [body.candidateIds, auth.user.uid]
     );
 
     if (result.rows.length === 0) {
@@ -5,27 +5,36 @@
  * Schedule multiple candidates at once with the same settings.
  *
  * Body: {
- *   userId: string,
+ *   userId?: string,                // Must match the authenticated user if sent
  *   candidateIds: number[],         // Can be empty if selectAll is true
  *   selectAll?: boolean,            // Schedule all pending candidates for a watcher
  *   watcherId?: string,             // Required if selectAll is true
  *   scanFrequencyMinutes: number,   // Min: 5, Max: 1440 (24 hours)
- *   analysisPeriodMinutes: number   // Min: 10, Max: 525600 (365 days)
+ *   analysisPeriodMinutes: number,  // Min: 10, Max: 525600 (365 days)
+ *   allowShortWindow?: boolean      // Schedule even if cron jobs would run too few times
  * }
+ *
+ * Cron candidates whose schedule is expected to run fewer than
+ * MIN_EXPECTED_RUNS times in the analysis period (lib/cron) fail the whole
+ * request with 400 and { error, shortWindows: [{ candidateId, ...check }] },
+ * unless allowShortWindow is set; then the response lists them as shortWindows.
  */
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
-import { PoolClient } from "pg";
+import { authenticateRequest } from "@/lib/auth";
+import { MIN_EXPECTED_RUNS, checkObservationWindow } from "@/lib/cron";
+import { updateWatcherStatus } from "@/lib/watcher-status";
 
 export const dynamic = "force-dynamic";
 
 interface BulkScheduleRequest {
-  userId: string;
+  userId?: string;
   candidateIds?: number[];
   selectAll?: boolean;
   watcherId?: string;
   scanFrequencyMinutes: number;
   analysisPeriodMinutes: number;
+  allowShortWindow?: boolean;
 }
 
 // Validation constants
@@ -41,10 +50,11 @@ export async function POST(req: NextRequest) {
   try {
     const body: BulkScheduleRequest = await req.json();
 
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
+
     // Validate required fields
-    if (!body.userId) {
-      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
-    }
 
     if (body.selectAll && !body.watcherId) {
       return NextResponse.json(
@@ -99,15 +109,17 @@ export async function POST(req: NextRequest) {
 
     let candidateIds: number[] = [];
     let watcherId: string | null = null;
+    const schedules = new Map<number, string | null>();
 
     if (body.selectAll && body.watcherId) {
       // Verify watcher belongs to user
       const watcherResult = await client.query(
         `SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2`,
-        [body.watcherId, body.userId]
+        [body.watcherId, userId]
       );
 
       if (watcherResult.rows.length === 0) {
+        await client.query("ROLLBACK");
         return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
       }
 
@@ -115,13 +127,14 @@ export async function POST(req: NextRequest) {
 
       // Get all pending candidates for this watcher
       const pendingResult = await client.query(
-        `SELECT candidate_id FROM zombie_candidates 
+        `SELECT candidate_id, schedule FROM zombie_candidates 
          WHERE watcher_id = $1 AND status = 'pending'
          LIMIT $2`,
         [body.watcherId, MAX_BATCH_SIZE]
       );
 
       candidateIds = pendingResult.rows.map((r) => r.candidate_id);
+      pendingResult.rows.forEach((r) => schedules.set(r.candidate_id, r.schedule));
 
       if (candidateIds.length === 0) {
         await client.query("ROLLBACK");
@@ -133,11 +146,11 @@ export async function POST(req: NextRequest) {
     } else {
       // Verify all candidates belong to user and get watcher_id
       const verifyResult = await client.query(
-        `SELECT DISTINCT zc.candidate_id, zc.watcher_id
+        `SELECT DISTINCT zc.candidate_id, zc.watcher_id, zc.schedule
          FROM zombie_candidates zc
          JOIN watchers w ON zc.watcher_id = w.watcher_id
          WHERE zc.candidate_id = ANY($1) AND w.user_id = $2`,
-        [body.candidateIds, body.userId]
+        [body.candidateIds, userId]
       );
 
       if (verifyResult.rows.length !== body.candidateIds!.length) {
@@ -149,6 +162,7 @@ export async function POST(req: NextRequest) {
       }
 
       candidateIds = body.candidateIds!;
+      verifyResult.rows.forEach((r) => schedules.set(r.candidate_id, r.schedule));
       
       // Get unique watcher IDs (should be one, but handle multiple)
       const watcherIds = [...new Set(verifyResult.rows.map((r) => r.watcher_id))];
@@ -164,6 +178,29 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Cron jobs must be expected to run often enough for silence to mean something
+    const shortWindows = candidateIds.flatMap((candidateId) => {
+      const check = checkObservationWindow(schedules.get(candidateId) ?? null, body.analysisPeriodMinutes);
+      return check && !check.sufficient ? [{ candidateId, ...check }] : [];
+    });
+
+    if (shortWindows.length > 0 && !body.allowShortWindow) {
+      await client.query("ROLLBACK");
+      const suggestedPeriodMinutes = Math.max(...shortWindows.map((w) => w.suggestedPeriodMinutes));
+      const tooRare = shortWindows.filter((w) => !w.suggestionSufficient).length;
+      return NextResponse.json(
+        {
+          error: `${shortWindows.length} cron candidate(s) are expected to run fewer than ${MIN_EXPECTED_RUNS} times in this analysis period. ${
+            tooRare > 0
+              ? `${tooRare} run too rarely for any accepted analysis period (max 365 days); schedule them separately with allowShortWindow.`
+              : `Try ${Math.round(suggestedPeriodMinutes / 60)} hours.`
+          }`,
+          shortWindows,
+        },
+        { status: 400 }
+      );
+    }
+
     const now = new Date();
     const nextObservationAt = new Date(now.getTime() + body.scanFrequencyMinutes * 60 * 1000);
     const observationEndAt = new Date(now.getTime() + body.analysisPeriodMinutes * 60 * 1000);
@@ -205,6 +242,10 @@ export async function POST(req: NextRequest) {
         nextObservationAt,
         observationEndAt,
       },
+      ...(shortWindows.length > 0 && {
+        warning: `${shortWindows.length} cron candidate(s) are expected to run fewer than ${MIN_EXPECTED_RUNS} times`,
+        shortWindows,
+      }),
     });
   } catch (error) {
     await client.query("ROLLBACK");
@@ -215,33 +256,3 @@ export async function POST(req: NextRequest) {
   }
 }
 
-/**
- * Update watcher status based on candidate statuses
- */
-async function updateWatcherStatus(client: PoolClient, watcherId: string) {
-  const statusResult = await client.query(
-    `SELECT 
-       COUNT(*) as total,
-       COUNT(*) FILTER (WHERE status = 'active') as active,
-       COUNT(*) FILTER (WHERE status = 'pending') as pending
-     FROM zombie_candidates
-     WHERE watcher_id = $1`,
-    [watcherId]
-  );
-
-  const { total, active, pending } = statusResult.rows[0];
-  const activeCount = parseInt(active);
-  const pendingCount = parseInt(pending);
-
-  let newStatus = "pending_schedule";
-  if (activeCount > 0 && pendingCount === 0) {
-    newStatus = "active";
-  } else if (activeCount > 0 && pendingCount > 0) {
-    newStatus = "partially_scheduled";
-  }
-
-  await client.query(
-    `UPDATE watchers SET status = $1, updated_at = NOW() WHERE watcher_id = $2`,
-    [newStatus, watcherId]
-  );
-}
@@ -2,30 +2,57 @@
  * Database Initialization API
  *
  * GET /api/db/init
- * Initializes database schema and returns table information.
+ * Applies pending schema migrations and returns migration and table information.
+ * Requires an Authorization bearer token.
+ *
+ * Query: apply=false  // Report migration status without applying anything
  *
  * Response: {
  *   status: "ok",
  *   wasAlreadyInitialized: boolean,
+ *   migrations: {
+ *     applied: [{ version, name, checksum, appliedAt, executionMs }],
+ *     pending: [{ version, name, filename }],
+ *     mismatched: [{ version, name, expected, actual }],  // Edited after being applied
+ *     missing: [{ version, name, ... }]                   // Applied but file removed
+ *   },
  *   tables: string[],
  *   tableCounts: { [tableName]: number }
  * }
  */
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { ensureDatabaseInitialized, isDatabaseInitialized } from "@/lib/db-init";
+import { getMigrationStatus } from "@/lib/migrations";
 import { query } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const auth = await authenticateRequest(request);
+    if (auth.error) return auth.error;
+
+    const { searchParams } = new URL(request.url);
+    const apply = searchParams.get("apply") !== "false";
+
     const alreadyInitialized = isDatabaseInitialized();
-    const success = await ensureDatabaseInitialized();
 
-    if (!success) {
-      return NextResponse.json({ error: "Database initialization failed" }, { status: 500 });
+    if (apply) {
+      const success = await ensureDatabaseInitialized();
+      if (!success) {
+        const migrations = await getMigrationStatus().catch(() => null);
+        return NextResponse.json(
+          { error: "Database initialization failed", migrations },
+          { status: 500 }
+        );
+      }
     }
 
+    const migrations = await getMigrationStatus();
+
     const tables = await query<{ table_name: string }>(
-      `SELECT table_name FROM information_schema.tables 
+      `SELECT table_name FROM information_schema.tables
        WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
        ORDER BY table_name`
     );
@@ -42,6 +69,7 @@ export async function GET() {
     return NextResponse.json({
       status: "ok",
       wasAlreadyInitialized: alreadyInitialized,
+      migrations,
       tables: tables.map((t) => t.table_name),
       tableCounts,
     });
@@ -0,0 +1,253 @@
+/**
+ * OTLP Trace Ingest API
+ *
+ * POST /api/ingest/otlp/v1/traces
+ * OTLP/HTTP trace export endpoint. Point an OpenTelemetry SDK or collector's
+ * otlphttp exporter at /api/ingest/otlp with the watcher's ingest key.
+ * Authenticated by that key (Authorization: Bearer <key> or X-Ingest-Key),
+ * not a Firebase ID token.
+ *
+ * Body: ExportTraceServiceRequest as application/json or application/x-protobuf,
+ *       optionally Content-Encoding: gzip
+ *
+ * Each inbound span is matched to one of the watcher's candidates (lib/otlp)
+ * and checked against its synthetic traffic rules. Per candidate and
+ * service.name, the request writes one observation_events row with
+ * source_type 'otlp' (raw / real counts, errors, latency), and candidates
+ * with real traffic get last_traffic_at right away. W2 adds these events to
+ * its next summary for the candidate; traffic_count moves there.
+ *
+ * Response: {} (JSON) or an empty ExportTraceServiceResponse (protobuf)
+ * Errors: 401 missing / unknown key, 400 malformed body, 413 too large,
+ *         415 unsupported content type
+ */
+import crypto from "crypto";
+import zlib from "zlib";
+import { NextRequest, NextResponse } from "next/server";
+import { pool, query, queryOne } from "@/lib/db";
+import { extractIngestKey, hashIngestKey } from "@/lib/ingest-keys";
+import {
+  OtlpDecodeError,
+  OtlpSpan,
+  createSpanMatcher,
+  decodeOtlpJson,
+  decodeOtlpProtobuf,
+  isInboundSpan,
+  spanTarget,
+} from "@/lib/otlp";
+import { SyntheticTrafficRule, findSyntheticRule } from "@/lib/synthetic-traffic";
+
+export const dynamic = "force-dynamic";
+
+interface CandidateRow {
+  candidate_id: number;
+  entity_type: string;
+  entity_signature: string;
+  method: string | null;
+  route_path: string | null;
+  queue_name: string | null;
+  framework: string | null;
+}
+
+interface SpanGroup {
+  candidateId: number;
+  serviceName: string | null;
+  method: string | null;
+  raw: number;
+  real: number;
+  errors: number;
+  durations: number[];
+}
+
+// Limit for the body before and after gzip
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+const PROTOBUF_TYPES = ["application/x-protobuf", "application/protobuf"];
+
+/**
+ * The body, or null once it passes MAX_BODY_BYTES. Counted as it streams, so
+ * a chunked request without Content-Length cannot be buffered whole.
+ */
+async function readBody(req: NextRequest): Promise<Buffer | null> {
+  if (!req.body) return Buffer.alloc(0);
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_BODY_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return Math.round(sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]);
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const key = extractIngestKey(req);
+    if (!key) {
+      return NextResponse.json({ error: "Missing ingest key" }, { status: 401 });
+    }
+
+    const watcher = await queryOne<{ watcher_id: string }>(
+      "SELECT watcher_id FROM watchers WHERE otlp_key_hash = $1",
+      [hashIngestKey(key)]
+    );
+    if (!watcher) {
+      return NextResponse.json({ error: "Invalid ingest key" }, { status: 401 });
+    }
+    const watcherId = watcher.watcher_id;
+
+    const contentType = (req.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+    const isProtobuf = PROTOBUF_TYPES.includes(contentType);
+    if (!isProtobuf && contentType !== "application/json") {
+      return NextResponse.json(
+        { error: "Content-Type must be application/json or application/x-protobuf" },
+        { status: 415 }
+      );
+    }
+
+    if (parseInt(req.headers.get("content-length") || "0") > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: "Request body too large" }, { status: 413 });
+    }
+    let body = await readBody(req);
+    if (!body) {
+      return NextResponse.json({ error: "Request body too large" }, { status: 413 });
+    }
+    if (req.headers.get("content-encoding")?.toLowerCase() === "gzip") {
+      try {
+        body = zlib.gunzipSync(body, { maxOutputLength: MAX_BODY_BYTES });
+      } catch (error) {
+        const tooLarge = (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE";
+        return NextResponse.json(
+          { error: tooLarge ? "Request body too large" : "Invalid gzip body" },
+          { status: tooLarge ? 413 : 400 }
+        );
+      }
+    }
+    if (body.length > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: "Request body too large" }, { status: 413 });
+    }
+
+    let spans: OtlpSpan[];
+    try {
+      spans = isProtobuf ? decodeOtlpProtobuf(body) : decodeOtlpJson(JSON.parse(body.toString("utf8")));
+    } catch (error) {
+      if (error instanceof OtlpDecodeError || error instanceof SyntaxError) {
+        return NextResponse.json({ error: `Malformed trace export: ${error.message}` }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const candidates = await query<CandidateRow>(
+      `SELECT candidate_id, entity_type, entity_signature, method, route_path, queue_name, framework
+       FROM zombie_candidates
+       WHERE watcher_id = $1 AND status NOT IN ('removed', 'killed')`,
+      [watcherId]
+    );
+    const rules = await query<SyntheticTrafficRule>(
+      "SELECT * FROM watcher_synthetic_traffic_rules WHERE watcher_id = $1 ORDER BY rule_id",
+      [watcherId]
+    );
+
+    const matchSpan = createSpanMatcher(candidates);
+    const groups = new Map<string, SpanGroup>();
+    for (const span of spans) {
+      if (!isInboundSpan(span)) continue;
+      const target = spanTarget(span);
+      const candidate = matchSpan(target);
+      if (!candidate) continue;
+
+      const groupKey = `${candidate.candidate_id}|${span.serviceName ?? ""}`;
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = {
+          candidateId: candidate.candidate_id,
+          serviceName: span.serviceName,
+          method: target.method,
+          raw: 0,
+          real: 0,
+          errors: 0,
+          durations: [],
+        };
+        groups.set(groupKey, group);
+      }
+      group.raw++;
+      if (!findSyntheticRule(rules, span.attributes)) group.real++;
+      if (span.isError) group.errors++;
+      if (span.durationMs !== null) group.durations.push(span.durationMs);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const batchId = crypto.randomUUID();
+
+      for (const group of groups.values()) {
+        const durations = group.durations.sort((a, b) => a - b);
+        const avg = durations.length ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length) : null;
+
+        await client.query(
+          `INSERT INTO observation_events (
+             candidate_id, watcher_id, observation_batch_id, source_type, source_name,
+             raw_request_count, real_request_count, traffic_detected,
+             error_count, error_rate, avg_latency_ms, p50_latency_ms, p95_latency_ms, http_method
+           ) VALUES ($1, $2, $3, 'otlp', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+          [
+            group.candidateId,
+            watcherId,
+            batchId,
+            group.serviceName?.slice(0, 255) ?? null,
+            group.raw,
+            group.real,
+            group.real > 0,
+            group.errors,
+            (group.errors / group.raw).toFixed(4),
+            avg,
+            percentile(durations, 0.5),
+            percentile(durations, 0.95),
+            group.method?.slice(0, 10) ?? null,
+          ]
+        );
+      }
+
+      const liveIds = [...new Set([...groups.values()].filter((g) => g.real > 0).map((g) => g.candidateId))];
+      if (liveIds.length > 0) {
+        await client.query(
+          `UPDATE zombie_candidates
+           SET has_traffic = TRUE, last_traffic_at = NOW(), updated_at = NOW()
+           WHERE candidate_id = ANY($1::int[])`,
+          [liveIds]
+        );
+      }
+
+      await client.query("UPDATE watchers SET otlp_last_received_at = NOW() WHERE watcher_id = $1", [watcherId]);
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (isProtobuf) {
+      // An empty ExportTraceServiceResponse is full success
+      return new NextResponse(new Uint8Array(0), {
+        status: 200,
+        headers: { "Content-Type": "application/x-protobuf" },
+      });
+    }
+    return NextResponse.json({});
+  } catch (error) {
+    console.error("[otlp-ingest] POST error:", error);
+    return NextResponse.json({ error: "Failed to ingest traces" }, { status: 500 });
+  }
+}
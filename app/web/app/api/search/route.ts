@@ -0,0 +1,184 @@
+/**
+ * Global Search API
+ *
+ * GET /api/search
+ * Full-text search across all of the user's watchers: candidate signatures,
+ * route paths, queue names, file paths and LLM purpose, plus watcher names
+ * and descriptions. Backed by the search_vector columns (migration 0008).
+ *
+ * Query params:
+ *   - userId: must match the authenticated user if sent
+ *   - q: search text; every word must match, as a prefix
+ *   - limit: candidates to return (default 30, max 100)
+ *
+ * Response: {
+ *   query: string,
+ *   groups: [{
+ *     watcherId, watcherName, repoName,
+ *     watcherMatch: boolean,          // The watcher itself matched
+ *     candidates: [{ candidateId, entityType, entitySignature, entityName,
+ *                    method, routePath, queueName, filePath, status, score }]
+ *   }]                                // Best match first
+ * }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+interface CandidateMatch {
+  candidate_id: number;
+  watcher_id: string;
+  watcher_name: string;
+  repo_name: string;
+  entity_type: string;
+  entity_signature: string;
+  entity_name: string | null;
+  method: string | null;
+  route_path: string | null;
+  queue_name: string | null;
+  file_path: string;
+  status: string;
+  score: number | null;
+  rank: number;
+}
+
+interface WatcherMatch {
+  watcher_id: string;
+  watcher_name: string;
+  repo_name: string;
+  rank: number;
+}
+
+interface SearchGroup {
+  watcherId: string;
+  watcherName: string;
+  repoName: string;
+  watcherMatch: boolean;
+  candidates: Array<{
+    candidateId: number;
+    entityType: string;
+    entitySignature: string;
+    entityName: string | null;
+    method: string | null;
+    routePath: string | null;
+    queueName: string | null;
+    filePath: string;
+    status: string;
+    score: number | null;
+  }>;
+}
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+const MAX_WATCHERS = 10;
+const MAX_TERMS = 8;
+
+/**
+ * Prefix tsquery from free text. Punctuation splits words, as it does when
+ * the search vectors are built, so "/api/v1/upi-payment" becomes
+ * api:* & v1:* & upi:* & payment:*
+ */
+function toPrefixQuery(text: string): string | null {
+  const terms = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_TERMS);
+  return terms.length ? terms.map((term) => `${term}:*`).join(" & ") : null;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
+
+    const q = searchParams.get("q")?.trim() || "";
+    if (!q) {
+      return NextResponse.json({ error: "q is required" }, { status: 400 });
+    }
+
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+    }
+
+    const tsquery = toPrefixQuery(q);
+    if (!tsquery) {
+      return NextResponse.json({ query: q, groups: [] });
+    }
+
+    const [candidates, watchers] = await Promise.all([
+      query<CandidateMatch>(
+        `SELECT
+           zc.candidate_id, zc.watcher_id, w.watcher_name, w.repo_name,
+           zc.entity_type, zc.entity_signature, zc.entity_name, zc.method,
+           zc.route_path, zc.queue_name, zc.file_path, zc.status,
+           COALESCE(zc.final_zombie_score, zc.zombie_score) AS score,
+           ts_rank(zc.search_vector, tsq) AS rank
+         FROM zombie_candidates zc
+         JOIN watchers w ON zc.watcher_id = w.watcher_id,
+           to_tsquery('simple', $2) tsq
+         WHERE w.user_id = $1 AND zc.search_vector @@ tsq
+         ORDER BY rank DESC, zc.candidate_id
+         LIMIT $3`,
+        [userId, tsquery, limit]
+      ),
+      query<WatcherMatch>(
+        `SELECT watcher_id, watcher_name, repo_name, ts_rank(search_vector, tsq) AS rank
+         FROM watchers, to_tsquery('simple', $2) tsq
+         WHERE user_id = $1 AND search_vector @@ tsq
+         ORDER BY rank DESC, watcher_name
+         LIMIT $3`,
+        [userId, tsquery, MAX_WATCHERS]
+      ),
+    ]);
+
+    // Group by watcher; a group ranks by its best match
+    const groups = new Map<string, SearchGroup>();
+    const bestRank = new Map<string, number>();
+    const groupFor = (watcherId: string, watcherName: string, repoName: string, rank: number) => {
+      let group = groups.get(watcherId);
+      if (!group) {
+        group = { watcherId, watcherName, repoName, watcherMatch: false, candidates: [] };
+        groups.set(watcherId, group);
+      }
+      bestRank.set(watcherId, Math.max(bestRank.get(watcherId) ?? 0, rank));
+      return group;
+    };
+
+    for (const watcher of watchers) {
+      groupFor(watcher.watcher_id, watcher.watcher_name, watcher.repo_name, watcher.rank).watcherMatch = true;
+    }
+
+    for (const candidate of candidates) {
+      const group = groupFor(candidate.watcher_id, candidate.watcher_name, candidate.repo_name, candidate.rank);
+      group.candidates.push({
+        candidateId: candidate.candidate_id,
+        entityType: candidate.entity_type,
+        entitySignature: candidate.entity_signature,
+        entityName: candidate.entity_name,
+        method: candidate.method,
+        routePath: candidate.route_path,
+        queueName: candidate.queue_name,
+        filePath: candidate.file_path,
+        status: candidate.status,
+        score: candidate.score,
+      });
+    }
+
+    return NextResponse.json({
+      query: q,
+      groups: [...groups.values()].sort(
+        (a, b) => (bestRank.get(b.watcherId) ?? 0) - (bestRank.get(a.watcherId) ?? 0)
+      ),
+    });
+  } catch (error) {
+    console.error("[api/search] Error:", error);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
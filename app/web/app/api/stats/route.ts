@@ -1,8 +1,8 @@
 /**
  * Dashboard Statistics API
  *
- * GET /api/stats?userId=xxx
- * Returns aggregated statistics for the user's watchers and candidates.
+ * GET /api/stats
+ * Returns aggregated statistics for the authenticated user's watchers and candidates.
  *
  * Response: {
  *   stats: {
@@ -15,20 +15,16 @@
  */
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const userId = searchParams.get("userId");
-
-  if (!userId) {
-    return NextResponse.json(
-      { error: "Missing userId parameter" },
-      { status: 400 }
-    );
-  }
+  const auth = await authenticateRequest(request, searchParams.get("userId"));
+  if (auth.error) return auth.error;
+  const userId = auth.user.uid;
 
   const client = await pool.connect();
   
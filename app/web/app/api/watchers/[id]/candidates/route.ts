@@ -0,0 +1,259 @@
+/**
+ * Watcher Candidates API
+ *
+ * GET /api/watchers/[id]/candidates
+ * Returns one page of a watcher's candidates, filtered and sorted on the
+ * server. The watcher must belong to the authenticated user.
+ *
+ * Query params:
+ *   - userId: must match the authenticated user if sent
+ *   - cursor: nextCursor from the previous page (omit for the first page)
+ *   - limit: page size (default 50, max 200)
+ *   - status, type, framework, minScore, maxScore, traffic, path, q, sort, order:
+ *     filters and sort, see lib/candidate-filters
+ *
+ * Response: {
+ *   candidates: ZombieCandidate[],
+ *   nextCursor: string | null,       // null on the last page
+ *   total: number,                   // Candidates matching the filters
+ *   facets?: {                       // First page only
+ *     statusCounts: Record<string, number>,  // Other filters applied, not status
+ *     entityTypes: string[],
+ *     frameworks: string[]
+ *   }
+ * }
+ *
+ * Pages are keyed on (sort value, candidate_id) rather than an offset, so deep
+ * pages stay cheap and candidates added or removed meanwhile do not shift them.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { CandidateFilters, CandidateSort, parseCandidateFilters } from "@/lib/candidate-filters";
+
+export const dynamic = "force-dynamic";
+
+interface ZombieCandidate {
+  candidate_id: number;
+  entity_type: string;
+  entity_signature: string;
+  entity_name: string | null;
+  file_path: string;
+  method: string | null;
+  route_path: string | null;
+  schedule: string | null;
+  queue_name: string | null;
+  framework: string | null;
+  status: string;
+  llm_purpose: string | null;
+  llm_risk_score: number | null;
+  llm_risk_reasoning: string | null;
+  dependency_count: number;
+  caller_count: number;
+  scan_frequency_minutes: number | null;
+  analysis_period_hours: number | null;
+  observation_end_at: string | null;
+  first_observed_at: string | null;
+  last_observed_at: string | null;
+  observation_count: number;
+  has_traffic: boolean | null;
+  last_traffic_at: string | null;
+  traffic_count: number;
+  zombie_score: number;
+  zombie_verdict: string | null;
+  final_zombie_score: number | null;
+  final_verdict: string | null;
+  final_confidence: number | null;
+  final_reasoning: string | null;
+  human_action: string | null;
+  human_feedback: string | null;
+  pr_url: string | null;
+  pr_status: string | null;
+  is_protected: boolean | null;
+  discovered_at: string;
+}
+
+// Sort value as Postgres text, so timestamps keep their full precision
+interface PageCursor {
+  value: string;
+  id: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Sort key expressions; NULLs are mapped to a value so keyset comparison works
+const SORT_KEYS: Record<CandidateSort, { expression: string; cast: string }> = {
+  score: { expression: "COALESCE(final_zombie_score, zombie_score, 0)", cast: "int" },
+  last_traffic: { expression: "COALESCE(last_traffic_at, 'epoch'::timestamptz)", cast: "timestamptz" },
+  discovered: { expression: "discovered_at", cast: "timestamptz" },
+};
+
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string): PageCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (Number.isInteger(cursor?.id) && typeof cursor?.value === "string") {
+      return cursor;
+    }
+  } catch {
+    // Falls through to null
+  }
+  return null;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * WHERE conditions for the filters; status is kept apart so the status
+ * counts can be computed with every other filter applied
+ */
+function buildConditions(filters: CandidateFilters, values: unknown[]) {
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  const conditions: string[] = [];
+  const scoreExpression = SORT_KEYS.score.expression;
+
+  if (filters.entityType.length) conditions.push(`entity_type = ANY(${param(filters.entityType)})`);
+  if (filters.framework.length) conditions.push(`framework = ANY(${param(filters.framework)})`);
+  if (filters.minScore !== null) conditions.push(`${scoreExpression} >= ${param(filters.minScore)}`);
+  if (filters.maxScore !== null) conditions.push(`${scoreExpression} <= ${param(filters.maxScore)}`);
+  if (filters.hasTraffic === true) conditions.push("has_traffic IS TRUE");
+  if (filters.hasTraffic === false) conditions.push("has_traffic IS NOT TRUE");
+  if (filters.pathPrefix) conditions.push(`file_path LIKE ${param(escapeLike(filters.pathPrefix) + "%")}`);
+  if (filters.q) conditions.push(`entity_signature ILIKE ${param("%" + escapeLike(filters.q) + "%")}`);
+
+  // Added last, so its value is the final parameter
+  const statusCondition = filters.status.length ? `status = ANY(${param(filters.status)})` : null;
+  return { conditions, statusCondition };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: watcherId } = await params;
+    const { searchParams } = new URL(request.url);
+    const auth = await authenticateRequest(request, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const filters = parseCandidateFilters(searchParams);
+    if ("error" in filters) {
+      return NextResponse.json({ error: filters.error }, { status: 400 });
+    }
+
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_PAGE_SIZE;
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` }, { status: 400 });
+    }
+
+    const rawCursor = searchParams.get("cursor");
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    if (rawCursor && !cursor) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    const watcher = await queryOne<{ watcher_id: string }>(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found or unauthorized" }, { status: 404 });
+    }
+
+    const values: unknown[] = [watcherId];
+    const { conditions, statusCondition } = buildConditions(filters, values);
+    const filterWhere = ["watcher_id = $1", ...conditions].join(" AND ");
+    const where = statusCondition ? `${filterWhere} AND ${statusCondition}` : filterWhere;
+    const filterValueCount = values.length;
+
+    const sortKey = SORT_KEYS[filters.sort];
+    const direction = filters.order === "asc" ? "ASC" : "DESC";
+    const pageValues = [...values];
+    let pageWhere = where;
+    if (cursor) {
+      pageValues.push(cursor.value, cursor.id);
+      const comparison = filters.order === "asc" ? ">" : "<";
+      pageWhere += ` AND (${sortKey.expression}, candidate_id) ${comparison} ($${pageValues.length - 1}::${sortKey.cast}, $${pageValues.length})`;
+    }
+    pageValues.push(limit + 1);
+
+    const rows = await query<ZombieCandidate & { sort_value: string }>(
+      `SELECT
+        candidate_id, entity_type, entity_signature, entity_name, file_path,
+        method, route_path, schedule, queue_name, framework, status,
+        llm_purpose, llm_risk_score, llm_risk_reasoning,
+        dependency_count, caller_count,
+        scan_frequency_minutes, analysis_period_hours, observation_end_at,
+        first_observed_at, last_observed_at, observation_count,
+        has_traffic, last_traffic_at, traffic_count, zombie_score, zombie_verdict,
+        final_zombie_score, final_verdict, final_confidence, final_reasoning,
+        human_action, human_feedback, pr_url, pr_status, is_protected, discovered_at,
+        (${sortKey.expression})::text AS sort_value
+      FROM zombie_candidates
+      WHERE ${pageWhere}
+      ORDER BY ${sortKey.expression} ${direction}, candidate_id ${direction}
+      LIMIT $${pageValues.length}`,
+      pageValues
+    );
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = hasMore && last
+      ? encodeCursor({ value: last.sort_value, id: last.candidate_id })
+      : null;
+    for (const row of page) {
+      delete (row as Partial<typeof row>).sort_value;
+    }
+
+    const totalRow = await queryOne<{ total: number }>(
+      `SELECT COUNT(*)::int AS total FROM zombie_candidates WHERE ${where}`,
+      values
+    );
+
+    let facets;
+    if (!cursor) {
+      const [statusRows, facetRows] = await Promise.all([
+        query<{ status: string; count: number }>(
+          `SELECT status, COUNT(*)::int AS count
+           FROM zombie_candidates WHERE ${filterWhere}
+           GROUP BY status`,
+          values.slice(0, statusCondition ? filterValueCount - 1 : filterValueCount)
+        ),
+        query<{ entity_types: string[] | null; frameworks: string[] | null }>(
+          `SELECT
+             ARRAY_AGG(DISTINCT entity_type) AS entity_types,
+             ARRAY_AGG(DISTINCT framework) FILTER (WHERE framework IS NOT NULL) AS frameworks
+           FROM zombie_candidates WHERE watcher_id = $1`,
+          [watcherId]
+        ),
+      ]);
+      facets = {
+        statusCounts: Object.fromEntries(statusRows.map((row) => [row.status, row.count])),
+        entityTypes: facetRows[0]?.entity_types ?? [],
+        frameworks: facetRows[0]?.frameworks ?? [],
+      };
+    }
+
+    return NextResponse.json({
+      candidates: page as ZombieCandidate[],
+      nextCursor,
+      total: totalRow?.total ?? 0,
+      ...(facets && { facets }),
+    });
+  } catch (error) {
+    console.error("[api/watchers/candidates] Error fetching candidates:", error);
+    return NextResponse.json({ error: "Failed to fetch candidates" }, { status: 500 });
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Single Exclusion Rule API
+ *
+ * PATCH /api/watchers/[id]/exclusions/[ruleId]
+ * Updates a rule's type, pattern or reason and re-marks protected candidates.
+ *
+ * DELETE /api/watchers/[id]/exclusions/[ruleId]
+ * Removes a rule; candidates it protected lose protection unless another
+ * rule still matches them.
+ *
+ * Body (PATCH): { userId?, ruleType?, pattern?, reason? }
+ *
+ * Response (PATCH):  { success: true, rule, protectedCount: number }
+ * Response (DELETE): { success: true, protectedCount: number }
+ *
+ * Rules synced from the repository's .doomsday.yml (source = 'policy') can
+ * only be changed in the file and are refused with 409.
+ *
+ * The watcher must belong to the authenticated user. Rule changes are
+ * recorded in watcher_audit_log.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { PoolClient } from "pg";
+import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import {
+  ExclusionRule,
+  ExclusionRuleType,
+  applyExclusionRules,
+  validateExclusionRule,
+} from "@/lib/exclusion-rules";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string; ruleId: string }>;
+}
+
+interface UpdateRuleBody {
+  userId?: string;
+  ruleType?: ExclusionRuleType;
+  pattern?: string;
+  reason?: string | null;
+}
+
+async function findRule(client: PoolClient, watcherId: string, ruleId: number, userId: string) {
+  const result = await client.query<ExclusionRule>(
+    `SELECT r.*
+     FROM watcher_exclusion_rules r
+     JOIN watchers w ON r.watcher_id = w.watcher_id
+     WHERE r.rule_id = $1 AND r.watcher_id = $2 AND w.user_id = $3`,
+    [ruleId, watcherId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+const POLICY_RULE_ERROR = "This rule comes from the repository's .doomsday.yml; edit the file to change it";
+
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  const client = await pool.connect();
+
+  try {
+    const { id: watcherId, ruleId: ruleIdParam } = await params;
+    const ruleId = parseInt(ruleIdParam, 10);
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: "Invalid rule ID" }, { status: 400 });
+    }
+
+    let body: UpdateRuleBody;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
+    const existing = await findRule(client, watcherId, ruleId, auth.user.uid);
+    if (!existing) {
+      return NextResponse.json({ error: "Exclusion rule not found" }, { status: 404 });
+    }
+    if (existing.source === "policy") {
+      return NextResponse.json({ error: POLICY_RULE_ERROR }, { status: 409 });
+    }
+
+    const ruleType = body.ruleType ?? existing.rule_type;
+    const pattern = body.pattern !== undefined ? body.pattern : existing.pattern;
+    const validationError = validateExclusionRule(ruleType, pattern);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+    const reason = body.reason !== undefined ? body.reason?.trim() || null : existing.reason;
+
+    await client.query("BEGIN");
+    try {
+      const updated = await client.query<ExclusionRule>(
+        `UPDATE watcher_exclusion_rules
+         SET rule_type = $1, pattern = $2, reason = $3, updated_at = NOW()
+         WHERE rule_id = $4
+         RETURNING *`,
+        [ruleType, pattern.trim(), reason, ruleId]
+      );
+      const rule = updated.rows[0];
+      const protectedCount = await applyExclusionRules(client, watcherId);
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, 'exclusion_rule_updated', $2, $3, $4)`,
+        [
+          watcherId,
+          auth.user.uid,
+          auth.user.email,
+          JSON.stringify({
+            rule: { from: `${existing.rule_type}:${existing.pattern}`, to: `${rule.rule_type}:${rule.pattern}` },
+          }),
+        ]
+      );
+      await client.query("COMMIT");
+
+      return NextResponse.json({ success: true, rule, protectedCount });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      // unique_exclusion_rule
+      if ((error as { code?: string }).code === "23505") {
+        return NextResponse.json({ error: "An identical rule already exists" }, { status: 409 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("[exclusions] PATCH error:", error);
+    return NextResponse.json({ error: "Failed to update exclusion rule" }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const client = await pool.connect();
+
+  try {
+    const { id: watcherId, ruleId: ruleIdParam } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const ruleId = parseInt(ruleIdParam, 10);
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: "Invalid rule ID" }, { status: 400 });
+    }
+
+    const existing = await findRule(client, watcherId, ruleId, auth.user.uid);
+    if (!existing) {
+      return NextResponse.json({ error: "Exclusion rule not found" }, { status: 404 });
+    }
+    if (existing.source === "policy") {
+      return NextResponse.json({ error: POLICY_RULE_ERROR }, { status: 409 });
+    }
+
+    await client.query("BEGIN");
+    try {
+      await client.query("DELETE FROM watcher_exclusion_rules WHERE rule_id = $1", [ruleId]);
+      const protectedCount = await applyExclusionRules(client, watcherId);
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, 'exclusion_rule_removed', $2, $3, $4)`,
+        [
+          watcherId,
+          auth.user.uid,
+          auth.user.email,
+          JSON.stringify({ rule: { from: `${existing.rule_type}:${existing.pattern}`, to: null } }),
+        ]
+      );
+      await client.query("COMMIT");
+
+      return NextResponse.json({ success: true, protectedCount });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+  } catch (error) {
+    console.error("[exclusions] DELETE error:", error);
+    return NextResponse.json({ error: "Failed to delete exclusion rule" }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
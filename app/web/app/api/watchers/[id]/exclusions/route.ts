@@ -0,0 +1,153 @@
+/**
+ * Watcher Exclusion Rules API
+ *
+ * GET /api/watchers/[id]/exclusions
+ * Lists the watcher's exclusion rules with how many candidates each protects.
+ *
+ * POST /api/watchers/[id]/exclusions
+ * Adds a rule and immediately re-marks the watcher's protected candidates.
+ *
+ * Body (POST): {
+ *   userId?: string,
+ *   ruleType: "path_glob" | "signature_regex" | "entity_type" | "file_glob",
+ *   pattern: string,
+ *   reason?: string
+ * }
+ *
+ * Response (GET):  { rules: [{ ...rule, source, protected_count }], protectedCount: number }
+ * Response (POST): { success: true, rule, protectedCount: number }
+ *
+ * The watcher must belong to the authenticated user. Rule changes are
+ * recorded in watcher_audit_log.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { pool, query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import {
+  ExclusionRule,
+  ExclusionRuleType,
+  applyExclusionRules,
+  validateExclusionRule,
+} from "@/lib/exclusion-rules";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface CreateRuleBody {
+  userId?: string;
+  ruleType?: ExclusionRuleType;
+  pattern?: string;
+  reason?: string;
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: watcherId } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const watcher = await queryOne<{ watcher_id: string }>(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    const rules = await query<ExclusionRule & { protected_count: string }>(
+      `SELECT r.*, COUNT(zc.candidate_id) AS protected_count
+       FROM watcher_exclusion_rules r
+       LEFT JOIN zombie_candidates zc ON zc.protected_by_rule_id = r.rule_id
+       WHERE r.watcher_id = $1
+       GROUP BY r.rule_id
+       ORDER BY r.source = 'policy' DESC, r.rule_id`,
+      [watcherId]
+    );
+
+    const protectedRow = await queryOne<{ count: string }>(
+      "SELECT COUNT(*) AS count FROM zombie_candidates WHERE watcher_id = $1 AND is_protected",
+      [watcherId]
+    );
+
+    return NextResponse.json({
+      rules: rules.map((rule) => ({ ...rule, protected_count: parseInt(rule.protected_count) })),
+      protectedCount: parseInt(protectedRow?.count || "0"),
+    });
+  } catch (error) {
+    console.error("[exclusions] GET error:", error);
+    return NextResponse.json({ error: "Failed to fetch exclusion rules" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const client = await pool.connect();
+
+  try {
+    const { id: watcherId } = await params;
+
+    let body: CreateRuleBody;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
+    const validationError = validateExclusionRule(body.ruleType, body.pattern);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+    const pattern = body.pattern!.trim();
+    const reason = body.reason?.trim() || null;
+
+    const watcher = await client.query(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (watcher.rows.length === 0) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    await client.query("BEGIN");
+    try {
+      const inserted = await client.query<ExclusionRule>(
+        `INSERT INTO watcher_exclusion_rules (watcher_id, rule_type, pattern, reason, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (watcher_id, rule_type, pattern) DO NOTHING
+         RETURNING *`,
+        [watcherId, body.ruleType, pattern, reason, auth.user.uid]
+      );
+
+      if (inserted.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return NextResponse.json({ error: "An identical rule already exists" }, { status: 409 });
+      }
+
+      const rule = inserted.rows[0];
+      const protectedCount = await applyExclusionRules(client, watcherId);
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, 'exclusion_rule_added', $2, $3, $4)`,
+        [watcherId, auth.user.uid, auth.user.email, JSON.stringify({ rule: { from: null, to: `${rule.rule_type}:${rule.pattern}` } })]
+      );
+      await client.query("COMMIT");
+
+      return NextResponse.json({ success: true, rule, protectedCount }, { status: 201 });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+  } catch (error) {
+    console.error("[exclusions] POST error:", error);
+    return NextResponse.json({ error: "Failed to create exclusion rule" }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Scan Diff API
+ *
+ * GET /api/watchers/[id]/history/[scanId]
+ * Returns the candidate signatures a scan added, updated (moved to another
+ * file) and removed, with file paths and the scan's commit info.
+ * The watcher must belong to the authenticated user.
+ *
+ * Query params:
+ *   - compareTo: another scan of the same watcher; returns the net changes
+ *     between the two scans instead (the older scan is always the base)
+ *
+ * Response: {
+ *   watcher_id: string,
+ *   scan: ScanSummary,
+ *   base: ScanSummary | null,       // Set when compareTo is given
+ *   diff: {
+ *     added: ScanChange[],
+ *     updated: ScanChange[],        // previous_file_path holds the old location
+ *     removed: ScanChange[],
+ *     complete: boolean             // false if a scan predates diff recording
+ *   }
+ * }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { compareScans, getScanDiff, getScanSummary } from "@/lib/scan-diff";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scanId: string }> }
+) {
+  try {
+    const { id: watcherId, scanId: scanIdParam } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const auth = await authenticateRequest(request, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const scanId = parseInt(scanIdParam, 10);
+    const compareParam = searchParams.get("compareTo");
+    const compareTo = compareParam ? parseInt(compareParam, 10) : null;
+
+    if (isNaN(scanId) || (compareParam && isNaN(compareTo!))) {
+      return NextResponse.json({ error: "Invalid scan ID" }, { status: 400 });
+    }
+
+    const watcher = await queryOne<{ watcher_id: string }>(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    const scan = await getScanSummary(watcherId, scanId);
+    if (!scan) {
+      return NextResponse.json({ error: "Scan not found" }, { status: 404 });
+    }
+
+    if (compareTo === null || compareTo === scanId) {
+      return NextResponse.json({
+        watcher_id: watcherId,
+        scan,
+        base: null,
+        diff: await getScanDiff(watcherId, scanId),
+      });
+    }
+
+    const other = await getScanSummary(watcherId, compareTo);
+    if (!other) {
+      return NextResponse.json({ error: "Comparison scan not found" }, { status: 404 });
+    }
+
+    const [base, target] = other.scan_id < scan.scan_id ? [other, scan] : [scan, other];
+
+    return NextResponse.json({
+      watcher_id: watcherId,
+      scan: target,
+      base,
+      diff: await compareScans(watcherId, base.scan_id, target.scan_id),
+    });
+  } catch (error) {
+    console.error("[api/watchers/history/scan] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scan diff", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
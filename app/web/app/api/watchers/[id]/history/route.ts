@@ -2,7 +2,8 @@
  * Watcher Scan History API
  *
  * GET /api/watchers/[id]/history
- * Returns the scan history for a watcher (creation + all rescans)
+ * Returns the scan history for a watcher (creation + all rescans).
+ * The watcher must belong to the authenticated user.
  *
  * Query params:
  *   - limit: number of records (default 50, max 100)
@@ -16,6 +17,7 @@
  */
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
 
 interface ScanHistoryRecord {
   scan_id: number;
@@ -61,13 +63,16 @@ export async function GET(
 
     // Parse query params
     const { searchParams } = new URL(request.url);
+    const auth = await authenticateRequest(request, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
     const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
     const offset = parseInt(searchParams.get("offset") || "0");
 
-    // Verify watcher exists
+    // Verify watcher exists and belongs to user
     const watcherCheck = await pool.query(
-      "SELECT watcher_id, watcher_name FROM watchers WHERE watcher_id = $1",
-      [watcherId]
+      "SELECT watcher_id, watcher_name FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
     );
 
     if (watcherCheck.rows.length === 0) {
@@ -0,0 +1,498 @@
+/**
+ * Watcher Access Log Import API
+ *
+ * GET /api/watchers/[id]/logs/import
+ * Lists the watcher's last 20 imports with their parse statistics.
+ *
+ * POST /api/watchers/[id]/logs/import?filename=access.log.gz&format=auto
+ * Imports an access log as an observation source. The body is the file
+ * itself, gzipped (Content-Type application/gzip or a .gz filename) or
+ * plain text, and is parsed as it streams in.
+ *
+ * Query (POST): {
+ *   userId?: string,
+ *   filename?: string,
+ *   format?: "auto" | "combined" | "alb" | "json"   // auto = detect from the first lines
+ * }
+ *
+ * Each request is attributed to the most specific http_endpoint candidate
+ * for its path and method (lib/route-patterns) and checked against the
+ * watcher's synthetic traffic rules. Per candidate
+ * and hour, one observation_events row is written with source_type
+ * 'access_log': raw / real counts, 5xx errors, latency percentiles, and the
+ * status classes in raw_response. Candidates with real traffic get
+ * has_traffic, last_traffic_at and traffic_count right away.
+ *
+ * Response (GET):  { imports: [...] }
+ * Response (POST): { success: true, import: { importId, format, lineCount, parsedCount, matchedCount,
+ *                    syntheticCount, eventCount, candidateCount, firstRequestAt, lastRequestAt,
+ *                    unmatchedSamples: [{ method, path, count }] } }
+ * Errors: 409 file already imported, 413 upload (or decompressed log) too large,
+ *         400 unreadable or unrecognized log, or too many endpoint-hours
+ *
+ * The watcher must belong to the authenticated user. Imports are recorded
+ * in watcher_audit_log.
+ */
+import crypto from "crypto";
+import zlib from "zlib";
+import { Readable, pipeline } from "stream";
+import { ReadableStream as NodeReadableStream } from "stream/web";
+import { StringDecoder } from "string_decoder";
+import { NextRequest, NextResponse } from "next/server";
+import { pool, query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import {
+  ACCESS_LOG_FORMATS,
+  AccessLogFormat,
+  accessLogLabels,
+  detectAccessLogFormat,
+  parseAccessLogLine,
+} from "@/lib/access-logs";
+import { createRouteResolver } from "@/lib/route-patterns";
+import { SyntheticTrafficRule, findSyntheticRule } from "@/lib/synthetic-traffic";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface CandidateRow {
+  candidate_id: number;
+  method: string | null;
+  route_path: string | null;
+  framework: string | null;
+}
+
+interface HourBucket {
+  candidateId: number;
+  hour: number;
+  raw: number;
+  real: number;
+  errors: number;
+  statusClasses: Record<string, number>;
+  latencies: number[];
+  latencyCount: number;
+  methods: Set<string>;
+}
+
+class ImportError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+// A gzipped upload can expand far beyond its own size
+const MAX_LOG_BYTES = 1024 * 1024 * 1024;
+// Candidate-hours held in memory until the insert
+const MAX_BUCKETS = 50000;
+const MAX_LINE_LENGTH = 64 * 1024;
+// Lines tried when detecting the format
+const DETECT_LINES = 20;
+// Latency samples kept per bucket (reservoir sampled beyond this)
+const MAX_LATENCY_SAMPLES = 5000;
+const MAX_UNMATCHED_PATHS = 1000;
+const UNMATCHED_SAMPLES = 20;
+const MATCH_CACHE_SIZE = 10000;
+const INSERT_CHUNK = 2000;
+const HOUR_MS = 3_600_000;
+const GZIP_TYPES = ["application/gzip", "application/x-gzip"];
+
+async function* readLines(chunks: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  const decoder = new StringDecoder("utf8");
+  let pending = "";
+  let bytes = 0;
+  for await (const chunk of chunks) {
+    bytes += chunk.length;
+    if (bytes > MAX_LOG_BYTES) {
+      throw new ImportError("Log too large once decompressed (max 1 GB)", 413);
+    }
+    pending += typeof chunk === "string" ? chunk : decoder.write(chunk);
+    const lines = pending.split("\n");
+    pending = lines.pop() || "";
+    yield* lines;
+    if (pending.length > MAX_LINE_LENGTH) {
+      throw new ImportError("Line too long; is this an access log?", 400);
+    }
+  }
+  pending += decoder.end();
+  if (pending) yield pending;
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return Math.round(sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]);
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: watcherId } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const watcher = await queryOne<{ watcher_id: string }>(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    const imports = await query(
+      `SELECT import_id, file_name, log_format, line_count, parsed_count, matched_count, synthetic_count,
+              event_count, first_request_at, last_request_at, unmatched_samples, created_at
+       FROM access_log_imports
+       WHERE watcher_id = $1
+       ORDER BY created_at DESC
+       LIMIT 20`,
+      [watcherId]
+    );
+
+    return NextResponse.json({ imports });
+  } catch (error) {
+    console.error("[logs-import] GET error:", error);
+    return NextResponse.json({ error: "Failed to fetch access log imports" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: watcherId } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const fileName = (searchParams.get("filename") || "access.log").slice(0, 255);
+    const requestedFormat = searchParams.get("format") || "auto";
+    if (requestedFormat !== "auto" && !ACCESS_LOG_FORMATS.includes(requestedFormat as AccessLogFormat)) {
+      return NextResponse.json(
+        { error: `Invalid format. Must be one of: auto, ${ACCESS_LOG_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const watcher = await queryOne<{ watcher_id: string }>(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    if (parseInt(req.headers.get("content-length") || "0") > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: "Upload too large (max 100 MB)" }, { status: 413 });
+    }
+    if (!req.body) {
+      return NextResponse.json({ error: "Request body is empty" }, { status: 400 });
+    }
+
+    const candidates = await query<CandidateRow>(
+      `SELECT candidate_id, method, route_path, framework
+       FROM zombie_candidates
+       WHERE watcher_id = $1 AND entity_type = 'http_endpoint' AND status NOT IN ('removed', 'killed')`,
+      [watcherId]
+    );
+    const rules = await query<SyntheticTrafficRule>(
+      "SELECT * FROM watcher_synthetic_traffic_rules WHERE watcher_id = $1 ORDER BY rule_id",
+      [watcherId]
+    );
+
+    // Hash and size the upload as it streams through
+    const hash = crypto.createHash("sha256");
+    let uploadBytes = 0;
+    async function* metered(source: AsyncIterable<Uint8Array>) {
+      for await (const chunk of source) {
+        uploadBytes += chunk.length;
+        if (uploadBytes > MAX_UPLOAD_BYTES) throw new ImportError("Upload too large (max 100 MB)", 413);
+        hash.update(chunk);
+        yield chunk;
+      }
+    }
+
+    const upload = Readable.from(metered(Readable.fromWeb(req.body as unknown as NodeReadableStream<Uint8Array>)));
+    const contentType = (req.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+    const gzipped = GZIP_TYPES.includes(contentType) || fileName.endsWith(".gz");
+    const decoded = gzipped ? pipeline(upload, zlib.createGunzip(), () => {}) : upload;
+
+    let format: AccessLogFormat | null = requestedFormat === "auto" ? null : (requestedFormat as AccessLogFormat);
+    const detectBuffer: string[] = [];
+    let lineCount = 0;
+    let parsedCount = 0;
+    let matchedCount = 0;
+    let syntheticCount = 0;
+    let firstRequestAt: number | null = null;
+    let lastRequestAt: number | null = null;
+    const buckets = new Map<string, HourBucket>();
+    const lastRealAt = new Map<number, number>();
+    const unmatched = new Map<string, number>();
+    const resolveRoute = createRouteResolver(candidates);
+    const matchCache = new Map<string, CandidateRow | null>();
+
+    const processLine = (line: string) => {
+      const entry = parseAccessLogLine(line, format!);
+      if (!entry) return;
+      parsedCount++;
+      firstRequestAt = Math.min(firstRequestAt ?? entry.timestamp, entry.timestamp);
+      lastRequestAt = Math.max(lastRequestAt ?? entry.timestamp, entry.timestamp);
+
+      const cacheKey = `${entry.method ?? ""} ${entry.path}`;
+      let candidate = matchCache.get(cacheKey);
+      if (candidate === undefined) {
+        candidate = resolveRoute(entry.path, entry.method)[0]?.candidate ?? null;
+        if (matchCache.size < MATCH_CACHE_SIZE) matchCache.set(cacheKey, candidate);
+      }
+      if (!candidate) {
+        if (unmatched.has(cacheKey) || unmatched.size < MAX_UNMATCHED_PATHS) {
+          unmatched.set(cacheKey, (unmatched.get(cacheKey) || 0) + 1);
+        }
+        return;
+      }
+      matchedCount++;
+
+      const hour = Math.floor(entry.timestamp / HOUR_MS) * HOUR_MS;
+      const bucketKey = `${candidate.candidate_id}|${hour}`;
+      let bucket = buckets.get(bucketKey);
+      if (!bucket) {
+        if (buckets.size >= MAX_BUCKETS) {
+          throw new ImportError(
+            `Log spans more than ${MAX_BUCKETS} endpoint-hours; split it into smaller files`,
+            400
+          );
+        }
+        bucket = {
+          candidateId: candidate.candidate_id,
+          hour,
+          raw: 0,
+          real: 0,
+          errors: 0,
+          statusClasses: {},
+          latencies: [],
+          latencyCount: 0,
+          methods: new Set(),
+        };
+        buckets.set(bucketKey, bucket);
+      }
+
+      bucket.raw++;
+      if (findSyntheticRule(rules, accessLogLabels(entry))) {
+        syntheticCount++;
+      } else {
+        bucket.real++;
+        lastRealAt.set(candidate.candidate_id, Math.max(lastRealAt.get(candidate.candidate_id) ?? 0, entry.timestamp));
+      }
+      if (entry.method) bucket.methods.add(entry.method);
+      if (entry.status !== null) {
+        const statusClass = `${Math.floor(entry.status / 100)}xx`;
+        bucket.statusClasses[statusClass] = (bucket.statusClasses[statusClass] || 0) + 1;
+        if (entry.status >= 500) bucket.errors++;
+      }
+      if (entry.latencyMs !== null) {
+        bucket.latencyCount++;
+        if (bucket.latencies.length < MAX_LATENCY_SAMPLES) {
+          bucket.latencies.push(entry.latencyMs);
+        } else {
+          const slot = Math.floor(Math.random() * bucket.latencyCount);
+          if (slot < MAX_LATENCY_SAMPLES) bucket.latencies[slot] = entry.latencyMs;
+        }
+      }
+    };
+
+    try {
+      for await (const line of readLines(decoded)) {
+        if (!line.trim()) continue;
+        lineCount++;
+        if (format) {
+          processLine(line);
+          continue;
+        }
+        detectBuffer.push(line);
+        if (detectBuffer.length < DETECT_LINES) continue;
+        format = detectBuffer.map(detectAccessLogFormat).find((f) => f !== null) ?? null;
+        if (!format) break;
+        detectBuffer.forEach(processLine);
+      }
+      if (!format && detectBuffer.length > 0 && detectBuffer.length < DETECT_LINES) {
+        format = detectBuffer.map(detectAccessLogFormat).find((f) => f !== null) ?? null;
+        if (format) detectBuffer.forEach(processLine);
+      }
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      if ((error as NodeJS.ErrnoException).code?.startsWith("Z_")) {
+        return NextResponse.json({ error: "File is not valid gzip" }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (!format) {
+      return NextResponse.json(
+        { error: "Unrecognized log format. Expected nginx / Apache combined, AWS ALB or JSON lines" },
+        { status: 400 }
+      );
+    }
+    if (parsedCount === 0) {
+      return NextResponse.json({ error: `No lines could be parsed as ${format} logs` }, { status: 400 });
+    }
+
+    const importId = crypto.randomUUID();
+    const unmatchedSamples = [...unmatched.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, UNMATCHED_SAMPLES)
+      .map(([key, count]) => {
+        const [method, ...path] = key.split(" ");
+        return { method: method || null, path: path.join(" "), count };
+      });
+    const bucketList = [...buckets.values()];
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const inserted = await client.query(
+        `INSERT INTO access_log_imports (
+           import_id, watcher_id, file_name, file_sha256, log_format, line_count, parsed_count,
+           matched_count, synthetic_count, event_count, first_request_at, last_request_at,
+           unmatched_samples, created_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, to_timestamp($11 / 1000.0), to_timestamp($12 / 1000.0), $13, $14)
+         ON CONFLICT (watcher_id, file_sha256) DO NOTHING
+         RETURNING import_id`,
+        [
+          importId,
+          watcherId,
+          fileName,
+          hash.digest("hex"),
+          format,
+          lineCount,
+          parsedCount,
+          matchedCount,
+          syntheticCount,
+          bucketList.length,
+          firstRequestAt,
+          lastRequestAt,
+          JSON.stringify(unmatchedSamples),
+          auth.user.uid,
+        ]
+      );
+      if (inserted.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return NextResponse.json({ error: "This file was already imported for this watcher" }, { status: 409 });
+      }
+
+      for (let i = 0; i < bucketList.length; i += INSERT_CHUNK) {
+        const chunk = bucketList.slice(i, i + INSERT_CHUNK);
+        const rows = chunk.map((bucket) => {
+          const sorted = bucket.latencies.sort((a, b) => a - b);
+          return {
+            candidateId: bucket.candidateId,
+            observedAt: new Date(bucket.hour).toISOString(),
+            raw: bucket.raw,
+            real: bucket.real,
+            errors: bucket.errors,
+            errorRate: (bucket.errors / bucket.raw).toFixed(4),
+            avg: sorted.length ? Math.round(sorted.reduce((sum, l) => sum + l, 0) / sorted.length) : null,
+            p50: percentile(sorted, 0.5),
+            p95: percentile(sorted, 0.95),
+            p99: percentile(sorted, 0.99),
+            method: bucket.methods.size === 1 ? [...bucket.methods][0].slice(0, 10) : null,
+            statusClasses: JSON.stringify(bucket.statusClasses),
+          };
+        });
+
+        await client.query(
+          `INSERT INTO observation_events (
+             candidate_id, watcher_id, observation_batch_id, observed_at, source_type, source_name,
+             raw_request_count, real_request_count, traffic_detected, error_count, error_rate,
+             avg_latency_ms, p50_latency_ms, p95_latency_ms, p99_latency_ms, http_method, raw_response
+           )
+           SELECT u.candidate_id, $1, $2, u.observed_at, 'access_log', $3,
+                  u.raw, u.real, u.real > 0, u.errors, u.error_rate,
+                  u.avg, u.p50, u.p95, u.p99, u.method, u.status_classes::jsonb
+           FROM unnest(
+             $4::int[], $5::timestamptz[], $6::int[], $7::int[], $8::int[], $9::numeric[],
+             $10::int[], $11::int[], $12::int[], $13::int[], $14::text[], $15::text[]
+           ) AS u(candidate_id, observed_at, raw, real, errors, error_rate, avg, p50, p95, p99, method, status_classes)`,
+          [
+            watcherId,
+            importId,
+            fileName,
+            rows.map((r) => r.candidateId),
+            rows.map((r) => r.observedAt),
+            rows.map((r) => r.raw),
+            rows.map((r) => r.real),
+            rows.map((r) => r.errors),
+            rows.map((r) => r.errorRate),
+            rows.map((r) => r.avg),
+            rows.map((r) => r.p50),
+            rows.map((r) => r.p95),
+            rows.map((r) => r.p99),
+            rows.map((r) => r.method),
+            rows.map((r) => r.statusClasses),
+          ]
+        );
+      }
+
+      const liveCandidates = [...lastRealAt.entries()];
+      if (liveCandidates.length > 0) {
+        const realByCandidate = new Map<number, number>();
+        for (const bucket of bucketList) {
+          realByCandidate.set(bucket.candidateId, (realByCandidate.get(bucket.candidateId) || 0) + bucket.real);
+        }
+        await client.query(
+          `UPDATE zombie_candidates zc SET
+             has_traffic = TRUE,
+             last_traffic_at = GREATEST(zc.last_traffic_at, u.last_at),
+             traffic_count = COALESCE(zc.traffic_count, 0) + u.real,
+             updated_at = NOW()
+           FROM unnest($1::int[], $2::int[], $3::timestamptz[]) AS u(candidate_id, real, last_at)
+           WHERE zc.candidate_id = u.candidate_id`,
+          [
+            liveCandidates.map(([id]) => id),
+            liveCandidates.map(([id]) => realByCandidate.get(id) || 0),
+            liveCandidates.map(([, at]) => new Date(at).toISOString()),
+          ]
+        );
+      }
+
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, 'access_log_imported', $2, $3, $4)`,
+        [watcherId, auth.user.uid, auth.user.email, JSON.stringify({ access_log_import: { from: null, to: fileName } })]
+      );
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        import: {
+          importId,
+          format,
+          lineCount,
+          parsedCount,
+          matchedCount,
+          syntheticCount,
+          eventCount: bucketList.length,
+          candidateCount: new Set(bucketList.map((b) => b.candidateId)).size,
+          firstRequestAt: firstRequestAt !== null ? new Date(firstRequestAt).toISOString() : null,
+          lastRequestAt: lastRequestAt !== null ? new Date(lastRequestAt).toISOString() : null,
+          unmatchedSamples,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[logs-import] POST error:", error);
+    return NextResponse.json({ error: "Failed to import access log" }, { status: 500 });
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Watcher Route Match Preview API
+ *
+ * POST /api/watchers/[id]/match-preview
+ * Shows which candidate each observed path would be attributed to, using the
+ * same resolver as W2, OTLP ingest and access log imports
+ * (lib/route-patterns). Paths may be concrete URLs or route label values,
+ * optionally prefixed with a method ("GET /api/users/42").
+ *
+ * Body: {
+ *   userId?: string,
+ *   paths: string[],   // Up to 200
+ *   method?: string    // For paths without a method prefix
+ * }
+ *
+ * Response: {
+ *   results: [{
+ *     input, method, path,
+ *     match: { candidateId, entityName, entitySignature, method, routePath, status } | null,
+ *     alsoMatched: [{ candidateId, method, routePath }]   // Less specific candidates
+ *   }],
+ *   matched, unmatched
+ * }
+ *
+ * The watcher must belong to the authenticated user.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { createRouteResolver, normalizeObservedPath } from "@/lib/route-patterns";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface MatchPreviewBody {
+  userId?: string;
+  paths?: unknown;
+  method?: string;
+}
+
+interface CandidateRow {
+  candidate_id: number;
+  entity_name: string | null;
+  entity_signature: string;
+  method: string | null;
+  route_path: string | null;
+  framework: string | null;
+  status: string;
+}
+
+const MAX_PATHS = 200;
+const METHOD_PREFIX = /^([A-Za-z]+)\s+(\S.*)$/;
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: watcherId } = await params;
+
+    let body: MatchPreviewBody;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
+    if (!Array.isArray(body.paths) || body.paths.length === 0 || !body.paths.every((p) => typeof p === "string")) {
+      return NextResponse.json({ error: "paths must be a non-empty array of strings" }, { status: 400 });
+    }
+    if (body.paths.length > MAX_PATHS) {
+      return NextResponse.json({ error: `At most ${MAX_PATHS} paths per request` }, { status: 400 });
+    }
+
+    const watcher = await queryOne<{ watcher_id: string }>(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    const candidates = await query<CandidateRow>(
+      `SELECT candidate_id, entity_name, entity_signature, method, route_path, framework, status
+       FROM zombie_candidates
+       WHERE watcher_id = $1 AND entity_type = 'http_endpoint' AND status NOT IN ('removed', 'killed')`,
+      [watcherId]
+    );
+    const resolveRoute = createRouteResolver(candidates);
+    const defaultMethod = body.method?.trim().toUpperCase() || null;
+
+    const results = (body.paths as string[])
+      .map((input) => input.trim())
+      .filter(Boolean)
+      .map((input) => {
+        const prefixed = input.match(METHOD_PREFIX);
+        const method = prefixed ? prefixed[1].toUpperCase() : defaultMethod;
+        const observed = prefixed ? prefixed[2] : input;
+        const [best, ...rest] = resolveRoute(observed, method);
+
+        return {
+          input,
+          method,
+          path: normalizeObservedPath(observed),
+          match: best
+            ? {
+                candidateId: best.candidate.candidate_id,
+                entityName: best.candidate.entity_name,
+                entitySignature: best.candidate.entity_signature,
+                method: best.candidate.method,
+                routePath: best.candidate.route_path,
+                status: best.candidate.status,
+              }
+            : null,
+          alsoMatched: rest.map((m) => ({
+            candidateId: m.candidate.candidate_id,
+            method: m.candidate.method,
+            routePath: m.candidate.route_path,
+          })),
+        };
+      });
+
+    const matched = results.filter((r) => r.match).length;
+    return NextResponse.json({ results, matched, unmatched: results.length - matched });
+  } catch (error) {
+    console.error("[match-preview] POST error:", error);
+    return NextResponse.json({ error: "Failed to preview route matches" }, { status: 500 });
+  }
+}
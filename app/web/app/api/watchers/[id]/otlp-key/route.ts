@@ -0,0 +1,197 @@
+/**
+ * Watcher OTLP Ingest Key API
+ *
+ * GET /api/watchers/[id]/otlp-key
+ * Whether the watcher accepts OTLP traces, and when it last received any.
+ *
+ * POST /api/watchers/[id]/otlp-key
+ * Generates the watcher's ingest key, replacing any existing one. The key is
+ * returned only in this response; collectors using the old key get 401.
+ *
+ * DELETE /api/watchers/[id]/otlp-key
+ * Revokes the key. Events already ingested are kept.
+ *
+ * Query (GET, DELETE) / Body (POST): { userId?: string }
+ *
+ * Response (GET):    { enabled, fingerprint, createdAt, lastReceivedAt, endpoint }
+ * Response (POST):   { success: true, key, fingerprint, createdAt, endpoint }
+ * Response (DELETE): { success: true }
+ *
+ * The watcher must belong to the authenticated user. Key changes are
+ * recorded in watcher_audit_log by fingerprint.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { pool, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { generateIngestKey } from "@/lib/ingest-keys";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface OtlpKeyRow {
+  watcher_id: string;
+  otlp_key_fingerprint: string | null;
+  otlp_key_created_at: string | null;
+  otlp_last_received_at: string | null;
+}
+
+const ENDPOINT_PATH = "/api/ingest/otlp/v1/traces";
+
+function endpointUrl(req: NextRequest): string {
+  return `${new URL(req.url).origin}${ENDPOINT_PATH}`;
+}
+
+async function loadWatcher(watcherId: string, userId: string): Promise<OtlpKeyRow | null> {
+  return queryOne<OtlpKeyRow>(
+    `SELECT watcher_id, otlp_key_fingerprint, otlp_key_created_at, otlp_last_received_at
+     FROM watchers WHERE watcher_id = $1 AND user_id = $2`,
+    [watcherId, userId]
+  );
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: watcherId } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const watcher = await loadWatcher(watcherId, auth.user.uid);
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      enabled: watcher.otlp_key_fingerprint !== null,
+      fingerprint: watcher.otlp_key_fingerprint,
+      createdAt: watcher.otlp_key_created_at,
+      lastReceivedAt: watcher.otlp_last_received_at,
+      endpoint: endpointUrl(req),
+    });
+  } catch (error) {
+    console.error("[otlp-key] GET error:", error);
+    return NextResponse.json({ error: "Failed to fetch OTLP ingest key" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const client = await pool.connect();
+
+  try {
+    const { id: watcherId } = await params;
+
+    let body: { userId?: string } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // The body is optional
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
+    const watcher = await loadWatcher(watcherId, auth.user.uid);
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    const { key, hash, fingerprint } = generateIngestKey();
+
+    await client.query("BEGIN");
+    try {
+      const updated = await client.query<{ otlp_key_created_at: string }>(
+        `UPDATE watchers
+         SET otlp_key_hash = $2, otlp_key_fingerprint = $3, otlp_key_created_at = NOW(), updated_at = NOW()
+         WHERE watcher_id = $1
+         RETURNING otlp_key_created_at`,
+        [watcherId, hash, fingerprint]
+      );
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+          watcherId,
+          watcher.otlp_key_fingerprint ? "otlp_key_rotated" : "otlp_key_created",
+          auth.user.uid,
+          auth.user.email,
+          JSON.stringify({ otlp_key: { from: watcher.otlp_key_fingerprint, to: fingerprint } }),
+        ]
+      );
+      await client.query("COMMIT");
+
+      return NextResponse.json(
+        {
+          success: true,
+          key,
+          fingerprint,
+          createdAt: updated.rows[0].otlp_key_created_at,
+          endpoint: endpointUrl(req),
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+  } catch (error) {
+    console.error("[otlp-key] POST error:", error);
+    return NextResponse.json({ error: "Failed to generate OTLP ingest key" }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const client = await pool.connect();
+
+  try {
+    const { id: watcherId } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const watcher = await loadWatcher(watcherId, auth.user.uid);
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+    if (!watcher.otlp_key_fingerprint) {
+      return NextResponse.json({ error: "Watcher has no OTLP ingest key" }, { status: 404 });
+    }
+
+    await client.query("BEGIN");
+    try {
+      await client.query(
+        `UPDATE watchers
+         SET otlp_key_hash = NULL, otlp_key_fingerprint = NULL, otlp_key_created_at = NULL, updated_at = NOW()
+         WHERE watcher_id = $1`,
+        [watcherId]
+      );
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, 'otlp_key_revoked', $2, $3, $4)`,
+        [
+          watcherId,
+          auth.user.uid,
+          auth.user.email,
+          JSON.stringify({ otlp_key: { from: watcher.otlp_key_fingerprint, to: null } }),
+        ]
+      );
+      await client.query("COMMIT");
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+  } catch (error) {
+    console.error("[otlp-key] DELETE error:", error);
+    return NextResponse.json({ error: "Failed to revoke OTLP ingest key" }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Watcher Policy Validation API
+ *
+ * POST /api/watchers/[id]/policy/validate
+ * Lints a pasted .doomsday.yml against the policy schema and previews it
+ * against the watcher's current candidates. Nothing is stored; the policy
+ * takes effect once committed to the repository and picked up by a scan.
+ *
+ * Body: {
+ *   userId?: string,
+ *   content: string      // Raw YAML
+ * }
+ *
+ * Response: {
+ *   valid: boolean,
+ *   errors: [{ path, message, line? }],
+ *   warnings: [{ path, message, line? }],
+ *   policy: DoomsdayPolicy | null,
+ *   effectiveSchedule: { [entityType]: { scanFrequencyMinutes, analysisPeriodHours } },
+ *   exclusionMatches: number[]   // Candidates matched per entry of policy.exclusions
+ * }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { findMatchingRule } from "@/lib/exclusion-rules";
+import { POLICY_ENTITY_TYPES, parsePolicy, resolveScheduleDefaults } from "@/lib/policy";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface ValidatePolicyBody {
+  userId?: string;
+  content?: string;
+}
+
+interface CandidateRow {
+  entity_type: string;
+  entity_signature: string;
+  route_path: string | null;
+  file_path: string | null;
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: watcherId } = await params;
+
+    let body: ValidatePolicyBody;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
+    if (typeof body.content !== "string") {
+      return NextResponse.json({ error: "content must be a string" }, { status: 400 });
+    }
+
+    const watcher = await queryOne<{ watcher_id: string }>(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    const result = parsePolicy(body.content);
+    const exclusions = result.policy?.exclusions || [];
+
+    let exclusionMatches: number[] = [];
+    if (exclusions.length > 0) {
+      const candidates = await query<CandidateRow>(
+        `SELECT entity_type, entity_signature, route_path, file_path
+         FROM zombie_candidates WHERE watcher_id = $1`,
+        [watcherId]
+      );
+      const rules = exclusions.map((exclusion, index) => ({
+        rule_id: index,
+        rule_type: exclusion.ruleType,
+        pattern: exclusion.pattern,
+      }));
+
+      exclusionMatches = rules.map(
+        (rule) => candidates.filter((candidate) => findMatchingRule([rule], candidate) !== null).length
+      );
+      if (candidates.length > 0) {
+        exclusionMatches.forEach((count, index) => {
+          if (count === 0) {
+            result.warnings.push({
+              path: "exclusions",
+              message: `"${exclusions[index].pattern}" does not match any current candidate`,
+            });
+          }
+        });
+      }
+    }
+
+    const effectiveSchedule = Object.fromEntries(
+      POLICY_ENTITY_TYPES.map((type) => [type, resolveScheduleDefaults(result.policy, type)])
+    );
+
+    return NextResponse.json({ ...result, effectiveSchedule, exclusionMatches });
+  } catch (error) {
+    console.error("[policy] Validate error:", error);
+    return NextResponse.json({ error: "Failed to validate policy" }, { status: 500 });
+  }
+}
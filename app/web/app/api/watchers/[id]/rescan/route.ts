@@ -0,0 +1,115 @@
+/**
+ * Manual Rescan API
+ *
+ * POST /api/watchers/[id]/rescan
+ * Triggers W1 Rescan for a watcher on demand, using the watcher's stored
+ * GitHub token. The scan is recorded in scan_history as a 'manual' scan
+ * with triggered_by set to the authenticated user.
+ *
+ * Body: { userId?: string }  // Must match the authenticated user if sent
+ *
+ * Response: {
+ *   success: true,
+ *   executionId: string,     // Stream progress from /api/watchers/stream/[executionId]
+ *   state: string
+ * }
+ *
+ * Returns 409 with the running executionId if a rescan is already in progress.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { decryptSecret } from "@/lib/credential-vault";
+import {
+  KESTRA_FLOWS,
+  KestraConfigError,
+  KestraError,
+  KestraExecution,
+  listExecutionsByLabel,
+  triggerFlow,
+} from "@/lib/kestra";
+
+interface RescanRequestBody {
+  userId?: string;
+}
+
+interface WatcherRow {
+  watcher_id: string;
+  watcher_name: string;
+  github_token_encrypted: string | null;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: watcherId } = await params;
+    const body: RescanRequestBody = await request.json().catch(() => ({}));
+
+    const auth = await authenticateRequest(request, body.userId);
+    if (auth.error) return auth.error;
+
+    const rows = await query<WatcherRow>(
+      `SELECT watcher_id, watcher_name, github_token_encrypted
+       FROM watchers WHERE watcher_id = $1 AND user_id = $2`,
+      [watcherId, auth.user.uid]
+    );
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    const watcher = rows[0];
+    let execution: KestraExecution;
+
+    try {
+      // One rescan at a time per watcher - concurrent syncs would race on candidates
+      const running = await listExecutionsByLabel(
+        { watcher_id: watcherId },
+        { flow: KESTRA_FLOWS.watcherRescan, state: ["CREATED", "QUEUED", "RUNNING"], size: 1 }
+      );
+      if (running.length > 0) {
+        return NextResponse.json(
+          { error: "A rescan is already running for this watcher", executionId: running[0].id },
+          { status: 409 }
+        );
+      }
+
+      execution = await triggerFlow(
+        KESTRA_FLOWS.watcherRescan,
+        {
+          watcher_id: watcherId,
+          github_token: decryptSecret(watcher.github_token_encrypted),
+          triggered_by: auth.user.email || auth.user.uid,
+        },
+        { labels: { watcher_id: watcherId } }
+      );
+    } catch (error) {
+      if (error instanceof KestraConfigError) {
+        console.error("[api/watchers/rescan] Kestra not configured:", error.message);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+      if (!(error instanceof KestraError)) throw error;
+      console.error("[api/watchers/rescan] Kestra error:", error.body || error.message);
+      return NextResponse.json(
+        { error: "Failed to trigger rescan", details: error.body || error.message },
+        { status: error.status ?? 502 }
+      );
+    }
+
+    console.log(`[api/watchers/rescan] Started rescan ${execution.id} for ${watcher.watcher_name}`);
+
+    return NextResponse.json({
+      success: true,
+      executionId: execution.id,
+      state: execution.state?.current ?? "CREATED",
+    });
+  } catch (error) {
+    console.error("[api/watchers/rescan] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to start rescan", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
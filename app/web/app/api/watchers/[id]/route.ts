@@ -1,19 +1,53 @@
 /**
  * Single Watcher API
  *
- * GET /api/watchers/[id]?userId=xxx
- * Returns detailed watcher information with all zombie candidates.
+ * GET /api/watchers/[id]
+ * Returns detailed watcher information with candidate counts by status.
+ * Candidates themselves are paged by GET /api/watchers/[id]/candidates.
  *
- * DELETE /api/watchers/[id]?userId=xxx
+ * PATCH /api/watchers/[id]
+ * Edits a watcher's settings. Only the fields sent are changed and they are
+ * validated like watcher creation; every edit is recorded in watcher_audit_log.
+ *
+ * DELETE /api/watchers/[id]
  * Deletes a watcher and all its associated candidates.
  *
+ * All require an Authorization bearer token; the watcher must belong to the caller.
+ *
  * Response (GET): {
- *   watcher: { watcherId, name, repoUrl, llmAnalysis, ... },
- *   candidates: [{ candidateId, entityType, zombieScore, ... }]
+ *   watcher: { watcherId, name, repoUrl, llmAnalysis, github_token_fingerprint, ... },
+ *   policy: WatcherPolicy | null,    // Resolved .doomsday.yml from the last scan
+ *   candidateCounts: Record<string, number>  // Status → number of candidates
+ * }
+ *
+ * Body (PATCH): {
+ *   userId?: string,
+ *   name?: string,                   // 3-50 characters, unique per user
+ *   repoDescription?: string,
+ *   applicationUrl?: string | null,  // "" or null removes it
+ *   defaultBranch?: string,          // Must exist in the repository
+ *   githubToken?: string | null      // null removes the stored token
  * }
+ *
+ * Response (PATCH): { success: true, watcher: {...}, changes: string[] }
  */
 import { NextRequest, NextResponse } from "next/server";
-import { query } from "@/lib/db";
+import { pool, query } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import {
+  decryptSecret,
+  encryptSecret,
+  fingerprintSecret,
+  redactObservabilitySources,
+} from "@/lib/credential-vault";
+import {
+  URL_REGEX,
+  checkDuplicates,
+  validateApplicationUrl,
+  validateGitHubBranch,
+  validateGitHubRepo,
+} from "@/lib/watcher-validation";
+import { loadWatcherPolicy } from "@/lib/policy";
 
 interface WatcherDetails {
   watcher_id: string;
@@ -46,47 +80,36 @@ interface WatcherDetails {
   updated_at: string;
   application_url: string | null;
   observability_urls: Record<string, string> | null;
+  github_token_encrypted: string | null;
+  policy_source: string | null;
+  policy_path: string | null;
+  policy_commit: string | null;
+  policy_loaded_at: string | null;
 }
 
-interface ZombieCandidate {
-  candidate_id: number;
-  entity_type: string;
-  entity_signature: string;
-  entity_name: string | null;
-  file_path: string;
-  method: string | null;
-  route_path: string | null;
-  schedule: string | null;
-  queue_name: string | null;
-  framework: string | null;
-  status: string;
-  llm_purpose: string | null;
-  llm_risk_score: number | null;
-  llm_risk_reasoning: string | null;
-  dependency_count: number;
-  caller_count: number;
-  scan_frequency_minutes: number | null;
-  analysis_period_hours: number | null;
-  observation_end_at: string | null;
-  first_observed_at: string | null;
-  last_observed_at: string | null;
-  observation_count: number;
-  has_traffic: boolean | null;
-  last_traffic_at: string | null;
-  traffic_count: number;
-  zombie_score: number;
-  zombie_verdict: string | null;
-  final_zombie_score: number | null;
-  final_verdict: string | null;
-  final_confidence: number | null;
-  final_reasoning: string | null;
-  human_action: string | null;
-  human_feedback: string | null;
-  pr_url: string | null;
-  pr_status: string | null;
-  discovered_at: string;
+interface UpdateWatcherRequest {
+  userId?: string;
+  name?: string;
+  repoDescription?: string;
+  applicationUrl?: string | null;
+  defaultBranch?: string;
+  githubToken?: string | null;
+}
+
+interface EditableWatcher {
+  watcher_id: string;
+  watcher_name: string;
+  repo_url: string;
+  repo_description: string | null;
+  default_branch: string;
+  application_url: string | null;
+  github_token_encrypted: string | null;
 }
 
+type FieldChange = { from: string | null; to: string | null };
+
+const BRANCH_REGEX = /^[\w.\-/]+$/;
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -94,7 +117,9 @@ export async function GET(
   try {
     const { id } = await params;
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get("userId");
+    const auth = await authenticateRequest(request, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
 
     if (!id) {
       return NextResponse.json(
@@ -103,13 +128,6 @@ export async function GET(
       );
     }
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: "Missing userId parameter" },
-        { status: 400 }
-      );
-    }
-
     // Get watcher details
     const watchers = await query<WatcherDetails>(
       `SELECT 
@@ -118,7 +136,8 @@ export async function GET(
         serverless_functions, websockets, grpc_services, graphql_resolvers,
         last_commit_hash, last_commit_message, last_commit_author, last_commit_date,
         llm_business_context, llm_tech_stack, llm_architecture, llm_health, llm_zombie_risk,
-        status, scan_count, created_at, updated_at, application_url, observability_urls
+        status, scan_count, created_at, updated_at, application_url, observability_urls,
+        github_token_encrypted, policy_source, policy_path, policy_commit, policy_loaded_at
       FROM watchers 
       WHERE watcher_id = $1 AND user_id = $2`,
       [id, userId]
@@ -131,41 +150,33 @@ export async function GET(
       );
     }
 
-    const watcher = watchers[0];
+    const {
+      github_token_encrypted: tokenEnvelope,
+      policy_source,
+      policy_path,
+      policy_commit,
+      policy_loaded_at,
+      ...watcher
+    } = watchers[0];
+    const githubToken = decryptSecret(tokenEnvelope);
 
-    // Get zombie candidates for this watcher
-    const candidates = await query<ZombieCandidate>(
-      `SELECT 
-        candidate_id, entity_type, entity_signature, entity_name, file_path,
-        method, route_path, schedule, queue_name, framework, status,
-        llm_purpose, llm_risk_score, llm_risk_reasoning,
-        dependency_count, caller_count,
-        scan_frequency_minutes, analysis_period_hours, observation_end_at,
-        first_observed_at, last_observed_at, observation_count,
-        has_traffic, last_traffic_at, traffic_count, zombie_score, zombie_verdict,
-        final_zombie_score, final_verdict, final_confidence, final_reasoning,
-        human_action, human_feedback, pr_url, pr_status, discovered_at
-      FROM zombie_candidates 
-      WHERE watcher_id = $1 
-      ORDER BY 
-        CASE status 
-          WHEN 'pending_review' THEN 1
-          WHEN 'confirmed_zombie' THEN 2
-          WHEN 'active' THEN 3
-          WHEN 'pending' THEN 4
-          WHEN 'killed' THEN 5
-          WHEN 'healthy' THEN 6
-          ELSE 7
-        END,
-        COALESCE(final_zombie_score, zombie_score) DESC NULLS LAST,
-        discovered_at DESC`,
+    const statusRows = await query<{ status: string; count: number }>(
+      `SELECT status, COUNT(*)::int AS count
+       FROM zombie_candidates
+       WHERE watcher_id = $1
+       GROUP BY status`,
       [id]
     );
 
     return NextResponse.json({
       success: true,
-      watcher,
-      candidates,
+      watcher: {
+        ...watcher,
+        observability_urls: redactObservabilitySources(watcher.observability_urls),
+        github_token_fingerprint: githubToken ? fingerprintSecret(githubToken) : null,
+      },
+      policy: loadWatcherPolicy({ policy_source, policy_path, policy_commit, policy_loaded_at }),
+      candidateCounts: Object.fromEntries(statusRows.map((row) => [row.status, row.count])),
     });
   } catch (error) {
     console.error("[api/watchers] Error fetching watcher details:", error);
@@ -179,6 +190,192 @@ export async function GET(
   }
 }
 
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: UpdateWatcherRequest = await request.json();
+
+    const auth = await authenticateRequest(request, body.userId);
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
+
+    const existing = await query<EditableWatcher>(
+      `SELECT watcher_id, watcher_name, repo_url, repo_description, default_branch,
+              application_url, github_token_encrypted
+       FROM watchers WHERE watcher_id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+
+    if (existing.length === 0) {
+      return NextResponse.json({ error: "Watcher not found or unauthorized" }, { status: 404 });
+    }
+
+    const current = existing[0];
+    const currentToken = decryptSecret(current.github_token_encrypted);
+
+    // JSON can carry any type; only strings (or null where clearing is allowed) are edits
+    const nonString = (["name", "repoDescription", "defaultBranch", "applicationUrl", "githubToken"] as const).find(
+      (field) => {
+        const value = body[field];
+        if (value === undefined) return false;
+        if (value === null) return field !== "applicationUrl" && field !== "githubToken";
+        return typeof value !== "string";
+      }
+    );
+    if (nonString) {
+      return NextResponse.json({ error: `${nonString} must be a string`, stage: "validation" }, { status: 400 });
+    }
+
+    // Normalize the request into the target values; undefined means "unchanged"
+    const name = body.name?.trim();
+    const repoDescription = body.repoDescription?.trim();
+    const applicationUrl =
+      body.applicationUrl === undefined ? undefined : body.applicationUrl?.trim() || null;
+    const defaultBranch = body.defaultBranch?.trim();
+    const githubToken = body.githubToken === undefined ? undefined : body.githubToken?.trim() || null;
+
+    // Step 1: Validate inputs
+    if (name !== undefined && (name.length < 3 || name.length > 50)) {
+      return NextResponse.json({ error: "Watcher name must be 3-50 characters", stage: "validation" }, { status: 400 });
+    }
+    if (repoDescription !== undefined && repoDescription.length === 0) {
+      return NextResponse.json({ error: "Repository description is required", stage: "validation" }, { status: 400 });
+    }
+    if (applicationUrl && !URL_REGEX.test(applicationUrl)) {
+      return NextResponse.json({ error: "Invalid Application URL format", stage: "validation" }, { status: 400 });
+    }
+    if (defaultBranch !== undefined && !BRANCH_REGEX.test(defaultBranch)) {
+      return NextResponse.json({ error: "Invalid branch name", stage: "validation" }, { status: 400 });
+    }
+
+    const changes: Record<string, FieldChange> = {};
+    if (name !== undefined && name !== current.watcher_name) {
+      changes.name = { from: current.watcher_name, to: name };
+    }
+    if (repoDescription !== undefined && repoDescription !== (current.repo_description ?? "")) {
+      changes.repoDescription = { from: current.repo_description, to: repoDescription };
+    }
+    if (applicationUrl !== undefined && applicationUrl !== current.application_url) {
+      changes.applicationUrl = { from: current.application_url, to: applicationUrl };
+    }
+    if (defaultBranch !== undefined && defaultBranch !== current.default_branch) {
+      changes.defaultBranch = { from: current.default_branch, to: defaultBranch };
+    }
+    if (githubToken !== undefined && githubToken !== currentToken) {
+      // Audit entries only ever hold fingerprints
+      changes.githubToken = {
+        from: currentToken ? fingerprintSecret(currentToken) : null,
+        to: githubToken ? fingerprintSecret(githubToken) : null,
+      };
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({ success: true, watcher: { watcher_id: id }, changes: [] });
+    }
+
+    // Step 2: Check for a duplicate name
+    if (changes.name) {
+      const duplicateCheck = await checkDuplicates(name!, null, userId, id);
+      if (duplicateCheck.isDuplicate) {
+        return NextResponse.json({ error: duplicateCheck.error, stage: "duplicate_check" }, { status: 409 });
+      }
+    }
+
+    // Step 3: Validate GitHub access with the branch and token the watcher will use
+    if (changes.defaultBranch || changes.githubToken) {
+      const token = githubToken !== undefined ? githubToken : currentToken;
+      const branch = defaultBranch ?? current.default_branch;
+
+      const repoValidation = await validateGitHubRepo(current.repo_url, token ?? undefined);
+      if (!repoValidation.valid) {
+        return NextResponse.json({ error: repoValidation.error, stage: "github_validation" }, { status: 400 });
+      }
+      const branchValidation = await validateGitHubBranch(current.repo_url, branch, token);
+      if (!branchValidation.valid) {
+        return NextResponse.json({ error: branchValidation.error, stage: "github_validation" }, { status: 400 });
+      }
+    }
+
+    // Step 4: Validate Application URL (if changed to a new one)
+    if (changes.applicationUrl && applicationUrl) {
+      const appUrlValidation = await validateApplicationUrl(applicationUrl);
+      if (!appUrlValidation.valid) {
+        return NextResponse.json(
+          { error: appUrlValidation.error, stage: "application_url_validation" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Step 5: Apply the edit and its audit entry together
+    const client = await pool.connect();
+    let updated: Omit<EditableWatcher, "github_token_encrypted">;
+    try {
+      await client.query("BEGIN");
+      const result = await client.query<EditableWatcher>(
+        `UPDATE watchers SET
+           watcher_name = $2,
+           repo_description = $3,
+           application_url = $4,
+           default_branch = $5,
+           github_token_encrypted = $6,
+           updated_at = NOW()
+         WHERE watcher_id = $1
+         RETURNING watcher_id, watcher_name, repo_url, repo_description, default_branch, application_url`,
+        [
+          id,
+          changes.name ? name : current.watcher_name,
+          changes.repoDescription ? repoDescription : current.repo_description,
+          changes.applicationUrl ? applicationUrl : current.application_url,
+          changes.defaultBranch ? defaultBranch : current.default_branch,
+          changes.githubToken ? (githubToken ? encryptSecret(githubToken) : null) : current.github_token_encrypted,
+        ]
+      );
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, 'update', $2, $3, $4)`,
+        [id, userId, auth.user.email, JSON.stringify(changes)]
+      );
+      await client.query("COMMIT");
+      updated = result.rows[0];
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const finalToken = githubToken !== undefined ? githubToken : currentToken;
+    console.log(`[api/watchers] Updated watcher ${id}: ${Object.keys(changes).join(", ")}`);
+
+    return NextResponse.json({
+      success: true,
+      watcher: {
+        ...updated,
+        github_token_fingerprint: finalToken ? fingerprintSecret(finalToken) : null,
+      },
+      changes: Object.keys(changes),
+    });
+  } catch (error) {
+    console.error("[api/watchers] Error updating watcher:", error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid JSON body", stage: "parse" }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to update watcher",
+        details: error instanceof Error ? error.message : "Unknown",
+      },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -186,7 +383,9 @@ export async function DELETE(
   try {
     const { id } = await params;
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get("userId");
+    const auth = await authenticateRequest(request, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
 
     if (!id) {
       return NextResponse.json(
@@ -195,13 +394,6 @@ export async function DELETE(
       );
     }
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: "Missing userId parameter" },
-        { status: 400 }
-      );
-    }
-
     // Verify the watcher belongs to this user before deleting
     const existing = await query<{ watcher_id: string }>(
       `SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2`,
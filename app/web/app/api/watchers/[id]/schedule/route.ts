@@ -13,9 +13,12 @@
  *
  * GET /api/watchers/[id]/schedule
  * Returns aggregated schedule info from all candidates.
+ *
+ * Both require the watcher to belong to the authenticated user.
  */
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
 
 interface ScheduleRequest {
   scanFrequencySeconds: number;
@@ -28,6 +31,9 @@ interface RouteParams {
 }
 
 export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateRequest(req);
+  if (auth.error) return auth.error;
+
   const client = await pool.connect();
 
   try {
@@ -50,10 +56,10 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Check watcher exists
+    // Check watcher exists and belongs to user
     const watcherResult = await client.query(
-      "SELECT watcher_id, status FROM watchers WHERE watcher_id = $1",
-      [watcherId]
+      "SELECT watcher_id, status FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
     );
 
     if (watcherResult.rows.length === 0) {
@@ -122,11 +128,13 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
 export async function GET(req: NextRequest, { params }: RouteParams) {
   try {
     const { id: watcherId } = await params;
+    const auth = await authenticateRequest(req);
+    if (auth.error) return auth.error;
 
     // Get watcher basic info
     const watcherResult = await pool.query(
-      `SELECT watcher_id, watcher_name, status FROM watchers WHERE watcher_id = $1`,
-      [watcherId]
+      `SELECT watcher_id, watcher_name, status FROM watchers WHERE watcher_id = $1 AND user_id = $2`,
+      [watcherId, auth.user.uid]
     );
 
     if (watcherResult.rows.length === 0) {
@@ -0,0 +1,224 @@
+/**
+ * Prometheus Label Discovery API
+ *
+ * GET /api/watchers/[id]/sources/[index]/discover
+ * Finds the request counter and route label a prometheus or grafana source
+ * exposes, so its mapping does not have to be guessed.
+ *
+ * Lists metric names (/api/v1/label/__name__/values), keeps the ones that look
+ * like HTTP request counters, and reads their series from the last 24 hours
+ * (/api/v1/series). Every label whose values look like paths is resolved
+ * against the watcher's HTTP endpoints (lib/route-patterns); the
+ * metric / label pair that reaches the most endpoints is suggested.
+ *
+ * Query: ?userId=<uid>
+ *
+ * Response: {
+ *   current: { metric, routeLabel, queryTemplate },
+ *   metrics: [{ name, seriesCount, labels: [{ name, sampleValues, pathValueCount, matchedCandidates }] }],
+ *   suggestion: { metric, routeLabel, queryTemplate } | null,
+ *   candidates: [{ candidateId, entityName, method, routePath, values }],  // for the suggestion
+ *   unmatchedValues: string[]
+ * }
+ * Errors: 400 not a Prometheus source, 502 the source failed ({ error, errorType })
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { unsealObservabilitySources } from "@/lib/credential-vault";
+import {
+  DEFAULT_PROMQL_TEMPLATE,
+  PROMETHEUS_SOURCE_TYPES,
+  PrometheusMapping,
+  PrometheusQueryError,
+  prometheusGet,
+  resolvePrometheusMapping,
+} from "@/lib/prometheus";
+import { createRouteResolver } from "@/lib/route-patterns";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string; index: string }>;
+}
+
+interface CandidateRow {
+  candidate_id: number;
+  entity_name: string | null;
+  method: string | null;
+  route_path: string | null;
+  framework: string | null;
+}
+
+interface LabelStats {
+  name: string;
+  values: Map<string, Set<number>>; // Label value → candidate ids it resolved to
+  pathValueCount: number;
+  matchedCandidates: number;
+}
+
+const MAX_METRICS = 8;
+const MAX_SERIES_PER_METRIC = 2000;
+const MAX_VALUES_PER_LABEL = 500;
+const LOOKBACK_SECONDS = 24 * 3600;
+
+const COUNTER_SUFFIX_REGEX = /(_total|_count)$/;
+// Labels that never hold a route
+const IGNORED_LABELS = new Set(["__name__", "job", "instance", "le", "quantile", "status", "code", "method"]);
+const METHOD_LABELS = ["method", "http_method", "request_method"];
+
+function metricScore(name: string): number {
+  if (!COUNTER_SUFFIX_REGEX.test(name) || /_bucket$/.test(name)) return 0;
+  const lower = name.toLowerCase();
+  return (
+    (lower.includes("http") ? 2 : 0) +
+    (/requests?/.test(lower) ? 2 : 0) +
+    (lower.includes("server") ? 1 : 0) +
+    (lower.includes("client") ? -2 : 0)
+  );
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authenticateRequest(req, searchParams.get("userId"));
+  if (auth.error) return auth.error;
+
+  try {
+    const { id: watcherId, index } = await params;
+
+    const watcher = await queryOne<{ observability_urls: unknown }>(
+      "SELECT observability_urls FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    const source = unsealObservabilitySources(watcher.observability_urls)[parseInt(index)];
+    if (!source) {
+      return NextResponse.json({ error: `Invalid index: ${index}` }, { status: 400 });
+    }
+    if (!PROMETHEUS_SOURCE_TYPES.includes(source.type)) {
+      return NextResponse.json(
+        { error: "Label discovery only applies to prometheus and grafana sources" },
+        { status: 400 }
+      );
+    }
+
+    const candidates = await query<CandidateRow>(
+      `SELECT candidate_id, entity_name, method, route_path, framework
+       FROM zombie_candidates
+       WHERE watcher_id = $1 AND entity_type = 'http_endpoint' AND route_path IS NOT NULL
+         AND status NOT IN ('removed', 'killed')`,
+      [watcherId]
+    );
+    const resolve = createRouteResolver(candidates);
+
+    const end = Math.floor(Date.now() / 1000);
+    const start = end - LOOKBACK_SECONDS;
+    const names = await prometheusGet<string[]>(source, "/api/v1/label/__name__/values", {
+      start: String(start),
+      end: String(end),
+    });
+    const metricNames = names
+      .map((name) => ({ name, score: metricScore(name) }))
+      .filter((metric) => metric.score > 0)
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+      .slice(0, MAX_METRICS)
+      .map((metric) => metric.name);
+
+    const metrics = [];
+    let best: { metric: string; label: LabelStats } | null = null;
+
+    for (const metric of metricNames) {
+      const series = await prometheusGet<Record<string, string>[]>(source, "/api/v1/series", {
+        "match[]": metric,
+        start: String(start),
+        end: String(end),
+        limit: String(MAX_SERIES_PER_METRIC),
+      });
+
+      const labels = new Map<string, LabelStats>();
+      for (const labelSet of series.slice(0, MAX_SERIES_PER_METRIC)) {
+        const method = METHOD_LABELS.map((name) => labelSet[name]).find(Boolean) || null;
+        for (const [name, value] of Object.entries(labelSet)) {
+          if (IGNORED_LABELS.has(name)) continue;
+          let stats = labels.get(name);
+          if (!stats) {
+            stats = { name, values: new Map(), pathValueCount: 0, matchedCandidates: 0 };
+            labels.set(name, stats);
+          }
+          let owners = stats.values.get(value);
+          if (!owners) {
+            if (stats.values.size >= MAX_VALUES_PER_LABEL) continue;
+            owners = new Set();
+            stats.values.set(value, owners);
+            if (value.startsWith("/")) stats.pathValueCount++;
+          }
+          if (value.startsWith("/")) {
+            const [match] = resolve(value, method);
+            if (match) owners.add(match.candidate.candidate_id);
+          }
+        }
+      }
+
+      const routeLabels = [...labels.values()]
+        .filter((stats) => stats.pathValueCount > 0)
+        .map((stats) => {
+          stats.matchedCandidates = new Set([...stats.values.values()].flatMap((owners) => [...owners])).size;
+          return stats;
+        })
+        .sort((a, b) => b.matchedCandidates - a.matchedCandidates || b.pathValueCount - a.pathValueCount);
+
+      const top = routeLabels[0];
+      if (top && (!best || top.matchedCandidates > best.label.matchedCandidates)) {
+        best = { metric, label: top };
+      }
+
+      metrics.push({
+        name: metric,
+        seriesCount: series.length,
+        labels: routeLabels.map((stats) => ({
+          name: stats.name,
+          sampleValues: [...stats.values.keys()].filter((value) => value.startsWith("/")).slice(0, 5),
+          pathValueCount: stats.pathValueCount,
+          matchedCandidates: stats.matchedCandidates,
+        })),
+      });
+    }
+
+    const suggestion: PrometheusMapping | null = best
+      ? { metric: best.metric, routeLabel: best.label.name, queryTemplate: DEFAULT_PROMQL_TEMPLATE }
+      : null;
+
+    const valuesByCandidate = new Map<number, string[]>();
+    const unmatchedValues: string[] = [];
+    for (const [value, owners] of best?.label.values ?? []) {
+      if (!value.startsWith("/")) continue;
+      if (owners.size === 0 && unmatchedValues.length < 20) unmatchedValues.push(value);
+      for (const candidateId of owners) {
+        valuesByCandidate.set(candidateId, [...(valuesByCandidate.get(candidateId) ?? []), value]);
+      }
+    }
+
+    return NextResponse.json({
+      current: resolvePrometheusMapping(source),
+      metrics,
+      suggestion,
+      candidates: candidates.map((candidate) => ({
+        candidateId: candidate.candidate_id,
+        entityName: candidate.entity_name,
+        method: candidate.method,
+        routePath: candidate.route_path,
+        values: (valuesByCandidate.get(candidate.candidate_id) ?? []).slice(0, 5),
+      })),
+      unmatchedValues,
+    });
+  } catch (error) {
+    if (error instanceof PrometheusQueryError) {
+      return NextResponse.json({ error: error.message, errorType: error.type }, { status: 502 });
+    }
+    console.error("[sources/discover] GET error:", error);
+    return NextResponse.json({ error: "Failed to discover labels" }, { status: 500 });
+  }
+}
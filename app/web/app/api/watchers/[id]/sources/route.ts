@@ -1,17 +1,51 @@
 /**
  * Observation Sources API
  *
- * GET /api/watchers/[id]/sources?userId=xxx
+ * GET /api/watchers/[id]/sources
  * Returns all observability sources for a watcher.
  *
  * PATCH /api/watchers/[id]/sources
- * Add or remove observability sources.
+ * Add or remove observability sources, or set a Prometheus source's mapping.
  *
- * PATCH Body (add):    { action: "add", userId, source: { type, url, token? } }
- * PATCH Body (remove): { action: "remove", userId, index: number }
+ * PATCH Body (add):     { action: "add", userId?, source: { type, url, token? } }
+ * PATCH Body (remove):  { action: "remove", userId?, index: number }
+ * PATCH Body (mapping): { action: "mapping", userId?, index: number,
+ *                         mapping: { metric, routeLabel, queryTemplate } | null }
+ *
+ * A mapping (prometheus and grafana sources only, see lib/prometheus) is
+ * validated by running its template once as an instant query, rendered for
+ * one of the watcher's HTTP endpoints; a query Prometheus rejects is a 400.
+ * null resets the source to the defaults. The response then includes
+ * validation: { expression, seriesCount, responseTimeMs }. The query runs
+ * before the watcher row is locked; the change is then applied to the
+ * sources as re-read under lock, and refused with 409 if the source moved.
+ *
+ * The watcher must belong to the authenticated user.
+ *
+ * Tokens are sealed with the credential vault on write and never returned:
+ * responses carry a masked tokenFingerprint per source instead.
  */
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import {
+  ObservabilitySourceInput,
+  StoredObservabilitySource,
+  decryptSecret,
+  redactObservabilitySources,
+  rewrapObservabilitySources,
+  sealObservabilitySources,
+} from "@/lib/credential-vault";
+import {
+  PROMETHEUS_SOURCE_TYPES,
+  PrometheusMapping,
+  PrometheusQueryError,
+  renderPromqlTemplate,
+  resolvePrometheusMapping,
+  runInstantQuery,
+  validatePrometheusMapping,
+} from "@/lib/prometheus";
+import { compileRoutePattern } from "@/lib/route-patterns";
 
 export const dynamic = "force-dynamic";
 
@@ -19,45 +53,16 @@ interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-interface ObservabilitySource {
-  type: string;
-  url: string;
-  token?: string | null;
-  userId?: string | null;
-}
-
-// Normalize data - handle both array and object formats
-function normalizeSourcesData(data: unknown): ObservabilitySource[] {
-  if (!data) return [];
-  
-  // Already an array
-  if (Array.isArray(data)) {
-    return data.filter((s): s is ObservabilitySource => s && typeof s.url === 'string');
-  }
-  
-  // Object format {type: url} - convert to array
-  if (typeof data === 'object' && data !== null) {
-    return Object.entries(data).map(([type, url]) => ({
-      type,
-      url: String(url),
-      token: null
-    }));
-  }
-  
-  return [];
-}
-
 export async function GET(req: NextRequest, { params }: RouteParams) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authenticateRequest(req, searchParams.get("userId"));
+  if (auth.error) return auth.error;
+  const userId = auth.user.uid;
+
   const client = await pool.connect();
 
   try {
     const { id: watcherId } = await params;
-    const { searchParams } = new URL(req.url);
-    const userId = searchParams.get("userId");
-
-    if (!userId) {
-      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
-    }
 
     const result = await client.query(
       `SELECT observability_urls, application_url 
@@ -71,7 +76,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
     }
 
     const { observability_urls, application_url } = result.rows[0];
-    const sources = normalizeSourcesData(observability_urls);
+    const sources = redactObservabilitySources(observability_urls);
 
     return NextResponse.json({
       sources,
@@ -87,17 +92,30 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 
 interface AddSourceBody {
   action: "add";
-  source: ObservabilitySource;
-  userId: string;
+  source: ObservabilitySourceInput;
+  userId?: string;
 }
 
 interface RemoveSourceBody {
   action: "remove";
   index: number;
-  userId: string;
+  userId?: string;
 }
 
-type PatchBody = AddSourceBody | RemoveSourceBody;
+interface MappingSourceBody {
+  action: "mapping";
+  index: number;
+  mapping: Partial<PrometheusMapping> | null;
+  userId?: string;
+}
+
+type PatchBody = AddSourceBody | RemoveSourceBody | MappingSourceBody;
+
+interface MappingValidation {
+  expression: string;
+  seriesCount: number;
+  responseTimeMs: number;
+}
 
 export async function PATCH(req: NextRequest, { params }: RouteParams) {
   const client = await pool.connect();
@@ -106,13 +124,13 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
     const { id: watcherId } = await params;
     const body: PatchBody = await req.json();
 
-    if (!body.userId) {
-      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
-    }
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
 
-    if (!body.action || !["add", "remove"].includes(body.action)) {
+    if (!body.action || !["add", "remove", "mapping"].includes(body.action)) {
       return NextResponse.json(
-        { error: "Invalid action. Must be 'add' or 'remove'" },
+        { error: "Invalid action. Must be 'add', 'remove' or 'mapping'" },
         { status: 400 }
       );
     }
@@ -122,14 +140,18 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       `SELECT watcher_id, observability_urls 
        FROM watchers 
        WHERE watcher_id = $1 AND user_id = $2`,
-      [watcherId, body.userId]
+      [watcherId, userId]
     );
 
     if (watcherResult.rows.length === 0) {
       return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
     }
 
-    const currentSources = normalizeSourcesData(watcherResult.rows[0].observability_urls);
+    // Re-sealing also encrypts any tokens stored before the vault existed
+    const currentSources = rewrapObservabilitySources(watcherResult.rows[0].observability_urls);
+    let validation: MappingValidation | null = null;
+    // Applied to the sources as re-read under lock; a response refuses the change
+    let applyChange: (sources: StoredObservabilitySource[]) => NextResponse | void;
 
     if (body.action === "add") {
       const addBody = body as AddSourceBody;
@@ -146,24 +168,129 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       }
 
       // Add new source
-      currentSources.push({
-        type: addBody.source.type,
-        url: addBody.source.url,
-        token: addBody.source.token || null,
-        userId: addBody.source.userId || null,
-      });
-    } else {
-      // Remove action
-      const removeBody = body as RemoveSourceBody;
-      
-      if (typeof removeBody.index !== 'number' || removeBody.index < 0 || removeBody.index >= currentSources.length) {
+      const [added] = sealObservabilitySources([
+        {
+          type: addBody.source.type,
+          url: addBody.source.url,
+          token: addBody.source.token || null,
+          userId: addBody.source.userId || null,
+        },
+      ]);
+      applyChange = (sources) => {
+        sources.push(added);
+      };
+    } else if (body.action === "mapping") {
+      const mappingBody = body as MappingSourceBody;
+      const source = currentSources[mappingBody.index];
+
+      if (!source) {
+        return NextResponse.json({ error: `Invalid index: ${mappingBody.index}` }, { status: 400 });
+      }
+      if (!PROMETHEUS_SOURCE_TYPES.includes(source.type)) {
         return NextResponse.json(
-          { error: `Invalid index: ${removeBody.index}` },
+          { error: "Metric mappings only apply to prometheus and grafana sources" },
           { status: 400 }
         );
       }
-      
-      currentSources.splice(removeBody.index, 1);
+      if (mappingBody.mapping !== null && typeof mappingBody.mapping !== "object") {
+        return NextResponse.json({ error: "mapping must be an object or null" }, { status: 400 });
+      }
+      const nonString = (["metric", "routeLabel", "queryTemplate"] as const).find((field) => {
+        const value = mappingBody.mapping?.[field];
+        return value !== undefined && value !== null && typeof value !== "string";
+      });
+      if (nonString) {
+        return NextResponse.json({ error: `mapping.${nonString} must be a string` }, { status: 400 });
+      }
+
+      let mapping: PrometheusMapping | null = null;
+      if (mappingBody.mapping) {
+        mapping = resolvePrometheusMapping({
+          metric: mappingBody.mapping.metric?.trim(),
+          routeLabel: mappingBody.mapping.routeLabel?.trim(),
+          queryTemplate: mappingBody.mapping.queryTemplate?.trim(),
+        });
+        const mappingError = validatePrometheusMapping(mapping);
+        if (mappingError) {
+          return NextResponse.json({ error: mappingError }, { status: 400 });
+        }
+
+        // Render the template for a real route, the way W2 will run it
+        const endpoint = await client.query<{ route_path: string; framework: string | null }>(
+          `SELECT route_path, framework
+           FROM zombie_candidates
+           WHERE watcher_id = $1 AND entity_type = 'http_endpoint' AND route_path IS NOT NULL
+             AND status NOT IN ('removed', 'killed')
+           ORDER BY candidate_id
+           LIMIT 1`,
+          [watcherId]
+        );
+        const pattern = endpoint.rows[0]
+          ? compileRoutePattern(endpoint.rows[0].route_path, endpoint.rows[0].framework)
+          : null;
+        const expression = renderPromqlTemplate(mapping, pattern?.labelRegex ?? null);
+
+        // Runs before the lock is taken, so a slow source never holds the watcher row
+        try {
+          const { series, responseTimeMs } = await runInstantQuery(
+            { type: source.type, url: source.url, token: decryptSecret(source.tokenEncrypted), userId: source.userId },
+            expression
+          );
+          validation = { expression, seriesCount: series.length, responseTimeMs };
+        } catch (error) {
+          if (error instanceof PrometheusQueryError) {
+            return NextResponse.json(
+              { error: `Query template failed: ${error.message}`, expression, errorType: error.type },
+              { status: 400 }
+            );
+          }
+          throw error;
+        }
+      }
+
+      applyChange = (sources) => {
+        const target = sources[mappingBody.index];
+        // The source validated above must still sit at this index
+        if (!target || target.type !== source.type || target.url !== source.url) {
+          return NextResponse.json(
+            { error: "Sources changed while the mapping was validated; reload and try again" },
+            { status: 409 }
+          );
+        }
+        sources[mappingBody.index] = mapping
+          ? { ...target, ...mapping }
+          : { ...target, metric: null, routeLabel: null, queryTemplate: null };
+      };
+    } else {
+      // Remove action
+      const removeBody = body as RemoveSourceBody;
+
+      applyChange = (sources) => {
+        if (typeof removeBody.index !== 'number' || removeBody.index < 0 || removeBody.index >= sources.length) {
+          return NextResponse.json(
+            { error: `Invalid index: ${removeBody.index}` },
+            { status: 400 }
+          );
+        }
+        sources.splice(removeBody.index, 1);
+      };
+    }
+
+    // Re-read under lock so concurrent edits are applied one after the other
+    await client.query("BEGIN");
+    const lockedResult = await client.query(
+      "SELECT observability_urls FROM watchers WHERE watcher_id = $1 AND user_id = $2 FOR UPDATE",
+      [watcherId, userId]
+    );
+    if (lockedResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+    const sources = rewrapObservabilitySources(lockedResult.rows[0].observability_urls);
+    const refused = applyChange(sources);
+    if (refused) {
+      await client.query("ROLLBACK");
+      return refused;
     }
 
     // Update the watcher
@@ -171,17 +298,22 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       `UPDATE watchers 
        SET observability_urls = $1, updated_at = NOW() 
        WHERE watcher_id = $2`,
-      [JSON.stringify(currentSources), watcherId]
+      [JSON.stringify(sources), watcherId]
     );
+    await client.query("COMMIT");
 
     return NextResponse.json({
       success: true,
-      sources: currentSources,
+      sources: redactObservabilitySources(sources),
+      ...(validation && { validation }),
       message: body.action === "add" 
         ? `Added source` 
-        : `Removed source`,
+        : body.action === "mapping"
+          ? `Updated source mapping`
+          : `Removed source`,
     });
   } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
     console.error("[sources] PATCH error:", error);
     return NextResponse.json({ error: "Failed to update sources" }, { status: 500 });
   } finally {
@@ -6,6 +6,8 @@
  *
  * Body: { sourceType: string, sourceUrl: string }
  *
+ * The watcher must belong to the authenticated user.
+ *
  * Response: {
  *   valid: boolean,
  *   message: string,
@@ -13,6 +15,8 @@
  * }
  */
 import { NextRequest, NextResponse } from "next/server";
+import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 
@@ -130,8 +134,20 @@ async function validateSourceUrl(sourceType: string, sourceUrl: string): Promise
   }
 }
 
-export async function POST(req: NextRequest) {
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
+    const { id: watcherId } = await params;
+    const auth = await authenticateRequest(req);
+    if (auth.error) return auth.error;
+
+    const watcherCheck = await pool.query(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (watcherCheck.rows.length === 0) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
     const body: ValidateRequest = await req.json();
 
     if (!body.sourceType || !body.sourceUrl) {
@@ -0,0 +1,173 @@
+/**
+ * Single Synthetic Traffic Rule API
+ *
+ * PATCH /api/watchers/[id]/synthetic-rules/[ruleId]
+ * Updates a rule's type, label name, pattern or reason.
+ *
+ * DELETE /api/watchers/[id]/synthetic-rules/[ruleId]
+ * Removes a rule. Both take effect from the next observation.
+ *
+ * Body (PATCH): { userId?, ruleType?, pattern?, labelName?, reason? }
+ *
+ * Response (PATCH):  { success: true, rule }
+ * Response (DELETE): { success: true }
+ *
+ * The watcher must belong to the authenticated user. Rule changes are
+ * recorded in watcher_audit_log.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { PoolClient } from "pg";
+import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import {
+  SyntheticRuleType,
+  SyntheticTrafficRule,
+  formatSyntheticRule,
+  validateSyntheticRule,
+} from "@/lib/synthetic-traffic";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string; ruleId: string }>;
+}
+
+interface UpdateRuleBody {
+  userId?: string;
+  ruleType?: SyntheticRuleType;
+  pattern?: string;
+  labelName?: string;
+  reason?: string | null;
+}
+
+async function findRule(client: PoolClient, watcherId: string, ruleId: number, userId: string) {
+  const result = await client.query<SyntheticTrafficRule>(
+    `SELECT r.*
+     FROM watcher_synthetic_traffic_rules r
+     JOIN watchers w ON r.watcher_id = w.watcher_id
+     WHERE r.rule_id = $1 AND r.watcher_id = $2 AND w.user_id = $3`,
+    [ruleId, watcherId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  const client = await pool.connect();
+
+  try {
+    const { id: watcherId, ruleId: ruleIdParam } = await params;
+    const ruleId = parseInt(ruleIdParam, 10);
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: "Invalid rule ID" }, { status: 400 });
+    }
+
+    let body: UpdateRuleBody;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
+    const existing = await findRule(client, watcherId, ruleId, auth.user.uid);
+    if (!existing) {
+      return NextResponse.json({ error: "Synthetic traffic rule not found" }, { status: 404 });
+    }
+
+    const ruleType = body.ruleType ?? existing.rule_type;
+    const pattern = body.pattern !== undefined ? body.pattern : existing.pattern;
+    const labelName = body.labelName !== undefined ? body.labelName : existing.label_name;
+    const validationError = validateSyntheticRule(ruleType, pattern, labelName);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+    const reason = body.reason !== undefined ? body.reason?.trim() || null : existing.reason;
+
+    await client.query("BEGIN");
+    try {
+      const updated = await client.query<SyntheticTrafficRule>(
+        `UPDATE watcher_synthetic_traffic_rules
+         SET rule_type = $1, label_name = $2, pattern = $3, reason = $4, updated_at = NOW()
+         WHERE rule_id = $5
+         RETURNING *`,
+        [ruleType, labelName?.trim() || "", pattern.trim(), reason, ruleId]
+      );
+      const rule = updated.rows[0];
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, 'synthetic_rule_updated', $2, $3, $4)`,
+        [
+          watcherId,
+          auth.user.uid,
+          auth.user.email,
+          JSON.stringify({ synthetic_rule: { from: formatSyntheticRule(existing), to: formatSyntheticRule(rule) } }),
+        ]
+      );
+      await client.query("COMMIT");
+
+      return NextResponse.json({ success: true, rule });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      // unique_synthetic_rule
+      if ((error as { code?: string }).code === "23505") {
+        return NextResponse.json({ error: "An identical rule already exists" }, { status: 409 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("[synthetic-rules] PATCH error:", error);
+    return NextResponse.json({ error: "Failed to update synthetic traffic rule" }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const client = await pool.connect();
+
+  try {
+    const { id: watcherId, ruleId: ruleIdParam } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const ruleId = parseInt(ruleIdParam, 10);
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: "Invalid rule ID" }, { status: 400 });
+    }
+
+    const existing = await findRule(client, watcherId, ruleId, auth.user.uid);
+    if (!existing) {
+      return NextResponse.json({ error: "Synthetic traffic rule not found" }, { status: 404 });
+    }
+
+    await client.query("BEGIN");
+    try {
+      await client.query("DELETE FROM watcher_synthetic_traffic_rules WHERE rule_id = $1", [ruleId]);
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, 'synthetic_rule_removed', $2, $3, $4)`,
+        [
+          watcherId,
+          auth.user.uid,
+          auth.user.email,
+          JSON.stringify({ synthetic_rule: { from: formatSyntheticRule(existing), to: null } }),
+        ]
+      );
+      await client.query("COMMIT");
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+  } catch (error) {
+    console.error("[synthetic-rules] DELETE error:", error);
+    return NextResponse.json({ error: "Failed to delete synthetic traffic rule" }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Watcher Synthetic Traffic Rules API
+ *
+ * GET /api/watchers/[id]/synthetic-rules
+ * Lists the watcher's synthetic traffic rules and how much of the last 7
+ * days of observed traffic they filtered out.
+ *
+ * POST /api/watchers/[id]/synthetic-rules
+ * Adds a rule. W2 applies it from the next observation on; past
+ * observations keep the counts they were stored with.
+ *
+ * Body (POST): {
+ *   userId?: string,
+ *   ruleType: "user_agent" | "ip_range" | "label" | "probe_path",
+ *   pattern: string,
+ *   labelName?: string,   // Required for label rules
+ *   reason?: string
+ * }
+ *
+ * Response (GET):  { rules: [...], last7Days: { rawRequests, realRequests } }
+ * Response (POST): { success: true, rule }
+ *
+ * The watcher must belong to the authenticated user. Rule changes are
+ * recorded in watcher_audit_log.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { pool, query, queryOne } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import {
+  SyntheticRuleType,
+  SyntheticTrafficRule,
+  formatSyntheticRule,
+  validateSyntheticRule,
+} from "@/lib/synthetic-traffic";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface CreateRuleBody {
+  userId?: string;
+  ruleType?: SyntheticRuleType;
+  pattern?: string;
+  labelName?: string;
+  reason?: string;
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: watcherId } = await params;
+    const { searchParams } = new URL(req.url);
+
+    const auth = await authenticateRequest(req, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+
+    const watcher = await queryOne<{ watcher_id: string }>(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (!watcher) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    const rules = await query<SyntheticTrafficRule>(
+      "SELECT * FROM watcher_synthetic_traffic_rules WHERE watcher_id = $1 ORDER BY rule_id",
+      [watcherId]
+    );
+
+    // Events stored before the rules existed have no real count
+    const totals = await queryOne<{ raw: string; real: string }>(
+      `SELECT COALESCE(SUM(raw_request_count), 0) AS raw,
+              COALESCE(SUM(COALESCE(real_request_count, raw_request_count)), 0) AS real
+       FROM observation_events
+       WHERE watcher_id = $1 AND observed_at >= NOW() - INTERVAL '7 days' AND error_type IS NULL`,
+      [watcherId]
+    );
+
+    return NextResponse.json({
+      rules,
+      last7Days: {
+        rawRequests: parseInt(totals?.raw || "0"),
+        realRequests: parseInt(totals?.real || "0"),
+      },
+    });
+  } catch (error) {
+    console.error("[synthetic-rules] GET error:", error);
+    return NextResponse.json({ error: "Failed to fetch synthetic traffic rules" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const client = await pool.connect();
+
+  try {
+    const { id: watcherId } = await params;
+
+    let body: CreateRuleBody;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
+    const validationError = validateSyntheticRule(body.ruleType, body.pattern, body.labelName);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+    const pattern = body.pattern!.trim();
+    const labelName = body.labelName?.trim() || "";
+    const reason = body.reason?.trim() || null;
+
+    const watcher = await client.query(
+      "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+      [watcherId, auth.user.uid]
+    );
+    if (watcher.rows.length === 0) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    await client.query("BEGIN");
+    try {
+      const inserted = await client.query<SyntheticTrafficRule>(
+        `INSERT INTO watcher_synthetic_traffic_rules (watcher_id, rule_type, label_name, pattern, reason, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (watcher_id, rule_type, label_name, pattern) DO NOTHING
+         RETURNING *`,
+        [watcherId, body.ruleType, labelName, pattern, reason, auth.user.uid]
+      );
+
+      if (inserted.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return NextResponse.json({ error: "An identical rule already exists" }, { status: 409 });
+      }
+
+      const rule = inserted.rows[0];
+      await client.query(
+        `INSERT INTO watcher_audit_log (watcher_id, action, actor_id, actor_email, changes)
+         VALUES ($1, 'synthetic_rule_added', $2, $3, $4)`,
+        [watcherId, auth.user.uid, auth.user.email, JSON.stringify({ synthetic_rule: { from: null, to: formatSyntheticRule(rule) } })]
+      );
+      await client.query("COMMIT");
+
+      return NextResponse.json({ success: true, rule }, { status: 201 });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+  } catch (error) {
+    console.error("[synthetic-rules] POST error:", error);
+    return NextResponse.json({ error: "Failed to create synthetic traffic rule" }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
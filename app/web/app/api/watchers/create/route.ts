@@ -9,8 +9,8 @@
  *   repoUrl: string,                 // GitHub URL format
  *   repoDescription: string,
  *   applicationUrl?: string,
- *   userId: string,
- *   userEmail?: string,
+ *   userId?: string,                 // Must match the authenticated user if sent
+ *   userEmail?: string,              // Defaults to the verified token email
  *   githubToken?: string,
  *   observabilitySources?: [{ url, type?, token? }]
  * }
@@ -21,10 +21,23 @@
  *   3. Validate Application URL (if provided)
  *   4. Validate Observability Sources
  *   5. Trigger Kestra w1_watcher_creation workflow
+ *
+ * Tokens are sealed with the credential vault before they reach Kestra; only
+ * the raw GitHub token is passed alongside for cloning and webhook setup.
  */
 import { NextRequest, NextResponse } from "next/server";
 import { v4 as uuidv4 } from "uuid";
-import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
+import { encryptSecret, sealObservabilitySources } from "@/lib/credential-vault";
+import { KESTRA_FLOWS, KestraConfigError, KestraError, getKestraConfig, triggerFlow } from "@/lib/kestra";
+import {
+  GITHUB_REPO_REGEX,
+  URL_REGEX,
+  ValidationResult,
+  checkDuplicates,
+  validateApplicationUrl,
+  validateGitHubRepo,
+} from "@/lib/watcher-validation";
 
 interface ObservabilitySource {
   url: string;
@@ -38,75 +51,25 @@ interface CreateWatcherRequest {
   repoUrl: string;
   repoDescription: string;
   applicationUrl?: string;
-  userId: string;
+  userId?: string;
   userEmail?: string;
   githubToken?: string;
   observabilitySources?: ObservabilitySource[];
 }
 
-interface GitHubRepoDetails {
-  name: string;
-  fullName: string;
-  private: boolean;
-  defaultBranch: string;
-  language: string | null;
-}
-
-interface ValidationResult {
-  valid: boolean;
-  error?: string;
-}
-
-const GITHUB_REPO_REGEX = /^https:\/\/github\.com\/[\w\-.]+\/[\w\-.]+\/?$/;
-const URL_REGEX = /^https?:\/\/[^\s/$.?#].[^\s]*$/i;
-
 /**
- * Check for duplicate watcher name or repository URL for the same user
+ * Extract the Grafana Cloud org/user ID embedded in glc_/glsa_ tokens.
+ * Done before sealing, since the stored token can no longer be inspected.
  */
-async function checkDuplicates(
-  name: string,
-  repoUrl: string,
-  userId: string
-): Promise<{ isDuplicate: boolean; error?: string }> {
+function extractGrafanaUserId(token?: string | null): string | null {
+  if (!token) return null;
+  const prefix = token.startsWith("glc_") ? "glc_" : token.startsWith("glsa_") ? "glsa_" : null;
+  if (!prefix) return null;
   try {
-    // Normalize repo URL (remove trailing slash for comparison)
-    const normalizedRepoUrl = repoUrl.replace(/\/$/, "").toLowerCase();
-
-    // Check for duplicate name (case-insensitive) for this user
-    const nameCheck = await pool.query(
-      `SELECT watcher_name FROM watchers 
-       WHERE LOWER(watcher_name) = LOWER($1) AND user_id = $2 
-       LIMIT 1`,
-      [name, userId]
-    );
-
-    if (nameCheck.rows.length > 0) {
-      return {
-        isDuplicate: true,
-        error: `A watcher named "${nameCheck.rows[0].watcher_name}" already exists. Please choose a different name.`,
-      };
-    }
-
-    // Check for duplicate repo URL for this user
-    const repoCheck = await pool.query(
-      `SELECT watcher_name, repo_url FROM watchers 
-       WHERE LOWER(REPLACE(repo_url, '/', '')) = LOWER(REPLACE($1, '/', '')) AND user_id = $2
-       LIMIT 1`,
-      [normalizedRepoUrl, userId]
-    );
-
-    if (repoCheck.rows.length > 0) {
-      return {
-        isDuplicate: true,
-        error: `This repository is already being watched by "${repoCheck.rows[0].watcher_name}". Each repository can only have one watcher per user.`,
-      };
-    }
-
-    return { isDuplicate: false };
-  } catch (error) {
-    console.error("[api/watchers/create] Duplicate check error:", error);
-    // Don't block creation if duplicate check fails
-    return { isDuplicate: false };
+    const tokenData = JSON.parse(atob(token.substring(prefix.length)));
+    return tokenData.o ? String(tokenData.o) : null;
+  } catch {
+    return null;
   }
 }
 
@@ -123,55 +86,12 @@ function validateInputs(body: CreateWatcherRequest): string | null {
   if (!body.repoDescription || body.repoDescription.trim().length === 0) {
     return "Repository description is required";
   }
-  if (!body.userId) {
-    return "User ID is required";
-  }
   if (body.applicationUrl && !URL_REGEX.test(body.applicationUrl)) {
     return "Invalid Application URL format";
   }
   return null;
 }
 
-/**
- * Validate Application URL is reachable
- */
-async function validateApplicationUrl(url: string): Promise<ValidationResult> {
-  try {
-    const response = await fetch(url, {
-      method: "HEAD",
-      signal: AbortSignal.timeout(10000),
-      redirect: "follow",
-    });
-    
-    // Accept any 2xx or 3xx response, also 405 (method not allowed) since some servers don't support HEAD
-    if (response.ok || response.status === 405 || (response.status >= 300 && response.status < 400)) {
-      return { valid: true };
-    }
-    
-    // Try GET if HEAD failed with 4xx (some servers don't support HEAD)
-    if (response.status >= 400 && response.status < 500) {
-      const getResponse = await fetch(url, {
-        method: "GET",
-        signal: AbortSignal.timeout(10000),
-        redirect: "follow",
-      });
-      if (getResponse.ok) {
-        return { valid: true };
-      }
-    }
-    
-    return { valid: false, error: `Application URL returned HTTP ${response.status}` };
-  } catch (error) {
-    if (error instanceof Error) {
-      if (error.name === "AbortError" || error.name === "TimeoutError") {
-        return { valid: false, error: "Application URL request timed out" };
-      }
-      return { valid: false, error: `Cannot reach Application URL: ${error.message.slice(0, 100)}` };
-    }
-    return { valid: false, error: "Cannot reach Application URL" };
-  }
-}
-
 /**
  * Validate Observability Source based on type
  */
@@ -324,76 +244,14 @@ async function validateObservabilitySource(source: ObservabilitySource): Promise
   }
 }
 
-/**
- * Validate GitHub repository via API
- */
-async function validateGitHubRepo(
-  repoUrl: string,
-  githubToken?: string
-): Promise<{ valid: boolean; error?: string; details?: GitHubRepoDetails }> {
-  const repoPath = repoUrl.replace("https://github.com/", "").replace(/\/$/, "");
-  const apiUrl = `https://api.github.com/repos/${repoPath}`;
-
-  const headers: HeadersInit = {
-    Accept: "application/vnd.github.v3+json",
-    "User-Agent": "Doomsday-Watcher/1.0",
-  };
-
-  if (githubToken) {
-    headers["Authorization"] = `token ${githubToken}`;
-  }
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers,
-      signal: AbortSignal.timeout(15000),
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      return {
-        valid: true,
-        details: {
-          name: data.name,
-          fullName: data.full_name,
-          private: data.private ?? false,
-          defaultBranch: data.default_branch ?? "main",
-          language: data.language,
-        },
-      };
-    }
-
-    switch (response.status) {
-      case 404:
-        return {
-          valid: false,
-          error: githubToken
-            ? "Repository not found or access denied"
-            : "Repository not found. If private, provide a GitHub token",
-        };
-      case 401:
-        return { valid: false, error: "Invalid GitHub token" };
-      case 403:
-        return { valid: false, error: "GitHub API rate limited or access forbidden" };
-      default:
-        return { valid: false, error: `GitHub API error: HTTP ${response.status}` };
-    }
-  } catch (error) {
-    if (error instanceof Error) {
-      if (error.name === "AbortError" || error.name === "TimeoutError") {
-        return { valid: false, error: "GitHub API request timed out" };
-      }
-      return { valid: false, error: `Network error: ${error.message.slice(0, 100)}` };
-    }
-    return { valid: false, error: "Unknown error validating repository" };
-  }
-}
-
 export async function POST(req: NextRequest) {
   try {
     const body: CreateWatcherRequest = await req.json();
 
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
+
     // Step 1: Validate inputs
     const inputError = validateInputs(body);
     if (inputError) {
@@ -401,7 +259,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Step 2: Check for duplicate watchers (name or repo URL)
-    const duplicateCheck = await checkDuplicates(body.name, body.repoUrl, body.userId);
+    const duplicateCheck = await checkDuplicates(body.name, body.repoUrl, userId);
     if (duplicateCheck.isDuplicate) {
       return NextResponse.json(
         { error: duplicateCheck.error, stage: "duplicate_check" },
@@ -469,67 +327,40 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Step 5: Prepare Kestra workflow trigger
-    const kestraUrl = process.env.KESTRA_URL || "http://localhost:8080";
-    const kestraToken = process.env.KESTRA_API_TOKEN;
-
-    if (!kestraToken) {
-      return NextResponse.json(
-        { error: "Kestra API token not configured", stage: "config" },
-        { status: 500 }
-      );
-    }
+    // Step 6: Prepare Kestra workflow trigger (fails fast on missing/default credentials)
+    getKestraConfig();
 
     const watcherId = uuidv4();
-    const observabilityUrls = validObservabilitySources.map((s) => ({ 
-      url: s.url, 
-      type: s.type || 'prometheus',
-      token: s.token || null
-    }));
+    const observabilityUrls = sealObservabilitySources(
+      validObservabilitySources.map((s) => ({
+        url: s.url,
+        type: s.type || "prometheus",
+        token: s.token || null,
+        userId: s.userId || extractGrafanaUserId(s.token),
+      }))
+    );
     const defaultBranch = githubValidation.details?.defaultBranch ?? "main";
 
     // Build payload for w1_watcher_creation workflow
     // Note: scan_frequency and analysis_period are set later via Schedule modal
-    const kestraPayload: Record<string, string | null> = {
+    const kestraPayload = {
       watcher_id: watcherId,
       watcher_name: body.name,
       repo_url: body.repoUrl.replace(/\/$/, ""), // Normalize URL
       repo_description: body.repoDescription,
       default_branch: defaultBranch,
-      user_id: body.userId,
-      user_email: body.userEmail || null,
+      user_id: userId,
+      user_email: body.userEmail || auth.user.email || null,
       github_token: body.githubToken || null,
+      github_token_encrypted: body.githubToken ? encryptSecret(body.githubToken) : null,
       application_url: body.applicationUrl || null,
       observability_urls: observabilityUrls.length > 0 ? JSON.stringify(observabilityUrls) : null,
     };
 
-    const formData = new FormData();
-    for (const [key, value] of Object.entries(kestraPayload)) {
-      if (value !== null && value !== undefined) {
-        formData.append(key, String(value));
-      }
-    }
-
-    // Step 4: Trigger Kestra workflow
-    const response = await fetch(
-      `${kestraUrl}/api/v1/executions/trigger/doomsday.watchers/w1_watcher_creation`,
-      {
-        method: "POST",
-        headers: { Authorization: `Basic ${Buffer.from(kestraToken).toString("base64")}` },
-        body: formData,
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("[api/watchers/create] Kestra trigger error:", errorText);
-      return NextResponse.json(
-        { error: "Failed to trigger workflow", details: errorText, stage: "kestra" },
-        { status: response.status }
-      );
-    }
-
-    const execution = await response.json();
+    // Step 7: Trigger Kestra workflow
+    const execution = await triggerFlow(KESTRA_FLOWS.watcherCreation, kestraPayload, {
+      labels: { watcher_id: watcherId },
+    });
 
     return NextResponse.json({
       success: true,
@@ -546,6 +377,17 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Invalid JSON body", stage: "parse" }, { status: 400 });
     }
 
+    if (error instanceof KestraConfigError) {
+      return NextResponse.json({ error: error.message, stage: "config" }, { status: 500 });
+    }
+
+    if (error instanceof KestraError) {
+      return NextResponse.json(
+        { error: "Failed to trigger workflow", details: error.body || error.message, stage: "kestra" },
+        { status: error.status ?? 502 }
+      );
+    }
+
     return NextResponse.json(
       {
         error: "Internal server error",
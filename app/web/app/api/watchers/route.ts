@@ -1,8 +1,8 @@
 /**
  * Watchers List API
  *
- * GET /api/watchers?userId=xxx
- * Returns all watchers for a user with derived status from candidates.
+ * GET /api/watchers
+ * Returns all watchers for the authenticated user with derived status from candidates.
  *
  * Response: {
  *   watchers: [{
@@ -18,6 +18,7 @@
  */
 import { NextRequest, NextResponse } from "next/server";
 import { query } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
 
 interface WatcherRow {
   watcher_id: string;
@@ -39,14 +40,9 @@ interface WatcherRow {
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get("userId");
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: "Missing userId parameter" },
-        { status: 400 }
-      );
-    }
+    const auth = await authenticateRequest(request, searchParams.get("userId"));
+    if (auth.error) return auth.error;
+    const userId = auth.user.uid;
 
     // Fetch watchers with candidate stats including zombie_score (combines static + LLM analysis)
     const watchers = await query<WatcherRow>(
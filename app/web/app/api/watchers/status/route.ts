@@ -3,6 +3,7 @@
  *
  * GET /api/watchers/status?executionId=xxx
  * Returns the current status of a Kestra workflow execution.
+ * The execution must belong to the authenticated user (lib/execution-access).
  *
  * Response: {
  *   state: string,           // RUNNING, SUCCESS, FAILED, KILLED
@@ -13,31 +14,15 @@
  * }
  */
 import { NextRequest, NextResponse } from 'next/server';
-
-interface KestraExecution {
-  id: string;
-  namespace: string;
-  flowId: string;
-  state: {
-    current: string;
-    histories: Array<{
-      state: string;
-      date: string;
-    }>;
-  };
-  taskRunList?: Array<{
-    id: string;
-    taskId: string;
-    state: {
-      current: string;
-    };
-    outputs?: Record<string, unknown>;
-  }>;
-  outputs?: Record<string, unknown>;
-}
+import { authenticateRequest } from '@/lib/auth';
+import { canViewExecution } from '@/lib/execution-access';
+import { KestraError, KestraExecution, getExecution } from '@/lib/kestra';
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authenticateRequest(request);
+    if (auth.error) return auth.error;
+
     const { searchParams } = new URL(request.url);
     const executionId = searchParams.get('executionId');
 
@@ -48,40 +33,27 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Read token fresh in case it wasn't available at module load time
-    const kestraToken = process.env.KESTRA_API_TOKEN;
-    const kestraUrl = process.env.KESTRA_URL || process.env.KESTRA_BASE_URL || 'http://localhost:8080';
-
-    if (!kestraToken) {
-      console.error('[status] KESTRA_API_TOKEN not found in environment');
-      return NextResponse.json(
-        { error: 'Kestra API token not configured' },
-        { status: 500 }
-      );
-    }
-
     // Fetch execution status from Kestra
-    const response = await fetch(`${kestraUrl}/api/v1/executions/${executionId}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'Doomsday-Watcher/1.0',
-        'Authorization': `Basic ${Buffer.from(kestraToken).toString('base64')}`,
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`[status] Kestra API returned ${response.status}`);
-      if (response.status === 404) {
+    let execution: KestraExecution;
+    try {
+      execution = await getExecution(executionId);
+    } catch (error) {
+      if (error instanceof KestraError && error.status === 404) {
         return NextResponse.json(
           { error: 'Execution not found' },
           { status: 404 }
         );
       }
-      throw new Error(`Kestra API error: ${response.status}`);
+      throw error;
     }
 
-    const execution: KestraExecution = await response.json();
+    // Another user's execution is reported as missing
+    if (!(await canViewExecution(execution, auth.user.uid))) {
+      return NextResponse.json(
+        { error: 'Execution not found' },
+        { status: 404 }
+      );
+    }
 
     // Find the current running task
     let currentTaskId = '';
@@ -1,8 +1,10 @@
 /**
  * Kestra Execution Stream API
  *
- * GET /api/watchers/stream/[executionId]
+ * GET /api/watchers/stream/[executionId]?authToken=xxx
  * Server-Sent Events (SSE) endpoint for real-time workflow progress.
+ * EventSource cannot send headers, so the ID token may be passed as authToken.
+ * The execution must belong to the authenticated user (lib/execution-access).
  *
  * Polls Kestra every 2 seconds and streams updates:
  *   { state, taskId, taskState, duration, outputs, error? }
@@ -10,6 +12,9 @@
  * Terminal states: SUCCESS, FAILED, KILLED
  */
 import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { canViewExecution } from "@/lib/execution-access";
+import { KestraConfigError, KestraError, KestraExecution, getExecution, getKestraConfig } from "@/lib/kestra";
 
 const POLL_INTERVAL_MS = 2000;
 const TERMINAL_STATES = ["SUCCESS", "FAILED", "KILLED"];
@@ -18,40 +23,58 @@ export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ executionId: string }> }
 ) {
+  const auth = await authenticateRequest(req, null, { allowQueryToken: true });
+  if (auth.error) return auth.error;
+
   const { executionId } = await params;
-  const kestraUrl = process.env.KESTRA_URL || "http://localhost:8080";
-  const kestraToken = process.env.KESTRA_API_TOKEN;
 
-  if (!kestraToken) {
-    return NextResponse.json({ error: "Kestra API token not configured" }, { status: 500 });
+  let owned = false;
+  try {
+    getKestraConfig();
+    owned = await canViewExecution(await getExecution(executionId), auth.user.uid);
+  } catch (error) {
+    if (error instanceof KestraConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!(error instanceof KestraError)) throw error;
+    if (error.status !== 404) {
+      return NextResponse.json({ error: `Kestra error: ${error.status ?? error.message}` }, { status: 502 });
+    }
+  }
+  // Another user's execution is reported as missing
+  if (!owned) {
+    return NextResponse.json({ error: "Execution not found" }, { status: 404 });
   }
 
-  const basicAuth = Buffer.from(kestraToken).toString("base64");
   const encoder = new TextEncoder();
 
   const stream = new ReadableStream({
     async start(controller) {
       let lastState = "";
       let lastTaskId = "";
+      let polling = false;
 
       // Send initial connection message
       controller.enqueue(encoder.encode(`data: ${JSON.stringify({ connected: true, executionId })}\n\n`));
 
       const pollInterval = setInterval(async () => {
-        try {
-          const response = await fetch(`${kestraUrl}/api/v1/executions/${executionId}`, {
-            headers: { Authorization: `Basic ${basicAuth}` },
-          });
+        // A slow or retried Kestra request must not overlap the next tick
+        if (polling) return;
+        polling = true;
 
-          if (!response.ok) {
-            console.error(`[api/watchers/stream] Kestra returned ${response.status} for execution ${executionId}`);
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Kestra error: ${response.status}`, state: "FAILED" })}\n\n`));
+        try {
+          let execution: KestraExecution;
+          try {
+            execution = await getExecution(executionId);
+          } catch (error) {
+            if (!(error instanceof KestraError)) throw error;
+            console.error(`[api/watchers/stream] Kestra returned ${error.status ?? "no response"} for execution ${executionId}`);
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Kestra error: ${error.status ?? error.message}`, state: "FAILED" })}\n\n`));
             clearInterval(pollInterval);
             controller.close();
             return;
           }
 
-          const execution = await response.json();
           const currentState = execution.state.current;
           const taskRunList = execution.taskRunList || [];
           
@@ -66,15 +89,14 @@ export async function GET(
             taskState = "SUCCESS";
           } else if (currentState === "FAILED" || currentState === "KILLED") {
             // Find the failed task
-            const failedTask = taskRunList.find((t: { state?: { current?: string } }) => 
-              t.state?.current === "FAILED"
-            );
+            const failedTask = taskRunList.find((t) => t.state.current === "FAILED");
             currentTaskId = failedTask?.taskId || "creation_failed";
             taskState = "FAILED";
             
             // Extract error message from outputs if available
-            if (execution.outputs?.values?.error) {
-              errorMessage = execution.outputs.values.error;
+            const outputValues = execution.outputs?.values as { error?: string } | undefined;
+            if (outputValues?.error) {
+              errorMessage = outputValues.error;
             } else if (failedTask?.taskId) {
               errorMessage = `Workflow failed at task: ${failedTask.taskId}`;
             } else {
@@ -83,9 +105,7 @@ export async function GET(
           } else {
             // Execution is still running - find the currently running task
             // First, look for any task with RUNNING state
-            const runningTask = taskRunList.find((t: { state?: { current?: string } }) => 
-              t.state?.current === "RUNNING"
-            );
+            const runningTask = taskRunList.find((t) => t.state.current === "RUNNING");
             
             if (runningTask) {
               // Extract base task ID (remove nested suffixes like ".clone_repo")
@@ -94,14 +114,14 @@ export async function GET(
               taskState = "RUNNING";
             } else if (taskRunList.length > 0) {
               // No running task, get the most recent completed one by end time
-              const completedTasks = taskRunList.filter((t: { state?: { current?: string; endDate?: string } }) => 
-                t.state?.current === "SUCCESS" && t.state?.endDate
+              const completedTasks = taskRunList.filter(
+                (t) => t.state.current === "SUCCESS" && t.state.endDate
               );
               
               if (completedTasks.length > 0) {
-                const sortedTasks = [...completedTasks].sort((a: { state?: { endDate?: string } }, b: { state?: { endDate?: string } }) => {
-                  const aEnd = a.state?.endDate || "";
-                  const bEnd = b.state?.endDate || "";
+                const sortedTasks = [...completedTasks].sort((a, b) => {
+                  const aEnd = a.state.endDate || "";
+                  const bEnd = b.state.endDate || "";
                   return bEnd.localeCompare(aEnd);
                 });
                 const fullTaskId = sortedTasks[0]?.taskId || "";
@@ -151,6 +171,8 @@ export async function GET(
           console.error("[api/watchers/stream] Poll error:", error);
           clearInterval(pollInterval);
           controller.close();
+        } finally {
+          polling = false;
         }
       }, POLL_INTERVAL_MS);
 
@@ -8,7 +8,7 @@
  *   name: string,
  *   repoUrl: string,
  *   repoDescription: string,
- *   userId: string,
+ *   userId?: string,               // Must match the authenticated user if sent
  *   githubToken?: string
  * }
  *
@@ -21,12 +21,13 @@
  */
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
+import { authenticateRequest } from "@/lib/auth";
 
 interface ValidateWatcherRequest {
   name: string;
   repoUrl: string;
   repoDescription: string;
-  userId: string;
+  userId?: string;
   githubToken?: string;
   applicationUrl?: string;
   observabilitySources?: Array<{ url: string; type?: string }>;
@@ -229,6 +230,9 @@ export async function POST(req: NextRequest) {
   try {
     const body: ValidateWatcherRequest = await req.json();
 
+    const auth = await authenticateRequest(req, body.userId);
+    if (auth.error) return auth.error;
+
     const result: ValidationResult = {
       valid: false,
       errors: [],
@@ -249,25 +253,23 @@ export async function POST(req: NextRequest) {
     }
 
     // 2. Check for duplicates in database (same name or repo for this user)
-    if (body.userId) {
-      const duplicates = await checkDuplicates(body.name, body.repoUrl, body.userId);
-      result.duplicates = duplicates;
-
-      if (duplicates.hasDuplicateName) {
-        result.errors.push(
-          `A watcher with the name "${duplicates.existingWatcherName}" already exists. Please choose a different name.`
-        );
-      }
+    const duplicates = await checkDuplicates(body.name, body.repoUrl, auth.user.uid);
+    result.duplicates = duplicates;
 
-      if (duplicates.hasDuplicateRepo) {
-        result.errors.push(
-          `This repository is already being watched by "${duplicates.existingWatcherName}". Each repository can only have one watcher per user.`
-        );
-      }
+    if (duplicates.hasDuplicateName) {
+      result.errors.push(
+        `A watcher with the name "${duplicates.existingWatcherName}" already exists. Please choose a different name.`
+      );
+    }
 
-      if (duplicates.hasDuplicateName || duplicates.hasDuplicateRepo) {
-        return NextResponse.json(result, { status: 409 }); // 409 Conflict
-      }
+    if (duplicates.hasDuplicateRepo) {
+      result.errors.push(
+        `This repository is already being watched by "${duplicates.existingWatcherName}". Each repository can only have one watcher per user.`
+      );
+    }
+
+    if (duplicates.hasDuplicateName || duplicates.hasDuplicateRepo) {
+      return NextResponse.json(result, { status: 409 }); // 409 Conflict
     }
 
     // 3. Validate GitHub repository (only if URL format is valid)
@@ -0,0 +1,63 @@
+/**
+ * Schema Migration Command
+ *
+ * Applies or reports the SQL migrations in app/schema/migrations.
+ *
+ * Usage:
+ *   npm run db:migrate   # apply pending migrations (up)
+ *   npm run db:status    # list applied, pending and modified migrations
+ */
+import { pool } from "@/lib/db";
+import { getMigrationStatus, runMigrations } from "@/lib/migrations";
+
+const command = process.argv[2] || "status";
+
+async function status(): Promise<boolean> {
+  const { applied, pending, mismatched, missing } = await getMigrationStatus();
+
+  for (const m of applied) {
+    console.log(`  applied   ${m.version}_${m.name}  (${m.appliedAt})`);
+  }
+  for (const m of pending) {
+    console.log(`  pending   ${m.filename}`);
+  }
+  for (const m of mismatched) {
+    console.log(`  MODIFIED  ${m.version}_${m.name}  checksum ${m.actual.slice(0, 12)} != applied ${m.expected.slice(0, 12)}`);
+  }
+  for (const m of missing) {
+    console.log(`  MISSING   ${m.version}_${m.name}  (applied, file not found)`);
+  }
+
+  console.log(`[migrations] ${applied.length} applied, ${pending.length} pending`);
+  return mismatched.length === 0;
+}
+
+async function main(): Promise<boolean> {
+  switch (command) {
+    case "up": {
+      const appliedNow = await runMigrations();
+      console.log(
+        appliedNow.length > 0
+          ? `[migrations] Applied ${appliedNow.length} migration(s): ${appliedNow.join(", ")}`
+          : "[migrations] Database is up to date"
+      );
+      return true;
+    }
+    case "status":
+      return status();
+    default:
+      console.error(`Unknown command "${command}". Use "up" or "status".`);
+      return false;
+  }
+}
+
+main()
+  .then(async (ok) => {
+    await pool.end();
+    process.exit(ok ? 0 : 1);
+  })
+  .catch(async (error) => {
+    console.error("[migrations] Failed:", error instanceof Error ? error.message : error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,89 @@
+/**
+ * Credential Key Rotation Command
+ *
+ * Re-wraps every stored credential with the active vault key:
+ *   - watchers.github_token_encrypted
+ *   - watchers.observability_urls[].tokenEncrypted
+ * Plaintext tokens left over from before the vault existed are sealed too.
+ *
+ * Rotation procedure:
+ *   1. Prepend the new key to CREDENTIAL_VAULT_KEYS (keep the old one) and
+ *      set CREDENTIAL_VAULT_ACTIVE_KEY_ID to it - in the web app and Kestra
+ *   2. Run this command
+ *   3. Remove the old key once the command reports nothing left to rotate
+ *
+ * Usage:
+ *   npm run vault:rotate              # rotate all watchers
+ *   npm run vault:rotate -- --dry-run # report what would change
+ */
+import { pool } from "@/lib/db";
+import { needsRewrap, rewrapObservabilitySources, rewrapSecret } from "@/lib/credential-vault";
+
+interface WatcherCredentialRow {
+  watcher_id: string;
+  github_token_encrypted: string | null;
+  observability_urls: unknown;
+}
+
+const dryRun = process.argv.includes("--dry-run");
+
+// Plaintext tokens, Java Map strings and envelopes sealed with an old key
+const sourcesNeedRewrap = (data: unknown): boolean =>
+  Array.isArray(data) &&
+  data.some((s) => typeof s === "string" || !!s?.token || needsRewrap(s?.tokenEncrypted));
+
+async function rotate(): Promise<void> {
+  const client = await pool.connect();
+  let rotated = 0;
+
+  try {
+    await client.query("BEGIN");
+
+    const { rows } = await client.query<WatcherCredentialRow>(
+      `SELECT watcher_id, github_token_encrypted, observability_urls
+       FROM watchers
+       FOR UPDATE`
+    );
+
+    for (const row of rows) {
+      const githubToken = needsRewrap(row.github_token_encrypted)
+        ? rewrapSecret(row.github_token_encrypted!)
+        : row.github_token_encrypted;
+
+      const sourcesChanged = sourcesNeedRewrap(row.observability_urls);
+
+      if (githubToken === row.github_token_encrypted && !sourcesChanged) continue;
+
+      rotated++;
+      console.log(`[vault] ${dryRun ? "Would rotate" : "Rotating"} watcher ${row.watcher_id}`);
+
+      if (!dryRun) {
+        const sources = sourcesChanged
+          ? JSON.stringify(rewrapObservabilitySources(row.observability_urls))
+          : row.observability_urls && JSON.stringify(row.observability_urls);
+        await client.query(
+          `UPDATE watchers
+           SET github_token_encrypted = $1, observability_urls = $2, updated_at = NOW()
+           WHERE watcher_id = $3`,
+          [githubToken, sources, row.watcher_id]
+        );
+      }
+    }
+
+    await client.query(dryRun ? "ROLLBACK" : "COMMIT");
+    console.log(`[vault] ${rotated}/${rows.length} watchers ${dryRun ? "need rotation" : "rotated"}`);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+rotate()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error("[vault] Rotation failed:", error instanceof Error ? error.message : error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,27 @@
+/**
+ * CLI Runner
+ *
+ * Runs a TypeScript command from bin/ through jiti with the "@/" path alias
+ * resolved, so commands share lib/ modules with the Next.js app.
+ *
+ * Usage:
+ *   node --env-file=.env.local bin/run.mjs bin/<command>.ts [args]
+ */
+import path from "path";
+import { fileURLToPath } from "url";
+import { createJiti } from "jiti";
+
+const [script] = process.argv.slice(2);
+
+if (!script) {
+  console.error("Usage: node bin/run.mjs bin/<command>.ts [args]");
+  process.exit(1);
+}
+
+// Commands read their own arguments from process.argv.slice(2)
+process.argv.splice(2, 1);
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const jiti = createJiti(import.meta.url, { alias: { "@": root } });
+
+await jiti.import(path.resolve(script));
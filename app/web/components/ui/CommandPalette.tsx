@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { Search, Loader2, Eye, CornerDownLeft } from "lucide-react";
+import { CandidateStatusBadge, EntityIcon } from "@/components/ui/shared";
+
+interface SearchCandidate {
+  candidateId: number;
+  entityType: string;
+  entitySignature: string;
+  entityName: string | null;
+  method: string | null;
+  routePath: string | null;
+  queueName: string | null;
+  filePath: string;
+  status: string;
+  score: number | null;
+}
+
+interface SearchGroup {
+  watcherId: string;
+  watcherName: string;
+  repoName: string;
+  watcherMatch: boolean;
+  candidates: SearchCandidate[];
+}
+
+interface CommandPaletteProps {
+  userId: string;
+  onClose: () => void;
+}
+
+// One keyboard-selectable row: a watcher header or a candidate
+type PaletteItem =
+  | { kind: "watcher"; group: SearchGroup }
+  | { kind: "candidate"; group: SearchGroup; candidate: SearchCandidate };
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+export function CommandPalette({ userId, onClose }: CommandPaletteProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [groups, setGroups] = useState<SearchGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ q, userId });
+        const response = await fetch(`/api/search?${params}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Search failed");
+        }
+        setGroups(data.groups);
+        setError(null);
+        setActiveIndex(0);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Search failed");
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, userId]);
+
+  const items = useMemo<PaletteItem[]>(
+    () =>
+      groups.flatMap((group) => [
+        { kind: "watcher" as const, group },
+        ...group.candidates.map((candidate) => ({ kind: "candidate" as const, group, candidate })),
+      ]),
+    [groups]
+  );
+
+  // Keep the highlighted row in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const openItem = (item: PaletteItem) => {
+    onClose();
+    if (item.kind === "candidate") {
+      router.push(`/watchers/${item.group.watcherId}/candidates/${item.candidate.candidateId}`);
+    } else {
+      router.push(`/watchers?openWatcher=${item.group.watcherId}&tab=candidates`);
+    }
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    if (!value.trim()) {
+      setGroups([]);
+      setError(null);
+      setLoading(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      onClose();
+    } else if (e.key === "ArrowDown" && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % items.length);
+    } else if (e.key === "ArrowUp" && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + items.length) % items.length);
+    } else if (e.key === "Enter" && items[activeIndex]) {
+      e.preventDefault();
+      openItem(items[activeIndex]);
+    }
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.15 }}
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[100]"
+        onClick={onClose}
+      />
+
+      {/* Palette */}
+      <motion.div
+        initial={{ opacity: 0, scale: 0.97, y: -10 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.97, y: -10 }}
+        transition={{ duration: 0.15, ease: "easeOut" }}
+        className="fixed left-1/2 top-24 -translate-x-1/2 z-[101] w-full max-w-xl px-4"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="bg-zinc-900 border border-zinc-700 rounded-2xl shadow-2xl shadow-black/40 overflow-hidden">
+          <div className="flex items-center gap-3 px-4 py-3 border-b border-zinc-800">
+            {loading ? (
+              <Loader2 className="w-4 h-4 text-zinc-500 animate-spin" />
+            ) : (
+              <Search className="w-4 h-4 text-zinc-500" />
+            )}
+            <input
+              ref={inputRef}
+              type="text"
+              value={query}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              placeholder="Search routes, jobs, files and watchers..."
+              className="flex-1 bg-transparent text-sm text-white placeholder-zinc-500 focus:outline-none"
+            />
+            <kbd className="text-[10px] text-zinc-500 border border-zinc-700 rounded px-1.5 py-0.5">esc</kbd>
+          </div>
+
+          <div ref={listRef} className="max-h-[60vh] overflow-y-auto py-2">
+            {error ? (
+              <p className="px-4 py-6 text-center text-sm text-red-400">{error}</p>
+            ) : !query.trim() ? (
+              <p className="px-4 py-6 text-center text-sm text-zinc-500">
+                Find a route, job or file across all your watchers
+              </p>
+            ) : items.length === 0 && !loading ? (
+              <p className="px-4 py-6 text-center text-sm text-zinc-500">No matches</p>
+            ) : (
+              items.map((item, index) => {
+                const active = index === activeIndex;
+                if (item.kind === "watcher") {
+                  return (
+                    <button
+                      key={`w-${item.group.watcherId}`}
+                      data-index={index}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={() => openItem(item)}
+                      className={`w-full flex items-center gap-2 px-4 pt-3 pb-1.5 text-left ${
+                        active ? "bg-zinc-800" : ""
+                      }`}
+                    >
+                      <Eye className="w-3.5 h-3.5 text-emerald-400" />
+                      <span className="text-xs font-semibold text-zinc-300">{item.group.watcherName}</span>
+                      <span className="text-[10px] text-zinc-500 truncate">{item.group.repoName}</span>
+                      {item.group.candidates.length === 0 && (
+                        <span className="ml-auto text-[10px] text-zinc-500">Open watcher</span>
+                      )}
+                    </button>
+                  );
+                }
+
+                const { candidate } = item;
+                return (
+                  <button
+                    key={`c-${candidate.candidateId}`}
+                    data-index={index}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => openItem(item)}
+                    className={`w-full flex items-center gap-3 pl-8 pr-4 py-2 text-left ${
+                      active ? "bg-zinc-800" : ""
+                    }`}
+                  >
+                    <EntityIcon type={candidate.entityType} size="sm" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">
+                        {candidate.method && candidate.routePath
+                          ? `${candidate.method} ${candidate.routePath}`
+                          : candidate.entityName || candidate.entitySignature}
+                      </p>
+                      <p className="text-[11px] text-zinc-500 font-mono truncate">{candidate.filePath}</p>
+                    </div>
+                    <CandidateStatusBadge status={candidate.status} size="sm" />
+                    {active && <CornerDownLeft className="w-3.5 h-3.5 text-zinc-500" />}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </>
+  );
+}
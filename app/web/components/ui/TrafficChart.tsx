@@ -1,50 +1,106 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
-    AreaChart,
+    ComposedChart,
     Area,
+    Line,
     XAxis,
     YAxis,
     Tooltip,
     ResponsiveContainer,
     ReferenceLine,
+    ReferenceArea,
 } from "recharts";
+import { Loader2 } from "lucide-react";
 
-interface ObservationEvent {
-  eventId: number;
-  observedAt: string;
-  sourceType: string;
-  httpStatus: number | null;
-  responseTimeMs: number | null;
-  trafficDetected: boolean;
-  requestCount: number | null;
-  errorType: string | null;
-  errorMessage: string | null;
+// From GET /api/candidates/[id]/traffic
+interface SourceTraffic {
+  requests: number;
+  realRequests: number;
+  errors: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  polls: number;
+  failedPolls: number;
+}
+
+interface TrafficBucket {
+  start: string;
+  status: "ok" | "partial" | "failed" | "unobserved";
+  requests: number | null;
+  realRequests: number | null;
+  errors: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  polls: number;
+  failedPolls: number;
+  sources: Record<string, SourceTraffic>;
+}
+
+interface TrafficResponse {
+  bucketSeconds: number;
+  sourceTypes: string[];
+  buckets: TrafficBucket[];
+}
+
+// From GET /api/candidates/[id]/score-history
+interface ScoreHistory {
+  points: Array<{ recordedAt: string; score: number; verdict: string }>;
+  verdictChanges: Array<{ recordedAt: string; verdict: string; score: number }>;
 }
 
 interface TrafficChartProps {
-  events: ObservationEvent[];
+  candidateId: string;
   zombieScore?: number;
+  scoreHistory?: ScoreHistory | null;
+  // Refetches traffic when it changes, e.g. the candidate's updatedAt
+  refreshKey?: string;
   className?: string;
 }
 
 interface ChartDataPoint {
-  date: string;
+  key: string;
   displayDate: string;
-  traffic: number;
+  status: TrafficBucket["status"];
+  traffic: number | null; // Real requests
+  raw: number | null; // Including synthetic traffic
   errors: number;
-  avgLatency: number | null;
+  p95LatencyMs: number | null;
+  score: number | null;
+  [source: `src:${string}`]: number | null;
 }
 
-type TimeRange = "hour" | "day" | "month";
+type TimeRange = "24h" | "7d" | "30d" | "custom";
 
 const TIME_RANGES: { key: TimeRange; label: string }[] = [
-  { key: "hour", label: "24h" },
-  { key: "day", label: "7d" },
-  { key: "month", label: "30d" },
+  { key: "24h", label: "24h" },
+  { key: "7d", label: "7d" },
+  { key: "30d", label: "30d" },
+  { key: "custom", label: "Custom" },
 ];
 
+const SOURCE_COLORS = ["#D6A2D5", "#60a5fa", "#34d399", "#f97316", "#a78bfa", "#f472b6"];
+
+const VERDICT_MARK_COLORS: Record<string, string> = {
+  suspect: "#eab308",
+  zombie: "#ef4444",
+};
+
+const STATUS_LABELS: Record<TrafficBucket["status"], string> = {
+  ok: "",
+  partial: "Some polls failed",
+  failed: "All polls failed",
+  unobserved: "Not observed",
+};
+
+const SERIES_LABELS: Record<string, string> = {
+  traffic: "Real requests",
+  raw: "All requests",
+  score: "Zombie score",
+  p95LatencyMs: "p95 latency",
+};
+
 // Custom tooltip matching the dark theme
 const CustomTooltip = ({
   active,
@@ -52,95 +108,58 @@ const CustomTooltip = ({
   label,
 }: {
   active?: boolean;
-  payload?: Array<{ value: number; dataKey: string; color: string }>;
+  payload?: Array<{ value: number | null; dataKey: string; color: string; payload: ChartDataPoint }>;
   label?: string;
 }) => {
   if (!active || !payload || payload.length === 0) return null;
+  const { status, p95LatencyMs } = payload[0].payload;
 
   return (
     <div className="bg-zinc-900/95 border border-zinc-700 rounded-lg px-3 py-2 shadow-xl backdrop-blur-sm">
       <p className="text-xs text-zinc-400 mb-1.5">{label}</p>
-      {payload.map((entry, index) => (
+      {STATUS_LABELS[status] && (
+        <p className={`text-[10px] mb-1 ${status === "partial" ? "text-yellow-400" : "text-red-400"}`}>
+          {STATUS_LABELS[status]}
+        </p>
+      )}
+      {payload.filter((entry) => entry.value !== null).map((entry, index) => (
         <div key={index} className="flex items-center gap-2">
           <div
             className="w-2 h-2 rounded-full"
             style={{ backgroundColor: entry.color }}
           />
           <span className="text-xs text-zinc-300 capitalize">
-            {entry.dataKey === "traffic" ? "Requests" : entry.dataKey}:
+            {SERIES_LABELS[entry.dataKey] ?? entry.dataKey.replace(/^src:/, "").replace(/_/g, " ")}:
           </span>
           <span className="text-xs font-semibold text-white">
             {entry.value}
-            {entry.dataKey === "avgLatency" ? "ms" : ""}
+            {entry.dataKey === "score" ? "%" : ""}
           </span>
         </div>
       ))}
+      {p95LatencyMs !== null && (
+        <p className="text-[10px] text-zinc-500 mt-1">{SERIES_LABELS.p95LatencyMs}: {p95LatencyMs}ms</p>
+      )}
     </div>
   );
 };
 
-// Helper functions for date manipulation
 const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
-const formatDateKey = (date: Date, range: TimeRange): string => {
-  if (range === "hour") {
-    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}-${String(date.getHours()).padStart(2, "0")}`;
-  }
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
-};
-
-const formatDisplayDate = (date: Date, range: TimeRange): string => {
-  if (range === "hour") {
-    const hour = date.getHours();
-    const ampm = hour >= 12 ? "PM" : "AM";
-    const hour12 = hour % 12 || 12;
-    return `${hour12}${ampm}`;
-  }
-  return `${MONTHS[date.getMonth()]} ${date.getDate()}`;
-};
-
-const getTimeSlots = (range: TimeRange): Date[] => {
-  const slots: Date[] = [];
-  const now = new Date();
-
-  if (range === "hour") {
-    // Last 24 hours, hourly
-    for (let i = 23; i >= 0; i--) {
-      const slot = new Date(now);
-      slot.setHours(now.getHours() - i, 0, 0, 0);
-      slots.push(slot);
-    }
-  } else if (range === "day") {
-    // Last 7 days
-    for (let i = 6; i >= 0; i--) {
-      const slot = new Date(now);
-      slot.setDate(now.getDate() - i);
-      slot.setHours(0, 0, 0, 0);
-      slots.push(slot);
-    }
-  } else {
-    // Last 30 days
-    for (let i = 29; i >= 0; i--) {
-      const slot = new Date(now);
-      slot.setDate(now.getDate() - i);
-      slot.setHours(0, 0, 0, 0);
-      slots.push(slot);
-    }
-  }
-
-  return slots;
+// Bucket label: the hour for sub-day buckets, with the date when the range spans days
+const formatBucketLabel = (date: Date, bucketSeconds: number, multiDay: boolean): string => {
+  const day = `${MONTHS[date.getMonth()]} ${date.getDate()}`;
+  if (bucketSeconds >= 86400) return day;
+  const hour = date.getHours();
+  const ampm = hour >= 12 ? "PM" : "AM";
+  const minutes = date.getMinutes() ? `:${String(date.getMinutes()).padStart(2, "0")}` : "";
+  const time = `${hour % 12 || 12}${minutes}${ampm}`;
+  return multiDay ? `${day} ${time}` : time;
 };
 
-const getEventDateKey = (eventDate: Date, range: TimeRange): string => {
-  if (range === "hour") {
-    const rounded = new Date(eventDate);
-    rounded.setMinutes(0, 0, 0);
-    return formatDateKey(rounded, range);
-  }
-  const startOfDay = new Date(eventDate);
-  startOfDay.setHours(0, 0, 0, 0);
-  return formatDateKey(startOfDay, range);
-};
+// Local YYYY-MM-DD for date inputs
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
 
 // Get risk level color based on zombie score
 const getZombieRiskColor = (score: number): { bg: string; text: string; label: string } => {
@@ -150,64 +169,132 @@ const getZombieRiskColor = (score: number): { bg: string; text: string; label: s
   return { bg: "bg-zinc-500/20", text: "text-zinc-400", label: "Unknown" };
 };
 
-export function TrafficChart({ events, zombieScore, className = "" }: TrafficChartProps) {
-  const [timeRange, setTimeRange] = useState<TimeRange>("day");
-
-  const chartData = useMemo((): ChartDataPoint[] => {
-    const slots = getTimeSlots(timeRange);
-
-    // Group events by time slot
-    const eventsBySlot: Record<
-      string,
-      { traffic: number; errors: number; latencies: number[] }
-    > = {};
-
-    events.forEach((event) => {
-      const eventDate = new Date(event.observedAt);
-      const slotKey = getEventDateKey(eventDate, timeRange);
-
-      if (!eventsBySlot[slotKey]) {
-        eventsBySlot[slotKey] = { traffic: 0, errors: 0, latencies: [] };
+export function TrafficChart({ candidateId, zombieScore, scoreHistory, refreshKey, className = "" }: TrafficChartProps) {
+  const [timeRange, setTimeRange] = useState<TimeRange>("7d");
+  const [customRange, setCustomRange] = useState(() => {
+    const to = new Date();
+    return { from: toDateInput(new Date(to.getTime() - 14 * 86400000)), to: toDateInput(to) };
+  });
+  const [bySource, setBySource] = useState(false);
+  const [traffic, setTraffic] = useState<TrafficResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const params = new URLSearchParams({ range: timeRange });
+      if (timeRange === "custom") {
+        // Whole days, to the end of the "to" day
+        params.set("from", new Date(`${customRange.from}T00:00:00`).toISOString());
+        params.set("to", new Date(new Date(`${customRange.to}T00:00:00`).getTime() + 86400000).toISOString());
       }
 
-      if (event.trafficDetected) {
-        eventsBySlot[slotKey].traffic += event.requestCount || 1;
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/candidates/${candidateId}/traffic?${params}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch traffic");
+        }
+        if (!cancelled) setTraffic(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        if (!cancelled) setLoading(false);
       }
+    };
 
-      if (event.errorType) {
-        eventsBySlot[slotKey].errors += 1;
-      }
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [candidateId, timeRange, customRange, refreshKey]);
 
-      if (event.responseTimeMs) {
-        eventsBySlot[slotKey].latencies.push(event.responseTimeMs);
+  const chartData = useMemo((): ChartDataPoint[] => {
+    if (!traffic) return [];
+    const { buckets, bucketSeconds } = traffic;
+    const multiDay = buckets.length > 0 &&
+      new Date(buckets[buckets.length - 1].start).getTime() - new Date(buckets[0].start).getTime() >= 86400000;
+
+    // Score in effect at the end of each bucket; points are in time order
+    const scorePoints = (scoreHistory?.points ?? []).map((p) => ({
+      at: new Date(p.recordedAt).getTime(),
+      score: p.score,
+    }));
+    const scoreAt = (time: number): number | null => {
+      let score: number | null = null;
+      for (const point of scorePoints) {
+        if (point.at > time) break;
+        score = point.score;
       }
-    });
-
-    return slots.map((slot: Date) => {
-      const slotKey = formatDateKey(slot, timeRange);
-      const slotData = eventsBySlot[slotKey] || { traffic: 0, errors: 0, latencies: [] };
-      const avgLatency =
-        slotData.latencies.length > 0
-          ? Math.round(
-              slotData.latencies.reduce((a, b) => a + b, 0) / slotData.latencies.length
-            )
-          : null;
-
-      return {
-        date: slotKey,
-        displayDate: formatDisplayDate(slot, timeRange),
-        traffic: slotData.traffic,
-        errors: slotData.errors,
-        avgLatency,
+      return score;
+    };
+
+    return buckets.map((bucket) => {
+      const start = new Date(bucket.start);
+      const gap = bucket.status === "failed" || bucket.status === "unobserved";
+      const point: ChartDataPoint = {
+        key: bucket.start,
+        displayDate: formatBucketLabel(start, bucketSeconds, multiDay),
+        status: bucket.status,
+        traffic: bucket.realRequests,
+        raw: bucket.requests,
+        errors: bucket.errors,
+        p95LatencyMs: bucket.p95LatencyMs,
+        score: scoreAt(start.getTime() + bucketSeconds * 1000),
       };
+      for (const source of traffic.sourceTypes) {
+        point[`src:${source}`] = gap ? null : bucket.sources[source]?.realRequests ?? 0;
+      }
+      return point;
+    });
+  }, [traffic, scoreHistory]);
+
+  // Where the candidate became suspect or zombie, by the bucket it falls in
+  const verdictMarks = useMemo(() => {
+    if (!traffic) return [];
+    const bucketMs = traffic.bucketSeconds * 1000;
+    const marks = new Map<string, string>();
+    for (const change of scoreHistory?.verdictChanges ?? []) {
+      const at = new Date(change.recordedAt).getTime();
+      const point = chartData.find((d) => {
+        const start = new Date(d.key).getTime();
+        return at >= start && at < start + bucketMs;
+      });
+      if (point) marks.set(point.displayDate, change.verdict);
+    }
+    return [...marks.entries()].map(([displayDate, verdict]) => ({ displayDate, verdict }));
+  }, [chartData, scoreHistory, traffic]);
+
+  // Runs of failed buckets, shaded so gaps read as "couldn't tell" rather than "no traffic"
+  const failedSpans = useMemo(() => {
+    const spans: { x1: string; x2: string }[] = [];
+    let start: string | null = null;
+    chartData.forEach((d, i) => {
+      if (d.status === "failed") {
+        start ??= d.displayDate;
+        const next = chartData[i + 1];
+        if (!next || next.status !== "failed") {
+          spans.push({ x1: start, x2: d.displayDate });
+          start = null;
+        }
+      }
     });
-  }, [events, timeRange]);
+    return spans;
+  }, [chartData]);
 
-  const totalTraffic = chartData.reduce((sum, d) => sum + d.traffic, 0);
+  const totalTraffic = chartData.reduce((sum, d) => sum + (d.traffic ?? 0), 0);
+  const totalSynthetic = chartData.reduce((sum, d) => sum + (d.raw ?? 0), 0) - totalTraffic;
   const totalErrors = chartData.reduce((sum, d) => sum + d.errors, 0);
-  const hasData = totalTraffic > 0 || totalErrors > 0;
+  const failedBuckets = chartData.filter((d) => d.status === "failed").length;
+  const hasScore = chartData.some((d) => d.score !== null);
+  const hasData = chartData.some((d) => d.status !== "unobserved") || hasScore;
+  const sourceTypes = traffic?.sourceTypes ?? [];
 
-  const tickInterval = timeRange === "hour" ? 3 : timeRange === "month" ? 4 : 0;
+  const tickInterval = Math.max(0, Math.ceil(chartData.length / 8) - 1);
 
   const riskColor = zombieScore !== undefined ? getZombieRiskColor(zombieScore) : null;
 
@@ -218,9 +305,16 @@ export function TrafficChart({ events, zombieScore, className = "" }: TrafficCha
         <div className="flex items-center gap-3 flex-wrap">
           <div className="flex items-center gap-2">
             <div className="w-2.5 h-2.5 rounded-full bg-linear-to-r from-purple-500 to-pink-500" />
-            <span className="text-xs text-zinc-400">Requests</span>
+            <span className="text-xs text-zinc-400">Real requests</span>
             <span className="text-sm font-semibold text-white">{totalTraffic}</span>
           </div>
+          {totalSynthetic > 0 && (
+            <div className="flex items-center gap-2" title="Matched by the watcher's synthetic traffic rules">
+              <div className="w-2.5 h-0 border-t border-dashed border-zinc-400" />
+              <span className="text-xs text-zinc-400">Synthetic</span>
+              <span className="text-sm font-semibold text-zinc-300">{totalSynthetic}</span>
+            </div>
+          )}
           {totalErrors > 0 && (
             <div className="flex items-center gap-2">
               <div className="w-2.5 h-2.5 rounded-full bg-red-500" />
@@ -228,6 +322,19 @@ export function TrafficChart({ events, zombieScore, className = "" }: TrafficCha
               <span className="text-sm font-semibold text-red-400">{totalErrors}</span>
             </div>
           )}
+          {failedBuckets > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-2.5 h-2.5 rounded-sm bg-red-500/20 border border-red-500/40" />
+              <span className="text-xs text-zinc-400">Failed polls</span>
+              <span className="text-sm font-semibold text-red-400">{failedBuckets}</span>
+            </div>
+          )}
+          {hasScore && (
+            <div className="flex items-center gap-2">
+              <div className="w-2.5 h-0.5 bg-amber-400" />
+              <span className="text-xs text-zinc-400">Score</span>
+            </div>
+          )}
           {zombieScore !== undefined && riskColor && (
             <div className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full ${riskColor.bg}`}>
               <svg className={`w-3 h-3 ${riskColor.text}`} viewBox="0 0 24 24" fill="currentColor">
@@ -240,26 +347,67 @@ export function TrafficChart({ events, zombieScore, className = "" }: TrafficCha
           )}
         </div>
 
-        {/* Time Range Tabs */}
-        <div className="flex items-center bg-zinc-800/50 rounded-lg p-0.5">
-          {TIME_RANGES.map((range) => (
+        <div className="flex items-center gap-2">
+          {sourceTypes.length > 1 && (
             <button
-              key={range.key}
-              onClick={() => setTimeRange(range.key)}
+              onClick={() => setBySource((value) => !value)}
               className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${
-                timeRange === range.key
-                  ? "bg-zinc-700 text-white shadow-sm"
-                  : "text-zinc-500 hover:text-zinc-300"
+                bySource ? "bg-zinc-700 text-white" : "text-zinc-500 hover:text-zinc-300 bg-zinc-800/50"
               }`}
             >
-              {range.label}
+              By source
             </button>
-          ))}
+          )}
+
+          {/* Time Range Tabs */}
+          <div className="flex items-center bg-zinc-800/50 rounded-lg p-0.5">
+            {TIME_RANGES.map((range) => (
+              <button
+                key={range.key}
+                onClick={() => setTimeRange(range.key)}
+                className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${
+                  timeRange === range.key
+                    ? "bg-zinc-700 text-white shadow-sm"
+                    : "text-zinc-500 hover:text-zinc-300"
+                }`}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
 
+      {timeRange === "custom" && (
+        <div className="flex items-center gap-2 mb-3 text-xs text-zinc-500">
+          <input
+            type="date"
+            value={customRange.from}
+            max={customRange.to}
+            onChange={(e) => e.target.value && setCustomRange((r) => ({ ...r, from: e.target.value }))}
+            className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-emerald-500"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={customRange.to}
+            min={customRange.from}
+            onChange={(e) => e.target.value && setCustomRange((r) => ({ ...r, to: e.target.value }))}
+            className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-emerald-500"
+          />
+        </div>
+      )}
+
       {/* Chart or Empty State */}
-      {!hasData ? (
+      {loading && !traffic ? (
+        <div className="h-36 flex items-center justify-center">
+          <Loader2 className="w-5 h-5 text-purple-400 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="h-36 flex items-center justify-center">
+          <p className="text-xs text-red-400">{error}</p>
+        </div>
+      ) : !hasData ? (
         <div className="h-36 flex items-center justify-center">
           <div className="text-center">
             <div className="w-10 h-10 rounded-full bg-zinc-800/50 flex items-center justify-center mx-auto mb-2">
@@ -281,9 +429,9 @@ export function TrafficChart({ events, zombieScore, className = "" }: TrafficCha
           </div>
         </div>
       ) : (
-        <div className="h-36 -mx-2">
+        <div className={`h-36 -mx-2 transition-opacity ${loading ? "opacity-50" : ""}`}>
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={chartData} margin={{ top: 5, right: 5, left: -25, bottom: 0 }}>
+            <ComposedChart data={chartData} margin={{ top: 5, right: hasScore ? -20 : 5, left: -25, bottom: 0 }}>
               <defs>
                 <linearGradient id="trafficGradient" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="0%" stopColor="#D6A2D5" stopOpacity={0.4} />
@@ -305,18 +453,58 @@ export function TrafficChart({ events, zombieScore, className = "" }: TrafficCha
                 interval={tickInterval}
               />
               <YAxis
+                yAxisId="traffic"
                 axisLine={false}
                 tickLine={false}
                 tick={{ fill: "#71717a", fontSize: 9 }}
                 width={30}
                 allowDecimals={false}
               />
+              <YAxis
+                yAxisId="score"
+                orientation="right"
+                domain={[0, 100]}
+                hide={!hasScore}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: "#71717a", fontSize: 9 }}
+                width={30}
+              />
               <Tooltip content={<CustomTooltip />} />
 
-              <ReferenceLine y={0} stroke="#3f3f46" strokeDasharray="3 3" />
+              <ReferenceLine yAxisId="traffic" y={0} stroke="#3f3f46" strokeDasharray="3 3" />
+
+              {failedSpans.map((span) => (
+                <ReferenceArea
+                  key={span.x1}
+                  yAxisId="traffic"
+                  x1={span.x1}
+                  x2={span.x2}
+                  fill="#ef4444"
+                  fillOpacity={0.08}
+                  stroke="none"
+                />
+              ))}
+
+              {verdictMarks.map((mark) => (
+                <ReferenceLine
+                  key={`${mark.displayDate}-${mark.verdict}`}
+                  yAxisId="score"
+                  x={mark.displayDate}
+                  stroke={VERDICT_MARK_COLORS[mark.verdict] ?? "#71717a"}
+                  strokeDasharray="2 2"
+                  label={{
+                    value: mark.verdict,
+                    position: "insideTopLeft",
+                    fill: VERDICT_MARK_COLORS[mark.verdict] ?? "#71717a",
+                    fontSize: 9,
+                  }}
+                />
+              ))}
 
               {totalErrors > 0 && (
                 <Area
+                  yAxisId="traffic"
                   type="monotone"
                   dataKey="errors"
                   stroke="#ef4444"
@@ -332,21 +520,73 @@ export function TrafficChart({ events, zombieScore, className = "" }: TrafficCha
                 />
               )}
 
-              <Area
-                type="monotone"
-                dataKey="traffic"
-                stroke="#D6A2D5"
-                strokeWidth={2}
-                fill="url(#trafficGradient)"
-                dot={false}
-                activeDot={{
-                  r: 3,
-                  fill: "#D6A2D5",
-                  stroke: "#18181b",
-                  strokeWidth: 2,
-                }}
-              />
-            </AreaChart>
+              {bySource && sourceTypes.length > 1 ? (
+                sourceTypes.map((source, index) => (
+                  <Area
+                    key={source}
+                    yAxisId="traffic"
+                    type="monotone"
+                    dataKey={`src:${source}`}
+                    stackId="sources"
+                    stroke={SOURCE_COLORS[index % SOURCE_COLORS.length]}
+                    strokeWidth={1.5}
+                    fill={SOURCE_COLORS[index % SOURCE_COLORS.length]}
+                    fillOpacity={0.15}
+                    connectNulls={false}
+                    dot={false}
+                  />
+                ))
+              ) : (
+                <Area
+                  yAxisId="traffic"
+                  type="monotone"
+                  dataKey="traffic"
+                  stroke="#D6A2D5"
+                  strokeWidth={2}
+                  fill="url(#trafficGradient)"
+                  connectNulls={false}
+                  dot={false}
+                  activeDot={{
+                    r: 3,
+                    fill: "#D6A2D5",
+                    stroke: "#18181b",
+                    strokeWidth: 2,
+                  }}
+                />
+              )}
+
+              {totalSynthetic > 0 && (
+                <Line
+                  yAxisId="traffic"
+                  type="monotone"
+                  dataKey="raw"
+                  stroke="#a1a1aa"
+                  strokeWidth={1}
+                  strokeDasharray="4 3"
+                  dot={false}
+                  connectNulls={false}
+                  activeDot={false}
+                />
+              )}
+
+              {hasScore && (
+                <Line
+                  yAxisId="score"
+                  type="stepAfter"
+                  dataKey="score"
+                  stroke="#fbbf24"
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls={false}
+                  activeDot={{
+                    r: 3,
+                    fill: "#fbbf24",
+                    stroke: "#18181b",
+                    strokeWidth: 2,
+                  }}
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
       )}
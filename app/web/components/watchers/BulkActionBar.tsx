@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Calendar,
+  PauseCircle,
+  Play,
+  Ban,
+  RotateCcw,
+  Skull,
+  Loader2,
+  X,
+  CheckCircle2,
+  AlertTriangle,
+  MinusCircle,
+} from "lucide-react";
+
+type BulkAction = "pause" | "resume" | "opt_out" | "reset_verdict" | "kill";
+
+interface BulkResult {
+  candidateId: number;
+  entitySignature: string | null;
+  from: string | null;
+  to: string | null;
+  outcome: "will_change" | "changed" | "skipped" | "failed" | "unknown";
+  message?: string;
+}
+
+interface BulkResponse {
+  action: BulkAction;
+  dryRun: boolean;
+  results: BulkResult[];
+  summary: { changed: number; skipped: number; failed: number; unknown?: number };
+}
+
+interface BulkActionBarProps {
+  selectedIds: number[];
+  pendingSelectedCount: number;
+  userId: string;
+  onSchedule: () => void;
+  onClear: () => void;
+  onComplete: () => void;
+}
+
+const ACTIONS: { id: BulkAction; label: string; icon: typeof Play; className: string }[] = [
+  { id: "pause", label: "Pause", icon: PauseCircle, className: "hover:text-yellow-400" },
+  { id: "resume", label: "Resume", icon: Play, className: "hover:text-emerald-400" },
+  { id: "opt_out", label: "Opt out", icon: Ban, className: "hover:text-zinc-200" },
+  { id: "reset_verdict", label: "Reset verdict", icon: RotateCcw, className: "hover:text-purple-400" },
+  { id: "kill", label: "Kill", icon: Skull, className: "text-red-400 hover:text-red-300" },
+];
+
+const OUTCOME_STYLES: Record<BulkResult["outcome"], { icon: typeof Play; className: string }> = {
+  will_change: { icon: CheckCircle2, className: "text-emerald-400" },
+  changed: { icon: CheckCircle2, className: "text-emerald-400" },
+  skipped: { icon: MinusCircle, className: "text-zinc-500" },
+  failed: { icon: AlertTriangle, className: "text-red-400" },
+  unknown: { icon: AlertTriangle, className: "text-yellow-400" },
+};
+
+export function BulkActionBar({
+  selectedIds,
+  pendingSelectedCount,
+  userId,
+  onSchedule,
+  onClear,
+  onComplete,
+}: BulkActionBarProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Dry run result awaiting confirmation, then the real result
+  const [preview, setPreview] = useState<BulkResponse | null>(null);
+  const [result, setResult] = useState<BulkResponse | null>(null);
+
+  const runAction = async (action: BulkAction, dryRun: boolean) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/candidates/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, action, candidateIds: selectedIds, dryRun }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Bulk action failed");
+      }
+      if (dryRun) {
+        setPreview(data);
+      } else {
+        setPreview(null);
+        setResult(data);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Bulk action failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeResult = () => {
+    setResult(null);
+    onComplete();
+  };
+
+  const shown = result || preview;
+  const actionLabel = (id: BulkAction) => ACTIONS.find((a) => a.id === id)?.label ?? id;
+
+  return (
+    <div className="bg-zinc-800/50 border border-zinc-700 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-white mr-1">{selectedIds.length} selected</span>
+        {pendingSelectedCount > 0 && (
+          <button
+            onClick={onSchedule}
+            disabled={loading}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Calendar className="w-3 h-3" />
+            Schedule {pendingSelectedCount}
+          </button>
+        )}
+        {ACTIONS.map(({ id, label, icon: Icon, className }) => (
+          <button
+            key={id}
+            onClick={() => runAction(id, true)}
+            disabled={loading || result !== null}
+            className={`px-3 py-1.5 text-xs font-medium text-zinc-400 bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors flex items-center gap-1.5 disabled:opacity-50 ${className}`}
+          >
+            <Icon className="w-3 h-3" />
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={onClear}
+          disabled={loading}
+          className="ml-auto p-1.5 text-zinc-500 hover:text-white rounded transition-colors"
+          title="Clear selection"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {shown && (
+        <div className="border-t border-zinc-700 pt-3 space-y-2">
+          <p className="text-xs text-zinc-300">
+            {shown.dryRun ? (
+              <>
+                <span className="font-medium text-white">{actionLabel(shown.action)}</span> will change{" "}
+                {shown.summary.changed} candidate{shown.summary.changed === 1 ? "" : "s"}
+                {shown.summary.skipped > 0 && <>, {shown.summary.skipped} skipped</>}
+              </>
+            ) : (
+              <>
+                <span className="font-medium text-white">{actionLabel(shown.action)}</span>: {shown.summary.changed} changed,{" "}
+                {shown.summary.skipped} skipped, {shown.summary.failed} failed
+                {!!shown.summary.unknown && <>, {shown.summary.unknown} unconfirmed</>}
+              </>
+            )}
+          </p>
+
+          <ul className="max-h-48 overflow-y-auto space-y-1">
+            {shown.results.map((r) => {
+              const { icon: Icon, className } = OUTCOME_STYLES[r.outcome];
+              return (
+                <li key={r.candidateId} className="flex items-center gap-2 text-[11px]">
+                  <Icon className={`w-3 h-3 flex-shrink-0 ${className}`} />
+                  <span className="font-mono text-zinc-300 truncate">
+                    {r.entitySignature || `#${r.candidateId}`}
+                  </span>
+                  {r.outcome === "will_change" || r.outcome === "changed" ? (
+                    <span className="text-zinc-500 flex-shrink-0">
+                      {r.from} → {r.to}
+                    </span>
+                  ) : (
+                    <span className={`flex-shrink-0 ${className}`}>{r.message}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex justify-end gap-2">
+            {preview && !result ? (
+              <>
+                <button
+                  onClick={() => setPreview(null)}
+                  disabled={loading}
+                  className="px-3 py-1.5 text-xs font-medium text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => runAction(preview.action, false)}
+                  disabled={loading || preview.summary.changed === 0}
+                  className={`px-3 py-1.5 text-xs font-medium text-white rounded-lg transition-colors flex items-center gap-1.5 disabled:opacity-50 ${
+                    preview.action === "kill" ? "bg-red-600 hover:bg-red-500" : "bg-emerald-600 hover:bg-emerald-500"
+                  }`}
+                >
+                  {loading && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {actionLabel(preview.action)} {preview.summary.changed}
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={closeResult}
+                className="px-3 py-1.5 text-xs font-medium text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors"
+              >
+                Done
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
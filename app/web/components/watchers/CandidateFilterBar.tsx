@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Search, FolderTree, ArrowDown, ArrowUp, X } from "lucide-react";
+import {
+  CandidateFilters,
+  CandidateSort,
+  DEFAULT_CANDIDATE_FILTERS,
+} from "@/lib/candidate-filters";
+
+interface CandidateFilterBarProps {
+  filters: CandidateFilters;
+  entityTypes: string[];
+  frameworks: string[];
+  onChange: (filters: CandidateFilters) => void;
+}
+
+const SORT_LABELS: Record<CandidateSort, string> = {
+  score: "Zombie score",
+  last_traffic: "Last traffic",
+  discovered: "Discovered",
+};
+
+// Typing in the text fields waits this long before filtering
+const TEXT_DEBOUNCE_MS = 300;
+
+const selectClass =
+  "bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-emerald-500";
+const inputClass =
+  "bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-white placeholder-zinc-500 focus:outline-none focus:border-emerald-500";
+
+function parseScoreInput(value: string): number | null {
+  if (value === "") return null;
+  const score = Math.round(Number(value));
+  return isNaN(score) ? null : Math.min(100, Math.max(0, score));
+}
+
+export function CandidateFilterBar({ filters, entityTypes, frameworks, onChange }: CandidateFilterBarProps) {
+  const [q, setQ] = useState(filters.q);
+  const [pathPrefix, setPathPrefix] = useState(filters.pathPrefix);
+  const [applied, setApplied] = useState({ q: filters.q, pathPrefix: filters.pathPrefix });
+
+  // Pick up changes made elsewhere, e.g. "Clear filters"
+  if (applied.q !== filters.q || applied.pathPrefix !== filters.pathPrefix) {
+    setApplied({ q: filters.q, pathPrefix: filters.pathPrefix });
+    setQ(filters.q);
+    setPathPrefix(filters.pathPrefix);
+  }
+
+  useEffect(() => {
+    if (q.trim() === filters.q && pathPrefix.trim() === filters.pathPrefix) return;
+    const timer = setTimeout(
+      () => onChange({ ...filters, q: q.trim(), pathPrefix: pathPrefix.trim() }),
+      TEXT_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [q, pathPrefix, filters, onChange]);
+
+  const hasFilters =
+    filters.entityType.length > 0 ||
+    filters.framework.length > 0 ||
+    filters.minScore !== null ||
+    filters.maxScore !== null ||
+    filters.hasTraffic !== null ||
+    filters.pathPrefix !== "" ||
+    filters.q !== "";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-[180px]">
+        <Search className="w-3.5 h-3.5 text-zinc-500 absolute left-2 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+          placeholder="Search signatures"
+          className={`${inputClass} w-full pl-7`}
+        />
+      </div>
+      <div className="relative min-w-[140px]">
+        <FolderTree className="w-3.5 h-3.5 text-zinc-500 absolute left-2 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={pathPrefix}
+          onChange={(e) => setPathPrefix(e.target.value)}
+          placeholder="Path prefix"
+          className={`${inputClass} w-full pl-7 font-mono`}
+        />
+      </div>
+
+      <select
+        value={filters.entityType[0] ?? ""}
+        onChange={(e) => onChange({ ...filters, entityType: e.target.value ? [e.target.value] : [] })}
+        className={selectClass}
+      >
+        <option value="">All types</option>
+        {entityTypes.map((type) => (
+          <option key={type} value={type}>{type.replace(/_/g, " ")}</option>
+        ))}
+      </select>
+
+      {frameworks.length > 0 && (
+        <select
+          value={filters.framework[0] ?? ""}
+          onChange={(e) => onChange({ ...filters, framework: e.target.value ? [e.target.value] : [] })}
+          className={selectClass}
+        >
+          <option value="">All frameworks</option>
+          {frameworks.map((framework) => (
+            <option key={framework} value={framework}>{framework}</option>
+          ))}
+        </select>
+      )}
+
+      <select
+        value={filters.hasTraffic === null ? "" : filters.hasTraffic ? "yes" : "no"}
+        onChange={(e) =>
+          onChange({ ...filters, hasTraffic: e.target.value === "" ? null : e.target.value === "yes" })
+        }
+        className={selectClass}
+      >
+        <option value="">Any traffic</option>
+        <option value="yes">Has traffic</option>
+        <option value="no">No traffic</option>
+      </select>
+
+      <div className="flex items-center gap-1 text-xs text-zinc-500">
+        <span>Score</span>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={filters.minScore ?? ""}
+          onChange={(e) => onChange({ ...filters, minScore: parseScoreInput(e.target.value) })}
+          placeholder="0"
+          className={`${inputClass} w-14`}
+        />
+        <span>–</span>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={filters.maxScore ?? ""}
+          onChange={(e) => onChange({ ...filters, maxScore: parseScoreInput(e.target.value) })}
+          placeholder="100"
+          className={`${inputClass} w-14`}
+        />
+      </div>
+
+      <div className="flex items-center gap-1">
+        <select
+          value={filters.sort}
+          onChange={(e) => onChange({ ...filters, sort: e.target.value as CandidateSort })}
+          className={selectClass}
+        >
+          {(Object.keys(SORT_LABELS) as CandidateSort[]).map((sort) => (
+            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onChange({ ...filters, order: filters.order === "desc" ? "asc" : "desc" })}
+          className="p-1.5 text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors"
+          title={filters.order === "desc" ? "Descending" : "Ascending"}
+        >
+          {filters.order === "desc" ? <ArrowDown className="w-3.5 h-3.5" /> : <ArrowUp className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+
+      {hasFilters && (
+        <button
+          onClick={() =>
+            onChange({ ...DEFAULT_CANDIDATE_FILTERS, status: filters.status, sort: filters.sort, order: filters.order })
+          }
+          className="px-2 py-1.5 text-xs text-zinc-400 hover:text-white flex items-center gap-1 transition-colors"
+        >
+          <X className="w-3 h-3" />
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
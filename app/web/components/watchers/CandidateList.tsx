@@ -1,14 +1,13 @@
 "use client";
 
-import { useState, useMemo } from "react";
-import { useRouter } from "next/navigation";
+import { useState, useMemo, useEffect, useCallback, useRef } from "react";
+import { useRouter, usePathname, useSearchParams } from "next/navigation";
 import {
   Clock,
   CheckSquare,
   Square,
   PlayCircle,
   PauseCircle,
-  Calendar,
   ChevronRight,
   Filter,
   Radio,
@@ -16,10 +15,19 @@ import {
   Play,
   Loader2,
   Skull,
+  Shield,
 } from "lucide-react";
 import { formatRelativeTime, getDerivedCandidateStatus } from "@/lib/utils";
 import { CandidateStatusBadge, EntityIcon, ZombieScoreBadge, VerdictBadge } from "@/components/ui/shared";
 import { KillSuccessDialog } from "@/components/ui/KillSuccessDialog";
+import { BulkActionBar } from "@/components/watchers/BulkActionBar";
+import { CandidateFilterBar } from "@/components/watchers/CandidateFilterBar";
+import {
+  CandidateFilters,
+  DEFAULT_CANDIDATE_FILTERS,
+  candidateFiltersToParams,
+  parseCandidateFilters,
+} from "@/lib/candidate-filters";
 
 // Types - Flexible candidate interface that accepts ZombieCandidate
 interface Candidate {
@@ -41,6 +49,7 @@ interface Candidate {
   zombie_score?: number;
   human_action?: string | null;
   pr_url?: string | null;
+  is_protected?: boolean | null;
   // Allow additional properties
   [key: string]: unknown;
 }
@@ -62,8 +71,18 @@ function getVerdictFromStatus(status: string): "zombie" | "healthy" | "pending"
   }
 }
 
-interface CandidateListProps {
+interface CandidatePage {
   candidates: Candidate[];
+  nextCursor: string | null;
+  total: number;
+  facets?: {
+    statusCounts: Record<string, number>;
+    entityTypes: string[];
+    frameworks: string[];
+  };
+}
+
+interface CandidateListProps {
   watcherId: string;
   userId: string;
   onScheduleClick: (candidates: Candidate[]) => void;
@@ -72,16 +91,19 @@ interface CandidateListProps {
 
 type StatusFilter = "all" | "pending" | "active" | "paused" | "inactive" | "pending_review" | "killed" | "healthy";
 
+// Query parameters CandidateList owns in the page URL
+const FILTER_PARAMS = ["status", "type", "framework", "minScore", "maxScore", "traffic", "path", "q", "sort", "order"];
+
 export function CandidateList({
-  candidates,
   watcherId,
   userId,
   onScheduleClick,
   onRefresh,
 }: CandidateListProps) {
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
-  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [actionLoading, setActionLoading] = useState<number | null>(null);
   
   // Kill success dialog state
@@ -89,33 +111,113 @@ export function CandidateList({
   const [killExecutionId, setKillExecutionId] = useState("");
   const [killEntitySignature, setKillEntitySignature] = useState("");
 
-  // Filter candidates
-  const filteredCandidates = useMemo(() => {
-    if (statusFilter === "all") return candidates;
-    return candidates.filter((c) => c.status === statusFilter);
-  }, [candidates, statusFilter]);
-
-  // Count by status
-  const statusCounts = useMemo(() => {
-    const counts = { 
-      all: candidates.length, 
-      pending: 0, 
-      active: 0, 
-      paused: 0, 
-      inactive: 0,
-      pending_review: 0,
-      killed: 0,
-      healthy: 0
-    };
-    candidates.forEach((c) => {
-      if (c.status in counts) {
-        counts[c.status as keyof typeof counts]++;
+  // Filters live in the URL so a filtered list survives reloads and can be shared
+  const filters = useMemo(() => {
+    const parsed = parseCandidateFilters(searchParams);
+    return "error" in parsed ? DEFAULT_CANDIDATE_FILTERS : parsed;
+  }, [searchParams]);
+  const filterKey = candidateFiltersToParams(filters).toString();
+
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<NonNullable<CandidatePage["facets"]>>({
+    statusCounts: {},
+    entityTypes: [],
+    frameworks: [],
+  });
+  const [listLoading, setListLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const requestRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams(filterKey);
+    params.set("userId", userId);
+    if (cursor) params.set("cursor", cursor);
+
+    const response = await fetch(`/api/watchers/${watcherId}/candidates?${params}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to load candidates");
+    }
+    return data as CandidatePage;
+  }, [watcherId, userId, filterKey]);
+
+  // First page whenever the filters change
+  const loadFirstPage = useCallback(async () => {
+    const request = ++requestRef.current;
+    setListLoading(true);
+    setListError(null);
+    try {
+      const page = await fetchPage(null);
+      if (request !== requestRef.current) return;
+      setCandidates(page.candidates);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
+      if (page.facets) setFacets(page.facets);
+    } catch (err) {
+      if (request === requestRef.current) {
+        setListError(err instanceof Error ? err.message : "Failed to load candidates");
       }
-    });
-    return counts;
-  }, [candidates]);
+    } finally {
+      if (request === requestRef.current) setListLoading(false);
+    }
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      if (request !== requestRef.current) return;
+      setCandidates((prev) => [...prev, ...page.candidates]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Failed to load more candidates:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, nextCursor, loadingMore]);
 
-  const pendingCandidates = filteredCandidates.filter((c) => c.status === "pending");
+  useEffect(() => {
+    setSelectedIds(new Set());
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  // Infinite scroll: load the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  const updateFilters = useCallback((next: CandidateFilters) => {
+    const params = new URLSearchParams(searchParams.toString());
+    FILTER_PARAMS.forEach((key) => params.delete(key));
+    candidateFiltersToParams(next).forEach((value, key) => params.set(key, value));
+    const queryString = params.toString();
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+  }, [router, pathname, searchParams]);
+
+  const statusFilter: StatusFilter | null =
+    filters.status.length === 0 ? "all"
+      : filters.status.length === 1 ? (filters.status[0] as StatusFilter)
+      : null;
+
+  const statusCounts: Record<string, number> = {
+    ...facets.statusCounts,
+    all: Object.values(facets.statusCounts).reduce((sum, count) => sum + count, 0),
+  };
 
   // Pause/Resume handlers
   const handlePause = async (candidateId: number) => {
@@ -203,8 +305,7 @@ export function CandidateList({
   };
 
   const selectAll = () => {
-    const pendingIds = pendingCandidates.map((c) => c.candidate_id);
-    setSelectedIds(new Set(pendingIds));
+    setSelectedIds(new Set(candidates.map((c) => c.candidate_id)));
   };
 
   const deselectAll = () => {
@@ -212,7 +313,7 @@ export function CandidateList({
   };
 
   const handleScheduleSelected = () => {
-    const selected = candidates.filter((c) => selectedIds.has(c.candidate_id));
+    const selected = candidates.filter((c) => selectedIds.has(c.candidate_id) && c.status === "pending");
     if (selected.length > 0) {
       onScheduleClick(selected);
     }
@@ -222,8 +323,12 @@ export function CandidateList({
     router.push(`/watchers/${watcherId}/candidates/${candidateId}`);
   };
 
-  const allPendingSelected = pendingCandidates.length > 0 && 
-    pendingCandidates.every((c) => selectedIds.has(c.candidate_id));
+  const allSelected = candidates.length > 0 &&
+    candidates.every((c) => selectedIds.has(c.candidate_id));
+
+  const pendingSelectedCount = candidates.filter(
+    (c) => selectedIds.has(c.candidate_id) && c.status === "pending"
+  ).length;
 
   return (
     <div className="space-y-4">
@@ -240,7 +345,7 @@ export function CandidateList({
             return (
               <button
                 key={status}
-                onClick={() => setStatusFilter(status)}
+                onClick={() => updateFilters({ ...filters, status: status === "all" ? [] : [status] })}
                 className={`px-2 md:px-3 py-1.5 text-[10px] md:text-xs font-medium rounded-md transition-colors ${
                   statusFilter === status
                     ? status === "killed" ? "bg-red-500 text-white"
@@ -251,7 +356,7 @@ export function CandidateList({
                 }`}
               >
                 {displayLabel}
-                {statusCounts[status] > 0 && (
+                {(statusCounts[status] ?? 0) > 0 && (
                   <span className="ml-1 text-[9px] md:text-[10px] opacity-70">({statusCounts[status]})</span>
                 )}
               </button>
@@ -263,21 +368,20 @@ export function CandidateList({
         <div className="flex items-center gap-2">
           {/* Refresh Button */}
           <button
-            onClick={onRefresh}
+            onClick={loadFirstPage}
             className="p-2 text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors"
             title="Refresh candidates"
           >
             <RefreshCw className="w-4 h-4" />
           </button>
 
-          {/* Bulk Actions */}
-          {pendingCandidates.length > 0 && (
-            <>
+          {/* Selection */}
+          {candidates.length > 0 && (
             <button
-              onClick={allPendingSelected ? deselectAll : selectAll}
+              onClick={allSelected ? deselectAll : selectAll}
               className="px-3 py-1.5 text-xs font-medium text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors flex items-center gap-1.5"
             >
-              {allPendingSelected ? (
+              {allSelected ? (
                 <>
                   <Square className="w-3 h-3" />
                   Deselect All
@@ -285,54 +389,72 @@ export function CandidateList({
               ) : (
                 <>
                   <CheckSquare className="w-3 h-3" />
-                  Select All Pending
+                  Select All
                 </>
               )}
             </button>
-            {selectedIds.size > 0 && (
-              <button
-                onClick={handleScheduleSelected}
-                className="px-3 py-1.5 text-xs font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors flex items-center gap-1.5"
-              >
-                <Calendar className="w-3 h-3" />
-                Schedule {selectedIds.size} Selected
-              </button>
-            )}
-            </>
           )}
         </div>
       </div>
 
+      <CandidateFilterBar
+        filters={filters}
+        entityTypes={facets.entityTypes}
+        frameworks={facets.frameworks}
+        onChange={updateFilters}
+      />
+
+      {/* Bulk Actions */}
+      {selectedIds.size > 0 && (
+        <BulkActionBar
+          selectedIds={[...selectedIds]}
+          pendingSelectedCount={pendingSelectedCount}
+          userId={userId}
+          onSchedule={handleScheduleSelected}
+          onClear={deselectAll}
+          onComplete={() => {
+            deselectAll();
+            onRefresh();
+          }}
+        />
+      )}
+
       {/* Candidate List */}
       <div className="space-y-2">
-        {filteredCandidates.length === 0 ? (
+        {listLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-zinc-500 animate-spin" />
+          </div>
+        ) : listError ? (
+          <div className="text-center py-8">
+            <p className="text-red-400 text-sm">{listError}</p>
+          </div>
+        ) : candidates.length === 0 ? (
           <div className="text-center py-8">
             <Filter className="w-10 h-10 text-zinc-600 mx-auto mb-3" />
             <p className="text-zinc-400">No candidates match this filter</p>
           </div>
         ) : (
-          filteredCandidates.map((candidate) => (
+          candidates.map((candidate) => (
             <div
               key={candidate.candidate_id}
               className="group bg-zinc-800/30 border border-zinc-700/50 rounded-lg p-3 hover:border-zinc-600/50 transition-all"
             >
               <div className="flex items-start gap-3">
-                {/* Selection checkbox (only for pending) */}
-                {candidate.status === "pending" && (
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      toggleSelect(candidate.candidate_id);
-                    }}
-                    className="mt-0.5 text-zinc-500 hover:text-emerald-400 transition-colors"
-                  >
-                    {selectedIds.has(candidate.candidate_id) ? (
-                      <CheckSquare className="w-4 h-4 text-emerald-400" />
-                    ) : (
-                      <Square className="w-4 h-4" />
-                    )}
-                  </button>
-                )}
+                {/* Selection checkbox */}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    toggleSelect(candidate.candidate_id);
+                  }}
+                  className="mt-0.5 text-zinc-500 hover:text-emerald-400 transition-colors"
+                >
+                  {selectedIds.has(candidate.candidate_id) ? (
+                    <CheckSquare className="w-4 h-4 text-emerald-400" />
+                  ) : (
+                    <Square className="w-4 h-4" />
+                  )}
+                </button>
 
                 {/* Entity Icon */}
                 <div className="mt-0.5">
@@ -355,6 +477,15 @@ export function CandidateList({
                     {getVerdictFromStatus(candidate.status) && (
                       <VerdictBadge verdict={getVerdictFromStatus(candidate.status)!} size="sm" />
                     )}
+                    {candidate.is_protected && (
+                      <span
+                        className="inline-flex items-center gap-1 text-[10px] text-emerald-400 px-1.5 py-0.5 bg-emerald-500/10 rounded"
+                        title="Matched by an exclusion rule - never killed"
+                      >
+                        <Shield className="w-3 h-3" />
+                        Protected
+                      </span>
+                    )}
                     {candidate.method && candidate.route_path && (
                       <span className="text-[10px] font-mono text-zinc-500 px-1.5 py-0.5 bg-zinc-800 rounded">
                         {candidate.method} {candidate.route_path}
@@ -464,7 +595,8 @@ export function CandidateList({
                     </button>
                   )}
                   {/* Kill Zombie button for pending_review, confirmed_zombie, or high-risk */}
-                  {(candidate.status === "pending_review" || 
+                  {!candidate.is_protected &&
+                    (candidate.status === "pending_review" || 
                     candidate.status === "confirmed_zombie" ||
                     (candidate.status === "active" && (candidate.zombie_score ?? 0) >= 70)) && (
                     <button
@@ -497,6 +629,19 @@ export function CandidateList({
           ))
         )}
       </div>
+
+      {/* Infinite scroll */}
+      {!listLoading && !listError && candidates.length > 0 && (
+        <div ref={sentinelRef} className="flex items-center justify-center py-2 text-[10px] text-zinc-500">
+          {loadingMore ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <span>
+              Showing {candidates.length} of {total}
+            </span>
+          )}
+        </div>
+      )}
       
       {/* Kill Success Dialog */}
       <KillSuccessDialog
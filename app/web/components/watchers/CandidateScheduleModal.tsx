@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { motion } from "framer-motion";
 import {
     X,
@@ -11,9 +11,12 @@ import {
     Loader2,
     CheckCircle,
     AlertTriangle,
-    Activity
+    Activity,
+    CalendarClock
 } from "lucide-react";
 import { AnimatedBorderGlow } from "@/components/ui/shared";
+import { MIN_EXPECTED_RUNS, checkObservationWindow, nextFireTimes, parseCron } from "@/lib/cron";
+import { formatDate } from "@/lib/utils";
 
 // Types - Candidate type matches what CandidateList passes
 interface Candidate {
@@ -23,6 +26,7 @@ interface Candidate {
   entity_signature: string;
   route_path: string | null;
   method: string | null;
+  schedule?: string | null;
   status: string;
   scan_frequency_minutes: number | null;
   analysis_period_hours: number | null;
@@ -30,11 +34,18 @@ interface Candidate {
   [key: string]: unknown;
 }
 
+// Resolved schedule defaults per entity type from the repository's .doomsday.yml
+interface SchedulePolicy {
+  path: string | null;
+  effectiveSchedule: Record<string, { scanFrequencyMinutes: number; analysisPeriodHours: number }>;
+}
+
 interface CandidateScheduleModalProps {
   candidates: Candidate[];
   userId: string;
   watcherId: string;
   applicationUrl: string | null;
+  policy?: SchedulePolicy | null;
   onClose: () => void;
   onScheduleComplete: () => void;
 }
@@ -54,23 +65,57 @@ const PERIOD_PRESETS = [
   { id: "custom", label: "Custom", description: "Set your own", minutes: 0, icon: <Settings2 size={16} /> },
 ];
 
+// Defaults shared by every selected candidate's entity type, or null to use the presets
+function resolvePolicyDefaults(candidates: Candidate[], policy: SchedulePolicy | null | undefined) {
+  if (!policy) return null;
+  const resolved = candidates.map((c) => policy.effectiveSchedule[c.entity_type]);
+  const first = resolved[0];
+  if (!first || resolved.some((d) => !d || d.scanFrequencyMinutes !== first.scanFrequencyMinutes
+    || d.analysisPeriodHours !== first.analysisPeriodHours)) {
+    return null;
+  }
+  return { scanMinutes: first.scanFrequencyMinutes, periodMinutes: Math.round(first.analysisPeriodHours * 60) };
+}
+
+// Cron candidates listed with their next runs; the rest are summarized
+const MAX_CRON_ROWS = 5;
+const NEXT_FIRE_COUNT = 3;
+
+function formatPeriod(minutes: number) {
+  if (minutes >= 2880) return `${Math.round(minutes / 1440)} days`;
+  if (minutes >= 60) return `${Math.round(minutes / 60)} hours`;
+  return `${Math.round(minutes)} minutes`;
+}
+
+function presetFor(presets: { id: string; minutes: number }[], minutes: number) {
+  return presets.find(p => p.id !== "custom" && p.minutes === minutes)?.id || "custom";
+}
+
 export function CandidateScheduleModal({
   candidates,
   userId,
   watcherId,
   applicationUrl,
+  policy,
   onClose,
   onScheduleComplete,
 }: CandidateScheduleModalProps) {
   const isBulk = candidates.length > 1;
-  const [scanPreset, setScanPreset] = useState("standard");
-  const [periodPreset, setPeriodPreset] = useState("standard");
-  const [customScanMinutes, setCustomScanMinutes] = useState(5);
-  const [customPeriodMinutes, setCustomPeriodMinutes] = useState(120);
+  const [policyDefaults] = useState(() => resolvePolicyDefaults(candidates, policy));
+  const [scanPreset, setScanPreset] = useState(() =>
+    policyDefaults ? presetFor(SCAN_PRESETS, policyDefaults.scanMinutes) : "standard"
+  );
+  const [periodPreset, setPeriodPreset] = useState(() =>
+    policyDefaults ? presetFor(PERIOD_PRESETS, policyDefaults.periodMinutes) : "standard"
+  );
+  const [customScanMinutes, setCustomScanMinutes] = useState(policyDefaults?.scanMinutes ?? 5);
+  const [customPeriodMinutes, setCustomPeriodMinutes] = useState(policyDefaults?.periodMinutes ?? 120);
   const [isHealthChecking, setIsHealthChecking] = useState(false);
   const [healthResults, setHealthResults] = useState<Record<number, { healthy: boolean; message: string }>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [allowShortWindow, setAllowShortWindow] = useState(false);
+  const [openedAt] = useState(() => new Date());
 
   const scanMinutes = scanPreset === "custom" 
     ? customScanMinutes 
@@ -80,6 +125,31 @@ export function CandidateScheduleModal({
     ? customPeriodMinutes 
     : PERIOD_PRESETS.find(p => p.id === periodPreset)?.minutes || 120;
 
+  // Next runs of each cron candidate; the window check depends on the chosen period
+  const cronCandidates = useMemo(
+    () =>
+      candidates.flatMap((c) => {
+        const cron = parseCron(c.schedule ?? null);
+        return cron ? [{ candidate: c, nextRuns: nextFireTimes(cron, openedAt, NEXT_FIRE_COUNT) }] : [];
+      }),
+    [candidates, openedAt]
+  );
+
+  const cronChecks = cronCandidates.map((entry) => ({
+    ...entry,
+    check: checkObservationWindow(entry.candidate.schedule ?? null, periodMinutes)!,
+  }));
+  const shortWindows = cronChecks.filter((entry) => !entry.check.sufficient);
+  const suggestedPeriodMinutes = cronChecks.length > 0
+    ? Math.max(...cronChecks.map((entry) => entry.check.suggestedPeriodMinutes))
+    : null;
+
+  const applySuggestedPeriod = () => {
+    if (suggestedPeriodMinutes === null) return;
+    setPeriodPreset(presetFor(PERIOD_PRESETS, suggestedPeriodMinutes));
+    setCustomPeriodMinutes(suggestedPeriodMinutes);
+  };
+
   // Run health check on mount
   useEffect(() => {
     const runHealthCheck = async () => {
@@ -128,6 +198,10 @@ export function CandidateScheduleModal({
       setError("Analysis period must be greater than scan frequency");
       return;
     }
+    if (shortWindows.length > 0 && !allowShortWindow) {
+      setError(`Cron jobs need at least ${MIN_EXPECTED_RUNS} expected runs in the analysis period`);
+      return;
+    }
 
     setIsSubmitting(true);
     setError(null);
@@ -143,6 +217,7 @@ export function CandidateScheduleModal({
             candidateIds: candidates.map(c => c.candidate_id),
             scanFrequencyMinutes: scanMinutes,
             analysisPeriodMinutes: periodMinutes,
+            allowShortWindow,
           }),
         });
 
@@ -160,6 +235,7 @@ export function CandidateScheduleModal({
             scanFrequencyMinutes: scanMinutes,
             analysisPeriodMinutes: periodMinutes,
             action: "schedule",
+            allowShortWindow,
           }),
         });
 
@@ -248,6 +324,12 @@ export function CandidateScheduleModal({
               )}
             </div>
 
+            {policyDefaults && (
+              <p className="text-xs text-zinc-500">
+                Defaults from <code className="font-mono text-zinc-400">{policy?.path || ".doomsday.yml"}</code>
+              </p>
+            )}
+
             {/* Scan Frequency */}
             <div>
               <label className="block text-sm font-medium text-zinc-300 mb-2">
@@ -329,6 +411,66 @@ export function CandidateScheduleModal({
               )}
             </div>
 
+            {/* Cron schedules */}
+            {cronChecks.length > 0 && (
+              <div className="bg-zinc-800/50 rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <CalendarClock className="w-4 h-4 text-zinc-400" />
+                    <span className="text-sm font-medium text-zinc-300">Cron Schedules</span>
+                  </div>
+                  {suggestedPeriodMinutes !== null && suggestedPeriodMinutes !== periodMinutes && (
+                    <button
+                      onClick={applySuggestedPeriod}
+                      className="text-xs text-emerald-400 hover:text-emerald-300 transition-colors"
+                    >
+                      Use {formatPeriod(suggestedPeriodMinutes)}
+                    </button>
+                  )}
+                </div>
+                {cronChecks.slice(0, MAX_CRON_ROWS).map(({ candidate, nextRuns, check }) => (
+                  <div key={candidate.candidate_id} className="text-xs space-y-0.5">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-zinc-300 truncate">
+                        {candidate.entity_name || candidate.entity_signature}
+                      </span>
+                      <code className="font-mono text-purple-400 shrink-0">{check.schedule}</code>
+                    </div>
+                    <p className={check.sufficient ? "text-zinc-500" : "text-yellow-400"}>
+                      ~{check.expectedRuns} runs in this period ·{" "}
+                      {check.suggestionSufficient
+                        ? `suggested ${formatPeriod(check.suggestedPeriodMinutes)}`
+                        : `fewer than ${MIN_EXPECTED_RUNS} runs even in ${formatPeriod(check.suggestedPeriodMinutes)}`}
+                    </p>
+                    {nextRuns.length > 0 && (
+                      <p className="text-zinc-500">
+                        Next: {nextRuns.map((run) => formatDate(run.toISOString())).join(", ")}
+                      </p>
+                    )}
+                  </div>
+                ))}
+                {cronChecks.length > MAX_CRON_ROWS && (
+                  <p className="text-xs text-zinc-500">
+                    and {cronChecks.length - MAX_CRON_ROWS} more cron candidates
+                  </p>
+                )}
+                {shortWindows.length > 0 && (
+                  <label className="flex items-start gap-2 text-xs text-yellow-400">
+                    <input
+                      type="checkbox"
+                      checked={allowShortWindow}
+                      onChange={(e) => setAllowShortWindow(e.target.checked)}
+                      className="mt-0.5 accent-yellow-500"
+                    />
+                    <span>
+                      {shortWindows.length} cron job{shortWindows.length === 1 ? " is" : "s are"} expected to run
+                      fewer than {MIN_EXPECTED_RUNS} times, so silence may look like a zombie. Schedule anyway
+                    </span>
+                  </label>
+                )}
+              </div>
+            )}
+
             {/* Summary */}
             <div className="bg-zinc-800/30 rounded-lg p-3 text-sm">
               <p className="text-zinc-400">
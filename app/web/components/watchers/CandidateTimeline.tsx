@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { motion } from "framer-motion";
+import {
+  Brain,
+  CheckCircle,
+  Eye,
+  GitCommit,
+  GitPullRequest,
+  Loader2,
+  Minus,
+  PauseCircle,
+  PlayCircle,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  ShieldOff,
+  Skull,
+  XCircle,
+  AlertTriangle,
+  Activity,
+} from "lucide-react";
+import { formatDate, formatRelativeTime } from "@/lib/utils";
+
+interface TimelineEvent {
+  id: string;
+  occurredAt: string;
+  category: "decision" | "lifecycle" | "scan" | "observation";
+  type: string;
+  source: string | null;
+  actorType: string | null;
+  actorId: string | null;
+  details: Record<string, unknown>;
+}
+
+interface CandidateTimelineProps {
+  candidateId: string;
+  // Changes whenever the candidate is reloaded so new events show up
+  refreshKey?: string;
+}
+
+const PAGE_SIZE = 20;
+
+type IconType = typeof Activity;
+
+const EVENT_STYLES: Record<string, { label: string; icon: IconType; color: string }> = {
+  "scan:added": { label: "Discovered in scan", icon: Plus, color: "text-emerald-400 bg-emerald-500/10" },
+  "scan:updated": { label: "Moved to another file", icon: RefreshCw, color: "text-blue-400 bg-blue-500/10" },
+  "scan:removed": { label: "Removed from codebase", icon: Minus, color: "text-red-400 bg-red-500/10" },
+  "lifecycle:pause": { label: "Observation paused", icon: PauseCircle, color: "text-yellow-400 bg-yellow-500/10" },
+  "lifecycle:resume": { label: "Observation resumed", icon: PlayCircle, color: "text-emerald-400 bg-emerald-500/10" },
+  "lifecycle:opt_out": { label: "Opted out", icon: ShieldOff, color: "text-zinc-300 bg-zinc-500/10" },
+  "decision:w3_analysis": { label: "LLM analysis", icon: Brain, color: "text-purple-400 bg-purple-500/10" },
+  "decision:kill": { label: "Kill requested", icon: Skull, color: "text-red-400 bg-red-500/10" },
+  "decision:kill_failed": { label: "Kill PR failed", icon: XCircle, color: "text-red-400 bg-red-500/10" },
+  "decision:false_alert": { label: "Marked as false alert", icon: CheckCircle, color: "text-emerald-400 bg-emerald-500/10" },
+  "decision:watch_more": { label: "Observation extended", icon: Eye, color: "text-blue-400 bg-blue-500/10" },
+  "decision:reset_verdict": { label: "Verdict reset", icon: RotateCcw, color: "text-purple-400 bg-purple-500/10" },
+  "decision:action_link_replay": { label: "Used email link refused", icon: AlertTriangle, color: "text-yellow-400 bg-yellow-500/10" },
+};
+
+// Verdicts W2 writes to observation_summaries
+const VERDICT_STYLES: Record<string, { label: string; icon: IconType; color: string }> = {
+  traffic_found: { label: "Traffic detected", icon: Activity, color: "text-emerald-400 bg-emerald-500/10" },
+  no_traffic: { label: "No traffic observed", icon: Eye, color: "text-orange-400 bg-orange-500/10" },
+  error: { label: "Observation errors", icon: AlertTriangle, color: "text-red-400 bg-red-500/10" },
+};
+
+function describeEvent(event: TimelineEvent) {
+  const style = EVENT_STYLES[`${event.category}:${event.type}`];
+  if (style) {
+    // The W4 success entry shares the "kill" action type with the user request
+    if (event.category === "decision" && event.type === "kill" && event.source === "w4_workflow") {
+      return { ...style, label: "Kill PR created", icon: GitPullRequest };
+    }
+    return style;
+  }
+
+  if (event.category === "observation" && VERDICT_STYLES[event.type]) {
+    return VERDICT_STYLES[event.type];
+  }
+
+  const label = event.type.replace(/_/g, " ");
+  return {
+    label: label.charAt(0).toUpperCase() + label.slice(1),
+    icon: event.category === "scan" ? GitCommit : Activity,
+    color: "text-zinc-400 bg-zinc-500/10",
+  };
+}
+
+function describeActor(event: TimelineEvent) {
+  const actor = event.actorType === "user" || event.actorType === "human"
+    ? event.actorId && event.actorId !== "user" ? event.actorId : "user"
+    : event.actorId || event.actorType || "system";
+  return event.source ? `${actor} via ${event.source.replace(/_/g, " ")}` : actor;
+}
+
+function EventDetails({ event }: { event: TimelineEvent }) {
+  const d = event.details;
+
+  if (event.category === "scan") {
+    return (
+      <>
+        {typeof d.commitHash === "string" && (
+          <p className="text-xs text-zinc-500 truncate">
+            <code className="font-mono text-purple-400">{d.commitHash.slice(0, 7)}</code>
+            {typeof d.commitMessage === "string" && ` ${d.commitMessage}`}
+          </p>
+        )}
+        {typeof d.previousFilePath === "string" ? (
+          <p className="text-xs font-mono text-zinc-500 truncate">
+            <span className="line-through">{d.previousFilePath}</span>
+            {" → "}
+            <span className="text-zinc-400">{String(d.filePath)}</span>
+          </p>
+        ) : (
+          typeof d.filePath === "string" && (
+            <p className="text-xs font-mono text-zinc-500 truncate">{d.filePath}</p>
+          )
+        )}
+      </>
+    );
+  }
+
+  if (event.category === "observation") {
+    return (
+      <p className="text-xs text-zinc-500">
+        {d.previousVerdict ? `Previously ${String(d.previousVerdict).replace(/_/g, " ")} · ` : ""}
+        {Number(d.requestCount) || 0} requests, {Number(d.errorCount) || 0} errors
+      </p>
+    );
+  }
+
+  return (
+    <>
+      {typeof d.decision === "string" && d.decision !== event.type && (
+        <p className="text-xs text-zinc-400">
+          {d.decision}
+          {typeof d.confidence === "number" && ` (${d.confidence}% confidence)`}
+        </p>
+      )}
+      {typeof d.reasoning === "string" && d.reasoning && (
+        <p className="text-xs text-zinc-500 line-clamp-3">{d.reasoning}</p>
+      )}
+    </>
+  );
+}
+
+export function CandidateTimeline({ candidateId, refreshKey }: CandidateTimelineProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async (offset: number) => {
+    const response = await fetch(
+      `/api/candidates/${candidateId}/timeline?limit=${PAGE_SIZE}&offset=${offset}`
+    );
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to fetch timeline");
+    }
+    return data as { events: TimelineEvent[]; hasMore: boolean };
+  }, [candidateId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setError(null);
+        const data = await fetchPage(0);
+        if (cancelled) return;
+        setEvents(data.events);
+        setHasMore(data.hasMore);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage, refreshKey]);
+
+  const loadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const data = await fetchPage(events.length);
+      setEvents((prev) => [...prev, ...data.events.filter((e) => !prev.some((p) => p.id === e.id))]);
+      setHasMore(data.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 text-purple-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error && events.length === 0) {
+    return (
+      <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+        <AlertTriangle className="w-4 h-4 shrink-0" />
+        {error}
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-6">
+        <p className="text-zinc-500 text-sm">No activity recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <ol className="relative border-l border-zinc-800 ml-3.5 space-y-4">
+        {events.map((event, index) => {
+          const { label, icon: Icon, color } = describeEvent(event);
+          return (
+            <motion.li
+              key={event.id}
+              initial={{ opacity: 0, x: -5 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: Math.min(index % PAGE_SIZE, 10) * 0.03 }}
+              className="ml-6"
+            >
+              <span className={`absolute -left-3.5 flex items-center justify-center w-7 h-7 rounded-full ring-4 ring-zinc-900 ${color}`}>
+                <Icon className="w-3.5 h-3.5" />
+              </span>
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-sm font-medium text-white">{label}</p>
+                <time
+                  className="text-xs text-zinc-500 shrink-0"
+                  dateTime={event.occurredAt}
+                  title={formatDate(event.occurredAt)}
+                >
+                  {formatRelativeTime(event.occurredAt)}
+                </time>
+              </div>
+              <p className="text-[11px] text-zinc-600 mb-1">{describeActor(event)}</p>
+              <div className="space-y-0.5 min-w-0">
+                <EventDetails event={event} />
+              </div>
+            </motion.li>
+          );
+        })}
+      </ol>
+
+      {hasMore && (
+        <button
+          onClick={loadMore}
+          disabled={loadingMore}
+          className="w-full mt-4 py-2 text-xs text-zinc-400 hover:text-white bg-zinc-800/30 hover:bg-zinc-800/60 rounded-lg transition-colors flex items-center justify-center gap-1.5 disabled:opacity-50"
+        >
+          {loadingMore && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          {loadingMore ? "Loading..." : "Load older events"}
+        </button>
+      )}
+    </div>
+  );
+}
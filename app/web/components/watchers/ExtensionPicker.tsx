@@ -0,0 +1,84 @@
+"use client";
+
+import { CalendarClock } from "lucide-react";
+
+// A duration such as "7d", or "until" with a date
+export interface ExtensionChoice {
+  extension: string;
+  until: string;
+}
+
+interface ExtensionPickerProps {
+  value: ExtensionChoice;
+  onChange: (value: ExtensionChoice) => void;
+  disabled?: boolean;
+}
+
+const PRESETS = [
+  { id: "2d", label: "2 days" },
+  { id: "7d", label: "7 days" },
+  { id: "30d", label: "30 days" },
+];
+
+/** Request body fields for the extend and email action routes */
+export function extensionBody(choice: ExtensionChoice): { extension?: string; until?: string } {
+  return choice.extension === "until" ? { until: choice.until } : { extension: choice.extension };
+}
+
+/** Initial choice from an email link's ?extend= or ?until= parameter */
+export function extensionFromParams(extend: string | null, until: string | null): ExtensionChoice {
+  if (until) return { extension: "until", until };
+  return { extension: extend || "2d", until: "" };
+}
+
+export function ExtensionPicker({ value, onChange, disabled }: ExtensionPickerProps) {
+  // Durations outside the presets can arrive through the email link
+  const options = PRESETS.some((p) => p.id === value.extension) || value.extension === "until"
+    ? PRESETS
+    : [...PRESETS, { id: value.extension, label: value.extension }];
+  const today = new Date().toISOString().slice(0, 10);
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors disabled:opacity-50 ${
+      active
+        ? "border-amber-500 bg-amber-500/10 text-amber-400"
+        : "border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:border-zinc-600"
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ ...value, extension: option.id })}
+            className={chipClass(value.extension === option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange({ ...value, extension: "until" })}
+          className={`${chipClass(value.extension === "until")} flex items-center gap-1.5`}
+        >
+          <CalendarClock className="w-3 h-3" />
+          Until date
+        </button>
+      </div>
+      {value.extension === "until" && (
+        <input
+          type="date"
+          min={today}
+          value={value.until.slice(0, 10)}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, until: e.target.value })}
+          className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-amber-500"
+        />
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
     Plus,
@@ -11,16 +11,29 @@ import {
     ExternalLink,
     Trash2,
     Eye,
-    EyeOff
+    EyeOff,
+    Upload,
+    FileText,
+    Search
 } from "lucide-react";
-import { parseJavaMapString, OBSERVABILITY_SOURCE_TYPES } from "@/lib/utils";
+import { parseJavaMapString, formatDate, formatRelativeTime, OBSERVABILITY_SOURCE_TYPES } from "@/lib/utils";
+import {
+  DEFAULT_PROMQL_LABEL,
+  DEFAULT_PROMQL_METRIC,
+  DEFAULT_PROMQL_TEMPLATE,
+  PROMETHEUS_SOURCE_TYPES,
+} from "@/lib/prometheus";
 
-// Source can be either array format (from creation) or object format
+// Source can be either array format (from creation) or object format.
+// Tokens never reach the browser - only a masked fingerprint does.
 type ObservabilitySource = {
   type: string;
   url: string;
-  token?: string | null;
+  tokenFingerprint?: string | null;
   userId?: string | null;
+  metric?: string | null;
+  routeLabel?: string | null;
+  queryTemplate?: string | null;
 };
 
 type ObservabilityData = ObservabilitySource[] | Record<string, string> | null;
@@ -32,6 +45,59 @@ interface ObservationSourcesProps {
   onSourcesChange: () => void;
 }
 
+interface UnmatchedSample {
+  method: string | null;
+  path: string;
+  count: number;
+}
+
+interface AccessLogImportResult {
+  importId: string;
+  format: string;
+  lineCount: number;
+  parsedCount: number;
+  matchedCount: number;
+  syntheticCount: number;
+  eventCount: number;
+  candidateCount: number;
+  firstRequestAt: string | null;
+  lastRequestAt: string | null;
+  unmatchedSamples: UnmatchedSample[];
+}
+
+interface AccessLogImportRow {
+  import_id: string;
+  file_name: string | null;
+  log_format: string;
+  parsed_count: number;
+  matched_count: number;
+  created_at: string;
+}
+
+interface SourceMapping {
+  metric: string;
+  routeLabel: string;
+  queryTemplate: string;
+}
+
+interface DiscoveryResult {
+  metrics: {
+    name: string;
+    seriesCount: number;
+    labels: { name: string; sampleValues: string[]; pathValueCount: number; matchedCandidates: number }[];
+  }[];
+  suggestion: SourceMapping | null;
+  candidates: { candidateId: number; entityName: string | null; method: string | null; routePath: string; values: string[] }[];
+  unmatchedValues: string[];
+}
+
+const ACCESS_LOG_FORMAT_OPTIONS = [
+  { id: "auto", label: "Detect format" },
+  { id: "combined", label: "nginx / Apache combined" },
+  { id: "alb", label: "AWS ALB" },
+  { id: "json", label: "JSON lines" },
+];
+
 // Normalize data to array format
 function normalizeSourcesData(data: ObservabilityData): ObservabilitySource[] {
   if (!data) return [];
@@ -58,7 +124,7 @@ function normalizeSourcesData(data: ObservabilityData): ObservabilitySource[] {
     return Object.entries(data).map(([type, url]) => ({
       type,
       url: String(url),
-      token: null
+      tokenFingerprint: null
     }));
   }
   
@@ -228,7 +294,7 @@ export function ObservationSources({
                   <span className="flex-1 text-sm text-zinc-300 truncate font-mono">
                     {source.url}
                   </span>
-                  {source.token && (
+                  {source.tokenFingerprint && (
                     <span className="text-xs text-zinc-500 px-1.5 py-0.5 bg-zinc-700/50 rounded">
                       Auth
                     </span>
@@ -271,11 +337,11 @@ export function ObservationSources({
                             <ExternalLink className="w-3 h-3 inline ml-1" />
                           </a>
                         </div>
-                        {source.token && (
+                        {source.tokenFingerprint && (
                           <div>
                             <span className="text-zinc-500">Token: </span>
                             <span className="text-zinc-400 font-mono">
-                              {source.token.substring(0, 20)}...
+                              {source.tokenFingerprint}
                             </span>
                           </div>
                         )}
@@ -285,6 +351,17 @@ export function ObservationSources({
                             <span className="text-zinc-400 font-mono">{source.userId}</span>
                           </div>
                         )}
+                        {PROMETHEUS_SOURCE_TYPES.includes(source.type) && (
+                          <SourceMappingEditor
+                            watcherId={watcherId}
+                            index={index}
+                            source={source}
+                            onSaved={(updated) => {
+                              setSources(normalizeSourcesData(updated));
+                              onSourcesChange();
+                            }}
+                          />
+                        )}
                       </div>
                     </motion.div>
                   )}
@@ -441,6 +518,349 @@ export function ObservationSources({
           </motion.button>
         )}
       </AnimatePresence>
+
+      <AccessLogImport watcherId={watcherId} onImported={onSourcesChange} />
+    </div>
+  );
+}
+
+function SourceMappingEditor({
+  watcherId,
+  index,
+  source,
+  onSaved,
+}: {
+  watcherId: string;
+  index: number;
+  source: ObservabilitySource;
+  onSaved: (sources: ObservabilityData) => void;
+}) {
+  const [mapping, setMapping] = useState<SourceMapping>({
+    metric: source.metric || DEFAULT_PROMQL_METRIC,
+    routeLabel: source.routeLabel || DEFAULT_PROMQL_LABEL,
+    queryTemplate: source.queryTemplate || DEFAULT_PROMQL_TEMPLATE,
+  });
+  const [discovery, setDiscovery] = useState<DiscoveryResult | null>(null);
+  const [discovering, setDiscovering] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ valid: boolean; text: string } | null>(null);
+
+  const handleDiscover = async () => {
+    setDiscovering(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/sources/${index}/discover`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to discover labels");
+      }
+      setDiscovery(data);
+      if (data.suggestion) setMapping(data.suggestion);
+      else setMessage({ valid: false, text: "No HTTP request counters with path labels found" });
+    } catch (err) {
+      setMessage({ valid: false, text: err instanceof Error ? err.message : "Failed to discover labels" });
+    } finally {
+      setDiscovering(false);
+    }
+  };
+
+  const handleSave = async (reset = false) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/sources`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "mapping", index, mapping: reset ? null : mapping }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.expression ? `${data.error} (${data.expression})` : data.error || "Failed to save mapping");
+      }
+
+      if (reset) {
+        setMapping({
+          metric: DEFAULT_PROMQL_METRIC,
+          routeLabel: DEFAULT_PROMQL_LABEL,
+          queryTemplate: DEFAULT_PROMQL_TEMPLATE,
+        });
+      }
+      setMessage({
+        valid: true,
+        text: data.validation
+          ? `Saved. ${data.validation.expression} returned ${data.validation.seriesCount} series in ${data.validation.responseTimeMs}ms`
+          : "Reset to defaults",
+      });
+      onSaved(data.sources);
+    } catch (err) {
+      setMessage({ valid: false, text: err instanceof Error ? err.message : "Failed to save mapping" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const labelOptions = discovery?.metrics.find((metric) => metric.name === mapping.metric)?.labels ?? [];
+  const inputClass =
+    "w-full bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-white font-mono placeholder-zinc-600 focus:outline-none focus:border-emerald-500";
+
+  return (
+    <div className="pt-2 mt-2 border-t border-zinc-700/50 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-zinc-500">Metric mapping</span>
+        <button
+          onClick={handleDiscover}
+          disabled={discovering}
+          className="px-2 py-1 text-xs text-zinc-300 bg-zinc-700 hover:bg-zinc-600 rounded transition-colors disabled:opacity-50 flex items-center gap-1"
+        >
+          {discovering ? <Loader2 className="w-3 h-3 animate-spin" /> : <Search className="w-3 h-3" />}
+          Discover
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-zinc-500 mb-1 block">Metric ($metric)</label>
+          <input
+            list={`metrics-${index}`}
+            value={mapping.metric}
+            onChange={(e) => setMapping({ ...mapping, metric: e.target.value })}
+            className={inputClass}
+          />
+          <datalist id={`metrics-${index}`}>
+            {discovery?.metrics.map((metric) => (
+              <option key={metric.name} value={metric.name}>
+                {metric.seriesCount} series
+              </option>
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="text-zinc-500 mb-1 block">Route label ($label)</label>
+          <input
+            list={`labels-${index}`}
+            value={mapping.routeLabel}
+            onChange={(e) => setMapping({ ...mapping, routeLabel: e.target.value })}
+            className={inputClass}
+          />
+          <datalist id={`labels-${index}`}>
+            {labelOptions.map((label) => (
+              <option key={label.name} value={label.name}>
+                {label.matchedCandidates} endpoints
+              </option>
+            ))}
+          </datalist>
+        </div>
+      </div>
+      <div>
+        <label className="text-zinc-500 mb-1 block">PromQL template ($route is the endpoint&apos;s route regex)</label>
+        <input
+          value={mapping.queryTemplate}
+          onChange={(e) => setMapping({ ...mapping, queryTemplate: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+
+      {discovery && discovery.candidates.length > 0 && (
+        <div>
+          <p className="text-zinc-500 mb-1">
+            Suggested mapping reaches {discovery.candidates.filter((c) => c.values.length > 0).length} of{" "}
+            {discovery.candidates.length} endpoints
+          </p>
+          <div className="space-y-0.5 max-h-32 overflow-y-auto font-mono">
+            {discovery.candidates.map((candidate) => (
+              <div key={candidate.candidateId} className="flex items-center gap-2">
+                <span className="text-zinc-500 w-14 shrink-0">{candidate.method || "-"}</span>
+                <span className="text-zinc-300 truncate">{candidate.routePath}</span>
+                <span className={`ml-auto truncate ${candidate.values.length ? "text-emerald-400" : "text-zinc-600"}`}>
+                  {candidate.values.length ? candidate.values.join(", ") : "no series"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className={`flex items-center gap-2 ${message.valid ? "text-emerald-400" : "text-red-400"}`}>
+          {message.valid ? <Check className="w-3 h-3 shrink-0" /> : <AlertCircle className="w-3 h-3 shrink-0" />}
+          <span className="break-all">{message.text}</span>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {source.metric && (
+          <button
+            onClick={() => handleSave(true)}
+            disabled={saving}
+            className="px-2 py-1 text-xs text-zinc-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            Reset
+          </button>
+        )}
+        <button
+          onClick={() => handleSave()}
+          disabled={saving}
+          className="px-2 py-1 text-xs font-medium bg-emerald-600 hover:bg-emerald-500 text-white rounded transition-colors disabled:opacity-50 flex items-center gap-1"
+        >
+          {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+          Save Mapping
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function AccessLogImport({ watcherId, onImported }: { watcherId: string; onImported: () => void }) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState("auto");
+  const [uploading, setUploading] = useState(false);
+  const [result, setResult] = useState<AccessLogImportResult | null>(null);
+  const [imports, setImports] = useState<AccessLogImportRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchImports = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/logs/import`);
+      const data = await response.json();
+      if (response.ok) setImports(data.imports);
+    } catch {
+      // The history is informational; uploads still work without it
+    }
+  }, [watcherId]);
+
+  useEffect(() => {
+    fetchImports();
+  }, [fetchImports]);
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const params = new URLSearchParams({ filename: file.name, format });
+      const response = await fetch(`/api/watchers/${watcherId}/logs/import?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import access log");
+      }
+
+      setResult(data.import);
+      onImported();
+      await fetchImports();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import access log");
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-zinc-800">
+      <p className="text-xs text-zinc-500 uppercase tracking-wider">Access Log Import</p>
+      <p className="text-xs text-zinc-500">
+        Upload a gzipped nginx / Apache combined log, AWS ALB log or JSON lines. Requests are matched to
+        endpoints by path and method and stored as hourly observations.
+      </p>
+
+      <div className="flex gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value)}
+          disabled={uploading}
+          className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+        >
+          {ACCESS_LOG_FORMAT_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".gz,.log,.txt,.json,.jsonl,.ndjson"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUpload(file);
+          }}
+        />
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={uploading}
+          className="flex-1 px-3 py-2 text-sm font-medium bg-zinc-700 hover:bg-zinc-600 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {uploading ? "Importing..." : "Upload Access Log"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-xs text-red-400">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-zinc-800/50 rounded-lg p-3 space-y-3 text-xs">
+          <div className="grid grid-cols-3 gap-2">
+            {[
+              { label: "Lines parsed", value: `${result.parsedCount.toLocaleString()} / ${result.lineCount.toLocaleString()}` },
+              { label: "Matched", value: result.matchedCount.toLocaleString() },
+              { label: "Synthetic", value: result.syntheticCount.toLocaleString() },
+              { label: "Endpoints with traffic", value: result.candidateCount.toLocaleString() },
+              { label: "Hourly observations", value: result.eventCount.toLocaleString() },
+              { label: "Format", value: result.format },
+            ].map((stat) => (
+              <div key={stat.label}>
+                <p className="text-zinc-500">{stat.label}</p>
+                <p className="text-white font-medium">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+          {result.firstRequestAt && (
+            <p className="text-zinc-500">
+              {formatDate(result.firstRequestAt)} – {formatDate(result.lastRequestAt)}
+            </p>
+          )}
+          {result.unmatchedSamples.length > 0 && (
+            <div>
+              <p className="text-zinc-500 mb-1">Unmatched paths</p>
+              <div className="space-y-0.5 max-h-40 overflow-y-auto">
+                {result.unmatchedSamples.map((sample) => (
+                  <div key={`${sample.method} ${sample.path}`} className="flex items-center gap-2 font-mono">
+                    <span className="text-zinc-500 w-14 shrink-0">{sample.method || "-"}</span>
+                    <span className="flex-1 text-zinc-300 truncate">{sample.path}</span>
+                    <span className="text-zinc-500">{sample.count.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {imports.length > 0 && (
+        <div className="space-y-1">
+          {imports.slice(0, 5).map((item) => (
+            <div key={item.import_id} className="flex items-center gap-2 text-xs text-zinc-500">
+              <FileText className="w-3 h-3 shrink-0" />
+              <span className="flex-1 text-zinc-400 truncate font-mono">{item.file_name}</span>
+              <span>
+                {item.matched_count.toLocaleString()} / {item.parsed_count.toLocaleString()} matched
+              </span>
+              <span>{formatRelativeTime(item.created_at)}</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { AlertCircle, Loader2, KeyRound, RefreshCw, Trash2, Copy, Check } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils";
+
+interface OtlpIngestProps {
+  watcherId: string;
+}
+
+interface OtlpKeyStatus {
+  enabled: boolean;
+  fingerprint: string | null;
+  createdAt: string | null;
+  lastReceivedAt: string | null;
+  endpoint: string;
+}
+
+function CopyButton({ value, title }: { value: string; title: string }) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <button
+      onClick={() => {
+        navigator.clipboard.writeText(value);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      }}
+      className="p-1 text-zinc-500 hover:text-white transition-colors shrink-0"
+      title={title}
+    >
+      {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+    </button>
+  );
+}
+
+export function OtlpIngest({ watcherId }: OtlpIngestProps) {
+  const [status, setStatus] = useState<OtlpKeyStatus | null>(null);
+  // Plaintext key, only known right after it was generated
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/otlp-key`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch OTLP ingest key");
+      }
+      setStatus(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [watcherId]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleGenerate = async () => {
+    if (status?.enabled && !confirm("Rotate the ingest key? Collectors using the current key will be rejected.")) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/otlp-key`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate OTLP ingest key");
+      }
+      setNewKey(data.key);
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm("Revoke the ingest key? This watcher will stop accepting traces.")) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/otlp-key`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revoke OTLP ingest key");
+      }
+      setNewKey(null);
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-5 h-5 text-zinc-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-zinc-500">
+        Services that export OpenTelemetry traces can push them here instead of being polled. Server and
+        consumer spans are matched to candidates by <code>http.route</code>, <code>messaging.destination</code>{" "}
+        and <code>rpc.service</code>.
+      </p>
+
+      {status && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 p-2 bg-zinc-800/50 rounded-lg">
+            <span className="text-xs text-zinc-500 w-20 shrink-0">Endpoint</span>
+            <code className="flex-1 text-sm text-zinc-300 truncate">{status.endpoint}</code>
+            <CopyButton value={status.endpoint} title="Copy endpoint" />
+          </div>
+
+          {status.enabled && (
+            <div className="flex items-center gap-2 p-2 bg-zinc-800/50 rounded-lg">
+              <span className="text-xs text-zinc-500 w-20 shrink-0">Key</span>
+              <code className="flex-1 text-sm text-zinc-300 truncate">{status.fingerprint}</code>
+              <span className="text-xs text-zinc-500 shrink-0">
+                {status.lastReceivedAt
+                  ? `Last spans ${formatRelativeTime(status.lastReceivedAt)}`
+                  : "No spans received yet"}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {newKey && (
+        <div className="p-3 bg-emerald-500/10 border border-emerald-500/30 rounded-lg space-y-2">
+          <p className="text-xs text-emerald-400">
+            Copy this key now; it will not be shown again. Send it as <code>Authorization: Bearer &lt;key&gt;</code>.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-sm text-white break-all">{newKey}</code>
+            <CopyButton value={newKey} title="Copy key" />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-xs text-red-400">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {status?.enabled && (
+          <button
+            onClick={handleRevoke}
+            disabled={saving}
+            data-variant="wanda"
+            className="px-3 py-1.5 text-xs font-medium text-red-400 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1.5"
+          >
+            <Trash2 className="w-3 h-3" />
+            Revoke
+          </button>
+        )}
+        <button
+          onClick={handleGenerate}
+          disabled={saving}
+          className="px-3 py-1.5 text-xs font-medium bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1.5"
+        >
+          {saving ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : status?.enabled ? (
+            <RefreshCw className="w-3 h-3" />
+          ) : (
+            <KeyRound className="w-3 h-3" />
+          )}
+          {status?.enabled ? "Rotate Key" : "Generate Ingest Key"}
+        </button>
+      </div>
+    </div>
+  );
+}
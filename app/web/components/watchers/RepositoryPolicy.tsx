@@ -0,0 +1,260 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { AlertCircle, AlertTriangle, CheckCircle, FileCode, Loader2, Users, X } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils";
+
+interface PolicyIssue {
+  path: string;
+  message: string;
+  line?: number;
+}
+
+type ScheduleDefaults = { scanFrequencyMinutes: number; analysisPeriodHours: number };
+
+interface PolicyValidation {
+  valid: boolean;
+  errors: PolicyIssue[];
+  warnings: PolicyIssue[];
+  policy: {
+    owners: string[];
+    exclusions: { ruleType: string; pattern: string; reason: string | null }[];
+    kill: { minFinalScore: number | null };
+  } | null;
+  effectiveSchedule: Record<string, ScheduleDefaults>;
+}
+
+export interface WatcherPolicy extends PolicyValidation {
+  path: string | null;
+  commit: string | null;
+  loadedAt: string | null;
+}
+
+interface RepositoryPolicyProps {
+  watcherId: string;
+  policy: WatcherPolicy | null;
+}
+
+const ENTITY_TYPE_LABELS: Record<string, string> = {
+  http_endpoint: "HTTP endpoints",
+  grpc_service: "gRPC services",
+  graphql_resolver: "GraphQL resolvers",
+  cron_job: "Cron jobs",
+  queue_worker: "Queue workers",
+  serverless_function: "Serverless functions",
+  websocket: "WebSockets",
+};
+
+const EXAMPLE_POLICY = `version: 1
+owners: ["@platform-team"]
+exclusions:
+  - path: /api/health/**
+    reason: Load balancer probe
+schedule:
+  default: { scan_frequency_minutes: 60, analysis_period_hours: 168 }
+kill:
+  min_final_score: 80`;
+
+function formatHours(hours: number) {
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+}
+
+function IssueList({ errors, warnings }: { errors: PolicyIssue[]; warnings: PolicyIssue[] }) {
+  if (errors.length === 0 && warnings.length === 0) return null;
+  return (
+    <ul className="space-y-1">
+      {[...errors.map((issue) => ({ issue, error: true })), ...warnings.map((issue) => ({ issue, error: false }))].map(
+        ({ issue, error }, index) => (
+          <li
+            key={index}
+            className={`flex items-start gap-2 text-xs ${error ? "text-red-400" : "text-yellow-400"}`}
+          >
+            {error ? <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />}
+            <span>
+              {issue.path && <code className="font-mono">{issue.path}</code>}
+              {issue.line !== undefined && ` (line ${issue.line})`}
+              {issue.path || issue.line !== undefined ? ": " : ""}
+              {issue.message}
+            </span>
+          </li>
+        )
+      )}
+    </ul>
+  );
+}
+
+export function RepositoryPolicy({ watcherId, policy }: RepositoryPolicyProps) {
+  const [showValidator, setShowValidator] = useState(false);
+  const [content, setContent] = useState("");
+  const [validating, setValidating] = useState(false);
+  const [result, setResult] = useState<PolicyValidation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleValidate = async () => {
+    setValidating(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/policy/validate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to validate policy");
+      }
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const openValidator = () => {
+    setContent(policy ? "" : EXAMPLE_POLICY);
+    setResult(null);
+    setError(null);
+    setShowValidator(true);
+  };
+
+  // Only list entity types whose schedule differs from the built-in defaults
+  const overrides = policy
+    ? Object.entries(policy.effectiveSchedule).filter(
+        ([, d]) => d.scanFrequencyMinutes !== 60 || d.analysisPeriodHours !== 24
+      )
+    : [];
+
+  return (
+    <div className="space-y-4">
+      {policy ? (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <FileCode className="w-4 h-4 text-zinc-500" />
+            <code className="font-mono text-zinc-300">{policy.path}</code>
+            {policy.commit && (
+              <code className="font-mono text-xs text-purple-400">{policy.commit.slice(0, 7)}</code>
+            )}
+            {policy.loadedAt && (
+              <span className="text-xs text-zinc-500">loaded {formatRelativeTime(policy.loadedAt)}</span>
+            )}
+            <span
+              className={`ml-auto text-xs px-1.5 py-0.5 rounded ${
+                policy.valid ? "text-emerald-400 bg-emerald-500/10" : "text-red-400 bg-red-500/10"
+              }`}
+            >
+              {policy.valid ? "Valid" : `${policy.errors.length} error${policy.errors.length === 1 ? "" : "s"}`}
+            </span>
+          </div>
+
+          {policy.policy && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              <div className="bg-zinc-800/50 rounded-lg p-3">
+                <p className="text-xs text-zinc-500 mb-1 flex items-center gap-1.5">
+                  <Users className="w-3 h-3" />
+                  Owners
+                </p>
+                {policy.policy.owners.length > 0 ? (
+                  <p className="text-zinc-300">{policy.policy.owners.join(", ")}</p>
+                ) : (
+                  <p className="text-zinc-500 italic">None listed</p>
+                )}
+              </div>
+              <div className="bg-zinc-800/50 rounded-lg p-3">
+                <p className="text-xs text-zinc-500 mb-1">Minimum final score to kill</p>
+                <p className="text-zinc-300">
+                  {policy.policy.kill.minFinalScore !== null ? policy.policy.kill.minFinalScore : "Not set"}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {overrides.length > 0 && (
+            <div>
+              <p className="text-xs text-zinc-500 mb-2">Schedule defaults</p>
+              <div className="space-y-1">
+                {overrides.map(([type, defaults]) => (
+                  <div key={type} className="flex items-center justify-between text-xs px-2 py-1 bg-zinc-800/50 rounded">
+                    <span className="text-zinc-400">{ENTITY_TYPE_LABELS[type] || type}</span>
+                    <span className="text-zinc-300">
+                      every {defaults.scanFrequencyMinutes} min for {formatHours(defaults.analysisPeriodHours)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <IssueList errors={policy.errors} warnings={policy.warnings} />
+        </>
+      ) : (
+        <p className="text-sm text-zinc-500 italic">
+          No <code className="font-mono">.doomsday.yml</code> found at the repository root on the last scan.
+        </p>
+      )}
+
+      <AnimatePresence>
+        {showValidator ? (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            className="bg-zinc-800/30 rounded-lg p-4 border border-zinc-700/50 space-y-3"
+          >
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-white">Validate a policy file</p>
+              <button onClick={() => setShowValidator(false)} className="p-1 text-zinc-500 hover:text-white">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={10}
+              spellCheck={false}
+              placeholder="Paste your .doomsday.yml"
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-xs text-white font-mono placeholder-zinc-600 focus:outline-none focus:border-emerald-500"
+            />
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            {result && (
+              <div className="space-y-2">
+                {result.valid && (
+                  <p className="flex items-center gap-2 text-xs text-emerald-400">
+                    <CheckCircle className="w-3 h-3" />
+                    Valid policy
+                    {result.policy && ` · ${result.policy.exclusions.length} exclusion${result.policy.exclusions.length === 1 ? "" : "s"}`}
+                  </p>
+                )}
+                <IssueList errors={result.errors} warnings={result.warnings} />
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleValidate}
+                disabled={validating || !content.trim()}
+                className="px-3 py-1.5 text-xs font-medium bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1.5"
+              >
+                {validating && <Loader2 className="w-3 h-3 animate-spin" />}
+                Validate
+              </button>
+            </div>
+          </motion.div>
+        ) : (
+          <motion.button
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            onClick={openValidator}
+            className="w-full py-2 border border-dashed border-zinc-700 hover:border-emerald-500/50 rounded-lg text-sm text-zinc-500 hover:text-emerald-400 transition-colors flex items-center justify-center gap-2"
+          >
+            <FileCode className="w-4 h-4" />
+            Validate a policy file
+          </motion.button>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft,
+  ArrowRight,
+  GitCommit,
+  Plus,
+  Minus,
+  RefreshCw,
+  Loader2,
+  AlertTriangle,
+  FileCode
+} from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils";
+
+interface ScanSummary {
+  scan_id: number;
+  scan_type: "creation" | "rescan" | "manual";
+  scan_number: number;
+  commit_hash: string | null;
+  commit_message: string | null;
+  commit_author: string | null;
+  commit_date: string | null;
+  branch: string | null;
+  triggered_by: string | null;
+  created_at: string;
+}
+
+interface ScanChange {
+  scan_id: number;
+  entity_type: string;
+  entity_signature: string;
+  entity_name: string | null;
+  file_path: string | null;
+  previous_file_path: string | null;
+}
+
+interface ScanDiffResponse {
+  scan: ScanSummary;
+  base: ScanSummary | null;
+  diff: {
+    added: ScanChange[];
+    updated: ScanChange[];
+    removed: ScanChange[];
+    complete: boolean;
+  };
+}
+
+interface ScanDiffViewProps {
+  watcherId: string;
+  scanId: number;
+  scans: ScanSummary[];
+  onBack: () => void;
+}
+
+const scanLabel = (scan: Pick<ScanSummary, "scan_type" | "scan_number">) =>
+  scan.scan_type === "creation"
+    ? "Initial Scan"
+    : scan.scan_type === "manual"
+    ? `Manual Rescan #${scan.scan_number}`
+    : `Rescan #${scan.scan_number}`;
+
+const SECTIONS = [
+  { key: "added", title: "Added", icon: Plus, color: "text-emerald-400", border: "border-emerald-500/30" },
+  { key: "updated", title: "Updated", icon: RefreshCw, color: "text-blue-400", border: "border-blue-500/30" },
+  { key: "removed", title: "Removed", icon: Minus, color: "text-red-400", border: "border-red-500/30" },
+] as const;
+
+const CommitInfo = ({ scan }: { scan: ScanSummary }) => (
+  <div className="flex items-start gap-2 p-3 bg-zinc-900/50 rounded-lg min-w-0">
+    <GitCommit className="w-4 h-4 text-zinc-500 mt-0.5 shrink-0" />
+    <div className="min-w-0 flex-1">
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-xs font-medium text-white">{scanLabel(scan)}</span>
+        {scan.commit_hash && (
+          <code className="text-xs font-mono text-purple-400">{scan.commit_hash.slice(0, 7)}</code>
+        )}
+        {scan.branch && <span className="text-xs text-zinc-500">on {scan.branch}</span>}
+      </div>
+      {scan.commit_message && <p className="text-xs text-zinc-400 truncate">{scan.commit_message}</p>}
+      <p className="text-xs text-zinc-500 mt-1">
+        {scan.commit_author ? `by ${scan.commit_author} · ` : ""}
+        {formatRelativeTime(scan.created_at)}
+      </p>
+    </div>
+  </div>
+);
+
+export function ScanDiffView({ watcherId, scanId, scans, onBack }: ScanDiffViewProps) {
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [data, setData] = useState<ScanDiffResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDiff = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const query = compareTo !== null ? `?compareTo=${compareTo}` : "";
+        const response = await fetch(`/api/watchers/${watcherId}/history/${scanId}${query}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to fetch scan diff");
+        }
+        if (!cancelled) setData(result);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [watcherId, scanId, compareTo]);
+
+  const totalChanges = data ? data.diff.added.length + data.diff.updated.length + data.diff.removed.length : 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-3.5 h-3.5" />
+          Back to history
+        </button>
+        <select
+          value={compareTo ?? ""}
+          onChange={(e) => setCompareTo(e.target.value ? parseInt(e.target.value, 10) : null)}
+          className="px-3 py-1.5 text-xs bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-300 focus:outline-none focus:border-purple-500"
+        >
+          <option value="">Changes in this scan</option>
+          {scans
+            .filter((scan) => scan.scan_id !== scanId)
+            .map((scan) => (
+              <option key={scan.scan_id} value={scan.scan_id}>
+                Compare with {scanLabel(scan)}
+                {scan.commit_hash ? ` (${scan.commit_hash.slice(0, 7)})` : ""}
+              </option>
+            ))}
+        </select>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-purple-400 animate-spin" />
+        </div>
+      )}
+
+      {!loading && error && (
+        <div className="flex items-center gap-2 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-sm text-red-400">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && data && (
+        <>
+          {/* Commit Info */}
+          {data.base ? (
+            <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+              <CommitInfo scan={data.base} />
+              <ArrowRight className="w-4 h-4 text-zinc-500" />
+              <CommitInfo scan={data.scan} />
+            </div>
+          ) : (
+            <CommitInfo scan={data.scan} />
+          )}
+
+          {!data.diff.complete && (
+            <div className="flex items-center gap-2 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-xs text-yellow-400">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              Some scans in this range ran before per-scan diffs were recorded, so this list may be incomplete.
+            </div>
+          )}
+
+          {totalChanges === 0 && (
+            <div className="text-center py-12">
+              <FileCode className="w-12 h-12 text-zinc-600 mx-auto mb-3" />
+              <p className="text-zinc-400">No candidate changes.</p>
+            </div>
+          )}
+
+          {SECTIONS.map(({ key, title, icon: Icon, color, border }) => {
+            const changes = data.diff[key];
+            if (changes.length === 0) return null;
+
+            return (
+              <div key={key} className={`bg-zinc-800/30 rounded-xl p-4 border ${border}`}>
+                <div className={`flex items-center gap-2 mb-3 text-sm font-medium ${color}`}>
+                  <Icon className="w-4 h-4" />
+                  {title}
+                  <span className="px-1.5 py-0.5 text-xs rounded-full bg-zinc-700 text-zinc-300">{changes.length}</span>
+                </div>
+                <div className="space-y-2">
+                  {changes.map((change, index) => (
+                    <motion.div
+                      key={`${change.entity_type}:${change.entity_signature}`}
+                      initial={{ opacity: 0, y: 5 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: Math.min(index, 20) * 0.02 }}
+                      className="p-2 bg-zinc-900/50 rounded-lg"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="px-1.5 py-0.5 text-xs bg-zinc-700/50 text-zinc-400 rounded">
+                          {change.entity_type.replace(/_/g, " ")}
+                        </span>
+                        <code className="text-xs font-mono text-white truncate">{change.entity_signature}</code>
+                      </div>
+                      {key === "updated" && change.previous_file_path ? (
+                        <p className="text-xs font-mono text-zinc-500 mt-1 truncate">
+                          <span className="line-through">{change.previous_file_path}</span>
+                          {" → "}
+                          <span className="text-zinc-400">{change.file_path}</span>
+                        </p>
+                      ) : (
+                        change.file_path && (
+                          <p className="text-xs font-mono text-zinc-500 mt-1 truncate">{change.file_path}</p>
+                        )
+                      )}
+                    </motion.div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
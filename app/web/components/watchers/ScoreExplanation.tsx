@@ -0,0 +1,175 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ChevronDown, ChevronRight, Loader2, AlertTriangle, Sigma } from "lucide-react";
+
+interface Explanation {
+  storedScore: number;
+  probabilityDead: number;
+  score: number;
+  model: "poisson_gamma" | "cron_cadence";
+  components: {
+    prior: { probabilityDead: number; reason: string };
+    quietWindow: {
+      observations: number;
+      hours: number;
+      effectiveHours: number;
+      sourceCoverage: number | null;
+    };
+    historicalRate: {
+      requests: number;
+      hours: number;
+      requestsPerHour: number;
+      weight: number;
+    } | null;
+    cronCadence: {
+      schedule: string;
+      intervalMinutes: number;
+      expectedRuns: number;
+    } | null;
+    expectedRequestsIfAlive: number;
+    likelihoodIfAlive: number;
+    bayesFactor: number;
+  };
+}
+
+interface ScoreExplanationProps {
+  candidateId: string;
+  // Changes whenever the candidate is reloaded so the breakdown follows the score
+  refreshKey?: string;
+}
+
+const MODEL_LABELS: Record<Explanation["model"], string> = {
+  poisson_gamma: "Request rate (Poisson-Gamma)",
+  cron_cadence: "Cron cadence",
+};
+
+function formatHours(hours: number) {
+  if (hours >= 48) return `${Math.round(hours / 24)} days`;
+  if (hours >= 1) return `${Math.round(hours * 10) / 10} h`;
+  return `${Math.round(hours * 60)} min`;
+}
+
+function formatProbability(value: number) {
+  if (value > 0 && value < 0.001) return value.toExponential(1);
+  return `${Math.round(value * 1000) / 10}%`;
+}
+
+function Row({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="flex items-baseline justify-between gap-3">
+      <span className="text-xs text-zinc-500">{label}</span>
+      <span className="text-xs text-zinc-300 text-right" title={hint}>{value}</span>
+    </div>
+  );
+}
+
+export function ScoreExplanation({ candidateId, refreshKey }: ScoreExplanationProps) {
+  const [open, setOpen] = useState(false);
+  const [explanation, setExplanation] = useState<Explanation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/candidates/${candidateId}/score-explanation`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to explain score");
+        }
+        if (!cancelled) setExplanation(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, candidateId, refreshKey]);
+
+  const c = explanation?.components;
+
+  return (
+    <div>
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="flex items-center gap-1.5 text-xs text-zinc-400 hover:text-white transition-colors"
+      >
+        {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        <Sigma className="w-3.5 h-3.5" />
+        Why this score?
+      </button>
+
+      {open && (
+        <div className="mt-2 p-3 bg-zinc-800/50 rounded-lg space-y-1.5">
+          {loading && !explanation ? (
+            <div className="flex items-center justify-center py-3">
+              <Loader2 className="w-4 h-4 text-purple-400 animate-spin" />
+            </div>
+          ) : error ? (
+            <div className="flex items-center gap-2 text-xs text-red-400">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+              {error}
+            </div>
+          ) : explanation && c ? (
+            <>
+              <Row label="Model" value={MODEL_LABELS[explanation.model]} />
+              <Row
+                label="Prior P(dead)"
+                value={formatProbability(c.prior.probabilityDead)}
+                hint={c.prior.reason}
+              />
+              <Row
+                label="Quiet time"
+                value={`${formatHours(c.quietWindow.effectiveHours)} over ${c.quietWindow.observations} observations`}
+                hint={
+                  c.quietWindow.sourceCoverage !== null
+                    ? `${formatHours(c.quietWindow.hours)} observed, ${Math.round(c.quietWindow.sourceCoverage * 100)}% of sources answering`
+                    : undefined
+                }
+              />
+              {c.historicalRate && (
+                <Row
+                  label="Historical rate"
+                  value={`${c.historicalRate.requestsPerHour} req/h`}
+                  hint={`${c.historicalRate.requests} requests in ${formatHours(c.historicalRate.hours)}, weighted ${c.historicalRate.weight}`}
+                />
+              )}
+              {c.cronCadence && (
+                <Row
+                  label="Schedule"
+                  value={`${c.cronCadence.schedule} (every ${formatHours(c.cronCadence.intervalMinutes / 60)})`}
+                  hint={`${c.cronCadence.expectedRuns} runs expected in the quiet time`}
+                />
+              )}
+              <Row
+                label={explanation.model === "cron_cadence" ? "Expected runs if alive" : "Expected requests if alive"}
+                value={String(c.expectedRequestsIfAlive)}
+              />
+              <Row label="P(silence | alive)" value={formatProbability(c.likelihoodIfAlive)} />
+              <Row label="Bayes factor" value={`${c.bayesFactor.toLocaleString()}×`} />
+              <div className="pt-1.5 mt-1.5 border-t border-zinc-700">
+                <Row label="P(dead)" value={formatProbability(explanation.probabilityDead)} />
+                {explanation.storedScore !== explanation.score && (
+                  <p className="text-[10px] text-zinc-600 mt-1">
+                    Stored score {explanation.storedScore} updates on the next observation
+                  </p>
+                )}
+              </div>
+            </>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
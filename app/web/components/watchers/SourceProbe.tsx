@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, CheckCircle, Loader2, Stethoscope } from "lucide-react";
+
+interface ProbeResult {
+  index: number;
+  type: string;
+  url: string;
+  expression: string | null;
+  responseTimeMs: number | null;
+  seriesCount: number | null;
+  sample: unknown[];
+  errorType: string | null;
+  errorMessage: string | null;
+}
+
+type ProbeLookback = "window" | "7d";
+
+const LOOKBACK_LABELS: Record<ProbeLookback, string> = {
+  window: "the scan window",
+  "7d": "the last 7 days",
+};
+
+interface SourceProbeProps {
+  candidateId: string;
+}
+
+export function SourceProbe({ candidateId }: SourceProbeProps) {
+  const [results, setResults] = useState<ProbeResult[] | null>(null);
+  const [lookback, setLookback] = useState<ProbeLookback>("window");
+  const [probedLookback, setProbedLookback] = useState<ProbeLookback>("window");
+  const [probing, setProbing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleProbe = async () => {
+    setProbing(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/candidates/${candidateId}/probe`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lookback }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to probe sources");
+      }
+      setResults(data.results);
+      setProbedLookback(data.lookback);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-zinc-800 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex-1 text-xs text-zinc-500">
+          Run the query each source gets from the observation loop, now, to check it matches anything.
+        </p>
+        <select
+          value={lookback}
+          onChange={(e) => setLookback(e.target.value as ProbeLookback)}
+          disabled={probing}
+          className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-emerald-500 shrink-0"
+        >
+          <option value="window">Scan window</option>
+          <option value="7d">Last 7 days</option>
+        </select>
+        <button
+          onClick={handleProbe}
+          disabled={probing}
+          className="px-3 py-1.5 text-xs font-medium bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1.5 shrink-0"
+        >
+          {probing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Stethoscope className="w-3 h-3" />}
+          Probe sources
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-xs text-red-400">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </div>
+      )}
+
+      {results && results.length === 0 && (
+        <p className="text-xs text-zinc-500 italic">The watcher has no observability sources configured.</p>
+      )}
+
+      {results?.map((result) => (
+        <div key={result.index} className="bg-zinc-800/50 rounded-lg p-3 space-y-2 text-xs">
+          <div className="flex items-center gap-2">
+            {result.errorType ? (
+              <AlertCircle className="w-3.5 h-3.5 text-red-400 shrink-0" />
+            ) : (
+              <CheckCircle
+                className={`w-3.5 h-3.5 shrink-0 ${result.seriesCount ? "text-emerald-400" : "text-yellow-400"}`}
+              />
+            )}
+            <span className="font-medium uppercase text-zinc-300">{result.type}</span>
+            <span className="flex-1 text-zinc-500 truncate font-mono">{result.url}</span>
+            {result.responseTimeMs !== null && <span className="text-zinc-500">{result.responseTimeMs}ms</span>}
+          </div>
+
+          {result.expression && (
+            <pre className="bg-zinc-900 rounded p-2 text-zinc-300 whitespace-pre-wrap break-all font-mono">
+              {result.expression}
+            </pre>
+          )}
+
+          {result.errorType ? (
+            <p className="text-red-400">
+              {result.errorType}: {result.errorMessage}
+            </p>
+          ) : (
+            <p className={result.seriesCount ? "text-zinc-400" : "text-yellow-400"}>
+              {result.seriesCount
+                ? `${result.seriesCount} series returned`
+                : `No series - the query matches nothing in ${LOOKBACK_LABELS[probedLookback]}`}
+            </p>
+          )}
+
+          {result.sample.length > 0 && (
+            <details>
+              <summary className="text-zinc-500 cursor-pointer hover:text-zinc-300">Raw sample</summary>
+              <pre className="mt-1 bg-zinc-900 rounded p-2 text-zinc-400 max-h-48 overflow-auto font-mono">
+                {JSON.stringify(result.sample, null, 2)}
+              </pre>
+            </details>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
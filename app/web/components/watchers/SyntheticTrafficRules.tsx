@@ -0,0 +1,308 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Plus, X, AlertCircle, Loader2, Trash2, Pencil, Bot } from "lucide-react";
+import { SYNTHETIC_RULE_PRESETS, SyntheticRuleType } from "@/lib/synthetic-traffic";
+
+interface SyntheticRule {
+  rule_id: number;
+  rule_type: SyntheticRuleType;
+  label_name: string;
+  pattern: string;
+  reason: string | null;
+}
+
+interface SyntheticTrafficRulesProps {
+  watcherId: string;
+}
+
+interface RuleDraft {
+  ruleType: SyntheticRuleType;
+  labelName: string;
+  pattern: string;
+  reason: string;
+}
+
+const RULE_TYPES: { id: SyntheticRuleType; label: string; placeholder: string; color: string }[] = [
+  { id: "user_agent", label: "User agent regex", placeholder: "^kube-probe/", color: "text-purple-400 bg-purple-500/10" },
+  { id: "ip_range", label: "Client IP range", placeholder: "10.0.0.0/8", color: "text-blue-400 bg-blue-500/10" },
+  { id: "label", label: "Label value regex", placeholder: "blackbox", color: "text-orange-400 bg-orange-500/10" },
+  { id: "probe_path", label: "Probe path glob", placeholder: "/healthz", color: "text-emerald-400 bg-emerald-500/10" },
+];
+
+const EMPTY_DRAFT: RuleDraft = { ruleType: "user_agent", labelName: "", pattern: "", reason: "" };
+
+export function SyntheticTrafficRules({ watcherId }: SyntheticTrafficRulesProps) {
+  const [rules, setRules] = useState<SyntheticRule[]>([]);
+  const [totals, setTotals] = useState<{ rawRequests: number; realRequests: number } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // null = closed, 0 = adding, otherwise the rule being edited
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/synthetic-rules`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch synthetic traffic rules");
+      }
+      setRules(data.rules);
+      setTotals(data.last7Days);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [watcherId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const openForm = (rule?: SyntheticRule) => {
+    setError(null);
+    setEditingId(rule ? rule.rule_id : 0);
+    setDraft(
+      rule
+        ? { ruleType: rule.rule_type, labelName: rule.label_name, pattern: rule.pattern, reason: rule.reason || "" }
+        : EMPTY_DRAFT
+    );
+  };
+
+  const handleSave = async () => {
+    if (editingId === null) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const isNew = editingId === 0;
+      const response = await fetch(
+        isNew ? `/api/watchers/${watcherId}/synthetic-rules` : `/api/watchers/${watcherId}/synthetic-rules/${editingId}`,
+        {
+          method: isNew ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(draft),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save synthetic traffic rule");
+      }
+
+      setEditingId(null);
+      await fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (ruleId: number) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/synthetic-rules/${ruleId}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete synthetic traffic rule");
+      }
+      await fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-5 h-5 text-zinc-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const activeType = RULE_TYPES.find((t) => t.id === draft.ruleType) || RULE_TYPES[0];
+  const syntheticRequests = totals ? totals.rawRequests - totals.realRequests : 0;
+  const unusedPresets = SYNTHETIC_RULE_PRESETS.filter(
+    (preset) => !rules.some((rule) => rule.rule_type === preset.ruleType && rule.pattern === preset.pattern)
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-zinc-500">
+        Matching requests still count as raw traffic but not toward the zombie score.{" "}
+        {syntheticRequests > 0 && totals && (
+          <span className="text-purple-400">
+            {syntheticRequests.toLocaleString()} of {totals.rawRequests.toLocaleString()} requests in the last 7 days
+            were synthetic.
+          </span>
+        )}
+      </p>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-zinc-500 italic py-2">No synthetic traffic rules</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => {
+            const type = RULE_TYPES.find((t) => t.id === rule.rule_type);
+            return (
+              <div key={rule.rule_id} className="flex items-center gap-2 p-2 bg-zinc-800/50 rounded-lg group">
+                <Bot className="w-4 h-4 text-zinc-500 shrink-0" />
+                <span className={`text-xs font-medium px-2 py-0.5 rounded shrink-0 ${type?.color}`}>
+                  {type?.label || rule.rule_type}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-zinc-300 font-mono truncate">
+                    {rule.label_name && <span className="text-zinc-500">{rule.label_name} = </span>}
+                    {rule.pattern}
+                  </p>
+                  {rule.reason && <p className="text-xs text-zinc-500 truncate">{rule.reason}</p>}
+                </div>
+                <button
+                  onClick={() => openForm(rule)}
+                  className="p-1 text-zinc-600 hover:text-white opacity-0 group-hover:opacity-100 transition-all"
+                  title="Edit rule"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(rule.rule_id)}
+                  data-variant="wanda"
+                  className="p-1 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && editingId === null && (
+        <div className="flex items-center gap-2 text-xs text-red-400">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {editingId !== null ? (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            className="bg-zinc-800/30 rounded-lg p-4 border border-zinc-700/50 space-y-3"
+          >
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-white">
+                {editingId === 0 ? "Add Synthetic Traffic Rule" : "Edit Synthetic Traffic Rule"}
+              </p>
+              <button onClick={() => setEditingId(null)} className="p-1 text-zinc-500 hover:text-white">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {editingId === 0 && unusedPresets.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {unusedPresets.map((preset) => (
+                  <button
+                    key={preset.name}
+                    onClick={() =>
+                      setDraft({ ruleType: preset.ruleType, labelName: "", pattern: preset.pattern, reason: preset.name })
+                    }
+                    className="px-2 py-1 text-xs text-zinc-400 bg-zinc-800 hover:bg-zinc-700 hover:text-white rounded-md transition-colors"
+                  >
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-[200px_160px_1fr] gap-3">
+              <div>
+                <label className="text-xs text-zinc-500 mb-1 block">Match On</label>
+                <select
+                  value={draft.ruleType}
+                  onChange={(e) => setDraft({ ...draft, ruleType: e.target.value as SyntheticRuleType })}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+                >
+                  {RULE_TYPES.map((type) => (
+                    <option key={type.id} value={type.id}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs text-zinc-500 mb-1 block">
+                  Label {draft.ruleType === "label" ? "" : "(optional)"}
+                </label>
+                <input
+                  type="text"
+                  value={draft.labelName}
+                  onChange={(e) => setDraft({ ...draft, labelName: e.target.value })}
+                  placeholder={draft.ruleType === "label" ? "job" : "default labels"}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white font-mono placeholder-zinc-600 focus:outline-none focus:border-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-zinc-500 mb-1 block">Pattern</label>
+                <input
+                  type="text"
+                  value={draft.pattern}
+                  onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                  placeholder={activeType.placeholder}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white font-mono placeholder-zinc-600 focus:outline-none focus:border-emerald-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs text-zinc-500 mb-1 block">Reason (optional)</label>
+              <input
+                type="text"
+                value={draft.reason}
+                onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+                placeholder="e.g., Kubelet liveness probe"
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:border-emerald-500"
+              />
+            </div>
+
+            <p className="text-xs text-zinc-600">
+              Without a label, rules read the usual labels for their type (e.g. <code>user_agent</code>,{" "}
+              <code>client_ip</code>, <code>route</code>). Loki applies them to the log line.
+            </p>
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <div className="flex justify-end pt-2">
+              <button
+                onClick={handleSave}
+                disabled={saving || !draft.pattern.trim()}
+                className="px-3 py-1.5 text-xs font-medium bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1.5"
+              >
+                {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+                {editingId === 0 ? "Add Rule" : "Save Rule"}
+              </button>
+            </div>
+          </motion.div>
+        ) : (
+          <motion.button
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            onClick={() => openForm()}
+            data-variant="watcher"
+            className="w-full py-2 border border-dashed border-zinc-700 hover:border-yellow-500/50 rounded-lg text-sm text-zinc-500 hover:text-yellow-400 transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Synthetic Traffic Rule
+          </motion.button>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
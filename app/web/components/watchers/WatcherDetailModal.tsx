@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useMemo, useCallback } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import ReactMarkdown from "react-markdown";
 import {
@@ -13,6 +13,7 @@ import {
   ExternalLink,
   Trash2,
   Link2,
+  Radio,
   AlertTriangle,
   GitCommit,
   Plus,
@@ -22,15 +23,25 @@ import {
   CheckCircle,
   XCircle,
   Loader2,
-  HistoryIcon
+  HistoryIcon,
+  Pencil,
+  FileCode,
+  Bot
 } from "lucide-react";
 import { ObservationSources } from "./ObservationSources";
+import { ExclusionRules } from "./ExclusionRules";
+import { SyntheticTrafficRules } from "./SyntheticTrafficRules";
+import { OtlpIngest } from "./OtlpIngest";
+import { RepositoryPolicy, WatcherPolicy } from "./RepositoryPolicy";
 import { CandidateList } from "./CandidateList";
 import { CandidateScheduleModal } from "./CandidateScheduleModal";
+import { ScanDiffView } from "./ScanDiffView";
+import { WatcherEditForm } from "./WatcherEditForm";
 import { ScarletWitchIcon } from "@/components/ui/CustomCursor";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { formatDate, formatRelativeTime } from "@/lib/utils";
 import { AnimatedBorderGlow, WatcherStatusBadge } from "@/components/ui/shared";
+import { useAuth } from "@/contexts/AuthContext";
 
 // Types
 interface WatcherDetails {
@@ -68,7 +79,8 @@ interface WatcherDetails {
   created_at: string;
   updated_at: string;
   application_url: string | null;
-  observability_urls: Record<string, string> | null;
+  observability_urls: { type: string; url: string; userId?: string | null; tokenFingerprint: string | null }[] | null;
+  github_token_fingerprint: string | null;
 }
 
 interface ZombieCandidate {
@@ -97,6 +109,7 @@ interface ZombieCandidate {
   last_traffic_at: string | null;
   traffic_count: number;
   zombie_score: number;
+  is_protected: boolean | null;
   discovered_at: string;
   // Index signature for flexibility with CandidateScheduleModal
   [key: string]: unknown;
@@ -135,6 +148,27 @@ interface ScanHistoryRecord {
   created_at: string;
 }
 
+interface RescanProgress {
+  phase: "starting" | "running" | "completed" | "skipped" | "failed";
+  executionId?: string;
+  taskId?: string;
+  result?: ScanHistoryRecord;
+  error?: string;
+}
+
+// W1 rescan task ids -> progress labels
+const RESCAN_STEPS: Record<string, string> = {
+  validate_and_find_watcher: "Finding watcher",
+  clone_and_discover: "Cloning repository",
+  clone_repo: "Cloning repository",
+  discover_entities: "Discovering entities",
+  extract_git_metadata: "Reading git metadata",
+  llm_analysis: "Analyzing with AI",
+  sync_candidates: "Syncing candidates",
+  store_scan_history: "Recording scan",
+  output_success: "Recording scan",
+};
+
 interface WatcherDetailModalProps {
   watcherId: string;
   userId: string;
@@ -192,30 +226,43 @@ export function WatcherDetailModal({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [watcher, setWatcher] = useState<WatcherDetails | null>(null);
-  const [candidates, setCandidates] = useState<ZombieCandidate[]>([]);
+  const [candidateCounts, setCandidateCounts] = useState<Record<string, number>>({});
+  const [policy, setPolicy] = useState<WatcherPolicy | null>(null);
   const [activeTab, setActiveTab] = useState<"overview" | "candidates" | "analysis" | "history">(initialTab);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showScheduleModal, setShowScheduleModal] = useState(false);
   const [candidatesToSchedule, setCandidatesToSchedule] = useState<ZombieCandidate[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
   
   // Scan history state
   const [scanHistory, setScanHistory] = useState<ScanHistoryRecord[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
   const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [selectedScanId, setSelectedScanId] = useState<number | null>(null);
+
+  // Manual rescan state
+  const { getIdToken } = useAuth();
+  const [rescan, setRescan] = useState<RescanProgress | null>(null);
+  const rescanSourceRef = useRef<EventSource | null>(null);
+
+  const candidateTotal = useMemo(
+    () => Object.values(candidateCounts).reduce((sum, count) => sum + count, 0),
+    [candidateCounts]
+  );
 
   // Derive status from candidates
   const derivedStatus = useMemo(() => {
-    if (candidates.length === 0) return watcher?.status || "pending_schedule";
+    if (candidateTotal === 0) return watcher?.status || "pending_schedule";
     
-    const activeCandidates = candidates.filter(c => c.status === "active").length;
-    const pendingCandidates = candidates.filter(c => c.status === "pending").length;
+    const activeCandidates = candidateCounts.active || 0;
+    const pendingCandidates = candidateCounts.pending || 0;
     
-    if (activeCandidates === candidates.length) return "active";
+    if (activeCandidates === candidateTotal) return "active";
     if (activeCandidates > 0) return "partially_scheduled";
-    if (pendingCandidates === candidates.length) return "pending_schedule";
+    if (pendingCandidates === candidateTotal) return "pending_schedule";
     return watcher?.status || "pending_schedule";
-  }, [candidates, watcher?.status]);
+  }, [candidateCounts, candidateTotal, watcher?.status]);
 
   const fetchDetails = useCallback(async () => {
     try {
@@ -228,7 +275,8 @@ export function WatcherDetailModal({
       }
 
       setWatcher(data.watcher);
-      setCandidates(data.candidates || []);
+      setPolicy(data.policy || null);
+      setCandidateCounts(data.candidateCounts || {});
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
@@ -267,6 +315,95 @@ export function WatcherDetailModal({
     }
   }, [activeTab, historyLoaded, fetchScanHistory]);
 
+  // Close the rescan stream when the modal unmounts
+  useEffect(() => () => rescanSourceRef.current?.close(), []);
+
+  const finishRescan = useCallback(async (executionId: string) => {
+    // The scan_history row carries the added/updated/removed counts
+    let result: ScanHistoryRecord | undefined;
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/history?limit=10`);
+      const data = await response.json();
+      if (response.ok && data.history) {
+        result = (data.history as ScanHistoryRecord[]).find((scan) => scan.kestra_execution_id === executionId);
+      }
+    } catch (err) {
+      console.error("Error fetching rescan result:", err);
+    }
+
+    setRescan({ phase: result ? "completed" : "skipped", executionId, result });
+    setHistoryLoaded(false);
+    fetchDetails();
+  }, [watcherId, fetchDetails]);
+
+  const streamRescan = useCallback(async (executionId: string) => {
+    rescanSourceRef.current?.close();
+    setRescan({ phase: "running", executionId });
+
+    let finished = false;
+
+    // EventSource can't send headers - pass the ID token as a query param
+    const idToken = await getIdToken();
+    const authQuery = idToken ? `?authToken=${encodeURIComponent(idToken)}` : "";
+    const eventSource = new EventSource(`/api/watchers/stream/${executionId}${authQuery}`);
+    rescanSourceRef.current = eventSource;
+
+    eventSource.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+
+        if (data.state === "SUCCESS") {
+          finished = true;
+          eventSource.close();
+          finishRescan(executionId);
+        } else if (data.state === "FAILED" || data.state === "KILLED") {
+          finished = true;
+          eventSource.close();
+          setRescan({ phase: "failed", executionId, error: data.error || `Rescan ${data.state.toLowerCase()}` });
+        } else if (data.taskId) {
+          setRescan((prev) => (prev?.executionId === executionId ? { ...prev, taskId: data.taskId } : prev));
+        }
+      } catch (err) {
+        console.error("SSE parse error:", err);
+      }
+    };
+
+    eventSource.onerror = () => {
+      // Fired when the server closes the stream after a terminal state
+      eventSource.close();
+      if (!finished) {
+        setRescan({ phase: "failed", executionId, error: "Lost connection to rescan progress" });
+      }
+    };
+  }, [getIdToken, finishRescan]);
+
+  const handleRescan = async () => {
+    setRescan({ phase: "starting" });
+    try {
+      const response = await fetch(`/api/watchers/${watcherId}/rescan`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId }),
+      });
+      const data = await response.json();
+
+      // A rescan is already running - follow it instead of starting another
+      if (response.status === 409 && data.executionId) {
+        await streamRescan(data.executionId);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start rescan");
+      }
+
+      await streamRescan(data.executionId);
+    } catch (err) {
+      setRescan({ phase: "failed", error: err instanceof Error ? err.message : "Unknown error" });
+    }
+  };
+
+  const rescanInProgress = rescan?.phase === "starting" || rescan?.phase === "running";
+
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
@@ -391,6 +528,25 @@ export function WatcherDetailModal({
               )}
             </div>
             <div className="flex items-center gap-2">
+              <button
+                onClick={handleRescan}
+                disabled={rescanInProgress}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-zinc-300 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Rescan the repository now"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${rescanInProgress ? "animate-spin" : ""}`} />
+                {rescanInProgress ? "Rescanning..." : "Rescan now"}
+              </button>
+              <button
+                onClick={() => {
+                  setActiveTab("overview");
+                  setIsEditing(true);
+                }}
+                className="p-2 text-zinc-500 hover:text-white hover:bg-zinc-800 rounded-lg transition-colors"
+                title="Edit watcher"
+              >
+                <Pencil className="w-5 h-5" />
+              </button>
               <button
                 onClick={() => setShowDeleteConfirm(true)}
                 data-variant="wanda"
@@ -408,10 +564,72 @@ export function WatcherDetailModal({
             </div>
           </div>
 
+          {/* Rescan Progress */}
+          <AnimatePresence>
+            {rescan && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: "auto", opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className="overflow-hidden border-b border-zinc-800"
+              >
+                <div className="flex items-center justify-between gap-4 px-6 py-3 text-sm">
+                  {rescanInProgress && (
+                    <div className="flex items-center gap-2 text-purple-400">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      <span>
+                        {rescan.phase === "starting"
+                          ? "Starting rescan..."
+                          : `${RESCAN_STEPS[rescan.taskId || ""] || "Queued"}...`}
+                      </span>
+                    </div>
+                  )}
+                  {rescan.phase === "completed" && rescan.result && (
+                    <div className="flex items-center gap-4">
+                      <span className="flex items-center gap-2 text-emerald-400">
+                        <CheckCircle className="w-4 h-4" />
+                        Rescan complete
+                      </span>
+                      <span className="flex items-center gap-1 text-emerald-400">
+                        <Plus className="w-3 h-3" />{rescan.result.candidates_added} added
+                      </span>
+                      <span className="flex items-center gap-1 text-blue-400">
+                        <RefreshCw className="w-3 h-3" />{rescan.result.candidates_updated} updated
+                      </span>
+                      <span className="flex items-center gap-1 text-red-400">
+                        <Minus className="w-3 h-3" />{rescan.result.candidates_removed} removed
+                      </span>
+                    </div>
+                  )}
+                  {rescan.phase === "skipped" && (
+                    <span className="flex items-center gap-2 text-zinc-400">
+                      <AlertTriangle className="w-4 h-4 text-yellow-400" />
+                      Rescan finished without recording a scan
+                    </span>
+                  )}
+                  {rescan.phase === "failed" && (
+                    <span className="flex items-center gap-2 text-red-400">
+                      <XCircle className="w-4 h-4" />
+                      {rescan.error || "Rescan failed"}
+                    </span>
+                  )}
+                  {!rescanInProgress && (
+                    <button
+                      onClick={() => setRescan(null)}
+                      className="p-1 text-zinc-500 hover:text-white rounded transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           {/* Tabs */}
           <div className="flex items-center border-b border-zinc-800 px-6">
             <Tab label="Overview" active={activeTab === "overview"} onClick={() => setActiveTab("overview")} />
-            <Tab label="Candidates" active={activeTab === "candidates"} onClick={() => setActiveTab("candidates")} count={candidates.length} />
+            <Tab label="Candidates" active={activeTab === "candidates"} onClick={() => setActiveTab("candidates")} count={candidateTotal} />
             <Tab label="Analysis" active={activeTab === "analysis"} onClick={() => setActiveTab("analysis")} />
             <Tab label="History" active={activeTab === "history"} onClick={() => setActiveTab("history")} count={watcher.scan_count} />
           </div>
@@ -420,6 +638,18 @@ export function WatcherDetailModal({
           <div className="flex-1 overflow-y-auto p-6">
             {activeTab === "overview" && (
               <div className="space-y-6">
+                {isEditing && (
+                  <WatcherEditForm
+                    watcher={watcher}
+                    userId={userId}
+                    onCancel={() => setIsEditing(false)}
+                    onSaved={() => {
+                      setIsEditing(false);
+                      fetchDetails();
+                    }}
+                  />
+                )}
+
                 {/* Quick Stats */}
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="bg-zinc-800/50 rounded-xl p-4">
@@ -428,13 +658,13 @@ export function WatcherDetailModal({
                   </div>
                   <div className="bg-zinc-800/50 rounded-xl p-4">
                     <p className="text-2xl font-bold text-emerald-400">
-                      {candidates.filter(c => c.status === "active").length}
+                      {candidateCounts.active || 0}
                     </p>
                     <p className="text-xs text-zinc-500">Active Observations</p>
                   </div>
                   <div className="bg-zinc-800/50 rounded-xl p-4">
                     <p className="text-2xl font-bold text-yellow-400">
-                      {candidates.filter(c => c.status === "pending").length}
+                      {candidateCounts.pending || 0}
                     </p>
                     <p className="text-xs text-zinc-500">Pending Schedule</p>
                   </div>
@@ -453,11 +683,47 @@ export function WatcherDetailModal({
                   <ObservationSources
                     watcherId={watcherId}
                     applicationUrl={watcher.application_url}
-                    existingSources={watcher.observability_urls || {}}
+                    existingSources={watcher.observability_urls || []}
                     onSourcesChange={() => fetchDetails()}
                   />
                 </div>
 
+                {/* OpenTelemetry Traces */}
+                <div className="bg-zinc-800/30 rounded-xl p-5 border border-zinc-700/50">
+                  <div className="flex items-center gap-2 mb-4">
+                    <Radio className="w-5 h-5 text-emerald-400" />
+                    <h3 className="font-medium text-white">OpenTelemetry Traces</h3>
+                  </div>
+                  <OtlpIngest watcherId={watcherId} />
+                </div>
+
+                {/* Exclusion Rules */}
+                <div className="bg-zinc-800/30 rounded-xl p-5 border border-zinc-700/50">
+                  <div className="flex items-center gap-2 mb-4">
+                    <Shield className="w-5 h-5 text-emerald-400" />
+                    <h3 className="font-medium text-white">Exclusion Rules</h3>
+                  </div>
+                  <ExclusionRules watcherId={watcherId} onRulesChange={() => fetchDetails()} />
+                </div>
+
+                {/* Synthetic Traffic */}
+                <div className="bg-zinc-800/30 rounded-xl p-5 border border-zinc-700/50">
+                  <div className="flex items-center gap-2 mb-4">
+                    <Bot className="w-5 h-5 text-emerald-400" />
+                    <h3 className="font-medium text-white">Synthetic Traffic</h3>
+                  </div>
+                  <SyntheticTrafficRules watcherId={watcherId} />
+                </div>
+
+                {/* Repository Policy */}
+                <div className="bg-zinc-800/30 rounded-xl p-5 border border-zinc-700/50">
+                  <div className="flex items-center gap-2 mb-4">
+                    <FileCode className="w-5 h-5 text-emerald-400" />
+                    <h3 className="font-medium text-white">Repository Policy</h3>
+                  </div>
+                  <RepositoryPolicy watcherId={watcherId} policy={policy} />
+                </div>
+
                 {/* Git Info */}
                 <div className="bg-zinc-800/30 rounded-xl p-5 border border-zinc-700/50">
                   <div className="flex items-center justify-between mb-4">
@@ -548,7 +814,6 @@ export function WatcherDetailModal({
 
             {activeTab === "candidates" && (
               <CandidateList
-                candidates={candidates}
                 watcherId={watcherId}
                 userId={userId}
                 onScheduleClick={handleScheduleClick}
@@ -752,7 +1017,16 @@ export function WatcherDetailModal({
             )}
 
             {/* History Tab */}
-            {activeTab === "history" && (
+            {activeTab === "history" && selectedScanId !== null && (
+              <ScanDiffView
+                watcherId={watcherId}
+                scanId={selectedScanId}
+                scans={scanHistory}
+                onBack={() => setSelectedScanId(null)}
+              />
+            )}
+
+            {activeTab === "history" && selectedScanId === null && (
               <div className="space-y-4">
                 {/* Header */}
                 <div className="flex items-center justify-between mb-4">
@@ -816,14 +1090,18 @@ export function WatcherDetailModal({
                             )}
                           </div>
 
-                          {/* Scan Card */}
-                          <div className={`bg-zinc-800/50 rounded-xl p-4 border ${
-                            scan.scan_type === "creation"
-                              ? "border-emerald-500/30"
-                              : scan.status === "failed"
-                              ? "border-red-500/30"
-                              : "border-zinc-700/50"
-                          } hover:border-zinc-600/50 transition-colors`}>
+                          {/* Scan Card - click to open the candidate diff */}
+                          <div
+                            onClick={() => setSelectedScanId(scan.scan_id)}
+                            title="View candidate changes"
+                            className={`cursor-pointer bg-zinc-800/50 rounded-xl p-4 border ${
+                              scan.scan_type === "creation"
+                                ? "border-emerald-500/30"
+                                : scan.status === "failed"
+                                ? "border-red-500/30"
+                                : "border-zinc-700/50"
+                            } hover:border-zinc-600/50 transition-colors`}
+                          >
                             {/* Scan Header */}
                             <div className="flex items-start justify-between mb-3">
                               <div className="flex items-center gap-2">
@@ -834,7 +1112,11 @@ export function WatcherDetailModal({
                                     ? "bg-purple-500/20 text-purple-400"
                                     : "bg-blue-500/20 text-blue-400"
                                 }`}>
-                                  {scan.scan_type === "creation" ? "Initial Scan" : `Rescan #${scan.scan_number}`}
+                                  {scan.scan_type === "creation"
+                                    ? "Initial Scan"
+                                    : scan.scan_type === "manual"
+                                    ? `Manual Rescan #${scan.scan_number}`
+                                    : `Rescan #${scan.scan_number}`}
                                 </span>
                                 {scan.status === "running" && (
                                   <span className="flex items-center gap-1 text-xs text-yellow-400">
@@ -903,7 +1185,7 @@ export function WatcherDetailModal({
                             </div>
 
                             {/* Entity Breakdown (collapsible) */}
-                            <details className="group">
+                            <details className="group" onClick={(e) => e.stopPropagation()}>
                               <summary className="cursor-pointer text-xs text-zinc-500 hover:text-zinc-400 transition-colors list-none flex items-center gap-1">
                                 <span className="group-open:rotate-90 transition-transform">▶</span>
                                 Entity Breakdown
@@ -948,7 +1230,7 @@ export function WatcherDetailModal({
                             </details>
 
                             {/* Trigger Info */}
-                            {scan.trigger_source && scan.trigger_source !== "manual" && (
+                            {scan.trigger_source && (scan.trigger_source !== "manual" || scan.triggered_by) && (
                               <div className="mt-2 pt-2 border-t border-zinc-700/50 flex items-center gap-2 text-xs text-zinc-500">
                                 <span className="px-1.5 py-0.5 bg-zinc-700/50 rounded text-zinc-400">
                                   {scan.trigger_source}
@@ -1001,6 +1283,7 @@ export function WatcherDetailModal({
               watcherId={watcherId}
               userId={userId}
               applicationUrl={watcher?.application_url || null}
+              policy={policy}
               onClose={() => {
                 setShowScheduleModal(false);
                 setCandidatesToSchedule([]);
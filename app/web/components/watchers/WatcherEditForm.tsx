@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2, Save, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface EditableWatcher {
+  watcher_id: string;
+  watcher_name: string;
+  repo_description: string | null;
+  application_url: string | null;
+  default_branch: string;
+  github_token_fingerprint: string | null;
+}
+
+interface WatcherEditFormProps {
+  watcher: EditableWatcher;
+  userId: string;
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+export function WatcherEditForm({ watcher, userId, onCancel, onSaved }: WatcherEditFormProps) {
+  const [name, setName] = useState(watcher.watcher_name);
+  const [repoDescription, setRepoDescription] = useState(watcher.repo_description || "");
+  const [applicationUrl, setApplicationUrl] = useState(watcher.application_url || "");
+  const [defaultBranch, setDefaultBranch] = useState(watcher.default_branch || "main");
+  const [githubToken, setGithubToken] = useState("");
+  const [removeToken, setRemoveToken] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    // Only send what changed; a blank token field keeps the stored token
+    const payload: Record<string, string | null> = {};
+    if (name.trim() !== watcher.watcher_name) payload.name = name.trim();
+    if (repoDescription.trim() !== (watcher.repo_description || "")) payload.repoDescription = repoDescription.trim();
+    if (applicationUrl.trim() !== (watcher.application_url || "")) payload.applicationUrl = applicationUrl.trim() || null;
+    if (defaultBranch.trim() !== watcher.default_branch) payload.defaultBranch = defaultBranch.trim();
+    if (removeToken) payload.githubToken = null;
+    else if (githubToken.trim()) payload.githubToken = githubToken.trim();
+
+    if (Object.keys(payload).length === 0) {
+      setIsSaving(false);
+      onCancel();
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/watchers/${watcher.watcher_id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, ...payload }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update watcher");
+      }
+
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-zinc-800/30 rounded-xl p-5 border border-zinc-700/50 space-y-4">
+      <h3 className="font-medium text-white">Edit Watcher</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="flex flex-col space-y-2">
+          <Label htmlFor="edit-name">Watcher Name</Label>
+          <Input
+            id="edit-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <Label htmlFor="edit-branch">Default Branch</Label>
+          <Input
+            id="edit-branch"
+            type="text"
+            value={defaultBranch}
+            onChange={(e) => setDefaultBranch(e.target.value)}
+            disabled={isSaving}
+            className="font-mono text-sm"
+          />
+        </div>
+
+        <div className="flex flex-col space-y-2 md:col-span-2">
+          <Label htmlFor="edit-description">Repository Description</Label>
+          <textarea
+            id="edit-description"
+            value={repoDescription}
+            onChange={(e) => setRepoDescription(e.target.value)}
+            disabled={isSaving}
+            rows={2}
+            className="w-full rounded-lg bg-zinc-800 px-4 py-3 text-sm text-white placeholder:text-zinc-500 focus-visible:ring-[2px] focus-visible:ring-emerald-500/50 focus-visible:outline-none disabled:opacity-50 shadow-[0px_0px_1px_1px_#27272a] resize-none"
+          />
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <Label htmlFor="edit-app-url">
+            Application Base URL <span className="text-zinc-600">(Optional)</span>
+          </Label>
+          <Input
+            id="edit-app-url"
+            type="url"
+            value={applicationUrl}
+            onChange={(e) => setApplicationUrl(e.target.value)}
+            placeholder="https://api.myapp.com"
+            disabled={isSaving}
+            className="font-mono text-sm"
+          />
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <Label htmlFor="edit-token">
+            GitHub Token{" "}
+            <span className="text-zinc-600">
+              {watcher.github_token_fingerprint ? `(current: ${watcher.github_token_fingerprint})` : "(none stored)"}
+            </span>
+          </Label>
+          <Input
+            id="edit-token"
+            type="password"
+            value={githubToken}
+            onChange={(e) => setGithubToken(e.target.value)}
+            placeholder="Leave blank to keep the current token"
+            disabled={isSaving || removeToken}
+            className="font-mono text-sm"
+          />
+          {watcher.github_token_fingerprint && (
+            <label className="flex items-center gap-2 text-xs text-zinc-400">
+              <input
+                type="checkbox"
+                checked={removeToken}
+                onChange={(e) => setRemoveToken(e.target.checked)}
+                disabled={isSaving}
+              />
+              Remove the stored token
+            </label>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="flex items-center gap-1.5 px-4 py-2 text-sm text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="flex items-center gap-1.5 px-4 py-2 text-sm text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {isSaving ? "Validating..." : "Save changes"}
+        </button>
+      </div>
+    </form>
+  );
+}
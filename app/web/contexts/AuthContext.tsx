@@ -7,8 +7,12 @@
  * The GitHub token is captured during OAuth login and stored in sessionStorage.
  * This enables automatic webhook setup and private repo access.
  *
+ * Every same-origin fetch to /api/* automatically carries the current user's
+ * Firebase ID token as an Authorization: Bearer header, which the API routes
+ * verify server-side.
+ *
  * Exports:
- *   - useAuth(): Hook to access auth context (user, loading, githubToken, setGithubToken)
+ *   - useAuth(): Hook to access auth context (user, loading, githubToken, setGithubToken, getIdToken)
  *   - AuthProvider: Context provider component wrapping the app
  *
  * Usage:
@@ -27,6 +31,7 @@ interface AuthContextType {
   loading: boolean;
   githubToken: string | null;
   setGithubToken: (token: string | null) => void;
+  getIdToken: () => Promise<string | null>;
 }
 
 const AuthContext = createContext<AuthContextType>({
@@ -34,10 +39,22 @@ const AuthContext = createContext<AuthContextType>({
   loading: true,
   githubToken: null,
   setGithubToken: () => {},
+  getIdToken: async () => null,
 });
 
 export const useAuth = () => useContext(AuthContext);
 
+// Only our own API routes get the ID token - never third-party URLs
+function isApiRequest(input: RequestInfo | URL): boolean {
+  const raw = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  try {
+    const url = new URL(raw, window.location.origin);
+    return url.origin === window.location.origin && url.pathname.startsWith("/api/");
+  } catch {
+    return false;
+  }
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
@@ -65,11 +82,44 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Firebase refreshes the ID token transparently when it is close to expiry
+  const getIdToken = useCallback(async () => {
+    return auth.currentUser ? auth.currentUser.getIdToken() : null;
+  }, []);
+
+  // Attach the ID token to every /api/* fetch
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const originalFetch = window.fetch;
+
+    window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (!isApiRequest(input)) {
+        return originalFetch(input, init);
+      }
+
+      const idToken = await getIdToken();
+      if (!idToken) {
+        return originalFetch(input, init);
+      }
+
+      const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+      if (!headers.has("Authorization")) {
+        headers.set("Authorization", `Bearer ${idToken}`);
+      }
+      return originalFetch(input, { ...init, headers });
+    };
+
+    return () => {
+      window.fetch = originalFetch;
+    };
+  }, [getIdToken]);
+
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
       setUser(currentUser);
       setLoading(false);
-      
+
       // Clear token on logout
       if (!currentUser) {
         setGithubToken(null);
@@ -80,7 +130,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, [setGithubToken]);
 
   return (
-    <AuthContext.Provider value={{ user, loading, githubToken, setGithubToken }}>
+    <AuthContext.Provider value={{ user, loading, githubToken, setGithubToken, getIdToken }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,214 @@
+/**
+ * Access Logs Module
+ *
+ * Line parsers for access logs uploaded to /api/watchers/[id]/logs/import,
+ * for teams that have logs but no metrics stack:
+ *
+ *   combined → nginx / Apache combined (or common) log format. A trailing
+ *              request time in seconds ("0.123" or rt=0.123) is read as latency.
+ *   alb      → AWS Application Load Balancer access logs
+ *   json     → One JSON object per line, with the usual nginx / app logger
+ *              field names (time, method, path or request, status, request_time)
+ *
+ * A line that does not parse returns null; callers count it as skipped.
+ *
+ * Exports:
+ *   - ACCESS_LOG_FORMATS, AccessLogFormat, AccessLogEntry
+ *   - detectAccessLogFormat(line): Format of a sample line, or null
+ *   - parseAccessLogLine(line, format): Parsed request, or null
+ *   - accessLogLabels(entry): Labels for findSyntheticRule
+ */
+
+export const ACCESS_LOG_FORMATS = ["combined", "alb", "json"] as const;
+
+export type AccessLogFormat = (typeof ACCESS_LOG_FORMATS)[number];
+
+export interface AccessLogEntry {
+  timestamp: number; // ms since epoch
+  method: string | null;
+  path: string; // Without query string
+  status: number | null;
+  latencyMs: number | null;
+  userAgent: string | null;
+  clientIp: string | null;
+}
+
+// 1 client, 2 time, 3 method, 4 target, 5 status, 6 user agent, 7 extra fields
+const COMBINED_REGEX =
+  /^(\S+) \S+ \S+ \[([^\]]+)\] "(\S+) (\S+)[^"]*" (\d{3}) \S+(?: "(?:[^"\\]|\\.)*" "((?:[^"\\]|\\.)*)")?(.*)$/;
+// 1 time, 2 client:port, 3-5 request / target / response processing seconds,
+// 6 elb status, 7 method, 8 URL, 9 user agent
+const ALB_REGEX =
+  /^\S+ (\S+) \S+ (\S+) \S+ (-?[\d.]+) (-?[\d.]+) (-?[\d.]+) (\d{3}|-) \S+ \d+ \d+ "(\S+) (\S+) [^"]*" "((?:[^"\\]|\\.)*)"/;
+const CLF_TIME_REGEX = /^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/;
+const REQUEST_TIME_REGEX = /(?:^|\s)(?:rt|request_time)=("?)(\d+(?:\.\d+)?)\1(?=\s|$)/;
+const TRAILING_SECONDS_REGEX = /(?:^|\s)(\d+\.\d+)(?=\s|$)/;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const JSON_FIELDS = {
+  time: ["time", "timestamp", "@timestamp", "time_iso8601", "time_local", "ts"],
+  method: ["method", "request_method", "http_method", "httpMethod"],
+  path: ["path", "uri", "request_uri", "url", "requestUri"],
+  request: ["request"],
+  status: ["status", "status_code", "statusCode", "response_code", "http_status"],
+  latencySeconds: ["request_time", "upstream_response_time", "duration_s"],
+  latencyMs: ["duration_ms", "latency_ms", "response_time_ms", "responseTime"],
+  userAgent: ["user_agent", "http_user_agent", "userAgent", "ua"],
+  clientIp: ["remote_addr", "client_ip", "clientIp", "remote_ip", "ip", "x_forwarded_for"],
+};
+
+// Beyond ±8.64e15 ms a Date is invalid, and toISOString() would throw later on
+function validTime(ms: number): number | null {
+  return Number.isFinite(new Date(ms).getTime()) ? ms : null;
+}
+
+function parseClfTime(value: string): number | null {
+  const match = value.match(CLF_TIME_REGEX);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[2]);
+  if (month < 0) return null;
+  const offsetMinutes = (match[7] === "-" ? -1 : 1) * (Number(match[8]) * 60 + Number(match[9]));
+  return validTime(
+    Date.UTC(Number(match[3]), month, Number(match[1]), Number(match[4]), Number(match[5]), Number(match[6])) -
+      offsetMinutes * 60_000
+  );
+}
+
+function parseTime(value: unknown): number | null {
+  if (typeof value === "number") {
+    // Epoch seconds (with fraction) or milliseconds
+    return validTime(value < 1e12 ? value * 1000 : value);
+  }
+  if (typeof value !== "string" || !value) return null;
+  if (/^\d+(\.\d+)?$/.test(value)) return parseTime(Number(value));
+  const parsed = parseClfTime(value) ?? Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toPath(target: string): string {
+  // Absolute URLs (ALB, some JSON loggers) keep only the path
+  const path = target.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, "").split(/[?#]/)[0];
+  return path || "/";
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === "number" ? value : typeof value === "string" && value ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : null;
+}
+
+function emptyToNull(value: string | undefined): string | null {
+  return value && value !== "-" ? value : null;
+}
+
+function parseCombined(line: string): AccessLogEntry | null {
+  const match = line.match(COMBINED_REGEX);
+  if (!match) return null;
+  const timestamp = parseClfTime(match[2]);
+  if (timestamp === null) return null;
+
+  const extra = match[7] || "";
+  const seconds = extra.match(REQUEST_TIME_REGEX)?.[2] ?? extra.match(TRAILING_SECONDS_REGEX)?.[1];
+  return {
+    timestamp,
+    method: match[3].toUpperCase(),
+    path: toPath(match[4]),
+    status: Number(match[5]),
+    latencyMs: seconds !== undefined ? Number(seconds) * 1000 : null,
+    userAgent: emptyToNull(match[6]),
+    clientIp: emptyToNull(match[1]),
+  };
+}
+
+function parseAlb(line: string): AccessLogEntry | null {
+  const match = line.match(ALB_REGEX);
+  if (!match) return null;
+  const timestamp = parseTime(match[1]);
+  if (timestamp === null || match[7] === "-") return null;
+
+  // -1 marks a phase that never ran (e.g. no target was reached)
+  const phases = [match[3], match[4], match[5]].map(Number);
+  return {
+    timestamp,
+    method: match[7].toUpperCase(),
+    path: toPath(match[8]),
+    status: match[6] === "-" ? null : Number(match[6]),
+    latencyMs: phases.some((p) => p < 0) ? null : phases.reduce((sum, p) => sum + p, 0) * 1000,
+    userAgent: emptyToNull(match[9]),
+    clientIp: match[2].replace(/:\d+$/, ""),
+  };
+}
+
+function parseJson(line: string): AccessLogEntry | null {
+  let record: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(line);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return null;
+    record = parsed;
+  } catch {
+    return null;
+  }
+
+  const pick = (keys: string[]): unknown => {
+    for (const key of keys) {
+      if (record[key] !== undefined && record[key] !== null && record[key] !== "") return record[key];
+    }
+    return undefined;
+  };
+  const pickString = (keys: string[]): string | null => {
+    const value = pick(keys);
+    return typeof value === "string" || typeof value === "number" ? String(value) : null;
+  };
+
+  const timestamp = parseTime(pick(JSON_FIELDS.time));
+  // nginx JSON formats often log "$request" instead of separate fields
+  const request = pickString(JSON_FIELDS.request)?.split(" ");
+  const method = pickString(JSON_FIELDS.method) ?? (request && request.length > 1 ? request[0] : null);
+  const target = pickString(JSON_FIELDS.path) ?? (request && request.length > 1 ? request[1] : null);
+  if (timestamp === null || !target) return null;
+
+  const seconds = toNumber(pick(JSON_FIELDS.latencySeconds));
+  const ms = toNumber(pick(JSON_FIELDS.latencyMs));
+  return {
+    timestamp,
+    method: method ? method.toUpperCase() : null,
+    path: toPath(target),
+    status: toNumber(pick(JSON_FIELDS.status)),
+    latencyMs: seconds !== null ? seconds * 1000 : ms,
+    userAgent: emptyToNull(pickString(JSON_FIELDS.userAgent) ?? undefined),
+    clientIp: pickString(JSON_FIELDS.clientIp)?.split(",")[0].trim() || null,
+  };
+}
+
+export function detectAccessLogFormat(line: string): AccessLogFormat | null {
+  const trimmed = line.trim();
+  if (trimmed.startsWith("{")) return parseJson(trimmed) ? "json" : null;
+  if (ALB_REGEX.test(trimmed)) return "alb";
+  if (COMBINED_REGEX.test(trimmed)) return "combined";
+  return null;
+}
+
+export function parseAccessLogLine(line: string, format: AccessLogFormat): AccessLogEntry | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  switch (format) {
+    case "combined":
+      return parseCombined(trimmed);
+    case "alb":
+      return parseAlb(trimmed);
+    case "json":
+      return parseJson(trimmed);
+  }
+}
+
+/**
+ * Labels a request exposes to synthetic traffic rules, named after the
+ * defaults each rule type reads
+ */
+export function accessLogLabels(entry: AccessLogEntry): Record<string, string> {
+  const labels: Record<string, string> = { path: entry.path };
+  if (entry.method) labels.method = entry.method;
+  if (entry.status !== null) labels.status = String(entry.status);
+  if (entry.userAgent) labels.user_agent = entry.userAgent;
+  if (entry.clientIp) labels.client_ip = entry.clientIp;
+  return labels;
+}
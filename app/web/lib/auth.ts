@@ -0,0 +1,81 @@
+/**
+ * API Authentication Module
+ *
+ * Verifies the Firebase ID token sent with every API request and resolves
+ * the calling user from the verified token (never from request params).
+ *
+ * Token sources:
+ *   - Authorization: Bearer <idToken> header (all routes)
+ *   - ?authToken=<idToken> query param (only when allowQueryToken is set,
+ *     for EventSource/SSE routes where headers cannot be attached)
+ *
+ * Exports:
+ *   - authenticateRequest(req, claimedUserId?, options?): Verify token and
+ *     reject a claimed userId that does not match the token's uid
+ *
+ * Usage:
+ *   const auth = await authenticateRequest(req, searchParams.get("userId"));
+ *   if (auth.error) return auth.error;
+ *   const userId = auth.user.uid;
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebase-admin";
+
+export interface AuthenticatedUser {
+  uid: string;
+  email: string | null;
+}
+
+export type AuthResult =
+  | { user: AuthenticatedUser; error?: undefined }
+  | { user?: undefined; error: NextResponse };
+
+interface AuthOptions {
+  allowQueryToken?: boolean;
+}
+
+function extractToken(req: NextRequest, options: AuthOptions): string | null {
+  const header = req.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (match) return match[1].trim();
+
+  if (options.allowQueryToken) {
+    return new URL(req.url).searchParams.get("authToken");
+  }
+
+  return null;
+}
+
+export async function authenticateRequest(
+  req: NextRequest,
+  claimedUserId?: string | null,
+  options: AuthOptions = {}
+): Promise<AuthResult> {
+  const token = extractToken(req, options);
+
+  if (!token) {
+    return {
+      error: NextResponse.json({ error: "Missing Authorization bearer token" }, { status: 401 }),
+    };
+  }
+
+  let user: AuthenticatedUser;
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(token);
+    user = { uid: decoded.uid, email: decoded.email ?? null };
+  } catch (error) {
+    console.warn("[auth] ID token verification failed:", error instanceof Error ? error.message : error);
+    return {
+      error: NextResponse.json({ error: "Invalid or expired ID token" }, { status: 401 }),
+    };
+  }
+
+  // A userId sent by the client is only accepted if it is the caller's own
+  if (claimedUserId && claimedUserId !== user.uid) {
+    return {
+      error: NextResponse.json({ error: "userId does not match authenticated user" }, { status: 403 }),
+    };
+  }
+
+  return { user };
+}
@@ -0,0 +1,130 @@
+/**
+ * Candidate Filters Module
+ *
+ * Filter and sort options for a watcher's candidate list, and their query
+ * string form. The same parameters are used by GET /api/watchers/[id]/candidates
+ * and kept in the dashboard URL by CandidateList, so a filtered list can be
+ * shared or reloaded.
+ *
+ *   status, type, framework  comma-separated lists
+ *   minScore, maxScore       0-100, on final_zombie_score, else zombie_score
+ *   traffic                  "yes" | "no"
+ *   path                     file path prefix
+ *   q                        text contained in the entity signature
+ *   sort, order              score | last_traffic | discovered, asc | desc
+ *
+ * Exports:
+ *   - CANDIDATE_SORTS, CandidateSort, CandidateFilters, DEFAULT_CANDIDATE_FILTERS
+ *   - parseCandidateFilters(params): CandidateFilters or error message
+ *   - candidateFiltersToParams(filters): URLSearchParams (defaults omitted)
+ */
+
+export const CANDIDATE_SORTS = ["score", "last_traffic", "discovered"] as const;
+export type CandidateSort = (typeof CANDIDATE_SORTS)[number];
+
+export interface CandidateFilters {
+  status: string[];
+  entityType: string[];
+  framework: string[];
+  minScore: number | null;
+  maxScore: number | null;
+  hasTraffic: boolean | null;
+  pathPrefix: string;
+  q: string;
+  sort: CandidateSort;
+  order: "asc" | "desc";
+}
+
+export const DEFAULT_CANDIDATE_FILTERS: CandidateFilters = {
+  status: [],
+  entityType: [],
+  framework: [],
+  minScore: null,
+  maxScore: null,
+  hasTraffic: null,
+  pathPrefix: "",
+  q: "",
+  sort: "score",
+  order: "desc",
+};
+
+const LIST_VALUE_REGEX = /^[\w.-]+$/;
+
+function parseList(value: string | null): string[] | null {
+  if (!value) return [];
+  const items = value.split(",").map((item) => item.trim()).filter(Boolean);
+  return items.every((item) => LIST_VALUE_REGEX.test(item)) ? items : null;
+}
+
+function parseScore(value: string | null): number | null | undefined {
+  if (value === null || value === "") return null;
+  const score = Number(value);
+  return Number.isInteger(score) && score >= 0 && score <= 100 ? score : undefined;
+}
+
+/**
+ * Read filters from query parameters. Missing parameters take their default.
+ */
+export function parseCandidateFilters(params: URLSearchParams): CandidateFilters | { error: string } {
+  const status = parseList(params.get("status"));
+  const entityType = parseList(params.get("type"));
+  const framework = parseList(params.get("framework"));
+  if (!status || !entityType || !framework) {
+    return { error: "status, type and framework must be comma-separated identifiers" };
+  }
+
+  const minScore = parseScore(params.get("minScore"));
+  const maxScore = parseScore(params.get("maxScore"));
+  if (minScore === undefined || maxScore === undefined) {
+    return { error: "minScore and maxScore must be whole numbers from 0 to 100" };
+  }
+  if (minScore !== null && maxScore !== null && minScore > maxScore) {
+    return { error: "minScore cannot be greater than maxScore" };
+  }
+
+  const traffic = params.get("traffic");
+  if (traffic && traffic !== "yes" && traffic !== "no") {
+    return { error: 'traffic must be "yes" or "no"' };
+  }
+
+  const sort = params.get("sort") || DEFAULT_CANDIDATE_FILTERS.sort;
+  if (!(CANDIDATE_SORTS as readonly string[]).includes(sort)) {
+    return { error: `sort must be one of: ${CANDIDATE_SORTS.join(", ")}` };
+  }
+
+  const order = params.get("order") || DEFAULT_CANDIDATE_FILTERS.order;
+  if (order !== "asc" && order !== "desc") {
+    return { error: 'order must be "asc" or "desc"' };
+  }
+
+  return {
+    status,
+    entityType,
+    framework,
+    minScore,
+    maxScore,
+    hasTraffic: traffic ? traffic === "yes" : null,
+    pathPrefix: params.get("path")?.trim() || "",
+    q: params.get("q")?.trim() || "",
+    sort: sort as CandidateSort,
+    order,
+  };
+}
+
+/**
+ * Query parameters for filters, leaving out the ones at their default
+ */
+export function candidateFiltersToParams(filters: CandidateFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.status.length) params.set("status", filters.status.join(","));
+  if (filters.entityType.length) params.set("type", filters.entityType.join(","));
+  if (filters.framework.length) params.set("framework", filters.framework.join(","));
+  if (filters.minScore !== null) params.set("minScore", String(filters.minScore));
+  if (filters.maxScore !== null) params.set("maxScore", String(filters.maxScore));
+  if (filters.hasTraffic !== null) params.set("traffic", filters.hasTraffic ? "yes" : "no");
+  if (filters.pathPrefix) params.set("path", filters.pathPrefix);
+  if (filters.q) params.set("q", filters.q);
+  if (filters.sort !== DEFAULT_CANDIDATE_FILTERS.sort) params.set("sort", filters.sort);
+  if (filters.order !== DEFAULT_CANDIDATE_FILTERS.order) params.set("order", filters.order);
+  return params;
+}
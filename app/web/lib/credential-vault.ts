@@ -0,0 +1,299 @@
+/**
+ * Credential Vault Module
+ *
+ * Envelope encryption for GitHub and observability tokens stored in Postgres.
+ * Every secret gets its own random data key (AES-256-GCM); the data key is
+ * wrapped with a server key-encryption key selected by key id. Only the
+ * envelope (key id + wrapped data key + ciphertext) is ever persisted.
+ *
+ * Envelope format (base64url segments, iv || ciphertext || tag):
+ *   v1.<keyId>.<wrappedDataKey>.<ciphertext>
+ *
+ * Plaintext is only recovered when a token is handed to Kestra; API
+ * responses carry a masked fingerprint instead (e.g. "ghp_…3f9a2c1e").
+ *
+ * Environment Variables:
+ *   - CREDENTIAL_VAULT_KEYS: Comma-separated "keyId:base64Key" pairs (32-byte keys)
+ *   - CREDENTIAL_VAULT_ACTIVE_KEY_ID: Key id used for new envelopes (defaults to the first key)
+ *
+ * Exports:
+ *   - encryptSecret(plaintext): Seal a secret with the active key
+ *   - decryptSecret(value): Open an envelope (legacy plaintext passes through)
+ *   - rewrapSecret(value): Re-wrap an envelope's data key with the active key
+ *   - needsRewrap(value): True if a value is plaintext or sealed with an old key
+ *   - isEncrypted(value): True if a value is a vault envelope
+ *   - fingerprintSecret(plaintext): Masked, non-reversible token fingerprint
+ *   - sealObservabilitySources(sources): Encrypt tokens before storing sources
+ *   - rewrapObservabilitySources(data): Rotate source tokens to the active key
+ *   - redactObservabilitySources(data): Strip secrets for API responses
+ *   - unsealObservabilitySources(data): Sources with plaintext tokens, for server-side queries
+ */
+import crypto from "crypto";
+import { parseJavaMapString } from "@/lib/utils";
+
+const ENVELOPE_VERSION = "v1";
+const KEY_ID_REGEX = /^[A-Za-z0-9_-]+$/;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+interface VaultKeyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let keyring: VaultKeyring | null = null;
+
+const loadKeyring = (): VaultKeyring => {
+  if (keyring) return keyring;
+
+  const raw = process.env.CREDENTIAL_VAULT_KEYS;
+  if (!raw || raw.trim() === "") {
+    throw new Error("CREDENTIAL_VAULT_KEYS is not configured");
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of raw.split(",")) {
+    const [keyId, encoded] = entry.trim().split(":", 2);
+    if (!keyId || !encoded || !KEY_ID_REGEX.test(keyId)) {
+      throw new Error(`Invalid CREDENTIAL_VAULT_KEYS entry: "${keyId || entry.trim()}"`);
+    }
+    const key = Buffer.from(encoded, "base64");
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Vault key "${keyId}" must be ${KEY_LENGTH} bytes (base64 encoded)`);
+    }
+    keys.set(keyId, key);
+  }
+
+  const activeKeyId = process.env.CREDENTIAL_VAULT_ACTIVE_KEY_ID || keys.keys().next().value!;
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`Active vault key "${activeKeyId}" is not in CREDENTIAL_VAULT_KEYS`);
+  }
+
+  keyring = { activeKeyId, keys };
+  return keyring;
+};
+
+// AES-256-GCM with the tag appended, so the Python side can use AESGCM directly
+const seal = (key: Buffer, plaintext: Buffer, aad: Buffer): Buffer => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+};
+
+const open = (key: Buffer, sealed: Buffer, aad: Buffer): Buffer => {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+  const ciphertext = sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+interface ParsedEnvelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  ciphertext: Buffer;
+}
+
+const parseEnvelope = (value: string): ParsedEnvelope => {
+  const [version, keyId, wrappedKey, ciphertext] = value.split(".");
+  if (version !== ENVELOPE_VERSION || !keyId || !wrappedKey || !ciphertext) {
+    throw new Error("Malformed credential envelope");
+  }
+  return {
+    keyId,
+    wrappedKey: Buffer.from(wrappedKey, "base64url"),
+    ciphertext: Buffer.from(ciphertext, "base64url"),
+  };
+};
+
+const getKey = (keyId: string): Buffer => {
+  const key = loadKeyring().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Vault key "${keyId}" is not configured - cannot decrypt credential`);
+  }
+  return key;
+};
+
+export function isEncrypted(value: string | null | undefined): value is string {
+  return typeof value === "string" && value.startsWith(`${ENVELOPE_VERSION}.`) && value.split(".").length === 4;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const { activeKeyId } = loadKeyring();
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const wrappedKey = seal(getKey(activeKeyId), dataKey, Buffer.from(activeKeyId));
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, "utf8"), Buffer.from(ENVELOPE_VERSION));
+  return [
+    ENVELOPE_VERSION,
+    activeKeyId,
+    wrappedKey.toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(".");
+}
+
+export function decryptSecret(value: string | null | undefined): string | null {
+  if (!value) return null;
+  // Rows written before the vault existed hold plaintext until rotated
+  if (!isEncrypted(value)) return value;
+
+  const envelope = parseEnvelope(value);
+  const dataKey = open(getKey(envelope.keyId), envelope.wrappedKey, Buffer.from(envelope.keyId));
+  return open(dataKey, envelope.ciphertext, Buffer.from(ENVELOPE_VERSION)).toString("utf8");
+}
+
+export function needsRewrap(value: string | null | undefined): boolean {
+  if (!value) return false;
+  if (!isEncrypted(value)) return true;
+  return parseEnvelope(value).keyId !== loadKeyring().activeKeyId;
+}
+
+export function rewrapSecret(value: string): string {
+  if (!isEncrypted(value)) return encryptSecret(value);
+
+  const { activeKeyId } = loadKeyring();
+  const envelope = parseEnvelope(value);
+  if (envelope.keyId === activeKeyId) return value;
+
+  // Only the data key is re-wrapped; the token ciphertext is left untouched
+  const dataKey = open(getKey(envelope.keyId), envelope.wrappedKey, Buffer.from(envelope.keyId));
+  const wrappedKey = seal(getKey(activeKeyId), dataKey, Buffer.from(activeKeyId));
+  return [
+    ENVELOPE_VERSION,
+    activeKeyId,
+    wrappedKey.toString("base64url"),
+    envelope.ciphertext.toString("base64url"),
+  ].join(".");
+}
+
+export function fingerprintSecret(plaintext: string): string {
+  // Keep a recognizable prefix (ghp_, glc_, ...) but never any trailing characters
+  const prefixMatch = plaintext.match(/^[A-Za-z]{2,5}_/);
+  const digest = crypto.createHash("sha256").update(plaintext).digest("hex").slice(0, 8);
+  return `${prefixMatch ? prefixMatch[0] : ""}…${digest}`;
+}
+
+// ============================================================================
+// Observability sources (watchers.observability_urls)
+// ============================================================================
+
+// Prometheus / Grafana sources may map their own metric and route label (lib/prometheus)
+interface SourceQueryMapping {
+  metric?: string | null;
+  routeLabel?: string | null;
+  queryTemplate?: string | null;
+}
+
+export interface ObservabilitySourceInput extends SourceQueryMapping {
+  type?: string;
+  url: string;
+  token?: string | null;
+  userId?: string | null;
+}
+
+export interface StoredObservabilitySource extends SourceQueryMapping {
+  type: string;
+  url: string;
+  userId?: string | null;
+  tokenEncrypted?: string | null;
+  tokenFingerprint?: string | null;
+}
+
+export interface PublicObservabilitySource extends SourceQueryMapping {
+  type: string;
+  url: string;
+  userId?: string | null;
+  tokenFingerprint: string | null;
+}
+
+export interface UnsealedObservabilitySource extends SourceQueryMapping {
+  type: string;
+  url: string;
+  userId: string | null;
+  token: string | null;
+}
+
+type RawSource = StoredObservabilitySource & { token?: string | null };
+
+// Stored data may be an array of objects, Java Map strings or a {type: url} object
+const queryMapping = (source: SourceQueryMapping): SourceQueryMapping =>
+  source.metric || source.routeLabel || source.queryTemplate
+    ? {
+        metric: source.metric || null,
+        routeLabel: source.routeLabel || null,
+        queryTemplate: source.queryTemplate || null,
+      }
+    : {};
+
+const normalizeRawSources = (data: unknown): RawSource[] => {
+  if (!data) return [];
+  if (typeof data === "string") {
+    try {
+      return normalizeRawSources(JSON.parse(data));
+    } catch {
+      return [];
+    }
+  }
+  if (Array.isArray(data)) {
+    return data
+      .map((item) => (typeof item === "string" ? (parseJavaMapString(item) as RawSource | null) : (item as RawSource)))
+      .filter((s): s is RawSource => !!s && typeof s.url === "string");
+  }
+  if (typeof data === "object") {
+    return Object.entries(data as Record<string, unknown>).map(([type, url]) => ({
+      type,
+      url: String(url),
+    }));
+  }
+  return [];
+};
+
+export function sealObservabilitySources(sources: ObservabilitySourceInput[]): StoredObservabilitySource[] {
+  return sources.map((source) => ({
+    type: source.type || "prometheus",
+    url: source.url,
+    userId: source.userId || null,
+    tokenEncrypted: source.token ? encryptSecret(source.token) : null,
+    tokenFingerprint: source.token ? fingerprintSecret(source.token) : null,
+    ...queryMapping(source),
+  }));
+}
+
+export function rewrapObservabilitySources(data: unknown): StoredObservabilitySource[] {
+  return normalizeRawSources(data).map(({ token, ...rest }) => {
+    const source = { ...rest, type: rest.type || "prometheus" };
+    const secret = source.tokenEncrypted || token || null;
+    if (!secret) {
+      return { ...source, tokenEncrypted: null, tokenFingerprint: null };
+    }
+    return {
+      ...source,
+      tokenEncrypted: rewrapSecret(secret),
+      tokenFingerprint: source.tokenFingerprint || fingerprintSecret(decryptSecret(secret)!),
+    };
+  });
+}
+
+export function redactObservabilitySources(data: unknown): PublicObservabilitySource[] {
+  return normalizeRawSources(data).map((source) => ({
+    type: source.type || "prometheus",
+    url: source.url,
+    userId: source.userId || null,
+    tokenFingerprint: source.tokenFingerprint || (source.token ? fingerprintSecret(source.token) : null),
+    ...queryMapping(source),
+  }));
+}
+
+export function unsealObservabilitySources(data: unknown): UnsealedObservabilitySource[] {
+  return normalizeRawSources(data).map((source) => ({
+    type: source.type || "prometheus",
+    url: source.url,
+    userId: source.userId || null,
+    token: decryptSecret(source.tokenEncrypted || source.token),
+    ...queryMapping(source),
+  }));
+}
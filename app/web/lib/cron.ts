@@ -0,0 +1,236 @@
+/**
+ * Cron Schedule Module
+ *
+ * Parses the schedules stored in zombie_candidates.schedule: five-field cron
+ * (or six with seconds first), macros like "@daily", and rates like
+ * "rate(5 minutes)" or "every 2h". Used to size observation windows for cron
+ * candidates and by the zombie probability model. Fire times are in UTC.
+ *
+ * A monthly job observed for 7 days is expected to run zero or one times, so
+ * silence says nothing; schedules need MIN_EXPECTED_RUNS in the window.
+ *
+ * Exports:
+ *   - MIN_EXPECTED_RUNS
+ *   - CronSchedule, ObservationWindowCheck
+ *   - parseCron(schedule): Parsed schedule, or null if unparsable
+ *   - cronIntervalMinutes(schedule): Average minutes between runs, or null
+ *   - nextFireTimes(cron, from, count): Upcoming runs (empty for rates)
+ *   - checkObservationWindow(schedule, analysisPeriodMinutes): Expected runs
+ *     and a suggested window, or null for candidates without a cron schedule
+ */
+
+export interface CronSchedule {
+  expression: string;
+  intervalMinutes: number; // Average minutes between runs
+  // Null for rates, which have no fixed fire times
+  fields: {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>; // 0 = Sunday
+    // Cron runs when either day field matches if both are restricted
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+  } | null;
+}
+
+export interface ObservationWindowCheck {
+  schedule: string;
+  intervalMinutes: number;
+  expectedRuns: number;
+  sufficient: boolean;
+  suggestedPeriodMinutes: number;
+  // False when even the longest accepted period holds fewer than MIN_EXPECTED_RUNS
+  suggestionSufficient: boolean;
+}
+
+// Fewer expected runs than this and silence is not evidence of death
+export const MIN_EXPECTED_RUNS = 3;
+
+// Longest analysis period the schedule endpoints accept (365 days)
+const MAX_SUGGESTED_PERIOD_MINUTES = 525600;
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const UNIT_MINUTES: Record<string, number> = {
+  s: 1 / 60, sec: 1 / 60, second: 1 / 60,
+  m: 1, min: 1, minute: 1,
+  h: 60, hr: 60, hour: 60,
+  d: 1440, day: 1440,
+  w: 10080, week: 10080,
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Values a cron field matches within [min, max], or null if unparsable.
+ * names maps "jan" / "mon" style aliases to numbers starting at nameOffset.
+ */
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset = 0
+): Set<number> | null {
+  let text = field;
+  names.forEach((name, index) => {
+    text = text.replaceAll(name, String(index + nameOffset));
+  });
+
+  const values = new Set<number>();
+  if (text === "*" || text === "?") {
+    for (let v = min; v <= max; v++) values.add(v);
+    return values;
+  }
+
+  for (const part of text.split(",")) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) return null;
+    const start = match[1] === "*" ? min : parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : match[1] === "*" || match[3] ? max : start;
+    const step = match[3] ? parseInt(match[3], 10) : 1;
+    if (step < 1 || start < min || end > max || end < start) return null;
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+function isRestricted(field: string) {
+  return field !== "*" && field !== "?";
+}
+
+export function parseCron(schedule: string | null): CronSchedule | null {
+  if (!schedule) return null;
+  const expression = schedule.trim();
+  const text = CRON_MACROS[expression.toLowerCase()] ?? expression.toLowerCase();
+
+  const rate = text.match(/^(?:rate\(|every\s+)(\d+)\s*([a-z]+?)s?\)?$/);
+  if (rate) {
+    const unit = UNIT_MINUTES[rate[2]];
+    const intervalMinutes = parseInt(rate[1], 10) * (unit ?? 0);
+    return intervalMinutes > 0 ? { expression, intervalMinutes, fields: null } : null;
+  }
+
+  // Five fields, or six with seconds first
+  let parts = text.split(/\s+/);
+  if (parts.length === 6) parts = parts.slice(1);
+  if (parts.length !== 5) return null;
+
+  const minutes = parseField(parts[0], 0, 59);
+  const hours = parseField(parts[1], 0, 23);
+  const daysOfMonth = parseField(parts[2], 1, 31);
+  const months = parseField(parts[3], 1, 12, MONTH_NAMES, 1);
+  // 7 is Sunday too
+  const weekDays = parseField(parts[4], 0, 7, DAY_NAMES);
+  if (!minutes || !hours || !daysOfMonth || !months || !weekDays) return null;
+  const daysOfWeek = new Set([...weekDays].map((day) => day % 7));
+
+  const dayOfMonthRestricted = isRestricted(parts[2]);
+  const dayOfWeekRestricted = isRestricted(parts[4]);
+
+  // Share of days it runs on
+  const monthShare = daysOfMonth.size / 31;
+  const weekShare = daysOfWeek.size / 7;
+  const dayShare = dayOfMonthRestricted && dayOfWeekRestricted
+    ? 1 - (1 - monthShare) * (1 - weekShare)
+    : monthShare * weekShare;
+  const runsPerYear = minutes.size * hours.size * 365 * dayShare * (months.size / 12);
+  if (runsPerYear <= 0) return null;
+
+  return {
+    expression,
+    intervalMinutes: 525600 / runsPerYear,
+    fields: { minutes, hours, daysOfMonth, months, daysOfWeek, dayOfMonthRestricted, dayOfWeekRestricted },
+  };
+}
+
+/**
+ * Average minutes between runs for a cron expression ("*\/15 * * * *"),
+ * a macro ("@daily") or a rate ("rate(5 minutes)", "every 2h").
+ * Returns null for anything else, e.g. the "scheduled" placeholder.
+ */
+export function cronIntervalMinutes(schedule: string | null): number | null {
+  return parseCron(schedule)?.intervalMinutes ?? null;
+}
+
+/**
+ * The next count runs strictly after from. Rates have no fixed fire times and
+ * return an empty list; so do expressions that never fire (e.g. Feb 30).
+ */
+export function nextFireTimes(cron: CronSchedule, from: Date, count: number): Date[] {
+  const f = cron.fields;
+  if (!f) return [];
+
+  const dayMatches = (date: Date) => {
+    const monthDay = f.daysOfMonth.has(date.getUTCDate());
+    const weekDay = f.daysOfWeek.has(date.getUTCDay());
+    if (f.dayOfMonthRestricted && f.dayOfWeekRestricted) return monthDay || weekDay;
+    return monthDay && weekDay;
+  };
+
+  const times: Date[] = [];
+  const t = new Date(from.getTime());
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+
+  // Every schedule fires within a leap-year cycle if it fires at all
+  const limit = from.getTime() + 4 * 366 * 24 * 60 * 60 * 1000;
+
+  while (times.length < count && t.getTime() <= limit) {
+    if (!f.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0);
+    } else if (!dayMatches(t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0);
+    } else if (!f.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0);
+    } else if (!f.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1);
+    } else {
+      times.push(new Date(t.getTime()));
+      t.setUTCMinutes(t.getUTCMinutes() + 1);
+    }
+  }
+  return times;
+}
+
+/**
+ * Whether an analysis period covers enough runs of the candidate's schedule.
+ * The suggested period covers MIN_EXPECTED_RUNS, rounded up to whole hours,
+ * but never exceeds 365 days; suggestionSufficient says whether it still
+ * reaches MIN_EXPECTED_RUNS (a yearly job never does).
+ */
+export function checkObservationWindow(
+  schedule: string | null,
+  analysisPeriodMinutes: number
+): ObservationWindowCheck | null {
+  const cron = parseCron(schedule);
+  if (!cron) return null;
+
+  const expectedRuns = analysisPeriodMinutes / cron.intervalMinutes;
+  const suggestedPeriodMinutes = Math.min(
+    Math.ceil((cron.intervalMinutes * MIN_EXPECTED_RUNS) / 60) * 60,
+    MAX_SUGGESTED_PERIOD_MINUTES
+  );
+
+  return {
+    schedule: cron.expression,
+    intervalMinutes: Math.round(cron.intervalMinutes * 100) / 100,
+    expectedRuns: Math.round(expectedRuns * 100) / 100,
+    sufficient: expectedRuns >= MIN_EXPECTED_RUNS,
+    suggestedPeriodMinutes,
+    suggestionSufficient: suggestedPeriodMinutes / cron.intervalMinutes >= MIN_EXPECTED_RUNS,
+  };
+}
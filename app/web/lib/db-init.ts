@@ -2,42 +2,44 @@
  * Database Initialization Module
  *
  * Provides singleton pattern for database initialization.
- * Ensures database is initialized only once across the application lifecycle.
+ * Applies pending schema migrations once per process; concurrent callers
+ * share the same run, and the migration advisory lock serializes
+ * separate Next.js instances.
  *
  * Exports:
- *   - ensureDatabaseInitialized(): Promise<boolean> - Initialize database (idempotent)
+ *   - ensureDatabaseInitialized(): Promise<boolean> - Apply pending migrations (idempotent)
  *   - isDatabaseInitialized(): boolean - Check initialization status
  */
-import { initializeDatabase, checkConnection } from "@/lib/db";
+import { checkConnection } from "@/lib/db";
+import { runMigrations } from "@/lib/migrations";
 
 let initialized = false;
-let initializing = false;
+let initializing: Promise<boolean> | null = null;
 
 export async function ensureDatabaseInitialized(): Promise<boolean> {
   if (initialized) return true;
-  if (initializing) {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    return initialized;
-  }
+  if (initializing) return initializing;
 
-  initializing = true;
+  initializing = (async () => {
+    try {
+      const connected = await checkConnection();
+      if (!connected) {
+        console.error("[db-init] Cannot connect to database");
+        return false;
+      }
 
-  try {
-    const connected = await checkConnection();
-    if (!connected) {
-      console.error("[db-init] Cannot connect to database");
+      await runMigrations();
+      initialized = true;
+      return true;
+    } catch (error) {
+      console.error("[db-init] Database initialization failed:", error);
       return false;
+    } finally {
+      initializing = null;
     }
+  })();
 
-    await initializeDatabase();
-    initialized = true;
-    return true;
-  } catch (error) {
-    console.error("[db-init] Database initialization failed:", error);
-    return false;
-  } finally {
-    initializing = false;
-  }
+  return initializing;
 }
 
 export function isDatabaseInitialized(): boolean {
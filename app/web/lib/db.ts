@@ -8,11 +8,12 @@
  *   - DATABASE_URL: PostgreSQL connection string
  *   - PGSQL_CA_PATH: Optional path to CA certificate file
  *
+ * Schema changes are applied by lib/migrations.ts.
+ *
  * Exports:
  *   - pool: PostgreSQL connection pool
  *   - query<T>(text, params): Execute query returning multiple rows
  *   - queryOne<T>(text, params): Execute query returning single row or null
- *   - initializeDatabase(): Initialize schema from db_schema.sql
  *   - checkConnection(): Test database connectivity
  */
 import { Pool, PoolConfig } from "pg";
@@ -94,61 +95,6 @@ export async function queryOne<T>(text: string, params?: unknown[]): Promise<T |
   return rows[0] || null;
 }
 
-function parseSqlStatements(sql: string): string[] {
-  const statements: string[] = [];
-  let current = "";
-  let inDollarQuote = false;
-
-  for (const line of sql.split("\n")) {
-    if (line.trim().startsWith("--")) continue;
-    current += line + "\n";
-
-    const dollarCount = (line.match(/\$\$/g) || []).length;
-    if (dollarCount % 2 === 1) inDollarQuote = !inDollarQuote;
-
-    if (!inDollarQuote && line.includes(";")) {
-      const trimmed = current.trim().replace(/;$/, "");
-      if (trimmed) statements.push(trimmed);
-      current = "";
-    }
-  }
-
-  const remaining = current.trim().replace(/;$/, "");
-  if (remaining) statements.push(remaining);
-
-  return statements;
-}
-
-export async function initializeDatabase(): Promise<void> {
-  const client = await pool.connect();
-  try {
-    const schemaPath = path.join(process.cwd(), "..", "schema", "db_schema.sql");
-    if (!fs.existsSync(schemaPath)) {
-      throw new Error(`Schema file not found: ${schemaPath}`);
-    }
-
-    const tablesExist = await client.query(`
-      SELECT EXISTS (
-        SELECT FROM information_schema.tables 
-        WHERE table_name = 'watchers'
-      ) as exists
-    `);
-    
-    if (tablesExist.rows[0]?.exists === true) {
-      console.log("[db] Tables already exist, skipping initialization");
-      return;
-    }
-
-    const schema = fs.readFileSync(schemaPath, "utf-8");
-    for (const statement of parseSqlStatements(schema)) {
-      await client.query(statement);
-    }
-    console.log("[db] Schema initialized successfully");
-  } finally {
-    client.release();
-  }
-}
-
 export async function checkConnection(): Promise<boolean> {
   try {
     const client = await pool.connect();
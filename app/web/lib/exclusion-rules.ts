@@ -0,0 +1,163 @@
+/**
+ * Exclusion Rules Module
+ *
+ * Per-watcher allowlist of entities that must never be killed. Each rule
+ * matches one candidate field; a candidate matched by any rule is protected
+ * and the kill route refuses it.
+ *
+ *   path_glob        → route_path        (e.g. /api/health/**)
+ *   signature_regex  → entity_signature  (e.g. ^cron:.*backup)
+ *   entity_type      → entity_type       (exact, e.g. websocket)
+ *   file_glob        → file_path         (e.g. src/admin/**)
+ *
+ * Globs: ** matches across "/", * and ? stay within one segment. The W1
+ * creation and rescan workflows carry a Python copy of this matcher and
+ * apply the rules after storing candidates; keep the two in sync.
+ * Rules with source = 'policy' come from the repository's .doomsday.yml.
+ *
+ * Exports:
+ *   - EXCLUSION_RULE_TYPES, ExclusionRuleType, ExclusionRule
+ *   - validateExclusionRule(ruleType, pattern): Error message or null
+ *   - globToRegExp(glob): Anchored RegExp for a glob
+ *   - findMatchingRule(rules, candidate): First rule protecting the candidate
+ *   - applyExclusionRules(client, watcherId): Re-mark protected candidates
+ */
+import { PoolClient } from "pg";
+
+export const EXCLUSION_RULE_TYPES = ["path_glob", "signature_regex", "entity_type", "file_glob"] as const;
+
+export type ExclusionRuleType = (typeof EXCLUSION_RULE_TYPES)[number];
+
+export interface ExclusionRule {
+  rule_id: number;
+  watcher_id: string;
+  rule_type: ExclusionRuleType;
+  pattern: string;
+  reason: string | null;
+  source: "manual" | "policy";
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MatchableCandidate {
+  entity_type: string;
+  entity_signature: string;
+  route_path: string | null;
+  file_path: string | null;
+}
+
+const MAX_PATTERN_LENGTH = 500;
+// (?<name>…) outside lookbehind, \k<name>, \p{…} / \P{…}, \u{…}
+const JS_ONLY_REGEX_SYNTAX = /\(\?<(?![=!])|\\k<|\\[pP]\{|\\u\{/;
+
+export function validateExclusionRule(ruleType: unknown, pattern: unknown): string | null {
+  if (typeof ruleType !== "string" || !EXCLUSION_RULE_TYPES.includes(ruleType as ExclusionRuleType)) {
+    return `Invalid rule type. Must be one of: ${EXCLUSION_RULE_TYPES.join(", ")}`;
+  }
+  if (typeof pattern !== "string" || !pattern.trim()) {
+    return "Pattern is required";
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (ruleType === "signature_regex") {
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      return `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    // W1 re-applies rules with Python's re on every scan, which has none of these
+    const jsOnly = pattern.match(JS_ONLY_REGEX_SYNTAX);
+    if (jsOnly) {
+      return `Unsupported regular expression syntax "${jsOnly[0]}": named groups, \\k<>, \\p{} and \\u{} are not available`;
+    }
+  }
+  return null;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches zero directories
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function matchesRule(rule: Pick<ExclusionRule, "rule_type" | "pattern">, candidate: MatchableCandidate): boolean {
+  switch (rule.rule_type) {
+    case "entity_type":
+      return candidate.entity_type === rule.pattern;
+    case "signature_regex":
+      return new RegExp(rule.pattern).test(candidate.entity_signature);
+    case "path_glob":
+      return candidate.route_path !== null && globToRegExp(rule.pattern).test(candidate.route_path);
+    case "file_glob":
+      return candidate.file_path !== null && globToRegExp(rule.pattern).test(candidate.file_path);
+    default:
+      return false;
+  }
+}
+
+export function findMatchingRule<T extends Pick<ExclusionRule, "rule_id" | "rule_type" | "pattern">>(
+  rules: T[],
+  candidate: MatchableCandidate
+): T | null {
+  for (const rule of rules) {
+    try {
+      if (matchesRule(rule, candidate)) return rule;
+    } catch {
+      // A rule stored before validation tightened must not break the others
+    }
+  }
+  return null;
+}
+
+/**
+ * Recompute is_protected / protected_by_rule_id for every candidate of a
+ * watcher. Runs inside the caller's transaction; returns the protected count.
+ */
+export async function applyExclusionRules(client: PoolClient, watcherId: string): Promise<number> {
+  const { rows: rules } = await client.query<ExclusionRule>(
+    "SELECT rule_id, rule_type, pattern FROM watcher_exclusion_rules WHERE watcher_id = $1 ORDER BY rule_id",
+    [watcherId]
+  );
+  const { rows: candidates } = await client.query<
+    MatchableCandidate & { candidate_id: number; protected_by_rule_id: number | null; is_protected: boolean }
+  >(
+    `SELECT candidate_id, entity_type, entity_signature, route_path, file_path,
+            COALESCE(is_protected, FALSE) AS is_protected, protected_by_rule_id
+     FROM zombie_candidates WHERE watcher_id = $1`,
+    [watcherId]
+  );
+
+  let protectedCount = 0;
+  for (const candidate of candidates) {
+    const ruleId = findMatchingRule(rules, candidate)?.rule_id ?? null;
+    if (ruleId !== null) protectedCount++;
+    if (candidate.is_protected === (ruleId !== null) && candidate.protected_by_rule_id === ruleId) continue;
+
+    await client.query(
+      `UPDATE zombie_candidates SET is_protected = $1, protected_by_rule_id = $2, updated_at = NOW()
+       WHERE candidate_id = $3`,
+      [ruleId !== null, ruleId, candidate.candidate_id]
+    );
+  }
+  return protectedCount;
+}
@@ -0,0 +1,33 @@
+/**
+ * Execution Access Module
+ *
+ * Decides whether a Kestra execution may be shown to a user. Executions carry
+ * a watcher_id label; the watcher must belong to the user. W1 only inserts
+ * the watcher row near the end of its run, so a watcher creation execution is
+ * also accepted when its user_id input (set by POST /api/watchers/create from
+ * the authenticated user) is the caller.
+ *
+ * Exports:
+ *   - canViewExecution(execution, userId): True if the user owns the execution's watcher
+ */
+import { queryOne } from "@/lib/db";
+import { KESTRA_FLOWS, KestraExecution, executionLabel } from "@/lib/kestra";
+
+export async function canViewExecution(execution: KestraExecution, userId: string): Promise<boolean> {
+  const creation = KESTRA_FLOWS.watcherCreation;
+  if (
+    execution.namespace === creation.namespace &&
+    execution.flowId === creation.flowId &&
+    execution.inputs?.user_id === userId
+  ) {
+    return true;
+  }
+
+  const watcherId = executionLabel(execution, "watcher_id");
+  if (!watcherId) return false;
+  const watcher = await queryOne<{ watcher_id: string }>(
+    "SELECT watcher_id FROM watchers WHERE watcher_id = $1 AND user_id = $2",
+    [watcherId, userId]
+  );
+  return watcher !== null;
+}
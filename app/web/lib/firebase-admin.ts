@@ -0,0 +1,38 @@
+/**
+ * Firebase Admin Module
+ *
+ * Server-only Firebase Admin SDK initialization with singleton pattern.
+ * Used to verify Firebase ID tokens sent by the browser.
+ *
+ * Environment Variables:
+ *   - FIREBASE_ADMIN_PROJECT_ID: Service account project ID
+ *   - FIREBASE_ADMIN_CLIENT_EMAIL: Service account client email
+ *   - FIREBASE_ADMIN_PRIVATE_KEY: Service account private key (\n escaped)
+ *
+ * Falls back to Application Default Credentials when no service account is set.
+ *
+ * Exports:
+ *   - getAdminAuth(): Firebase Admin Auth instance (initialized on first use)
+ */
+import { initializeApp, getApps, cert, applicationDefault, App } from "firebase-admin/app";
+import { getAuth, Auth } from "firebase-admin/auth";
+
+const getAdminApp = (): App => {
+  const existing = getApps();
+  if (existing.length > 0) return existing[0];
+
+  const projectId = process.env.FIREBASE_ADMIN_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL;
+  const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, "\n");
+
+  if (projectId && clientEmail && privateKey) {
+    return initializeApp({ credential: cert({ projectId, clientEmail, privateKey }), projectId });
+  }
+
+  console.warn("[firebase-admin] No service account configured, using application default credentials");
+  return initializeApp({ credential: applicationDefault(), projectId });
+};
+
+export function getAdminAuth(): Auth {
+  return getAuth(getAdminApp());
+}
@@ -0,0 +1,37 @@
+/**
+ * Ingest Keys Module
+ *
+ * Per-watcher keys for push endpoints (OTLP), which collectors call without
+ * a Firebase session. Only the SHA-256 hash and a masked fingerprint are
+ * stored on the watcher; the key itself is shown once when generated.
+ *
+ * Collectors send the key as "Authorization: Bearer <key>" or in the
+ * X-Ingest-Key header.
+ *
+ * Exports:
+ *   - generateIngestKey(): New key with its hash and fingerprint
+ *   - hashIngestKey(key): Hex SHA-256 stored in watchers.otlp_key_hash
+ *   - extractIngestKey(req): Key sent with a request, or null
+ */
+import crypto from "crypto";
+import { NextRequest } from "next/server";
+import { fingerprintSecret } from "@/lib/credential-vault";
+
+const KEY_PREFIX = "dms_";
+const KEY_BYTES = 32;
+
+export function hashIngestKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function generateIngestKey(): { key: string; hash: string; fingerprint: string } {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(KEY_BYTES).toString("base64url")}`;
+  return { key, hash: hashIngestKey(key), fingerprint: fingerprintSecret(key) };
+}
+
+export function extractIngestKey(req: NextRequest): string | null {
+  const header = req.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (match) return match[1].trim();
+  return req.headers.get("x-ingest-key")?.trim() || null;
+}
@@ -0,0 +1,373 @@
+/**
+ * Kestra API Client
+ *
+ * Typed client for the Kestra REST API used by every route that starts or
+ * inspects a workflow. Configuration is read from a single place and the
+ * client refuses to run with missing or well-known default credentials.
+ *
+ * Requests time out after KESTRA_TIMEOUT_MS and are retried with exponential
+ * backoff. Reads retry on network errors, 429 and 5xx; flow triggers only
+ * retry when Kestra provably did not accept the request (connection refused,
+ * 429, 503) so an execution is never started twice.
+ *
+ * Environment Variables:
+ *   - KESTRA_URL: Kestra server base URL (e.g. http://localhost:8080)
+ *   - KESTRA_API_TOKEN: Basic auth credentials as "username:password"
+ *   - KESTRA_TIMEOUT_MS: Optional per-attempt timeout (default 15000)
+ *
+ * Exports:
+ *   - KESTRA_FLOWS: Namespace/flow ids of the Doomsday workflows
+ *   - triggerFlow(flow, inputs, options?): Start an execution with form inputs
+ *   - triggerWebhook(flow, body): Start an execution through a webhook trigger
+ *   - getExecution(executionId): Fetch an execution with its task runs
+ *   - listExecutionsByLabel(labels, options?): Search executions by labels
+ *   - killExecution(executionId): Kill a running execution
+ *   - restartExecution(executionId): Restart a failed execution
+ *   - isTerminalState(state): True for SUCCESS/WARNING/FAILED/KILLED/CANCELLED
+ *   - executionLabel(execution, key): Value of an execution label, or null
+ *   - isTriggerRefused(error): True if a failed trigger provably started nothing
+ *   - getKestraConfig(): Validated client configuration
+ *   - KestraError, KestraConfigError
+ */
+
+// ============================================================================
+// Models
+// ============================================================================
+
+export type KestraState =
+  | "CREATED"
+  | "QUEUED"
+  | "RUNNING"
+  | "PAUSED"
+  | "RESTARTED"
+  | "KILLING"
+  | "RETRYING"
+  | "RETRIED"
+  | "SUCCESS"
+  | "WARNING"
+  | "FAILED"
+  | "KILLED"
+  | "CANCELLED"
+  | "SKIPPED";
+
+export interface KestraStateInfo {
+  current: KestraState;
+  startDate?: string;
+  endDate?: string;
+  duration?: string;
+  histories?: Array<{ state: KestraState; date: string }>;
+}
+
+export interface KestraLabel {
+  key: string;
+  value: string;
+}
+
+export interface KestraTaskRun {
+  id: string;
+  executionId: string;
+  namespace: string;
+  flowId: string;
+  taskId: string;
+  parentTaskRunId?: string | null;
+  value?: string | null;
+  state: KestraStateInfo;
+  outputs?: Record<string, unknown>;
+}
+
+export interface KestraExecution {
+  id: string;
+  namespace: string;
+  flowId: string;
+  flowRevision?: number;
+  labels?: KestraLabel[];
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  state: KestraStateInfo;
+  taskRunList?: KestraTaskRun[] | null;
+}
+
+export interface KestraFlowRef {
+  namespace: string;
+  flowId: string;
+  webhookKey?: string;
+}
+
+export const KESTRA_FLOWS = {
+  watcherCreation: { namespace: "doomsday.watchers", flowId: "w1_watcher_creation" },
+  watcherRescan: {
+    namespace: "doomsday.watchers",
+    flowId: "w1_watcher_rescan",
+    webhookKey: "devgraveyard-rescan-webhook-2024",
+  },
+  handleResponse: { namespace: "doomsday.avengers", flowId: "w3_handle_response", webhookKey: "zombie-action" },
+  killZombie: { namespace: "doomsday.assemble", flowId: "w4_kill_zombie" },
+} satisfies Record<string, KestraFlowRef>;
+
+const TERMINAL_STATES: KestraState[] = ["SUCCESS", "WARNING", "FAILED", "KILLED", "CANCELLED"];
+
+export function isTerminalState(state: string): boolean {
+  return TERMINAL_STATES.includes(state as KestraState);
+}
+
+export function executionLabel(execution: KestraExecution, key: string): string | null {
+  return execution.labels?.find((label) => label.key === key)?.value ?? null;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class KestraConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KestraConfigError";
+  }
+}
+
+export class KestraError extends Error {
+  status: number | null;
+  body: string;
+  // No response because nothing was listening: the request never reached Kestra
+  connectionRefused = false;
+
+  constructor(message: string, status: number | null, body = "") {
+    super(message);
+    this.name = "KestraError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Whether a failed triggerFlow / triggerWebhook certainly started no execution:
+ * a configuration error, a refused connection, or a 4xx / 503 answer. After a
+ * timeout or another 5xx Kestra may still have started it.
+ */
+export function isTriggerRefused(error: unknown): boolean {
+  if (error instanceof KestraConfigError) return true;
+  if (!(error instanceof KestraError)) return false;
+  if (error.status === null) return error.connectionRefused;
+  return (error.status >= 400 && error.status < 500) || error.status === 503;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+interface KestraConfig {
+  baseUrl: string;
+  authHeader: string;
+  timeoutMs: number;
+}
+
+// Credentials shipped in Kestra docs, compose files and earlier versions of this app
+const DEFAULT_CREDENTIALS = new Set([
+  "admin:admin",
+  "admin:kestra",
+  "admin@kestra.io:admin",
+  "admin@kestra.io:kestra",
+  "admin@kestra.io:Admin123",
+  "admin:change_me_to_secure_password",
+]);
+
+let config: KestraConfig | null = null;
+
+export function getKestraConfig(): KestraConfig {
+  if (config) return config;
+
+  const baseUrl = process.env.KESTRA_URL?.trim();
+  const credentials = process.env.KESTRA_API_TOKEN?.trim();
+
+  if (!baseUrl) {
+    throw new KestraConfigError("KESTRA_URL is not configured");
+  }
+  if (!credentials || !credentials.includes(":")) {
+    throw new KestraConfigError('KESTRA_API_TOKEN must be set as "username:password"');
+  }
+  if (DEFAULT_CREDENTIALS.has(credentials)) {
+    throw new KestraConfigError("KESTRA_API_TOKEN uses default Kestra credentials - set a real password");
+  }
+
+  config = {
+    baseUrl: baseUrl.replace(/\/$/, ""),
+    authHeader: `Basic ${Buffer.from(credentials).toString("base64")}`,
+    timeoutMs: parseInt(process.env.KESTRA_TIMEOUT_MS || "", 10) || 15000,
+  };
+  return config;
+}
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "DELETE";
+  body?: BodyInit;
+  headers?: Record<string, string>;
+  // Safe to repeat after an ambiguous failure (timeout, 5xx)
+  idempotent?: boolean;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isConnectionRefused = (error: unknown): boolean =>
+  error instanceof Error &&
+  (error.cause as { code?: string } | undefined)?.code === "ECONNREFUSED";
+
+const shouldRetry = (idempotent: boolean, status: number | null, error?: unknown): boolean => {
+  if (status === 429 || status === 503) return true;
+  if (status === null) return idempotent || isConnectionRefused(error);
+  return idempotent && status >= 500;
+};
+
+async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { baseUrl, authHeader, timeoutMs } = getKestraConfig();
+  const { method = "GET", body, headers = {}, idempotent = method === "GET" } = options;
+
+  let lastError: KestraError | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    if (attempt > 1) {
+      // Exponential backoff with jitter: ~0.5s, ~1s
+      await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 2) + Math.random() * 250);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        body,
+        headers: { Authorization: authHeader, "User-Agent": "Doomsday-Watcher/1.0", ...headers },
+        signal: AbortSignal.timeout(timeoutMs),
+        cache: "no-store",
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+      lastError = new KestraError(
+        timedOut ? `Kestra request timed out after ${timeoutMs}ms` : `Cannot reach Kestra: ${error instanceof Error ? error.message : error}`,
+        null
+      );
+      lastError.connectionRefused = isConnectionRefused(error);
+      if (shouldRetry(idempotent, null, error) && attempt < MAX_ATTEMPTS) continue;
+      throw lastError;
+    }
+
+    if (response.ok) {
+      const text = await response.text();
+      try {
+        return (text ? JSON.parse(text) : null) as T;
+      } catch {
+        throw new KestraError(`Kestra ${method} ${path} returned invalid JSON`, response.status, text.slice(0, 200));
+      }
+    }
+
+    const errorBody = await response.text().catch(() => "");
+    lastError = new KestraError(`Kestra ${method} ${path} returned HTTP ${response.status}`, response.status, errorBody);
+    if (shouldRetry(idempotent, response.status) && attempt < MAX_ATTEMPTS) {
+      console.warn(`[kestra] ${lastError.message}, retrying (attempt ${attempt}/${MAX_ATTEMPTS})`);
+      continue;
+    }
+    throw lastError;
+  }
+
+  throw lastError ?? new KestraError("Kestra request failed", null);
+}
+
+// ============================================================================
+// API
+// ============================================================================
+
+type FlowInputs = Record<string, string | number | boolean | null | undefined>;
+
+interface TriggerOptions {
+  labels?: Record<string, string>;
+}
+
+const labelParams = (labels: Record<string, string> = {}): URLSearchParams => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(labels)) {
+    params.append("labels", `${key}:${value}`);
+  }
+  return params;
+};
+
+export async function triggerFlow(
+  flow: KestraFlowRef,
+  inputs: FlowInputs,
+  options: TriggerOptions = {}
+): Promise<KestraExecution> {
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(inputs)) {
+    if (value !== null && value !== undefined) {
+      formData.append(key, String(value));
+    }
+  }
+
+  const query = labelParams(options.labels).toString();
+  return request<KestraExecution>(
+    `/api/v1/executions/trigger/${flow.namespace}/${flow.flowId}${query ? `?${query}` : ""}`,
+    { method: "POST", body: formData }
+  );
+}
+
+export async function triggerWebhook(flow: KestraFlowRef, body: Record<string, unknown>): Promise<KestraExecution> {
+  if (!flow.webhookKey) {
+    throw new KestraConfigError(`Flow ${flow.namespace}/${flow.flowId} has no webhook trigger`);
+  }
+  return request<KestraExecution>(
+    `/api/v1/executions/webhook/${flow.namespace}/${flow.flowId}/${flow.webhookKey}`,
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+export async function getExecution(executionId: string): Promise<KestraExecution> {
+  return request<KestraExecution>(`/api/v1/executions/${encodeURIComponent(executionId)}`);
+}
+
+interface ListExecutionsOptions {
+  flow?: KestraFlowRef;
+  state?: KestraState[];
+  size?: number;
+}
+
+export async function listExecutionsByLabel(
+  labels: Record<string, string>,
+  options: ListExecutionsOptions = {}
+): Promise<KestraExecution[]> {
+  const params = labelParams(labels);
+  params.set("size", String(options.size ?? 25));
+  params.set("sort", "state.startDate:desc");
+  if (options.flow) {
+    params.set("namespace", options.flow.namespace);
+    params.set("flowId", options.flow.flowId);
+  }
+  for (const state of options.state ?? []) {
+    params.append("state", state);
+  }
+
+  const result = await request<{ results: KestraExecution[]; total: number }>(
+    `/api/v1/executions/search?${params.toString()}`
+  );
+  return result?.results ?? [];
+}
+
+export async function killExecution(executionId: string): Promise<void> {
+  await request<unknown>(`/api/v1/executions/${encodeURIComponent(executionId)}/kill`, {
+    method: "DELETE",
+    idempotent: true,
+  });
+}
+
+export async function restartExecution(executionId: string): Promise<KestraExecution> {
+  return request<KestraExecution>(`/api/v1/executions/${encodeURIComponent(executionId)}/restart`, {
+    method: "POST",
+  });
+}
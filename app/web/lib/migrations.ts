@@ -0,0 +1,217 @@
+/**
+ * Schema Migrations Module
+ *
+ * Applies ordered, checksummed SQL files from app/schema/migrations and
+ * records them in the schema_migrations table.
+ *
+ * File naming: NNNN_description.sql (e.g. 0002_add_scan_diff.sql)
+ *   - Files are applied in version order, each in its own transaction
+ *   - The SHA-256 checksum of every applied file is stored; editing an
+ *     applied migration is reported as a mismatch and blocks further runs
+ *   - A Postgres advisory lock serializes concurrent runners (multiple
+ *     Next.js instances, CLI + server)
+ *
+ * Exports:
+ *   - runMigrations(): Apply all pending migrations, returns applied versions
+ *   - getMigrationStatus(): Applied, pending and mismatched migrations
+ *   - loadMigrations(): Migration files found on disk
+ */
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { PoolClient } from "pg";
+import { pool } from "@/lib/db";
+
+// Arbitrary app-wide key for pg_advisory_lock ("doomsday" as 32-bit int)
+const MIGRATION_LOCK_KEY = 0x646f6f6d;
+const MIGRATION_FILE_REGEX = /^(\d{4})_([\w-]+)\.sql$/;
+
+export interface MigrationFile {
+  version: string;
+  name: string;
+  filename: string;
+  checksum: string;
+  sql: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+  executionMs: number;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Array<Pick<MigrationFile, "version" | "name" | "filename">>;
+  mismatched: Array<{ version: string; name: string; expected: string; actual: string }>;
+  missing: AppliedMigration[];
+}
+
+const getMigrationsDir = (): string => path.join(process.cwd(), "..", "schema", "migrations");
+
+function parseSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let inDollarQuote = false;
+
+  for (const line of sql.split("\n")) {
+    if (line.trim().startsWith("--")) continue;
+    current += line + "\n";
+
+    const dollarCount = (line.match(/\$\$/g) || []).length;
+    if (dollarCount % 2 === 1) inDollarQuote = !inDollarQuote;
+
+    if (!inDollarQuote && line.includes(";")) {
+      const trimmed = current.trim().replace(/;$/, "");
+      if (trimmed) statements.push(trimmed);
+      current = "";
+    }
+  }
+
+  const remaining = current.trim().replace(/;$/, "");
+  if (remaining) statements.push(remaining);
+
+  return statements;
+}
+
+export function loadMigrations(): MigrationFile[] {
+  const dir = getMigrationsDir();
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Migrations directory not found: ${dir}`);
+  }
+
+  const migrations: MigrationFile[] = [];
+  const seen = new Set<string>();
+
+  for (const filename of fs.readdirSync(dir).sort()) {
+    const match = filename.match(MIGRATION_FILE_REGEX);
+    if (!match) continue;
+
+    const [, version, name] = match;
+    if (seen.has(version)) {
+      throw new Error(`Duplicate migration version ${version} (${filename})`);
+    }
+    seen.add(version);
+
+    const sql = fs.readFileSync(path.join(dir, filename), "utf-8");
+    migrations.push({
+      version,
+      name,
+      filename,
+      checksum: crypto.createHash("sha256").update(sql).digest("hex"),
+      sql,
+    });
+  }
+
+  return migrations;
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(4) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      execution_ms INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+}
+
+async function readStatus(client: PoolClient): Promise<MigrationStatus> {
+  const files = loadMigrations();
+  const { rows } = await client.query<{
+    version: string;
+    name: string;
+    checksum: string;
+    applied_at: Date;
+    execution_ms: number;
+  }>(`SELECT version, name, checksum, applied_at, execution_ms FROM schema_migrations ORDER BY version`);
+
+  const applied: AppliedMigration[] = rows.map((row) => ({
+    version: row.version,
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: row.applied_at.toISOString(),
+    executionMs: row.execution_ms,
+  }));
+  const appliedByVersion = new Map(applied.map((m) => [m.version, m]));
+  const fileVersions = new Set(files.map((f) => f.version));
+
+  return {
+    applied,
+    pending: files
+      .filter((f) => !appliedByVersion.has(f.version))
+      .map(({ version, name, filename }) => ({ version, name, filename })),
+    mismatched: files
+      .filter((f) => appliedByVersion.has(f.version) && appliedByVersion.get(f.version)!.checksum !== f.checksum)
+      .map((f) => ({
+        version: f.version,
+        name: f.name,
+        expected: appliedByVersion.get(f.version)!.checksum,
+        actual: f.checksum,
+      })),
+    missing: applied.filter((m) => !fileVersions.has(m.version)),
+  };
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const client = await pool.connect();
+  try {
+    await ensureMigrationsTable(client);
+    return await readStatus(client);
+  } finally {
+    client.release();
+  }
+}
+
+export async function runMigrations(): Promise<string[]> {
+  const client = await pool.connect();
+  const appliedNow: string[] = [];
+
+  try {
+    // Blocks until any other runner finishes; it then sees nothing pending
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(client);
+
+    const status = await readStatus(client);
+    if (status.mismatched.length > 0) {
+      const versions = status.mismatched.map((m) => `${m.version}_${m.name}`).join(", ");
+      throw new Error(`Applied migrations were modified on disk: ${versions}`);
+    }
+
+    const files = new Map(loadMigrations().map((f) => [f.version, f]));
+
+    for (const { version } of status.pending) {
+      const migration = files.get(version)!;
+      const startedAt = Date.now();
+
+      try {
+        await client.query("BEGIN");
+        for (const statement of parseSqlStatements(migration.sql)) {
+          await client.query(statement);
+        }
+        await client.query(
+          `INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)`,
+          [migration.version, migration.name, migration.checksum, Date.now() - startedAt]
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw new Error(
+          `Migration ${migration.filename} failed: ${error instanceof Error ? error.message : error}`
+        );
+      }
+
+      console.log(`[migrations] Applied ${migration.filename} (${Date.now() - startedAt}ms)`);
+      appliedNow.push(version);
+    }
+
+    return appliedNow;
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]).catch(() => {});
+    client.release();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Observation Extension Module
+ *
+ * Parses and checks a "watch more" request. Users extend a candidate's
+ * observation either by a duration ("2d", "7d", "30d", "12h") or until a
+ * date. The extension must leave room for at least MIN_EXTENSION_SCANS more
+ * observations at the candidate's scan frequency.
+ *
+ * Used by the candidate extend route and the email action route; the
+ * resulting end date is what W3's extend_observation step stores.
+ *
+ * Exports:
+ *   - EXTENSION_PRESETS, DEFAULT_EXTENSION
+ *   - ObservationExtension, ExtensionRequest
+ *   - resolveExtension(request, scanFrequencyMinutes, from?): Extension or error message
+ */
+
+export interface ExtensionRequest {
+  extension?: unknown; // Duration such as "7d" or "12h"
+  until?: unknown; // ISO date or date-time
+}
+
+export interface ObservationExtension {
+  observationEndAt: Date;
+  // Whole days added, rounded up - accumulated in extended_observation_days
+  extensionDays: number;
+  // Duration string, or null when the request was an "until" date
+  extension: string | null;
+}
+
+export const EXTENSION_PRESETS = ["2d", "7d", "30d"] as const;
+
+export const DEFAULT_EXTENSION = "2d";
+
+const MIN_EXTENSION_SCANS = 2;
+const MAX_EXTENSION_DAYS = 365;
+const DURATION_PATTERN = /^(\d{1,4})([hd])$/;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Resolve a watch-more request into a new observation end.
+ * Durations are added to `from` (now, or the current end of an ongoing
+ * observation); an "until" date is absolute.
+ */
+export function resolveExtension(
+  request: ExtensionRequest,
+  scanFrequencyMinutes: number | null,
+  from: Date = new Date()
+): ObservationExtension | { error: string } {
+  if (!scanFrequencyMinutes) {
+    return { error: "Candidate has no observation schedule to extend" };
+  }
+
+  if (request.extension !== undefined && request.until !== undefined) {
+    return { error: "Send either extension or until, not both" };
+  }
+
+  const now = new Date();
+  let observationEndAt: Date;
+  let extension: string | null = null;
+
+  if (request.until !== undefined) {
+    if (typeof request.until !== "string" || isNaN(Date.parse(request.until))) {
+      return { error: "until must be an ISO date such as 2025-01-31" };
+    }
+    observationEndAt = new Date(request.until);
+  } else {
+    const value = request.extension === undefined ? DEFAULT_EXTENSION : request.extension;
+    const match = typeof value === "string" ? DURATION_PATTERN.exec(value.trim()) : null;
+    if (!match) {
+      return { error: 'extension must be a duration such as "2d", "7d", "30d" or "12h"' };
+    }
+    const amount = parseInt(match[1], 10);
+    const unitMs = match[2] === "d" ? DAY_MS : 60 * MINUTE_MS;
+    observationEndAt = new Date(from.getTime() + amount * unitMs);
+    extension = `${amount}${match[2]}`;
+  }
+
+  const base = Math.max(from.getTime(), now.getTime());
+  const addedMs = observationEndAt.getTime() - base;
+  const minimumMs = MIN_EXTENSION_SCANS * scanFrequencyMinutes * MINUTE_MS;
+
+  if (addedMs < minimumMs) {
+    return {
+      error: `Extension must cover at least ${MIN_EXTENSION_SCANS} more scans ` +
+        `(${MIN_EXTENSION_SCANS * scanFrequencyMinutes} minutes at the current scan frequency)`,
+    };
+  }
+  if (observationEndAt.getTime() - now.getTime() > MAX_EXTENSION_DAYS * DAY_MS) {
+    return { error: `Observation cannot be extended more than ${MAX_EXTENSION_DAYS} days ahead` };
+  }
+
+  return {
+    observationEndAt,
+    extensionDays: Math.ceil(addedMs / DAY_MS),
+    extension,
+  };
+}
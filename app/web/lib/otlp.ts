@@ -0,0 +1,357 @@
+/**
+ * OTLP Traces Module
+ *
+ * Decodes OpenTelemetry trace exports (OTLP/HTTP, JSON or protobuf) into a
+ * flat list of spans and matches each span to the zombie candidate it is
+ * evidence for. Used by POST /api/ingest/otlp/v1/traces.
+ *
+ * Only spans for inbound work count (kind SERVER, CONSUMER or unspecified);
+ * client and producer spans are another service's traffic. A span is
+ * matched by:
+ *   http.route (or url.path / http.target) + http.method → http_endpoint route_path + method
+ *   messaging.destination(.name)                         → queue_worker queue_name
+ *   rpc.service                                          → grpc_service "grpc:<service>"
+ * Routes resolve to the most specific candidate (lib/route-patterns).
+ *
+ * The protobuf decoder reads just the fields above from the wire format
+ * (opentelemetry/proto/collector/trace/v1/trace_service.proto).
+ *
+ * Exports:
+ *   - OtlpDecodeError, OtlpSpan, SpanTarget, MatchableCandidate
+ *   - decodeOtlpJson(body): Spans from an OTLP/JSON request
+ *   - decodeOtlpProtobuf(bytes): Spans from an OTLP/protobuf request
+ *   - isInboundSpan(span): Whether the span is work done for a caller
+ *   - spanTarget(span): Route, method, destination and RPC service of a span
+ *   - createSpanMatcher(candidates): target → matching candidate or null
+ */
+import { createRouteResolver } from "@/lib/route-patterns";
+
+export class OtlpDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OtlpDecodeError";
+  }
+}
+
+export interface OtlpSpan {
+  serviceName: string | null;
+  kind: number;
+  startTimeMs: number | null;
+  durationMs: number | null;
+  isError: boolean; // Status ERROR or an HTTP 5xx
+  attributes: Record<string, string>; // Resource attributes, overridden by the span's
+}
+
+export interface SpanTarget {
+  route: string | null;
+  method: string | null;
+  destination: string | null;
+  rpcService: string | null;
+}
+
+export interface MatchableCandidate {
+  entity_type: string;
+  entity_signature: string;
+  method: string | null;
+  route_path: string | null;
+  queue_name: string | null;
+  framework?: string | null;
+}
+
+// opentelemetry.proto.trace.v1.Span.SpanKind
+const SPAN_KIND_NAMES = [
+  "SPAN_KIND_UNSPECIFIED",
+  "SPAN_KIND_INTERNAL",
+  "SPAN_KIND_SERVER",
+  "SPAN_KIND_CLIENT",
+  "SPAN_KIND_PRODUCER",
+  "SPAN_KIND_CONSUMER",
+];
+const INBOUND_SPAN_KINDS = [0, 2, 5];
+const STATUS_CODE_ERROR = 2;
+
+const textDecoder = new TextDecoder();
+
+function buildSpan(
+  resourceAttributes: Record<string, string>,
+  spanAttributes: Record<string, string>,
+  kind: number,
+  startNs: number | null,
+  endNs: number | null,
+  statusCode: number
+): OtlpSpan {
+  const attributes = { ...resourceAttributes, ...spanAttributes };
+  const httpStatus = Number(attributes["http.response.status_code"] ?? attributes["http.status_code"]);
+  return {
+    serviceName: attributes["service.name"] ?? null,
+    kind,
+    startTimeMs: startNs ? startNs / 1e6 : null,
+    durationMs: startNs && endNs && endNs >= startNs ? (endNs - startNs) / 1e6 : null,
+    isError: statusCode === STATUS_CODE_ERROR || httpStatus >= 500,
+    attributes,
+  };
+}
+
+// ============================================================================
+// OTLP/JSON
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+const asObject = (value: unknown): JsonObject | null =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as JsonObject) : null;
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+function jsonAnyValue(value: unknown): string | null {
+  const v = asObject(value);
+  if (!v) return null;
+  if (typeof v.stringValue === "string") return v.stringValue;
+  if (typeof v.boolValue === "boolean") return String(v.boolValue);
+  // int64 is a string in OTLP/JSON
+  if (typeof v.intValue === "string" || typeof v.intValue === "number") return String(v.intValue);
+  if (typeof v.doubleValue === "number") return String(v.doubleValue);
+  return null;
+}
+
+function jsonAttributes(list: unknown): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const item of asArray(list)) {
+    const kv = asObject(item);
+    const value = kv ? jsonAnyValue(kv.value) : null;
+    if (kv && typeof kv.key === "string" && value !== null) attributes[kv.key] = value;
+  }
+  return attributes;
+}
+
+// Enums may be numbers or their names; timestamps are fixed64 strings
+function jsonEnum(value: unknown, names: string[]): number {
+  if (typeof value === "number") return value;
+  const index = typeof value === "string" ? names.indexOf(value) : -1;
+  return Math.max(index, 0);
+}
+
+function jsonNanos(value: unknown): number | null {
+  const nanos = typeof value === "string" || typeof value === "number" ? Number(value) : NaN;
+  return Number.isFinite(nanos) && nanos > 0 ? nanos : null;
+}
+
+export function decodeOtlpJson(body: unknown): OtlpSpan[] {
+  const request = asObject(body);
+  if (!request || !Array.isArray(request.resourceSpans)) {
+    throw new OtlpDecodeError("Expected an ExportTraceServiceRequest with resourceSpans");
+  }
+
+  const spans: OtlpSpan[] = [];
+  for (const item of request.resourceSpans) {
+    const resourceSpans = asObject(item);
+    if (!resourceSpans) continue;
+    const resourceAttributes = jsonAttributes(asObject(resourceSpans.resource)?.attributes);
+    // instrumentationLibrarySpans is the pre-1.0 name of scopeSpans
+    const scopes = [...asArray(resourceSpans.scopeSpans), ...asArray(resourceSpans.instrumentationLibrarySpans)];
+
+    for (const scope of scopes) {
+      for (const entry of asArray(asObject(scope)?.spans)) {
+        const span = asObject(entry);
+        if (!span) continue;
+        spans.push(
+          buildSpan(
+            resourceAttributes,
+            jsonAttributes(span.attributes),
+            jsonEnum(span.kind, SPAN_KIND_NAMES),
+            jsonNanos(span.startTimeUnixNano),
+            jsonNanos(span.endTimeUnixNano),
+            jsonEnum(asObject(span.status)?.code, ["STATUS_CODE_UNSET", "STATUS_CODE_OK", "STATUS_CODE_ERROR"])
+          )
+        );
+      }
+    }
+  }
+  return spans;
+}
+
+// ============================================================================
+// OTLP/protobuf
+// ============================================================================
+
+interface WireField {
+  field: number;
+  wireType: number;
+  int: number; // Varints; int64 values above 2^53 lose precision
+  bytes: Uint8Array; // Length-delimited and fixed-width values
+}
+
+const EMPTY_BYTES = new Uint8Array(0);
+
+function* readFields(buf: Uint8Array): Generator<WireField> {
+  let pos = 0;
+
+  const varint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      if (pos >= buf.length) throw new OtlpDecodeError("Truncated protobuf varint");
+      byte = buf[pos++];
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return result;
+  };
+
+  const take = (length: number): Uint8Array => {
+    if (pos + length > buf.length) throw new OtlpDecodeError("Truncated protobuf field");
+    const bytes = buf.subarray(pos, pos + length);
+    pos += length;
+    return bytes;
+  };
+
+  while (pos < buf.length) {
+    const tag = varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag % 8;
+    switch (wireType) {
+      case 0:
+        yield { field, wireType, int: varint(), bytes: EMPTY_BYTES };
+        break;
+      case 1:
+        yield { field, wireType, int: 0, bytes: take(8) };
+        break;
+      case 2:
+        yield { field, wireType, int: 0, bytes: take(varint()) };
+        break;
+      case 5:
+        yield { field, wireType, int: 0, bytes: take(4) };
+        break;
+      default:
+        throw new OtlpDecodeError(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+function fixed64(bytes: Uint8Array): number {
+  const v = view(bytes);
+  return v.getUint32(4, true) * 2 ** 32 + v.getUint32(0, true);
+}
+
+function protoAnyValue(buf: Uint8Array): string | null {
+  for (const f of readFields(buf)) {
+    if (f.field === 1 && f.wireType === 2) return textDecoder.decode(f.bytes);
+    if (f.field === 2 && f.wireType === 0) return f.int ? "true" : "false";
+    if (f.field === 3 && f.wireType === 0) return String(f.int);
+    if (f.field === 4 && f.wireType === 1) return String(view(f.bytes).getFloat64(0, true));
+  }
+  return null;
+}
+
+function protoKeyValue(buf: Uint8Array, into: Record<string, string>) {
+  let key: string | null = null;
+  let value: string | null = null;
+  for (const f of readFields(buf)) {
+    if (f.field === 1 && f.wireType === 2) key = textDecoder.decode(f.bytes);
+    if (f.field === 2 && f.wireType === 2) value = protoAnyValue(f.bytes);
+  }
+  if (key !== null && value !== null) into[key] = value;
+}
+
+function protoSpan(buf: Uint8Array, resourceAttributes: Record<string, string>): OtlpSpan {
+  const attributes: Record<string, string> = {};
+  let kind = 0;
+  let startNs: number | null = null;
+  let endNs: number | null = null;
+  let statusCode = 0;
+
+  for (const f of readFields(buf)) {
+    if (f.field === 6 && f.wireType === 0) kind = f.int;
+    else if (f.field === 7 && f.wireType === 1) startNs = fixed64(f.bytes);
+    else if (f.field === 8 && f.wireType === 1) endNs = fixed64(f.bytes);
+    else if (f.field === 9 && f.wireType === 2) protoKeyValue(f.bytes, attributes);
+    else if (f.field === 15 && f.wireType === 2) {
+      for (const s of readFields(f.bytes)) {
+        if (s.field === 3 && s.wireType === 0) statusCode = s.int;
+      }
+    }
+  }
+  return buildSpan(resourceAttributes, attributes, kind, startNs, endNs, statusCode);
+}
+
+export function decodeOtlpProtobuf(bytes: Uint8Array): OtlpSpan[] {
+  const spans: OtlpSpan[] = [];
+
+  for (const request of readFields(bytes)) {
+    if (request.field !== 1 || request.wireType !== 2) continue;
+
+    const resourceAttributes: Record<string, string> = {};
+    const scopes: Uint8Array[] = [];
+    for (const f of readFields(request.bytes)) {
+      if (f.field === 1 && f.wireType === 2) {
+        for (const r of readFields(f.bytes)) {
+          if (r.field === 1 && r.wireType === 2) protoKeyValue(r.bytes, resourceAttributes);
+        }
+      } else if ((f.field === 2 || f.field === 1000) && f.wireType === 2) {
+        // 1000 = deprecated instrumentation_library_spans
+        scopes.push(f.bytes);
+      }
+    }
+
+    for (const scope of scopes) {
+      for (const f of readFields(scope)) {
+        if (f.field === 2 && f.wireType === 2) spans.push(protoSpan(f.bytes, resourceAttributes));
+      }
+    }
+  }
+  return spans;
+}
+
+// ============================================================================
+// Candidate matching
+// ============================================================================
+
+export function isInboundSpan(span: OtlpSpan): boolean {
+  return INBOUND_SPAN_KINDS.includes(span.kind);
+}
+
+export function spanTarget(span: OtlpSpan): SpanTarget {
+  const a = span.attributes;
+  const route = a["http.route"] ?? a["url.path"] ?? a["http.target"] ?? null;
+  const method = a["http.request.method"] ?? a["http.method"] ?? null;
+  return {
+    route: route ? route.split("?")[0] : null,
+    method: method ? method.toUpperCase() : null,
+    destination: a["messaging.destination.name"] ?? a["messaging.destination"] ?? null,
+    rpcService: a["rpc.service"] ?? null,
+  };
+}
+
+/**
+ * Compiles the candidates' routes once; the returned function resolves a
+ * span's target to the candidate it is evidence for.
+ */
+export function createSpanMatcher<T extends MatchableCandidate>(candidates: T[]): (target: SpanTarget) => T | null {
+  const resolveRoute = createRouteResolver(candidates.filter((c) => c.entity_type === "http_endpoint"));
+  const queues = candidates.filter((c) => c.entity_type === "queue_worker" && c.queue_name);
+  const services = candidates.filter((c) => c.entity_type === "grpc_service");
+
+  return (target) => {
+    if (target.route) {
+      const match = resolveRoute(target.route, target.method)[0];
+      if (match) return match.candidate;
+    }
+    if (target.destination) {
+      const queue = queues.find((c) => c.queue_name === target.destination);
+      if (queue) return queue;
+    }
+    if (target.rpcService) {
+      // rpc.service is usually package-qualified (e.g. users.v1.UserService)
+      const rpcService = target.rpcService;
+      const service = services.find((c) => {
+        const name = c.entity_signature.replace(/^grpc:/, "");
+        return rpcService === name || rpcService.endsWith(`.${name}`);
+      });
+      if (service) return service;
+    }
+    return null;
+  };
+}
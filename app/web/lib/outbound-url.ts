@@ -0,0 +1,108 @@
+/**
+ * Outbound URL Module
+ *
+ * Source URLs come from users, and the server fetches them with the source's
+ * credentials. Before such a fetch the host is resolved and every address it
+ * resolves to must be public: loopback, private (RFC 1918, fc00::/7),
+ * carrier-grade NAT, link-local (incl. cloud metadata at 169.254.169.254),
+ * unspecified, multicast and reserved addresses are refused, as are their
+ * IPv4-mapped IPv6 forms. Callers also refuse redirects, which would skip
+ * this check.
+ *
+ * Exports:
+ *   - checkOutboundUrl(url): Error message, or null if the URL may be fetched
+ */
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+// [first address, prefix length]
+const BLOCKED_IPV4: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((total, part) => total * 256 + parseInt(part, 10), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4.some(([network, prefix]) => {
+    const size = Math.pow(2, 32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+/** The eight 16-bit groups of an IPv6 address, with a trailing dotted IPv4 part expanded. */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split("%")[0];
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text = `${text.slice(0, -dotted[1].length)}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const parse = (part: string | undefined) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  const zeros = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill(0);
+  return [...headGroups, ...zeros, ...tailGroups];
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  // ::ffff:a.b.c.d (mapped) and ::a.b.c.d (compatible, also :: and ::1)
+  if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    const ipv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(".");
+    return isBlockedIpv4(ipv4);
+  }
+  const first = groups[0];
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xffc0) === 0xfec0 || // site-local fec0::/10
+    (first & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+function isBlockedAddress(address: string): boolean {
+  return isIP(address) === 4 ? isBlockedIpv4(address) : isBlockedIpv6(address);
+}
+
+export async function checkOutboundUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid source URL";
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return "Source URL must use http or https";
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+    } catch {
+      return `Could not resolve ${host}`;
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return "Source URL must point to a public address";
+  }
+  return null;
+}
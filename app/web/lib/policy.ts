@@ -0,0 +1,348 @@
+/**
+ * Repository Policy Module
+ *
+ * Schema and validator for the optional .doomsday.yml at a repository root.
+ * W1 and rescans store the raw file on the watcher (policy_source) and turn
+ * its exclusions into exclusion rules with source = 'policy'; everything
+ * else is resolved here when the watcher is read.
+ *
+ *   version: 1
+ *   owners: ["@platform-team", "oncall@example.com"]
+ *   exclusions:
+ *     - path: /api/health/**          # or signature / entity_type / file
+ *       reason: Load balancer probe
+ *   schedule:
+ *     default: { scan_frequency_minutes: 60, analysis_period_hours: 168 }
+ *     cron_job: { scan_frequency_minutes: 360, analysis_period_hours: 720 }
+ *   kill:
+ *     min_final_score: 80
+ *
+ * Invalid entries are reported and dropped; the rest of the file still
+ * applies, matching what the workflows do with the exclusions.
+ *
+ * Exports:
+ *   - POLICY_FILE_NAMES, POLICY_ENTITY_TYPES, BUILTIN_SCHEDULE_DEFAULTS
+ *   - DoomsdayPolicy, ScheduleDefaults, PolicyIssue, PolicyValidationResult, WatcherPolicy
+ *   - parsePolicy(source): Parse and validate a policy file
+ *   - resolveScheduleDefaults(policy, entityType): Effective schedule for one type
+ *   - loadWatcherPolicy(row): Resolved policy for a watcher row, or null
+ */
+import yaml from "js-yaml";
+import { ExclusionRuleType, validateExclusionRule } from "@/lib/exclusion-rules";
+
+export const POLICY_FILE_NAMES = [".doomsday.yml", ".doomsday.yaml"];
+
+export const POLICY_ENTITY_TYPES = [
+  "http_endpoint",
+  "grpc_service",
+  "graphql_resolver",
+  "cron_job",
+  "queue_worker",
+  "serverless_function",
+  "websocket",
+] as const;
+
+export type PolicyEntityType = (typeof POLICY_ENTITY_TYPES)[number];
+
+export interface ScheduleDefaults {
+  scanFrequencyMinutes: number;
+  analysisPeriodHours: number;
+}
+
+export interface PolicyExclusion {
+  ruleType: ExclusionRuleType;
+  pattern: string;
+  reason: string | null;
+}
+
+export interface DoomsdayPolicy {
+  version: 1;
+  owners: string[];
+  exclusions: PolicyExclusion[];
+  schedule: {
+    default: Partial<ScheduleDefaults>;
+    entityTypes: Partial<Record<PolicyEntityType, Partial<ScheduleDefaults>>>;
+  };
+  kill: {
+    minFinalScore: number | null;
+  };
+}
+
+export interface PolicyIssue {
+  path: string;
+  message: string;
+  line?: number;
+}
+
+export interface PolicyValidationResult {
+  valid: boolean;
+  policy: DoomsdayPolicy | null;
+  errors: PolicyIssue[];
+  warnings: PolicyIssue[];
+}
+
+export interface WatcherPolicy extends PolicyValidationResult {
+  path: string | null;
+  commit: string | null;
+  loadedAt: string | null;
+  effectiveSchedule: Record<PolicyEntityType, ScheduleDefaults>;
+}
+
+// Same as the "Standard" presets in CandidateScheduleModal
+export const BUILTIN_SCHEDULE_DEFAULTS: ScheduleDefaults = {
+  scanFrequencyMinutes: 60,
+  analysisPeriodHours: 24,
+};
+
+// Bounds enforced by the schedule routes
+const MIN_SCAN_FREQUENCY_MINUTES = 5;
+const MAX_SCAN_FREQUENCY_MINUTES = 1440;
+const MAX_ANALYSIS_PERIOD_HOURS = 8760;
+const MAX_POLICY_BYTES = 64 * 1024;
+
+// .doomsday.yml key → exclusion rule type (mirrored in the W1 workflows)
+const EXCLUSION_KEYS: Record<string, ExclusionRuleType> = {
+  path: "path_glob",
+  signature: "signature_regex",
+  entity_type: "entity_type",
+  file: "file_glob",
+};
+
+const TOP_LEVEL_KEYS = ["version", "owners", "exclusions", "schedule", "kill"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function parseSchedule(
+  value: unknown,
+  path: string,
+  errors: PolicyIssue[],
+  warnings: PolicyIssue[]
+): Partial<ScheduleDefaults> {
+  const result: Partial<ScheduleDefaults> = {};
+  if (!isObject(value)) {
+    errors.push({ path, message: "Must be a mapping with scan_frequency_minutes and/or analysis_period_hours" });
+    return result;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (key !== "scan_frequency_minutes" && key !== "analysis_period_hours") {
+      warnings.push({ path: `${path}.${key}`, message: "Unknown key, ignored" });
+    }
+  }
+
+  const scan = value.scan_frequency_minutes;
+  if (scan !== undefined) {
+    if (!Number.isInteger(scan) || (scan as number) < MIN_SCAN_FREQUENCY_MINUTES || (scan as number) > MAX_SCAN_FREQUENCY_MINUTES) {
+      errors.push({
+        path: `${path}.scan_frequency_minutes`,
+        message: `Must be a whole number between ${MIN_SCAN_FREQUENCY_MINUTES} and ${MAX_SCAN_FREQUENCY_MINUTES}`,
+      });
+    } else {
+      result.scanFrequencyMinutes = scan as number;
+    }
+  }
+
+  const period = value.analysis_period_hours;
+  if (period !== undefined) {
+    if (typeof period !== "number" || !(period > 0) || period > MAX_ANALYSIS_PERIOD_HOURS) {
+      errors.push({
+        path: `${path}.analysis_period_hours`,
+        message: `Must be a number of hours above 0 and at most ${MAX_ANALYSIS_PERIOD_HOURS}`,
+      });
+    } else {
+      result.analysisPeriodHours = period;
+    }
+  }
+
+  if (
+    result.scanFrequencyMinutes !== undefined &&
+    result.analysisPeriodHours !== undefined &&
+    result.analysisPeriodHours * 60 <= result.scanFrequencyMinutes
+  ) {
+    errors.push({ path, message: "analysis_period_hours must be longer than scan_frequency_minutes" });
+    delete result.analysisPeriodHours;
+  }
+
+  return result;
+}
+
+export function parsePolicy(source: string): PolicyValidationResult {
+  const errors: PolicyIssue[] = [];
+  const warnings: PolicyIssue[] = [];
+
+  if (Buffer.byteLength(source, "utf8") > MAX_POLICY_BYTES) {
+    return { valid: false, policy: null, errors: [{ path: "", message: "Policy file is larger than 64 KB" }], warnings };
+  }
+
+  let doc: unknown;
+  try {
+    doc = yaml.load(source, { schema: yaml.JSON_SCHEMA });
+  } catch (error) {
+    const mark = (error as { mark?: { line: number } }).mark;
+    const reason = (error as { reason?: string }).reason;
+    return {
+      valid: false,
+      policy: null,
+      errors: [{ path: "", message: `YAML syntax error: ${reason || String(error)}`, line: mark ? mark.line + 1 : undefined }],
+      warnings,
+    };
+  }
+
+  if (doc === null || doc === undefined) {
+    doc = {};
+  }
+  if (!isObject(doc)) {
+    return { valid: false, policy: null, errors: [{ path: "", message: "Policy must be a YAML mapping" }], warnings };
+  }
+
+  for (const key of Object.keys(doc)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) {
+      warnings.push({ path: key, message: "Unknown key, ignored" });
+    }
+  }
+
+  if (doc.version !== undefined && doc.version !== 1) {
+    errors.push({ path: "version", message: "Only version 1 is supported" });
+  }
+
+  const policy: DoomsdayPolicy = {
+    version: 1,
+    owners: [],
+    exclusions: [],
+    schedule: { default: {}, entityTypes: {} },
+    kill: { minFinalScore: null },
+  };
+
+  // owners
+  if (doc.owners !== undefined) {
+    if (!Array.isArray(doc.owners)) {
+      errors.push({ path: "owners", message: "Must be a list of owners" });
+    } else {
+      doc.owners.forEach((owner, index) => {
+        if (typeof owner !== "string" || !owner.trim()) {
+          errors.push({ path: `owners[${index}]`, message: "Must be a non-empty string" });
+        } else {
+          policy.owners.push(owner.trim());
+        }
+      });
+    }
+  }
+
+  // exclusions
+  if (doc.exclusions !== undefined) {
+    if (!Array.isArray(doc.exclusions)) {
+      errors.push({ path: "exclusions", message: "Must be a list of exclusions" });
+    } else {
+      doc.exclusions.forEach((entry, index) => {
+        const path = `exclusions[${index}]`;
+        if (!isObject(entry)) {
+          errors.push({ path, message: "Must be a mapping such as { path: /api/health/** }" });
+          return;
+        }
+        const matchKeys = Object.keys(entry).filter((key) => key in EXCLUSION_KEYS);
+        if (matchKeys.length !== 1) {
+          errors.push({ path, message: `Must set exactly one of: ${Object.keys(EXCLUSION_KEYS).join(", ")}` });
+          return;
+        }
+        for (const key of Object.keys(entry)) {
+          if (!(key in EXCLUSION_KEYS) && key !== "reason") {
+            warnings.push({ path: `${path}.${key}`, message: "Unknown key, ignored" });
+          }
+        }
+        const ruleType = EXCLUSION_KEYS[matchKeys[0]];
+        const pattern = entry[matchKeys[0]];
+        const patternError = validateExclusionRule(ruleType, pattern);
+        if (patternError) {
+          errors.push({ path: `${path}.${matchKeys[0]}`, message: patternError });
+          return;
+        }
+        if (entry.reason !== undefined && typeof entry.reason !== "string") {
+          warnings.push({ path: `${path}.reason`, message: "Must be a string, ignored" });
+        }
+        if (ruleType === "entity_type" && !POLICY_ENTITY_TYPES.includes(pattern as PolicyEntityType)) {
+          warnings.push({ path: `${path}.entity_type`, message: `Unknown entity type "${pattern}"` });
+        }
+        policy.exclusions.push({
+          ruleType,
+          pattern: (pattern as string).trim(),
+          reason: typeof entry.reason === "string" ? entry.reason.trim() || null : null,
+        });
+      });
+    }
+  }
+
+  // schedule
+  if (doc.schedule !== undefined) {
+    if (!isObject(doc.schedule)) {
+      errors.push({ path: "schedule", message: "Must be a mapping of default and entity types" });
+    } else {
+      for (const [key, value] of Object.entries(doc.schedule)) {
+        if (key === "default") {
+          policy.schedule.default = parseSchedule(value, "schedule.default", errors, warnings);
+        } else if (POLICY_ENTITY_TYPES.includes(key as PolicyEntityType)) {
+          policy.schedule.entityTypes[key as PolicyEntityType] = parseSchedule(value, `schedule.${key}`, errors, warnings);
+        } else {
+          errors.push({
+            path: `schedule.${key}`,
+            message: `Unknown entity type. Use default or one of: ${POLICY_ENTITY_TYPES.join(", ")}`,
+          });
+        }
+      }
+    }
+  }
+
+  // kill
+  if (doc.kill !== undefined) {
+    if (!isObject(doc.kill)) {
+      errors.push({ path: "kill", message: "Must be a mapping" });
+    } else {
+      for (const key of Object.keys(doc.kill)) {
+        if (key !== "min_final_score") warnings.push({ path: `kill.${key}`, message: "Unknown key, ignored" });
+      }
+      const minScore = doc.kill.min_final_score;
+      if (minScore !== undefined) {
+        if (typeof minScore !== "number" || minScore < 0 || minScore > 100) {
+          errors.push({ path: "kill.min_final_score", message: "Must be a number between 0 and 100" });
+        } else {
+          policy.kill.minFinalScore = minScore;
+        }
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, policy, errors, warnings };
+}
+
+export function resolveScheduleDefaults(policy: DoomsdayPolicy | null, entityType: string): ScheduleDefaults {
+  const byType = policy?.schedule.entityTypes[entityType as PolicyEntityType];
+  return {
+    ...BUILTIN_SCHEDULE_DEFAULTS,
+    ...policy?.schedule.default,
+    ...byType,
+  };
+}
+
+interface WatcherPolicyRow {
+  policy_source: string | null;
+  policy_path: string | null;
+  policy_commit: string | null;
+  policy_loaded_at: string | null;
+}
+
+export function loadWatcherPolicy(row: WatcherPolicyRow): WatcherPolicy | null {
+  if (row.policy_source === null) return null;
+
+  const result = parsePolicy(row.policy_source);
+  const effectiveSchedule = Object.fromEntries(
+    POLICY_ENTITY_TYPES.map((type) => [type, resolveScheduleDefaults(result.policy, type)])
+  ) as Record<PolicyEntityType, ScheduleDefaults>;
+
+  return {
+    ...result,
+    path: row.policy_path,
+    commit: row.policy_commit,
+    loadedAt: row.policy_loaded_at,
+    effectiveSchedule,
+  };
+}
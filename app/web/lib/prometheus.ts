@@ -0,0 +1,244 @@
+/**
+ * Prometheus Module
+ *
+ * Talks to the Prometheus HTTP API of a watcher's prometheus or grafana
+ * source the way W2 does (same auth, same Grafana Cloud /api/prom prefix),
+ * and renders the per-source PromQL template W2 runs for each candidate.
+ * Loki's query API answers in the same format, so loki sources use the same
+ * client (a plain token is sent as X-Scope-OrgID, as W2 does).
+ *
+ * A source may map its own request counter and route label, e.g.
+ * http_server_requests_seconds_count / uri, and carry a PromQL template.
+ * Templates are plain PromQL with three placeholders:
+ *
+ *   $metric → the source's metric name      (default http_requests_total)
+ *   $label  → the source's route label      (default route)
+ *   $route  → the candidate's route regex, as a quoted PromQL string
+ *
+ * The default template is "$metric{$label=~$route}". W2 renders templates
+ * with a Python copy of renderPromqlTemplate; keep the two in sync.
+ *
+ * prometheusGet only calls public addresses (lib/outbound-url) and does not
+ * follow redirects. Errors carry our own wording, never the remote body.
+ *
+ * Exports:
+ *   - DEFAULT_PROMQL_METRIC, DEFAULT_PROMQL_LABEL, DEFAULT_PROMQL_TEMPLATE
+ *   - PrometheusQueryError, PrometheusSource, PrometheusMapping, PrometheusSeries
+ *   - PROMETHEUS_SOURCE_TYPES: Source types that speak the Prometheus API
+ *   - promqlString(text): Double-quoted PromQL string literal
+ *   - resolvePrometheusMapping(source): Metric, label and template with defaults applied
+ *   - validatePrometheusMapping(mapping): Error message or null
+ *   - renderPromqlTemplate(mapping, routeRegex): PromQL for one candidate
+ *   - prometheusGet(source, path, params): `data` of a Prometheus API response
+ *   - runQuery(source, path, params): Series and response time of a query or query_range call
+ *   - runInstantQuery(source, promql): runQuery for an instant PromQL query
+ */
+import { checkOutboundUrl } from "@/lib/outbound-url";
+
+export const DEFAULT_PROMQL_METRIC = "http_requests_total";
+export const DEFAULT_PROMQL_LABEL = "route";
+export const DEFAULT_PROMQL_TEMPLATE = "$metric{$label=~$route}";
+
+export const PROMETHEUS_SOURCE_TYPES = ["prometheus", "grafana"];
+
+// Same error_type values W2 records on observation_events
+export type PrometheusErrorType =
+  | "auth_error"
+  | "forbidden"
+  | "not_found"
+  | "bad_data"
+  | "http_error"
+  | "timeout"
+  | "connection_error"
+  | "invalid_response";
+
+export class PrometheusQueryError extends Error {
+  type: PrometheusErrorType;
+
+  constructor(type: PrometheusErrorType, message: string) {
+    super(message);
+    this.name = "PrometheusQueryError";
+    this.type = type;
+  }
+}
+
+export interface PrometheusSource {
+  type: string;
+  url: string;
+  token?: string | null;
+  userId?: string | null;
+}
+
+export interface PrometheusMapping {
+  metric: string;
+  routeLabel: string;
+  queryTemplate: string;
+}
+
+export interface PrometheusSeries {
+  metric: Record<string, string>;
+  value?: [number, string];
+  values?: [number, string][];
+}
+
+const METRIC_NAME_REGEX = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const PLACEHOLDER_REGEX = /\$(metric|label|route)\b/g;
+const MAX_TEMPLATE_LENGTH = 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+export function promqlString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+export function resolvePrometheusMapping(source: {
+  metric?: string | null;
+  routeLabel?: string | null;
+  queryTemplate?: string | null;
+}): PrometheusMapping {
+  return {
+    metric: source.metric || DEFAULT_PROMQL_METRIC,
+    routeLabel: source.routeLabel || DEFAULT_PROMQL_LABEL,
+    queryTemplate: source.queryTemplate || DEFAULT_PROMQL_TEMPLATE,
+  };
+}
+
+export function validatePrometheusMapping(mapping: PrometheusMapping): string | null {
+  if (!METRIC_NAME_REGEX.test(mapping.metric)) {
+    return `Invalid metric name: ${mapping.metric}`;
+  }
+  if (!LABEL_NAME_REGEX.test(mapping.routeLabel)) {
+    return `Invalid label name: ${mapping.routeLabel}`;
+  }
+  if (mapping.queryTemplate.length > MAX_TEMPLATE_LENGTH) {
+    return `Query template must be at most ${MAX_TEMPLATE_LENGTH} characters`;
+  }
+  // Without the route every candidate would count the whole service's traffic
+  if (!/\$route\b/.test(mapping.queryTemplate)) {
+    return "Query template must filter on $route";
+  }
+  return null;
+}
+
+/**
+ * PromQL for one candidate. Without a route (the candidate is not an HTTP
+ * endpoint) the default template falls back to the bare metric, and a custom
+ * template matches any route.
+ */
+export function renderPromqlTemplate(mapping: PrometheusMapping, routeRegex: string | null): string {
+  const template =
+    routeRegex === null && mapping.queryTemplate === DEFAULT_PROMQL_TEMPLATE ? "$metric" : mapping.queryTemplate;
+  const values: Record<string, string> = {
+    metric: mapping.metric,
+    label: mapping.routeLabel,
+    route: promqlString(routeRegex ?? ".*"),
+  };
+  return template.replace(PLACEHOLDER_REGEX, (_, name: string) => values[name]);
+}
+
+function apiBase(source: PrometheusSource): string {
+  const url = source.url.replace(/\/+$/, "");
+  if (source.type === "grafana" && /grafana\.(net|com)/.test(url) && !url.includes("/api/prom")) {
+    return `${url}/api/prom`;
+  }
+  return url;
+}
+
+function authHeaders(source: PrometheusSource): Record<string, string> {
+  const token = source.token;
+  if (!token) return {};
+  if (!token.startsWith("glc_") && !token.startsWith("glsa_")) {
+    return source.type === "loki" ? { "X-Scope-OrgID": token } : { Authorization: `Bearer ${token}` };
+  }
+
+  // Grafana Cloud wants Basic auth with the stack user; glc_ tokens embed it
+  let userId = source.userId || null;
+  if (!userId) {
+    try {
+      userId = JSON.parse(Buffer.from(token.slice(4), "base64").toString("utf8")).o || null;
+    } catch {
+      userId = null;
+    }
+  }
+  return userId
+    ? { Authorization: `Basic ${Buffer.from(`${userId}:${token}`).toString("base64")}` }
+    : { Authorization: `Bearer ${token}` };
+}
+
+export async function prometheusGet<T>(
+  source: PrometheusSource,
+  path: string,
+  params: Record<string, string | string[]>
+): Promise<T> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) search.append(key, item);
+  }
+
+  const url = `${apiBase(source)}${path}?${search}`;
+  const refused = await checkOutboundUrl(url);
+  if (refused) {
+    throw new PrometheusQueryError("connection_error", refused);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { ...authHeaders(source), "User-Agent": "Doomsday-Watcher/1.0" },
+      redirect: "error",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      throw new PrometheusQueryError("timeout", `Timeout after ${REQUEST_TIMEOUT_MS / 1000}s`);
+    }
+    const cause = error instanceof Error ? (error.cause as Error | undefined)?.message || error.message : "";
+    throw new PrometheusQueryError("connection_error", `Connection failed: ${cause.slice(0, 100)}`);
+  }
+
+  if (response.status === 401) {
+    throw new PrometheusQueryError("auth_error", "Authentication failed - check API token");
+  }
+  if (response.status === 403) {
+    throw new PrometheusQueryError("forbidden", "Access denied - insufficient permissions");
+  }
+  if (response.status === 404) {
+    throw new PrometheusQueryError("not_found", "Prometheus API endpoint not found");
+  }
+
+  // Prometheus answers a bad query with 400 / 422 and a JSON error, Loki with plain text
+  const text = await response.text();
+  const badQuery = response.status === 400 || response.status === 422;
+  let body: { status?: string; data?: T; error?: string; errorType?: string };
+  try {
+    body = JSON.parse(text);
+  } catch {
+    if (badQuery) throw new PrometheusQueryError("bad_data", `Query rejected (HTTP ${response.status})`);
+    throw new PrometheusQueryError("invalid_response", `Invalid JSON response (HTTP ${response.status})`);
+  }
+  if (body.status !== "success") {
+    // Only a Prometheus error envelope's message is passed on (it explains a bad query)
+    const message =
+      body.status === "error" && typeof body.errorType === "string" && typeof body.error === "string"
+        ? body.error.slice(0, 200)
+        : `HTTP ${response.status}`;
+    throw new PrometheusQueryError(badQuery ? "bad_data" : "http_error", message);
+  }
+  return body.data as T;
+}
+
+export async function runQuery(
+  source: PrometheusSource,
+  path: string,
+  params: Record<string, string>
+): Promise<{ series: PrometheusSeries[]; responseTimeMs: number }> {
+  const started = Date.now();
+  const data = await prometheusGet<{ resultType: string; result: PrometheusSeries[] | unknown }>(source, path, params);
+  // Scalar and string results are valid PromQL but carry no series
+  const series = data.resultType === "vector" || data.resultType === "matrix" ? (data.result as PrometheusSeries[]) : [];
+  return { series, responseTimeMs: Date.now() - started };
+}
+
+export function runInstantQuery(source: PrometheusSource, promql: string) {
+  return runQuery(source, "/api/v1/query", { query: promql });
+}
@@ -0,0 +1,169 @@
+/**
+ * Route Patterns Module
+ *
+ * Compiles candidate routes into exact matchers, so observed traffic is
+ * attributed to the one endpoint that serves it instead of every route that
+ * shares a prefix. Understands the route syntax of the frameworks W1 detects:
+ *
+ *   /users/[id]  /docs/[...slug]  /shop/[[...path]]   Next.js (route groups and
+ *                                                      pages/ "index" dropped)
+ *   /users/:id  /users/:id?  /files/*  /files/:path*  Express
+ *   /users/{id}  /files/{path:path}                   FastAPI / Starlette
+ *   /users/<int:id>  /files/<path:p>                  Flask
+ *   :id  (no leading slash)                           NestJS @Get() paths, relative to
+ *                                                      a controller prefix W1 does not see
+ *
+ * Observed values may be concrete URLs ("/users/42?x=1") or the route
+ * templates metrics often carry as labels ("/users/:id", "/users/{id}");
+ * a parameter in the observed value only matches a parameter in the pattern.
+ * When several candidates match, the most specific wins: segment by segment,
+ * literal > parameter > optional parameter > catch-all, then an exact method
+ * over a catch-all handler.
+ *
+ * Patterns compile to plain regular expressions without lookarounds, so the
+ * same expression works as an RE2 label matcher in PromQL. W2 carries a
+ * Python copy of compile and resolve; keep the two in sync.
+ *
+ * Exports:
+ *   - RoutePattern, RoutableCandidate, RouteMatch
+ *   - compileRoutePattern(route, framework?): Matcher for a candidate route, or null
+ *   - normalizeObservedPath(value): Path of an observed URL or label value
+ *   - createRouteResolver(candidates): (observed, method?) → matches, most specific first
+ */
+
+export interface RoutePattern {
+  route: string;
+  regex: RegExp;
+  labelRegex: string; // Unanchored, for PromQL label=~"..." (which anchors itself)
+  ranks: number[]; // Specificity per segment, higher is more specific
+}
+
+export interface RoutableCandidate {
+  method: string | null;
+  route_path: string | null;
+  framework?: string | null;
+}
+
+export interface RouteMatch<T> {
+  candidate: T;
+  pattern: RoutePattern;
+  exactMethod: boolean;
+}
+
+const RANK_LITERAL = 4;
+const RANK_PARAM = 3;
+const RANK_OPTIONAL = 2;
+const RANK_REST = 1;
+const RANK_OPTIONAL_REST = 0;
+// A pattern that has run out of segments beats one with an optional tail
+const RANK_END = 5;
+
+const ANY_METHODS = ["", "*", "ALL", "ANY"];
+const PARAM = "[^/]+";
+// Parameters embedded in a longer segment, e.g. "[id].json" or "{name}.{ext}"
+const INLINE_PARAM = /\[[^\]]+\]|\{[^}]+\}|<[^>]+>/g;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function compileSegment(segment: string, isNext: boolean): { regex: string; rank: number } | null {
+  // Next.js route groups "(marketing)" are not part of the URL
+  if (isNext && /^\([^.)][^)]*\)$/.test(segment)) return null;
+
+  if (/^\[\[\.\.\.[^\]]+\]\]$/.test(segment) || /^:\w+\*$/.test(segment) || /^\{\*\w*\}$/.test(segment)) {
+    return { regex: "(?:/.*)?", rank: RANK_OPTIONAL_REST };
+  }
+  if (
+    /^\[\.\.\.[^\]]+\]$/.test(segment) ||
+    /^\*{1,2}\w*$/.test(segment) ||
+    segment === "(.*)" ||
+    /^:\w+\+$/.test(segment) ||
+    /^\{\w+:path\}$/.test(segment) ||
+    /^<path:\w+>$/.test(segment)
+  ) {
+    return { regex: "/.+", rank: RANK_REST };
+  }
+  if (/^:\w+\?$/.test(segment)) {
+    return { regex: `(?:/${PARAM})?`, rank: RANK_OPTIONAL };
+  }
+  // Express params may carry a constraint, e.g. ":id(\\d+)"
+  if (/^:\w+(\(.*\))?$/.test(segment) || /^(\[[^\]]+\]|\{[^}]+\}|<[^>]+>)$/.test(segment)) {
+    return { regex: `/${PARAM}`, rank: RANK_PARAM };
+  }
+  if (INLINE_PARAM.test(segment)) {
+    INLINE_PARAM.lastIndex = 0;
+    const parts = segment.split(INLINE_PARAM).map(escapeRegex);
+    return { regex: `/${parts.join(PARAM)}`, rank: RANK_PARAM };
+  }
+  return { regex: `/${escapeRegex(segment)}`, rank: RANK_LITERAL };
+}
+
+export function compileRoutePattern(route: string, framework?: string | null): RoutePattern | null {
+  const isNext = (framework || "").startsWith("nextjs");
+  const trimmed = route.trim();
+  // NestJS method decorators hold the path below the controller's prefix
+  const relative = framework === "nestjs" && !trimmed.startsWith("/");
+  if (relative && !trimmed) return null;
+
+  const segments = trimmed.split("/").filter(Boolean);
+  if (isNext && segments[segments.length - 1] === "index") segments.pop();
+
+  let body = relative ? `(?:/${PARAM})+` : "";
+  const ranks = relative ? [RANK_OPTIONAL_REST] : [];
+  for (const segment of segments) {
+    const compiled = compileSegment(segment, isNext);
+    if (!compiled) continue;
+    body += compiled.regex;
+    ranks.push(compiled.rank);
+  }
+
+  const labelRegex = `${body}/?`;
+  return { route, regex: new RegExp(`^${labelRegex}$`), labelRegex, ranks };
+}
+
+export function normalizeObservedPath(value: string): string {
+  const path = value
+    .trim()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, "")
+    .split(/[?#]/)[0];
+  return path.startsWith("/") ? path : `/${path}`;
+}
+
+function compareSpecificity(a: RoutePattern, b: RoutePattern): number {
+  for (let i = 0; i < Math.max(a.ranks.length, b.ranks.length); i++) {
+    const diff = (b.ranks[i] ?? RANK_END) - (a.ranks[i] ?? RANK_END);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Compiles the candidates once and returns a resolver for observed paths.
+ * The first match is the candidate the traffic is attributed to.
+ */
+export function createRouteResolver<T extends RoutableCandidate>(
+  candidates: T[]
+): (observed: string, method?: string | null) => RouteMatch<T>[] {
+  const compiled = candidates.flatMap((candidate) => {
+    const pattern = candidate.route_path ? compileRoutePattern(candidate.route_path, candidate.framework) : null;
+    return pattern ? [{ candidate, pattern, method: (candidate.method || "").toUpperCase() }] : [];
+  });
+
+  return (observed, method) => {
+    const path = normalizeObservedPath(observed);
+    const observedMethod = method ? method.toUpperCase() : null;
+
+    return compiled
+      .filter(({ pattern, method: candidateMethod }) => {
+        if (observedMethod && !ANY_METHODS.includes(candidateMethod) && candidateMethod !== observedMethod) {
+          return false;
+        }
+        return pattern.regex.test(path);
+      })
+      .map(({ candidate, pattern, method: candidateMethod }) => ({
+        candidate,
+        pattern,
+        exactMethod: observedMethod !== null && candidateMethod === observedMethod,
+      }))
+      .sort((a, b) => compareSpecificity(a.pattern, b.pattern) || Number(b.exactMethod) - Number(a.exactMethod));
+  };
+}
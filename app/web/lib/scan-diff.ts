@@ -0,0 +1,153 @@
+/**
+ * Scan Diff Module
+ *
+ * Reads the candidate changes W1 records per scan (scan_candidate_changes)
+ * and compares two scans of the same watcher by replaying every change
+ * recorded between them. Only net changes are reported: a signature removed
+ * and re-added at the same path between the two scans does not appear.
+ *
+ * Scans recorded before the diff table existed only have counts; `complete`
+ * is false when any scan in range has counts but no recorded changes.
+ *
+ * Exports:
+ *   - getScanSummary(watcherId, scanId): Scan metadata or null
+ *   - getScanDiff(watcherId, scanId): Changes recorded by one scan
+ *   - compareScans(watcherId, fromScanId, toScanId): Net changes between two scans
+ */
+import { query, queryOne } from "@/lib/db";
+
+export type ScanChangeType = "added" | "updated" | "removed";
+
+export interface ScanSummary {
+  scan_id: number;
+  scan_type: "creation" | "rescan" | "manual";
+  scan_number: number;
+  commit_hash: string | null;
+  commit_message: string | null;
+  commit_author: string | null;
+  commit_date: string | null;
+  branch: string | null;
+  triggered_by: string | null;
+  candidates_added: number;
+  candidates_updated: number;
+  candidates_removed: number;
+  created_at: string;
+}
+
+export interface ScanChange {
+  scan_id: number;
+  entity_type: string;
+  entity_signature: string;
+  entity_name: string | null;
+  file_path: string | null;
+  previous_file_path: string | null;
+}
+
+export interface ScanDiff {
+  added: ScanChange[];
+  updated: ScanChange[];
+  removed: ScanChange[];
+  complete: boolean;
+}
+
+interface ChangeRow extends ScanChange {
+  change_type: ScanChangeType;
+}
+
+const SUMMARY_COLUMNS = `scan_id, scan_type, scan_number, commit_hash, commit_message, commit_author,
+  commit_date, branch, triggered_by, candidates_added, candidates_updated, candidates_removed, created_at`;
+
+const CHANGE_COLUMNS = `scan_id, change_type, entity_type, entity_signature, entity_name, file_path, previous_file_path`;
+
+export async function getScanSummary(watcherId: string, scanId: number): Promise<ScanSummary | null> {
+  return queryOne<ScanSummary>(
+    `SELECT ${SUMMARY_COLUMNS} FROM scan_history WHERE watcher_id = $1 AND scan_id = $2`,
+    [watcherId, scanId]
+  );
+}
+
+// True when every scan in (from, to] that reported changes also recorded them
+async function isDiffComplete(watcherId: string, fromScanId: number, toScanId: number): Promise<boolean> {
+  const rows = await query<{ missing: string }>(
+    `SELECT COUNT(*) AS missing
+     FROM scan_history sh
+     WHERE sh.watcher_id = $1 AND sh.scan_id > $2 AND sh.scan_id <= $3
+       AND (sh.candidates_added + sh.candidates_updated + sh.candidates_removed) > 0
+       AND NOT EXISTS (SELECT 1 FROM scan_candidate_changes c WHERE c.scan_id = sh.scan_id)`,
+    [watcherId, fromScanId, toScanId]
+  );
+  return parseInt(rows[0]?.missing || "0") === 0;
+}
+
+const toChange = (row: ChangeRow): ScanChange => ({
+  scan_id: row.scan_id,
+  entity_type: row.entity_type,
+  entity_signature: row.entity_signature,
+  entity_name: row.entity_name,
+  file_path: row.file_path,
+  previous_file_path: row.previous_file_path,
+});
+
+const bySignature = (a: ScanChange, b: ScanChange) =>
+  a.entity_type.localeCompare(b.entity_type) || a.entity_signature.localeCompare(b.entity_signature);
+
+export async function getScanDiff(watcherId: string, scanId: number): Promise<ScanDiff> {
+  const rows = await query<ChangeRow>(
+    `SELECT ${CHANGE_COLUMNS} FROM scan_candidate_changes
+     WHERE watcher_id = $1 AND scan_id = $2
+     ORDER BY entity_type, entity_signature`,
+    [watcherId, scanId]
+  );
+
+  return {
+    added: rows.filter((r) => r.change_type === "added").map(toChange),
+    updated: rows.filter((r) => r.change_type === "updated").map(toChange),
+    removed: rows.filter((r) => r.change_type === "removed").map(toChange),
+    complete: await isDiffComplete(watcherId, scanId - 1, scanId),
+  };
+}
+
+export async function compareScans(watcherId: string, fromScanId: number, toScanId: number): Promise<ScanDiff> {
+  if (fromScanId > toScanId) [fromScanId, toScanId] = [toScanId, fromScanId];
+
+  const rows = await query<ChangeRow>(
+    `SELECT ${CHANGE_COLUMNS} FROM scan_candidate_changes
+     WHERE watcher_id = $1 AND scan_id > $2 AND scan_id <= $3
+     ORDER BY scan_id, change_id`,
+    [watcherId, fromScanId, toScanId]
+  );
+
+  const history = new Map<string, ChangeRow[]>();
+  for (const row of rows) {
+    const key = `${row.entity_type}\u0000${row.entity_signature}`;
+    const changes = history.get(key);
+    if (changes) changes.push(row);
+    else history.set(key, [row]);
+  }
+
+  const diff: ScanDiff = { added: [], updated: [], removed: [], complete: true };
+
+  for (const changes of history.values()) {
+    const first = changes[0];
+    const last = changes[changes.length - 1];
+    const existedBefore = first.change_type !== "added";
+    const existsAfter = last.change_type !== "removed";
+
+    if (!existedBefore && existsAfter) {
+      diff.added.push({ ...toChange(last), previous_file_path: null });
+    } else if (existedBefore && !existsAfter) {
+      diff.removed.push(toChange(last));
+    } else if (existedBefore && existsAfter) {
+      const pathBefore = first.change_type === "updated" ? first.previous_file_path : first.file_path;
+      if (pathBefore !== last.file_path) {
+        diff.updated.push({ ...toChange(last), previous_file_path: pathBefore });
+      }
+    }
+  }
+
+  diff.added.sort(bySignature);
+  diff.updated.sort(bySignature);
+  diff.removed.sort(bySignature);
+  diff.complete = await isDiffComplete(watcherId, fromScanId, toScanId);
+  return diff;
+}
@@ -0,0 +1,310 @@
+/**
+ * Source Probe Module
+ *
+ * Builds the query W2 runs against an observability source for one candidate
+ * and runs it right away, so a candidate with no traffic can be told apart
+ * from a query that matches nothing. Used by POST /api/candidates/[id]/probe.
+ *
+ * Every source is queried over the candidate's scan window
+ * (scan_frequency_minutes, default 60), the range one W2 observation
+ * covers. Callers may pass a longer lookback, e.g. PROBE_LOOKBACKS["7d"],
+ * to look for any traffic at all.
+ *
+ *   prometheus / grafana → the source's PromQL template (lib/prometheus),
+ *                          query_range at a 60s step
+ *   loki                 → sum(count_over_time(...)) per scan window, line-matched
+ *                          on the route regex, plus the same query with the
+ *                          synthetic traffic filters when the watcher has rules
+ *   datadog              → sum:trace.http.request.hits{resource_name:*<route>*},
+ *                          grouped by the tags synthetic rules read
+ *
+ * Expressions match W2's query_expression character for character; W2 builds
+ * them in Python, so keep the two in sync. Like the Prometheus client, the
+ * Datadog call only reaches public addresses and never echoes the remote body.
+ *
+ * Exports:
+ *   - ProbeCandidate, SourceProbeResult, ProbeLookback
+ *   - PROBE_LOOKBACKS: Lookbacks a caller may ask for, in seconds ("window" = scan window)
+ *   - buildSourceQuery(source, candidate, rules): Expressions W2 runs for the source, or null
+ *   - probeSource(source, candidate, rules, lookback?): Run them now and report
+ */
+import { UnsealedObservabilitySource } from "@/lib/credential-vault";
+import {
+  PROMETHEUS_SOURCE_TYPES,
+  PrometheusQueryError,
+  PrometheusSeries,
+  promqlString,
+  renderPromqlTemplate,
+  resolvePrometheusMapping,
+  runQuery,
+} from "@/lib/prometheus";
+import { checkOutboundUrl } from "@/lib/outbound-url";
+import { compileRoutePattern } from "@/lib/route-patterns";
+import { SyntheticTrafficRule } from "@/lib/synthetic-traffic";
+
+export interface ProbeCandidate {
+  route_path: string | null;
+  framework: string | null;
+  scan_frequency_minutes: number | null;
+}
+
+export interface SourceProbeResult {
+  type: string;
+  url: string;
+  expression: string | null; // One query per line
+  responseTimeMs: number | null;
+  seriesCount: number | null;
+  sample: unknown[]; // First series as returned, last points only
+  errorType: string | null;
+  errorMessage: string | null;
+}
+
+type ProbeRule = Pick<SyntheticTrafficRule, "rule_type" | "label_name" | "pattern">;
+
+// null = the candidate's scan window
+export const PROBE_LOOKBACKS = { window: null, "7d": 7 * 24 * 3600 } as const;
+export type ProbeLookback = keyof typeof PROBE_LOOKBACKS;
+
+const SAMPLE_SERIES = 3;
+const SAMPLE_POINTS = 5;
+const REQUEST_TIMEOUT_MS = 10000;
+const DATADOG_DEFAULT_URL = "https://api.datadoghq.com";
+const DATADOG_RULE_TAGS: Record<string, string> = {
+  user_agent: "http.useragent",
+  ip_range: "network.client.ip",
+  probe_path: "resource_name",
+};
+// Characters Python's re.escape escapes, so glob filters read exactly as W2 writes them
+const PY_RE_SPECIAL = /[()[\]{}?*+\-|^$\\.&~# \t\n\r\v\f]/g;
+
+function globToLogqlRegex(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    if (glob.startsWith("**/", i)) {
+      out += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      out += ".*";
+      i += 1;
+    } else if (glob[i] === "*") {
+      out += "[^/]*";
+    } else if (glob[i] === "?") {
+      out += "[^/]";
+    } else {
+      out += glob[i].replace(PY_RE_SPECIAL, "\\$&");
+    }
+  }
+  return out;
+}
+
+function lokiSyntheticFilters(rules: ProbeRule[]): [string[], string[]] {
+  const matchers: string[] = [];
+  const lineFilters: string[] = [];
+  for (const rule of rules) {
+    let pattern = rule.pattern || "";
+    if (rule.rule_type === "label") {
+      matchers.push(`${rule.label_name}!~${promqlString(pattern)}`);
+    } else if (rule.rule_type === "user_agent") {
+      if (pattern.startsWith("^")) pattern = `(^|[\\s"=])${pattern.slice(1)}`;
+      lineFilters.push(`!~ ${promqlString(`(?i)${pattern}`)}`);
+    } else if (rule.rule_type === "ip_range") {
+      lineFilters.push(`!= ip(${promqlString(pattern.trim())})`);
+    } else if (rule.rule_type === "probe_path") {
+      lineFilters.push(`!~ ${promqlString(`(^|[\\s"=])${globToLogqlRegex(pattern)}([\\s"?]|$)`)}`);
+    }
+  }
+  return [matchers, lineFilters];
+}
+
+function windowMinutes(candidate: ProbeCandidate): number {
+  return candidate.scan_frequency_minutes && candidate.scan_frequency_minutes > 0
+    ? candidate.scan_frequency_minutes
+    : 60;
+}
+
+export function buildSourceQuery(
+  source: UnsealedObservabilitySource,
+  candidate: ProbeCandidate,
+  rules: ProbeRule[]
+): string[] | null {
+  const routeRegex = candidate.route_path
+    ? (compileRoutePattern(candidate.route_path, candidate.framework)?.labelRegex ?? null)
+    : null;
+
+  if (PROMETHEUS_SOURCE_TYPES.includes(source.type)) {
+    return [renderPromqlTemplate(resolvePrometheusMapping(source), routeRegex)];
+  }
+
+  if (source.type === "loki") {
+    const lineMatch = routeRegex ? `(^|[\\s"=])${routeRegex}([\\s"?]|$)` : "HTTP|GET|POST|PUT|DELETE";
+    const build = (matchers: string[] = [], lineFilters: string[] = []) => {
+      const selector = `{${['job=~".+"', ...matchers].join(", ")}}`;
+      const filters = lineFilters.map((filter) => `${filter} `).join("");
+      return `sum(count_over_time(${selector} |~ ${promqlString(lineMatch)} ${filters}[${windowMinutes(candidate)}m]))`;
+    };
+    return rules.length > 0 ? [build(), build(...lokiSyntheticFilters(rules))] : [build()];
+  }
+
+  if (source.type === "datadog") {
+    let query = candidate.route_path
+      ? `sum:trace.http.request.hits{resource_name:*${candidate.route_path}*}`
+      : "sum:trace.http.request.hits{*}";
+    const groupTags = [
+      ...new Set(rules.map((rule) => rule.label_name || DATADOG_RULE_TAGS[rule.rule_type] || "")),
+    ]
+      .filter(Boolean)
+      .sort();
+    if (groupTags.length > 0) query += ` by {${groupTags.join(",")}}`;
+    return [`${query}.as_count()`];
+  }
+
+  return null;
+}
+
+function sampleSeries(series: PrometheusSeries[]): unknown[] {
+  return series.slice(0, SAMPLE_SERIES).map((entry) => ({
+    metric: entry.metric,
+    ...(entry.values ? { values: entry.values.slice(-SAMPLE_POINTS) } : { value: entry.value }),
+  }));
+}
+
+async function runDatadogQuery(
+  source: UnsealedObservabilitySource,
+  query: string,
+  from: number,
+  to: number
+): Promise<Pick<SourceProbeResult, "seriesCount" | "sample" | "errorType" | "errorMessage">> {
+  if (!source.token) {
+    return { seriesCount: null, sample: [], errorType: "no_token", errorMessage: "Datadog requires API key" };
+  }
+  // "api_key:app_key" or just "api_key"
+  const separator = source.token.indexOf(":");
+  const apiKey = separator >= 0 ? source.token.slice(0, separator) : source.token;
+  const appKey = separator >= 0 ? source.token.slice(separator + 1) : "";
+  const headers: Record<string, string> = { "DD-API-KEY": apiKey, "Content-Type": "application/json" };
+  if (appKey) headers["DD-APPLICATION-KEY"] = appKey;
+
+  const base = (source.url || DATADOG_DEFAULT_URL).replace(/\/+$/, "");
+  const params = new URLSearchParams({ from: String(from), to: String(to), query });
+  const url = `${base}/api/v1/query?${params}`;
+  const refused = await checkOutboundUrl(url);
+  if (refused) {
+    return { seriesCount: null, sample: [], errorType: "connection_error", errorMessage: refused };
+  }
+  const response = await fetch(url, {
+    headers,
+    redirect: "error",
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    return {
+      seriesCount: null,
+      sample: [],
+      errorType: response.status === 401 ? "auth_error" : "forbidden",
+      errorMessage: response.status === 401 ? "Datadog auth failed - check API key" : "Datadog access denied - check permissions",
+    };
+  }
+  const text = await response.text();
+  if (response.status !== 200) {
+    return {
+      seriesCount: null,
+      sample: [],
+      errorType: response.status === 400 ? "bad_request" : "http_error",
+      errorMessage: response.status === 400 ? "Datadog rejected the query (HTTP 400)" : `Datadog returned HTTP ${response.status}`,
+    };
+  }
+
+  const data = JSON.parse(text) as {
+    status?: string;
+    error?: string;
+    series?: { scope?: string; tag_set?: string[]; pointlist?: [number, number | null][] }[];
+  };
+  if (data.status !== "ok") {
+    return { seriesCount: null, sample: [], errorType: "api_error", errorMessage: `Datadog: ${(data.error || "Unknown error").slice(0, 100)}` };
+  }
+  const series = data.series ?? [];
+  return {
+    seriesCount: series.length,
+    sample: series.slice(0, SAMPLE_SERIES).map((entry) => ({
+      scope: entry.scope,
+      tagSet: entry.tag_set,
+      pointlist: (entry.pointlist ?? []).slice(-SAMPLE_POINTS),
+    })),
+    errorType: null,
+    errorMessage: null,
+  };
+}
+
+export async function probeSource(
+  source: UnsealedObservabilitySource,
+  candidate: ProbeCandidate,
+  rules: ProbeRule[],
+  lookback: ProbeLookback = "window"
+): Promise<SourceProbeResult> {
+  const result: SourceProbeResult = {
+    type: source.type,
+    url: source.url,
+    expression: null,
+    responseTimeMs: null,
+    seriesCount: null,
+    sample: [],
+    errorType: null,
+    errorMessage: null,
+  };
+
+  const queries = buildSourceQuery(source, candidate, rules);
+  if (!queries) {
+    return { ...result, errorType: "unsupported", errorMessage: `W2 does not query ${source.type} sources` };
+  }
+  result.expression = queries.join("\n");
+
+  const end = Math.floor(Date.now() / 1000);
+  const start = end - (PROBE_LOOKBACKS[lookback] ?? windowMinutes(candidate) * 60);
+  const started = Date.now();
+  try {
+    if (source.type === "datadog") {
+      Object.assign(result, await runDatadogQuery(source, queries[0], start, end));
+    } else if (source.type === "loki") {
+      const step = `${Math.max(60, Math.floor((windowMinutes(candidate) * 60) / 10))}s`;
+      // The unfiltered count comes first, as in W2; its series are the sample
+      for (const [i, logql] of queries.entries()) {
+        const { series } = await runQuery(source, "/loki/api/v1/query_range", {
+          query: logql,
+          start: `${start}000000000`,
+          end: `${end}000000000`,
+          step,
+        });
+        if (i === 0) {
+          result.seriesCount = series.length;
+          result.sample = sampleSeries(series);
+        }
+      }
+    } else {
+      const { series } = await runQuery(source, "/api/v1/query_range", {
+        query: queries[0],
+        start: String(start),
+        end: String(end),
+        step: "60",
+      });
+      result.seriesCount = series.length;
+      result.sample = sampleSeries(series);
+    }
+  } catch (error) {
+    if (error instanceof PrometheusQueryError) {
+      result.errorType = error.type;
+      result.errorMessage = error.message;
+    } else if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      result.errorType = "timeout";
+      result.errorMessage = `Timeout after ${REQUEST_TIMEOUT_MS / 1000}s`;
+    } else if (error instanceof SyntaxError) {
+      result.errorType = "invalid_response";
+      result.errorMessage = "Invalid JSON response";
+    } else {
+      result.errorType = "connection_error";
+      result.errorMessage = `Connection failed: ${error instanceof Error ? error.message.slice(0, 100) : "unknown error"}`;
+    }
+  }
+  result.responseTimeMs = Date.now() - started;
+  return result;
+}
@@ -0,0 +1,226 @@
+/**
+ * Synthetic Traffic Module
+ *
+ * Per-watcher rules that tell synthetic requests (Kubernetes liveness and
+ * readiness probes, load balancer health checks, uptime monitors) apart from
+ * real ones. W2 counts everything a source reports into raw_request_count and
+ * only what no rule matches into real_request_count; the zombie score is
+ * computed from real traffic, so a probed endpoint can still go quiet.
+ *
+ *   user_agent  → user agent label     (regex, case-insensitive, e.g. ^kube-probe/)
+ *   ip_range    → client IP label      (CIDR, e.g. 10.0.0.0/8)
+ *   label       → label_name's value   (regex matching the whole value, e.g. job = blackbox)
+ *   probe_path  → route / path label   (glob, e.g. /healthz or /health/**)
+ *
+ * Metric sources (Prometheus, Grafana, Datadog) are matched per series on
+ * its labels or tags, read from DEFAULT_RULE_LABELS unless the rule sets
+ * label_name. Loki gets the rules as line filters, and label rules as stream
+ * selectors. Spans pushed over OTLP and imported access log lines are
+ * matched when they arrive, on span attributes and lib/access-logs labels.
+ * W2 carries a Python copy of the matcher; keep the two in sync.
+ *
+ * Exports:
+ *   - SYNTHETIC_RULE_TYPES, SyntheticRuleType, SyntheticTrafficRule
+ *   - DEFAULT_RULE_LABELS: Labels read per rule type when label_name is empty
+ *   - SYNTHETIC_RULE_PRESETS: Common probes offered in the dashboard
+ *   - validateSyntheticRule(ruleType, pattern, labelName): Error message or null
+ *   - formatSyntheticRule(rule): "type:label=pattern" for the audit log
+ *   - ipInCidr(ip, cidr): Whether an IPv4 / IPv6 address is in a range
+ *   - findSyntheticRule(rules, labels): First rule marking a series synthetic
+ */
+import { globToRegExp } from "@/lib/exclusion-rules";
+
+export const SYNTHETIC_RULE_TYPES = ["user_agent", "ip_range", "label", "probe_path"] as const;
+
+export type SyntheticRuleType = (typeof SYNTHETIC_RULE_TYPES)[number];
+
+export interface SyntheticTrafficRule {
+  rule_id: number;
+  watcher_id: string;
+  rule_type: SyntheticRuleType;
+  label_name: string; // Empty = DEFAULT_RULE_LABELS
+  pattern: string;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+type MatchableRule = Pick<SyntheticTrafficRule, "rule_type" | "label_name" | "pattern">;
+
+export const DEFAULT_RULE_LABELS: Record<Exclude<SyntheticRuleType, "label">, string[]> = {
+  user_agent: ["user_agent", "http_user_agent", "useragent", "http.useragent", "http.user_agent", "user_agent.original"],
+  ip_range: ["client_ip", "remote_addr", "source_ip", "peer_ip", "network.client.ip", "client.address", "http.client_ip"],
+  probe_path: ["route", "path", "uri", "endpoint", "handler", "http_route", "http.route", "url.path", "http.target", "resource_name"],
+};
+
+export const SYNTHETIC_RULE_PRESETS: { name: string; ruleType: SyntheticRuleType; pattern: string }[] = [
+  { name: "Kubernetes probes", ruleType: "user_agent", pattern: "^kube-probe/" },
+  { name: "Cloud load balancer checks", ruleType: "user_agent", pattern: "^(ELB-HealthChecker|GoogleHC)/" },
+  { name: "Uptime monitors", ruleType: "user_agent", pattern: "UptimeRobot|Pingdom|StatusCake|Better ?Uptime|Site24x7" },
+  { name: "Datadog Synthetics", ruleType: "user_agent", pattern: "Datadog/Synthetics" },
+  { name: "Health check paths", ruleType: "probe_path", pattern: "/health*" },
+];
+
+const MAX_PATTERN_LENGTH = 500;
+const LABEL_NAME_REGEX = /^[A-Za-z_][\w.-]{0,99}$/;
+
+export function validateSyntheticRule(ruleType: unknown, pattern: unknown, labelName: unknown): string | null {
+  if (typeof ruleType !== "string" || !SYNTHETIC_RULE_TYPES.includes(ruleType as SyntheticRuleType)) {
+    return `Invalid rule type. Must be one of: ${SYNTHETIC_RULE_TYPES.join(", ")}`;
+  }
+  if (typeof pattern !== "string" || !pattern.trim()) {
+    return "Pattern is required";
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (labelName !== undefined && labelName !== null && typeof labelName !== "string") {
+    return "Label name must be a string";
+  }
+  const label = typeof labelName === "string" ? labelName.trim() : "";
+  if (ruleType === "label" && !label) {
+    return "Label rules need a label name";
+  }
+  if (label && !LABEL_NAME_REGEX.test(label)) {
+    return "Label name must start with a letter or underscore and contain only letters, digits, _, . and -";
+  }
+
+  switch (ruleType) {
+    case "user_agent":
+    case "label":
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        return `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      // Loki evaluates the rules with RE2, which has no lookarounds or backreferences
+      if (/\(\?<?[=!]|\\[1-9]/.test(pattern)) {
+        return "Lookarounds and backreferences are not supported";
+      }
+      return null;
+    case "ip_range":
+      return parseCidr(pattern.trim()) ? null : "IP range must be an address or CIDR, e.g. 10.0.0.0/8";
+    case "probe_path":
+      return pattern.trim().startsWith("/") ? null : "Probe path must start with /";
+    default:
+      return null;
+  }
+}
+
+export function formatSyntheticRule(rule: MatchableRule): string {
+  return `${rule.rule_type}:${rule.label_name ? `${rule.label_name}=` : ""}${rule.pattern}`;
+}
+
+// Addresses as bit strings ("0101…"), 32 characters for IPv4 and 128 for IPv6
+function ipv4Bits(text: string): string | null {
+  const match = text.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+  return octets.map((octet) => octet.toString(2).padStart(8, "0")).join("");
+}
+
+function ipv6Bits(text: string): string | null {
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string): number[] | null => {
+    if (!part) return [];
+    const groups: number[] = [];
+    for (const piece of part.split(":")) {
+      if (piece.includes(".")) {
+        // Embedded IPv4, e.g. ::ffff:10.0.0.1
+        const bits = ipv4Bits(piece);
+        if (bits === null) return null;
+        groups.push(parseInt(bits.slice(0, 16), 2), parseInt(bits.slice(16), 2));
+      } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+        groups.push(parseInt(piece, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) return null;
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...new Array<number>(halves.length === 2 ? missing : 0).fill(0), ...tail];
+  return groups.map((group) => group.toString(2).padStart(16, "0")).join("");
+}
+
+/** Bits of an address label value; strips brackets, zone ids and IPv4 ports. */
+function ipBits(value: string): string | null {
+  const text = value.trim().replace(/^\[(.*)\](:\d+)?$/, "$1").split("%")[0];
+  const v4 = text.match(/^(\d{1,3}(?:\.\d{1,3}){3})(?::\d+)?$/);
+  if (v4) return ipv4Bits(v4[1]);
+  return text.includes(":") ? ipv6Bits(text) : null;
+}
+
+function parseCidr(cidr: string): { bits: string; prefix: number } | null {
+  const [address, prefixText, extra] = cidr.split("/");
+  if (extra !== undefined) return null;
+  const bits = address.includes(":") ? ipv6Bits(address) : ipv4Bits(address);
+  if (bits === null) return null;
+  if (prefixText === undefined) return { bits, prefix: bits.length };
+  if (!/^\d{1,3}$/.test(prefixText) || parseInt(prefixText, 10) > bits.length) return null;
+  return { bits, prefix: parseInt(prefixText, 10) };
+}
+
+export function ipInCidr(ip: string, cidr: string): boolean {
+  const network = parseCidr(cidr.trim());
+  let bits = ipBits(ip);
+  if (!network || bits === null) return false;
+  // IPv4-mapped IPv6 (::ffff:a.b.c.d) against an IPv4 range
+  if (bits.length === 128 && network.bits.length === 32 && bits.startsWith(`${"0".repeat(80)}${"1".repeat(16)}`)) {
+    bits = bits.slice(96);
+  }
+  return bits.length === network.bits.length && bits.slice(0, network.prefix) === network.bits.slice(0, network.prefix);
+}
+
+function matchesRule(rule: MatchableRule, labels: Record<string, string>): boolean {
+  const keys = rule.label_name
+    ? [rule.label_name]
+    : rule.rule_type === "label"
+      ? []
+      : DEFAULT_RULE_LABELS[rule.rule_type];
+
+  for (const key of keys) {
+    const value = labels[key];
+    if (value === undefined) continue;
+
+    switch (rule.rule_type) {
+      case "user_agent":
+        if (new RegExp(rule.pattern, "i").test(value)) return true;
+        break;
+      case "ip_range":
+        if (ipInCidr(value, rule.pattern)) return true;
+        break;
+      case "label":
+        if (new RegExp(`^(?:${rule.pattern})$`).test(value)) return true;
+        break;
+      case "probe_path": {
+        // Datadog resource names look like "GET /healthz"
+        const path = value.replace(/^[A-Z]+\s+/, "").split("?")[0];
+        if (globToRegExp(rule.pattern).test(path)) return true;
+        break;
+      }
+    }
+  }
+  return false;
+}
+
+export function findSyntheticRule<T extends MatchableRule>(rules: T[], labels: Record<string, string>): T | null {
+  for (const rule of rules) {
+    try {
+      if (matchesRule(rule, labels)) return rule;
+    } catch {
+      // One broken pattern must not stop the other rules from filtering
+    }
+  }
+  return null;
+}
@@ -0,0 +1,41 @@
+/**
+ * Watcher Status Module
+ *
+ * Derives a watcher's scheduling status from its candidates. Called inside
+ * the transaction of every route that schedules, unschedules or resets
+ * candidates, so the watcher never disagrees with the rows just written.
+ *
+ *   pending_schedule     no candidate is active
+ *   partially_scheduled  some candidates are active, some still pending
+ *   active               candidates are active and none are pending
+ *
+ * Exports:
+ *   - updateWatcherStatus(client, watcherId): Recompute and store the status
+ */
+import { PoolClient } from "pg";
+
+export async function updateWatcherStatus(client: PoolClient, watcherId: string): Promise<void> {
+  const statusResult = await client.query(
+    `SELECT
+       COUNT(*) FILTER (WHERE status = 'active') as active,
+       COUNT(*) FILTER (WHERE status = 'pending') as pending
+     FROM zombie_candidates
+     WHERE watcher_id = $1`,
+    [watcherId]
+  );
+
+  const activeCount = parseInt(statusResult.rows[0].active);
+  const pendingCount = parseInt(statusResult.rows[0].pending);
+
+  let newStatus = "pending_schedule";
+  if (activeCount > 0 && pendingCount === 0) {
+    newStatus = "active";
+  } else if (activeCount > 0 && pendingCount > 0) {
+    newStatus = "partially_scheduled";
+  }
+
+  await client.query(
+    `UPDATE watchers SET status = $1, updated_at = NOW() WHERE watcher_id = $2`,
+    [newStatus, watcherId]
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * Watcher Validation Module
+ *
+ * Input checks shared by watcher creation (POST /api/watchers/create) and
+ * watcher edits (PATCH /api/watchers/[id]): duplicate names/repositories,
+ * application URL reachability and GitHub repository/branch access.
+ *
+ * Exports:
+ *   - GITHUB_REPO_REGEX, URL_REGEX: Input format checks
+ *   - checkDuplicates(name, repoUrl, userId, excludeWatcherId?): Per-user uniqueness
+ *   - validateApplicationUrl(url): Reachability check (HEAD, then GET)
+ *   - validateGitHubRepo(repoUrl, token?): Repository access and details
+ *   - validateGitHubBranch(repoUrl, branch, token?): Branch exists and is readable
+ */
+import { pool } from "@/lib/db";
+
+export interface GitHubRepoDetails {
+  name: string;
+  fullName: string;
+  private: boolean;
+  defaultBranch: string;
+  language: string | null;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export const GITHUB_REPO_REGEX = /^https:\/\/github\.com\/[\w\-.]+\/[\w\-.]+\/?$/;
+export const URL_REGEX = /^https?:\/\/[^\s/$.?#].[^\s]*$/i;
+
+/**
+ * Check for duplicate watcher name or repository URL for the same user.
+ * Pass repoUrl = null to check only the name, and excludeWatcherId when
+ * validating an edit so the watcher does not collide with itself.
+ */
+export async function checkDuplicates(
+  name: string,
+  repoUrl: string | null,
+  userId: string,
+  excludeWatcherId?: string
+): Promise<{ isDuplicate: boolean; error?: string }> {
+  try {
+    // Check for duplicate name (case-insensitive) for this user
+    const nameCheck = await pool.query(
+      `SELECT watcher_name FROM watchers 
+       WHERE LOWER(watcher_name) = LOWER($1) AND user_id = $2 AND watcher_id <> $3
+       LIMIT 1`,
+      [name, userId, excludeWatcherId ?? ""]
+    );
+
+    if (nameCheck.rows.length > 0) {
+      return {
+        isDuplicate: true,
+        error: `A watcher named "${nameCheck.rows[0].watcher_name}" already exists. Please choose a different name.`,
+      };
+    }
+
+    if (!repoUrl) return { isDuplicate: false };
+
+    // Normalize repo URL (remove trailing slash for comparison)
+    const normalizedRepoUrl = repoUrl.replace(/\/$/, "").toLowerCase();
+
+    // Check for duplicate repo URL for this user
+    const repoCheck = await pool.query(
+      `SELECT watcher_name, repo_url FROM watchers 
+       WHERE LOWER(REPLACE(repo_url, '/', '')) = LOWER(REPLACE($1, '/', '')) AND user_id = $2 AND watcher_id <> $3
+       LIMIT 1`,
+      [normalizedRepoUrl, userId, excludeWatcherId ?? ""]
+    );
+
+    if (repoCheck.rows.length > 0) {
+      return {
+        isDuplicate: true,
+        error: `This repository is already being watched by "${repoCheck.rows[0].watcher_name}". Each repository can only have one watcher per user.`,
+      };
+    }
+
+    return { isDuplicate: false };
+  } catch (error) {
+    console.error("[watcher-validation] Duplicate check error:", error);
+    // Don't block creation or edits if the duplicate check fails
+    return { isDuplicate: false };
+  }
+}
+
+/**
+ * Validate Application URL is reachable
+ */
+export async function validateApplicationUrl(url: string): Promise<ValidationResult> {
+  try {
+    const response = await fetch(url, {
+      method: "HEAD",
+      signal: AbortSignal.timeout(10000),
+      redirect: "follow",
+    });
+    
+    // Accept any 2xx or 3xx response, also 405 (method not allowed) since some servers don't support HEAD
+    if (response.ok || response.status === 405 || (response.status >= 300 && response.status < 400)) {
+      return { valid: true };
+    }
+    
+    // Try GET if HEAD failed with 4xx (some servers don't support HEAD)
+    if (response.status >= 400 && response.status < 500) {
+      const getResponse = await fetch(url, {
+        method: "GET",
+        signal: AbortSignal.timeout(10000),
+        redirect: "follow",
+      });
+      if (getResponse.ok) {
+        return { valid: true };
+      }
+    }
+    
+    return { valid: false, error: `Application URL returned HTTP ${response.status}` };
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.name === "AbortError" || error.name === "TimeoutError") {
+        return { valid: false, error: "Application URL request timed out" };
+      }
+      return { valid: false, error: `Cannot reach Application URL: ${error.message.slice(0, 100)}` };
+    }
+    return { valid: false, error: "Cannot reach Application URL" };
+  }
+}
+
+/**
+ * Validate GitHub repository via API
+ */
+export async function validateGitHubRepo(
+  repoUrl: string,
+  githubToken?: string
+): Promise<{ valid: boolean; error?: string; details?: GitHubRepoDetails }> {
+  const repoPath = repoUrl.replace("https://github.com/", "").replace(/\/$/, "");
+  const apiUrl = `https://api.github.com/repos/${repoPath}`;
+
+  const headers: HeadersInit = {
+    Accept: "application/vnd.github.v3+json",
+    "User-Agent": "Doomsday-Watcher/1.0",
+  };
+
+  if (githubToken) {
+    headers["Authorization"] = `token ${githubToken}`;
+  }
+
+  try {
+    const response = await fetch(apiUrl, {
+      method: "GET",
+      headers,
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      return {
+        valid: true,
+        details: {
+          name: data.name,
+          fullName: data.full_name,
+          private: data.private ?? false,
+          defaultBranch: data.default_branch ?? "main",
+          language: data.language,
+        },
+      };
+    }
+
+    switch (response.status) {
+      case 404:
+        return {
+          valid: false,
+          error: githubToken
+            ? "Repository not found or access denied"
+            : "Repository not found. If private, provide a GitHub token",
+        };
+      case 401:
+        return { valid: false, error: "Invalid GitHub token" };
+      case 403:
+        return { valid: false, error: "GitHub API rate limited or access forbidden" };
+      default:
+        return { valid: false, error: `GitHub API error: HTTP ${response.status}` };
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.name === "AbortError" || error.name === "TimeoutError") {
+        return { valid: false, error: "GitHub API request timed out" };
+      }
+      return { valid: false, error: `Network error: ${error.message.slice(0, 100)}` };
+    }
+    return { valid: false, error: "Unknown error validating repository" };
+  }
+}
+
+/**
+ * Validate a branch exists in the repository and is readable with the token
+ */
+export async function validateGitHubBranch(
+  repoUrl: string,
+  branch: string,
+  githubToken?: string | null
+): Promise<ValidationResult> {
+  const repoPath = repoUrl.replace("https://github.com/", "").replace(/\/$/, "");
+  const apiUrl = `https://api.github.com/repos/${repoPath}/branches/${encodeURIComponent(branch)}`;
+
+  const headers: HeadersInit = {
+    Accept: "application/vnd.github.v3+json",
+    "User-Agent": "Doomsday-Watcher/1.0",
+  };
+
+  if (githubToken) {
+    headers["Authorization"] = `token ${githubToken}`;
+  }
+
+  try {
+    const response = await fetch(apiUrl, {
+      method: "GET",
+      headers,
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (response.ok) {
+      return { valid: true };
+    }
+
+    switch (response.status) {
+      case 404:
+        return { valid: false, error: `Branch "${branch}" not found in repository` };
+      case 401:
+        return { valid: false, error: "Invalid GitHub token" };
+      case 403:
+        return { valid: false, error: "GitHub API rate limited or access forbidden" };
+      default:
+        return { valid: false, error: `GitHub API error: HTTP ${response.status}` };
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.name === "AbortError" || error.name === "TimeoutError") {
+        return { valid: false, error: "GitHub API request timed out" };
+      }
+      return { valid: false, error: `Network error: ${error.message.slice(0, 100)}` };
+    }
+    return { valid: false, error: "Unknown error validating branch" };
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Zombie Probability Module
+ *
+ * Estimates the probability that a candidate is dead from its observation
+ * history, instead of adding a fixed amount per zero-traffic poll. The
+ * result does not depend on how often W2 polls, only on how much quiet time
+ * was actually observed.
+ *
+ *   P(dead | silence) = prior / (prior + (1 - prior) * P(silence | alive))
+ *
+ * P(silence | alive):
+ *   - Poisson-Gamma (default): request rate λ ~ Gamma(shape, rate), updated
+ *     with the traffic seen before the quiet period. Silence over E hours has
+ *     probability (rate / (rate + E)) ^ shape.
+ *   - Cron cadence (candidates with a parsable schedule): a live job runs
+ *     every interval, and each expected run goes unseen with CRON_MISS_RATE.
+ *
+ * Quiet time counts only what the sources could see: each observation
+ * contributes its window times the share of sources queried without error.
+ * Requests are the real ones, without synthetic traffic (lib/synthetic-traffic).
+ *
+ * W2 (w2_observation_loop.yml) carries a Python copy of this model and of
+ * the interval math in lib/cron, and stores 100 * P(dead) as zombie_score;
+ * keep them in sync.
+ *
+ * Exports:
+ *   - ScoreEvidence, ScoreExplanation
+ *   - SCORE_EVIDENCE_SQL: Evidence query for one candidate ($1 = candidate_id)
+ *   - explainZombieScore(evidence): Probability, score and component breakdown
+ */
+import { cronIntervalMinutes } from "@/lib/cron";
+
+export interface ScoreEvidence {
+  schedule: string | null;
+  windowMinutes: number; // scan_frequency_minutes, the span of one observation
+  trafficSeen: boolean;
+  // Observations up to and including the last one with traffic
+  historicalRequests: number;
+  historicalCoverage: number; // Sum of per-observation source coverage (0-1 each)
+  // Observations after the last one with traffic (all of them if none had traffic)
+  quietObservations: number;
+  quietCoverage: number;
+}
+
+export interface ScoreExplanation {
+  probabilityDead: number; // 0-1
+  score: number; // 0-100, what W2 stores as zombie_score
+  model: "poisson_gamma" | "cron_cadence";
+  components: {
+    prior: { probabilityDead: number; reason: string };
+    quietWindow: {
+      observations: number;
+      hours: number;
+      effectiveHours: number; // Hours the sources could actually see
+      sourceCoverage: number | null; // effectiveHours / hours
+    };
+    historicalRate: {
+      requests: number;
+      hours: number;
+      requestsPerHour: number; // Posterior mean, after the history weight
+      weight: number;
+    } | null;
+    cronCadence: {
+      schedule: string;
+      intervalMinutes: number;
+      expectedRuns: number;
+    } | null;
+    expectedRequestsIfAlive: number;
+    likelihoodIfAlive: number; // P(silence | alive)
+    bayesFactor: number; // P(silence | dead) / P(silence | alive)
+  };
+}
+
+// Prior that a candidate is dead before any quiet time is observed
+const PRIOR_NEVER_SEEN = 0.5;
+// Traffic was seen, so it was alive then; dying since is the less likely story
+const PRIOR_AFTER_TRAFFIC = 0.1;
+// Gamma prior on requests per hour: mean 1 request a day, weak
+const RATE_PRIOR_SHAPE = 1;
+const RATE_PRIOR_HOURS = 24;
+// Real traffic is burstier than Poisson; historical evidence counts for less
+const HISTORY_WEIGHT = 0.25;
+// Chance one expected cron run leaves no trace in the sources
+const CRON_MISS_RATE = 0.1;
+// Keeps the Bayes factor finite when the likelihood underflows
+const MIN_LIKELIHOOD = 1e-12;
+
+/**
+ * Evidence for explainZombieScore from observation_summaries. Coverage is the
+ * share of sources that answered without error; the quiet period starts after
+ * the last observation with traffic.
+ */
+export const SCORE_EVIDENCE_SQL = `
+  WITH summaries AS (
+    SELECT
+      observed_at,
+      traffic_detected,
+      COALESCE(real_request_count, total_request_count, 0) AS requests,
+      CASE WHEN total_sources_queried > 0
+        THEN GREATEST(total_sources_queried - sources_with_errors, 0)::float / total_sources_queried
+        ELSE 0
+      END AS coverage
+    FROM observation_summaries
+    WHERE candidate_id = $1
+  ),
+  last_traffic AS (
+    SELECT MAX(observed_at) FILTER (WHERE traffic_detected) AS at FROM summaries
+  )
+  SELECT
+    (lt.at IS NOT NULL) AS traffic_seen,
+    COALESCE(SUM(s.requests) FILTER (WHERE s.observed_at <= lt.at), 0)::int AS historical_requests,
+    COALESCE(SUM(s.coverage) FILTER (WHERE s.observed_at <= lt.at), 0)::float AS historical_coverage,
+    COUNT(s.observed_at) FILTER (WHERE lt.at IS NULL OR s.observed_at > lt.at)::int AS quiet_observations,
+    COALESCE(SUM(s.coverage) FILTER (WHERE lt.at IS NULL OR s.observed_at > lt.at), 0)::float AS quiet_coverage
+  FROM last_traffic lt
+  LEFT JOIN summaries s ON TRUE
+  GROUP BY lt.at`;
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Probability that the candidate is dead, with the numbers behind it
+ */
+export function explainZombieScore(evidence: ScoreEvidence): ScoreExplanation {
+  const windowHours = Math.max(evidence.windowMinutes, 1) / 60;
+  const hours = evidence.quietObservations * windowHours;
+  const effectiveHours = evidence.quietCoverage * windowHours;
+
+  const prior = evidence.trafficSeen ? PRIOR_AFTER_TRAFFIC : PRIOR_NEVER_SEEN;
+  const priorReason = evidence.trafficSeen
+    ? "Traffic was seen before, so it was alive then"
+    : "No traffic seen yet";
+
+  const intervalMinutes = cronIntervalMinutes(evidence.schedule);
+  let likelihood: number;
+  let expectedRequests: number;
+  let historicalRate: ScoreExplanation["components"]["historicalRate"] = null;
+  let cronCadence: ScoreExplanation["components"]["cronCadence"] = null;
+
+  if (intervalMinutes !== null) {
+    const expectedRuns = (effectiveHours * 60) / intervalMinutes;
+    likelihood = Math.pow(CRON_MISS_RATE, expectedRuns);
+    expectedRequests = expectedRuns;
+    cronCadence = { schedule: evidence.schedule!, intervalMinutes: round(intervalMinutes, 2), expectedRuns: round(expectedRuns, 2) };
+  } else {
+    const historyHours = evidence.historicalCoverage * windowHours;
+    const shape = RATE_PRIOR_SHAPE + HISTORY_WEIGHT * evidence.historicalRequests;
+    const rate = RATE_PRIOR_HOURS + HISTORY_WEIGHT * historyHours;
+    likelihood = Math.pow(rate / (rate + effectiveHours), shape);
+    expectedRequests = (shape / rate) * effectiveHours;
+    if (evidence.trafficSeen) {
+      historicalRate = {
+        requests: evidence.historicalRequests,
+        hours: round(historyHours, 2),
+        requestsPerHour: round(shape / rate, 4),
+        weight: HISTORY_WEIGHT,
+      };
+    }
+  }
+
+  likelihood = Math.max(likelihood, MIN_LIKELIHOOD);
+  const probabilityDead = prior / (prior + (1 - prior) * likelihood);
+
+  return {
+    probabilityDead: round(probabilityDead, 4),
+    score: Math.round(probabilityDead * 100),
+    model: intervalMinutes !== null ? "cron_cadence" : "poisson_gamma",
+    components: {
+      prior: { probabilityDead: prior, reason: priorReason },
+      quietWindow: {
+        observations: evidence.quietObservations,
+        hours: round(hours, 2),
+        effectiveHours: round(effectiveHours, 2),
+        sourceCoverage: hours > 0 ? round(effectiveHours / hours, 3) : null,
+      },
+      historicalRate,
+      cronCadence,
+      expectedRequestsIfAlive: round(expectedRequests, 2),
+      likelihoodIfAlive: likelihood,
+      bayesFactor: round(1 / likelihood, 2),
+    },
+  };
+}